@@ -0,0 +1,282 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/lib/auth-context'
+import { authenticatedFetch } from '@/lib/supabase'
+import { toast } from 'react-toastify'
+import {
+  ExclamationTriangleIcon,
+  LinkIcon,
+  UserPlusIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+
+interface CandidatePerson {
+  id: string
+  name: string | null
+  dob: string | null
+  ssn_last4: string | null
+  address: string | null
+  phones: string[]
+  account_count: number
+}
+
+interface IdentityCandidate {
+  personId: string
+  score: number
+  signals: {
+    ssnMatch: boolean
+    ssnConflict: boolean
+    nameScore: number
+    dobMatch: boolean
+    addressScore: number
+    phoneMatch: boolean
+  }
+  person: CandidatePerson | null
+}
+
+interface IdentityReview {
+  id: string
+  job_id: string
+  row_number: number
+  reason: string | null
+  mapped_data: Record<string, any>
+  candidates: IdentityCandidate[]
+  created_at: string
+  import_jobs: { id: string; file_name: string }
+}
+
+function describeSignals(signals: IdentityCandidate['signals']): string[] {
+  const matches: string[] = []
+  if (signals.ssnMatch) matches.push('SSN')
+  if (signals.ssnConflict) matches.push('SSN differs')
+  if (signals.nameScore >= 0.6) matches.push(`Name ${Math.round(signals.nameScore * 100)}%`)
+  if (signals.dobMatch) matches.push('DOB')
+  if (signals.addressScore >= 0.6) matches.push(`Address ${Math.round(signals.addressScore * 100)}%`)
+  if (signals.phoneMatch) matches.push('Phone')
+  return matches
+}
+
+export default function IdentityReviewsPage() {
+  const { user, isPlatformAdmin, isAgencyAdmin } = useAuth()
+  const [reviews, setReviews] = useState<IdentityReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+
+  const canReview = isPlatformAdmin || isAgencyAdmin
+
+  useEffect(() => {
+    if (canReview) {
+      fetchReviews()
+    }
+  }, [canReview])
+
+  const fetchReviews = async () => {
+    setLoading(true)
+    try {
+      const response = await authenticatedFetch('/api/import/identity-reviews?status=pending')
+      if (response.ok) {
+        const data = await response.json()
+        setReviews(data.reviews || [])
+      } else {
+        toast.error('Failed to fetch identity reviews')
+      }
+    } catch (error) {
+      console.error('Error fetching identity reviews:', error)
+      toast.error('Failed to fetch identity reviews')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resolveReview = async (review: IdentityReview, action: 'link' | 'create' | 'dismiss', personId?: string) => {
+    setResolvingId(review.id)
+    try {
+      const response = await authenticatedFetch(`/api/import/identity-reviews/${review.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, personId })
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        setReviews(prev => prev.filter(r => r.id !== review.id))
+        toast.success(
+          action === 'link' ? 'Account linked to existing person'
+            : action === 'create' ? 'Account created for a new person'
+            : 'Row dismissed'
+        )
+      } else {
+        toast.error(result.error || 'Failed to resolve identity review')
+      }
+    } catch (error) {
+      console.error('Error resolving identity review:', error)
+      toast.error('Failed to resolve identity review')
+    } finally {
+      setResolvingId(null)
+    }
+  }
+
+  if (!user) {
+    return <div>Loading...</div>
+  }
+
+  if (!canReview) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <ExclamationTriangleIcon className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600">You don't have permission to access this page.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Identity Reviews</h1>
+            <p className="mt-2 text-gray-600">
+              Imported rows that may belong to a person already on file. Link each row to the right person or create a new one.
+            </p>
+          </div>
+          <Button onClick={fetchReviews} disabled={loading} variant="outline">
+            {loading ? 'Loading...' : 'Refresh'}
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading identity reviews...</p>
+          </div>
+        ) : reviews.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8 text-gray-500">
+              No rows waiting for review
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {reviews.map(review => {
+              const row = review.mapped_data
+              const rowName = [row.first_name, row.last_name].filter(Boolean).join(' ') || 'Unnamed row'
+              const rowAddress = [row.address_line1, row.city, row.state, row.zip_code].filter(Boolean).join(', ')
+              const isResolving = resolvingId === review.id
+
+              return (
+                <Card key={review.id}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-lg">
+                        {rowName}
+                        <span className="ml-2 text-sm font-normal text-gray-500">
+                          {review.import_jobs?.file_name} · row {review.row_number}
+                        </span>
+                      </CardTitle>
+                      {review.reason && <Badge variant="outline">{review.reason}</Badge>}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                      <div>
+                        <div className="text-gray-500">Account</div>
+                        <div className="font-medium">{row.original_account_number || '—'}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">SSN</div>
+                        <div className="font-medium">{row.ssn_last4 ? `***-**-${row.ssn_last4}` : '—'}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">DOB</div>
+                        <div className="font-medium">{row.date_of_birth || '—'}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Phone</div>
+                        <div className="font-medium">{row.phone_primary || '—'}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Address</div>
+                        <div className="font-medium">{rowAddress || '—'}</div>
+                      </div>
+                    </div>
+
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">Possible matches</h4>
+                      {review.candidates.length === 0 ? (
+                        <p className="text-sm text-gray-500">No candidates recorded</p>
+                      ) : (
+                        <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                          {review.candidates.map(candidate => (
+                            <div key={candidate.personId} className="flex items-center justify-between p-3">
+                              <div className="text-sm">
+                                <div className="font-medium">
+                                  {candidate.person?.name || 'Unknown person'}
+                                  <span className="ml-2 text-gray-500">score {Math.round(candidate.score * 100)}%</span>
+                                </div>
+                                <div className="text-gray-500">
+                                  DOB {candidate.person?.dob || '—'} · SSN {candidate.person?.ssn_last4 ? `***-**-${candidate.person.ssn_last4}` : '—'}
+                                  {' · '}{candidate.person?.account_count || 0} account(s)
+                                </div>
+                                {candidate.person?.address && (
+                                  <div className="text-gray-500">{candidate.person.address}</div>
+                                )}
+                                <div className="mt-1 flex flex-wrap gap-1">
+                                  {describeSignals(candidate.signals).map(signal => (
+                                    <Badge key={signal} variant="outline">{signal}</Badge>
+                                  ))}
+                                </div>
+                              </div>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={isResolving}
+                                onClick={() => resolveReview(review, 'link', candidate.personId)}
+                                className="flex items-center gap-1"
+                              >
+                                <LinkIcon className="h-4 w-4" />
+                                Link
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        disabled={isResolving}
+                        onClick={() => resolveReview(review, 'create')}
+                        className="flex items-center gap-1"
+                      >
+                        <UserPlusIcon className="h-4 w-4" />
+                        Create New Person
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isResolving}
+                        onClick={() => resolveReview(review, 'dismiss')}
+                        className="flex items-center gap-1 text-red-600"
+                      >
+                        <XMarkIcon className="h-4 w-4" />
+                        Dismiss Row
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
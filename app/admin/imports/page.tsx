@@ -16,6 +16,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useImportJobsProgress } from '@/lib/hooks/useImportJobsProgress'
 
 interface ImportJob {
   id: string
@@ -48,6 +49,23 @@ export default function AdminImportsPage() {
     }
   }, [isPlatformAdmin])
 
+  // Running jobs stream their progress; refetch the list when one changes status
+  const liveProgress = useImportJobsProgress(
+    imports.filter(job => ['pending', 'validating', 'processing'].includes(job.status)).map(job => job.id),
+    () => fetchImports()
+  )
+  const displayImports = imports.map(job => {
+    const live = liveProgress[job.id]?.progress
+    if (!live) return job
+    return {
+      ...job,
+      status: liveProgress[job.id].status || job.status,
+      progress: live.progress,
+      processed_rows: live.phase === 'processing' ? live.rowsDone : job.processed_rows,
+      total_rows: live.totalRows ?? job.total_rows
+    }
+  })
+
   const fetchImports = async () => {
     try {
       const response = await authenticatedFetch('/api/import?limit=100')
@@ -283,7 +301,7 @@ export default function AdminImportsPage() {
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {imports.map((importJob) => (
+                    {displayImports.map((importJob) => (
                       <tr key={importJob.id} className="hover:bg-gray-50">
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center">
@@ -317,6 +335,17 @@ export default function AdminImportsPage() {
                               {importJob.processed_rows || 0} / {importJob.total_rows} rows
                             </div>
                           )}
+                          {liveProgress[importJob.id]?.progress?.rowsPerSecond ? (
+                            <div className="text-xs text-gray-500">
+                              {liveProgress[importJob.id].progress!.rowsPerSecond} rows/s
+                              {liveProgress[importJob.id].progress!.etaSeconds !== null && `, ~${liveProgress[importJob.id].progress!.etaSeconds}s left`}
+                            </div>
+                          ) : null}
+                          {(liveProgress[importJob.id]?.errors.length || 0) > 0 && (
+                            <div className="text-xs text-red-600">
+                              {liveProgress[importJob.id].errors.length} row error(s)
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {formatDate(importJob.created_at)}
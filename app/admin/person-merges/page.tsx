@@ -0,0 +1,359 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/lib/auth-context'
+import { authenticatedFetch } from '@/lib/supabase'
+import { toast } from 'react-toastify'
+import {
+  ArrowUturnLeftIcon,
+  ExclamationTriangleIcon,
+  MagnifyingGlassIcon,
+  UsersIcon
+} from '@heroicons/react/24/outline'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+
+interface PersonResult {
+  id: string
+  first_name: string | null
+  last_name: string | null
+  full_name: string | null
+  dob: string | null
+  ssn: string | null
+  created_at: string
+  debt_accounts: { id: string; original_account_number: string | null; current_balance: number | null }[]
+  person_addresses: { full_address: string; is_current: boolean }[]
+  person_phones: { number: string }[]
+}
+
+interface PersonMerge {
+  id: string
+  survivor_id: string
+  merged_person_ids: string[]
+  moved_records: Record<string, { id: string; person_id: string }[]>
+  reason: string | null
+  status: 'merged' | 'unmerged'
+  merged_at: string
+  unmerged_at: string | null
+  survivor: { id: string; first_name: string | null; last_name: string | null; full_name: string | null } | null
+}
+
+function personName(person: { first_name: string | null; last_name: string | null; full_name: string | null } | null): string {
+  if (!person) return 'Unknown person'
+  return [person.first_name, person.last_name].filter(Boolean).join(' ') || person.full_name || 'Unnamed person'
+}
+
+function maskSSN(ssn: string | null): string {
+  const digits = (ssn || '').replace(/\D/g, '')
+  return digits.length >= 4 ? `***-**-${digits.slice(-4)}` : '—'
+}
+
+function countMoved(merge: PersonMerge): number {
+  return Object.values(merge.moved_records || {}).reduce((total, rows) => total + rows.length, 0)
+}
+
+export default function PersonMergesPage() {
+  const { user, isPlatformAdmin, isAgencyAdmin } = useAuth()
+  const [searchTerm, setSearchTerm] = useState('')
+  const [searching, setSearching] = useState(false)
+  const [results, setResults] = useState<PersonResult[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [survivorId, setSurvivorId] = useState<string | null>(null)
+  const [reason, setReason] = useState('')
+  const [merging, setMerging] = useState(false)
+  const [merges, setMerges] = useState<PersonMerge[]>([])
+  const [loadingMerges, setLoadingMerges] = useState(true)
+  const [unmergingId, setUnmergingId] = useState<string | null>(null)
+
+  const canMerge = isPlatformAdmin || isAgencyAdmin
+
+  useEffect(() => {
+    if (canMerge) {
+      fetchMerges()
+    }
+  }, [canMerge])
+
+  const fetchMerges = async () => {
+    setLoadingMerges(true)
+    try {
+      const response = await authenticatedFetch('/api/persons/merges?limit=50')
+      if (response.ok) {
+        const data = await response.json()
+        setMerges(data.merges || [])
+      } else {
+        toast.error('Failed to fetch merge history')
+      }
+    } catch (error) {
+      console.error('Error fetching merges:', error)
+      toast.error('Failed to fetch merge history')
+    } finally {
+      setLoadingMerges(false)
+    }
+  }
+
+  const handleSearch = async () => {
+    const term = searchTerm.trim()
+    if (!term) return
+
+    setSearching(true)
+    try {
+      // Digits-only searches are treated as an SSN
+      const digits = term.replace(/\D/g, '')
+      const params = digits.length === 9 && digits.length === term.replace(/[\s-]/g, '').length
+        ? `ssn=${encodeURIComponent(digits)}`
+        : `name=${encodeURIComponent(term)}`
+
+      const response = await authenticatedFetch(`/api/persons?${params}&limit=25`)
+      if (response.ok) {
+        const data = await response.json()
+        setResults(data.persons || [])
+        setSelectedIds([])
+        setSurvivorId(null)
+      } else {
+        toast.error('Failed to search persons')
+      }
+    } catch (error) {
+      console.error('Error searching persons:', error)
+      toast.error('Failed to search persons')
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const toggleSelected = (personId: string) => {
+    setSelectedIds(prev => {
+      const next = prev.includes(personId) ? prev.filter(id => id !== personId) : [...prev, personId]
+      if (survivorId && !next.includes(survivorId)) setSurvivorId(null)
+      return next
+    })
+  }
+
+  const handleMerge = async () => {
+    if (!survivorId || selectedIds.length < 2) return
+
+    const mergedIds = selectedIds.filter(id => id !== survivorId)
+    if (!confirm(`Merge ${mergedIds.length} person(s) into the selected survivor? Their accounts and contact data will move to the survivor.`)) return
+
+    setMerging(true)
+    try {
+      const response = await authenticatedFetch('/api/persons/merges', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ survivorId, mergedIds, reason: reason.trim() || null })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(`Merged ${mergedIds.length} person(s) - ${countMoved(data.merge)} records moved`)
+        setResults(prev => prev.filter(person => !mergedIds.includes(person.id)))
+        setSelectedIds([])
+        setSurvivorId(null)
+        setReason('')
+        fetchMerges()
+      } else {
+        toast.error(data.details || data.error || 'Failed to merge persons')
+      }
+    } catch (error) {
+      console.error('Error merging persons:', error)
+      toast.error('Failed to merge persons')
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const handleUnmerge = async (merge: PersonMerge) => {
+    if (!confirm(`Undo this merge? ${countMoved(merge)} records will move back to their original persons.`)) return
+
+    setUnmergingId(merge.id)
+    try {
+      const response = await authenticatedFetch(`/api/persons/merges/${merge.id}/unmerge`, {
+        method: 'POST'
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        toast.success('Merge undone')
+        fetchMerges()
+      } else {
+        toast.error(data.details || data.error || 'Failed to undo merge')
+      }
+    } catch (error) {
+      console.error('Error unmerging persons:', error)
+      toast.error('Failed to undo merge')
+    } finally {
+      setUnmergingId(null)
+    }
+  }
+
+  if (!user) {
+    return <div>Loading...</div>
+  }
+
+  if (!canMerge) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <ExclamationTriangleIcon className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600">You don't have permission to access this page.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Merge Persons</h1>
+          <p className="mt-2 text-gray-600">
+            Combine duplicate persons into one. Every merge is recorded and can be undone.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Find Duplicates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                placeholder="Search by name or SSN..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSearch() }}
+                className="flex-1"
+              />
+              <Button onClick={handleSearch} disabled={searching || !searchTerm.trim()} className="flex items-center gap-2">
+                <MagnifyingGlassIcon className="h-4 w-4" />
+                {searching ? 'Searching...' : 'Search'}
+              </Button>
+            </div>
+
+            {results.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Merge</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Survivor</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SSN</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">DOB</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Address</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Accounts</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {results.map(person => {
+                      const address = person.person_addresses?.find(a => a.is_current)?.full_address
+                        || person.person_addresses?.[0]?.full_address
+                      return (
+                        <tr key={person.id} className={selectedIds.includes(person.id) ? 'bg-blue-50' : ''}>
+                          <td className="px-4 py-3">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(person.id)}
+                              onChange={() => toggleSelected(person.id)}
+                            />
+                          </td>
+                          <td className="px-4 py-3">
+                            <input
+                              type="radio"
+                              name="survivor"
+                              disabled={!selectedIds.includes(person.id)}
+                              checked={survivorId === person.id}
+                              onChange={() => setSurvivorId(person.id)}
+                            />
+                          </td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{personName(person)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{maskSSN(person.ssn)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{person.dob || '—'}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{address || '—'}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{person.debt_accounts?.length || 0}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {selectedIds.length > 0 && (
+              <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                <Input
+                  type="text"
+                  placeholder="Reason (optional)"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="flex-1"
+                />
+                <Button
+                  onClick={handleMerge}
+                  disabled={merging || !survivorId || selectedIds.length < 2}
+                  className="flex items-center gap-2"
+                >
+                  <UsersIcon className="h-4 w-4" />
+                  {merging ? 'Merging...' : `Merge ${selectedIds.length} Persons`}
+                </Button>
+              </div>
+            )}
+            {selectedIds.length > 0 && !survivorId && (
+              <p className="text-sm text-gray-500">Choose which selected person survives the merge.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Merge History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loadingMerges ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              </div>
+            ) : merges.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">No merges yet</p>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {merges.map(merge => (
+                  <div key={merge.id} className="flex items-center justify-between py-3">
+                    <div className="text-sm">
+                      <div className="font-medium text-gray-900">
+                        {merge.merged_person_ids.length} person(s) merged into {personName(merge.survivor)}
+                        <Badge variant={merge.status === 'merged' ? 'default' : 'outline'} className="ml-2">
+                          {merge.status}
+                        </Badge>
+                      </div>
+                      <div className="text-gray-500">
+                        {new Date(merge.merged_at).toLocaleString()} · {countMoved(merge)} records moved
+                        {merge.reason && ` · ${merge.reason}`}
+                        {merge.unmerged_at && ` · undone ${new Date(merge.unmerged_at).toLocaleString()}`}
+                      </div>
+                    </div>
+                    {merge.status === 'merged' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={unmergingId === merge.id}
+                        onClick={() => handleUnmerge(merge)}
+                        className="flex items-center gap-1"
+                      >
+                        <ArrowUturnLeftIcon className="h-4 w-4" />
+                        {unmergingId === merge.id ? 'Undoing...' : 'Unmerge'}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { resolveAssignmentAgency, setAccountCollector } from '@/lib/assignment'
+import { listAgencyCollectors } from '@/lib/work-queue'
+
+export const dynamic = 'force-dynamic'
+
+// Accounts per manual assignment request
+const MAX_MANUAL_ACCOUNTS = 500
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Manually assign accounts to a collector, or unassign them with collectorId null
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { agencyId, error: scopeError, status } = resolveAssignmentAgency(user, body.agencyId || null)
+    if (scopeError || !agencyId) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+
+    const accountIds: string[] = Array.isArray(body.accountIds) ? body.accountIds : []
+    if (accountIds.length === 0 || accountIds.length > MAX_MANUAL_ACCOUNTS) {
+      return NextResponse.json({ error: `accountIds must list 1 to ${MAX_MANUAL_ACCOUNTS} accounts` }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const collectorId: string | null = body.collectorId || null
+    if (collectorId) {
+      const collectors = await listAgencyCollectors(supabase, agencyId)
+      if (!collectors.some(collector => collector.id === collectorId)) {
+        return NextResponse.json({ error: 'Collector not found in this agency' }, { status: 404 })
+      }
+    }
+
+    // Only accounts in portfolios placed with the agency can be assigned by it
+    const { data: placements } = await supabase
+      .from('master_portfolio_placements')
+      .select('portfolio_id')
+      .eq('agency_id', agencyId)
+    const portfolioIds = (placements || []).map((placement: any) => placement.portfolio_id)
+
+    const { data: accounts, error } = await supabase
+      .from('debt_accounts')
+      .select('id, portfolio_id, assigned_collector_id')
+      .in('id', accountIds)
+
+    if (error) {
+      console.error('Error fetching accounts to assign:', error)
+      return NextResponse.json({ error: 'Failed to fetch accounts', details: error.message }, { status: 500 })
+    }
+
+    const outsideAgency = (accounts || []).filter((account: any) => !portfolioIds.includes(account.portfolio_id))
+    if ((accounts || []).length !== accountIds.length || outsideAgency.length > 0) {
+      return NextResponse.json({ error: 'Some accounts were not found in this agency' }, { status: 404 })
+    }
+
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null
+    for (const account of accounts || []) {
+      await setAccountCollector(
+        supabase,
+        null,
+        account,
+        collectorId ? { collectorId, ruleId: null, reason: reason || 'Manual assignment' } : null,
+        { source: 'manual', changedBy: user.id, reason }
+      )
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.DATA_UPDATE,
+      'debt_accounts',
+      collectorId || agencyId,
+      { action: collectorId ? 'manual_assignment' : 'manual_unassignment', accountIds, collectorId },
+      request
+    )
+
+    return NextResponse.json({ success: true, updated: (accounts || []).length })
+  } catch (error) {
+    console.error('Error in account assignment POST:', error)
+    return NextResponse.json({
+      error: 'Failed to assign accounts',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { getCollectorLoads, pickCollectorProfileFields, resolveAssignmentAgency, validateCollectorProfile } from '@/lib/assignment'
+import { listAgencyCollectors } from '@/lib/work-queue'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// An agency's collectors with their assignment profile and the open accounts they carry
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { agencyId, error: scopeError, status } = resolveAssignmentAgency(user, new URL(request.url).searchParams.get('agencyId'))
+    if (scopeError || !agencyId) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const collectors = await listAgencyCollectors(supabase, agencyId)
+    const collectorIds = collectors.map(collector => collector.id)
+
+    const { data: profiles, error } = collectorIds.length > 0
+      ? await supabase
+          .from('collector_assignment_profiles')
+          .select('*')
+          .eq('agency_id', agencyId)
+          .in('collector_id', collectorIds)
+      : { data: [], error: null }
+
+    if (error) {
+      console.error('Error fetching collector profiles:', error)
+      return NextResponse.json({ error: 'Failed to fetch collector profiles', details: error.message }, { status: 500 })
+    }
+
+    const loads = await getCollectorLoads(supabase, collectorIds)
+    return NextResponse.json({
+      collectors: collectors.map(collector => ({
+        ...collector,
+        profile: (profiles || []).find((profile: any) => profile.collector_id === collector.id) || null,
+        openAccounts: loads.get(collector.id) || 0
+      }))
+    })
+  } catch (error) {
+    console.error('Error in assignment collectors GET:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Create or update a collector's licensing, languages, capacity and whether they take new accounts
+// from this agency
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { agencyId, error: scopeError, status } = resolveAssignmentAgency(user, body.agencyId || null)
+    if (scopeError || !agencyId) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+
+    if (!body.collectorId) {
+      return NextResponse.json({ error: 'collectorId is required' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const collectors = await listAgencyCollectors(supabase, agencyId)
+    if (!collectors.some(collector => collector.id === body.collectorId)) {
+      return NextResponse.json({ error: 'Collector not found in this agency' }, { status: 404 })
+    }
+
+    const updates = pickCollectorProfileFields(body)
+    const errors = validateCollectorProfile(updates)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid collector profile', details: errors }, { status: 400 })
+    }
+
+    const { data: profile, error } = await supabase
+      .from('collector_assignment_profiles')
+      .upsert({
+        ...updates,
+        collector_id: body.collectorId,
+        agency_id: agencyId,
+        updated_by: user.id,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'collector_id,agency_id' })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving collector profile:', error)
+      return NextResponse.json({ error: 'Failed to save collector profile', details: error.message }, { status: 500 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'collector_assignment_profiles',
+      body.collectorId,
+      { updates },
+      request
+    )
+
+    return NextResponse.json({ profile })
+  } catch (error) {
+    console.error('Error in assignment collectors PUT:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
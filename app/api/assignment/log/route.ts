@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_LOG_LIMIT = 100
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Assignment history, newest first, for an account (accountId) or to and from a collector (collectorId)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin', 'agency_user'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const accountId = searchParams.get('accountId')
+    const collectorId = searchParams.get('collectorId')
+    if (!accountId && !collectorId) {
+      return NextResponse.json({ error: 'accountId or collectorId is required' }, { status: 400 })
+    }
+
+    // Collectors can see their own history; another collector's is for supervisors
+    if (collectorId && collectorId !== user.id && user.activeRole.roleType === 'agency_user') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const limit = Math.min(1000, parseInt(searchParams.get('limit') || String(DEFAULT_LOG_LIMIT)) || DEFAULT_LOG_LIMIT)
+    const supabase = createAdminSupabaseClient()
+    let query = supabase
+      .from('account_assignment_log')
+      .select(`
+        *,
+        previous_collector:platform_users!account_assignment_log_previous_collector_id_fkey(id, full_name, email),
+        new_collector:platform_users!account_assignment_log_new_collector_id_fkey(id, full_name, email),
+        changed_by_user:platform_users!account_assignment_log_changed_by_fkey(id, full_name),
+        assignment_rules(id, name)
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (accountId) query = query.eq('account_id', accountId)
+    if (collectorId) query = query.or(`previous_collector_id.eq.${collectorId},new_collector_id.eq.${collectorId}`)
+
+    const { data, error } = await query
+    if (error) {
+      console.error('Error fetching assignment log:', error)
+      return NextResponse.json({ error: 'Failed to fetch assignment log', details: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ entries: data || [] })
+  } catch (error) {
+    console.error('Error in assignment log GET:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
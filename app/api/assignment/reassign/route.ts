@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { reassignCollectorAccounts, resolveAssignmentAgency } from '@/lib/assignment'
+import { listAgencyCollectors } from '@/lib/work-queue'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+/**
+ * Move a collector's open accounts in the agency's portfolios, e.g. when they leave. Body: fromCollectorId, optional
+ * toCollectorId (otherwise the rules place each account), reason, and stopAssigning to stop the
+ * departing collector receiving new accounts from this agency.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { agencyId, error: scopeError, status } = resolveAssignmentAgency(user, body.agencyId || null)
+    if (scopeError || !agencyId) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+
+    if (!body.fromCollectorId) {
+      return NextResponse.json({ error: 'fromCollectorId is required' }, { status: 400 })
+    }
+    if (body.toCollectorId && body.toCollectorId === body.fromCollectorId) {
+      return NextResponse.json({ error: 'toCollectorId must be a different collector' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const collectorIds = (await listAgencyCollectors(supabase, agencyId)).map(collector => collector.id)
+    for (const collectorId of [body.fromCollectorId, body.toCollectorId].filter(Boolean)) {
+      if (!collectorIds.includes(collectorId)) {
+        return NextResponse.json({ error: `Collector ${collectorId} not found in this agency` }, { status: 404 })
+      }
+    }
+
+    if (body.stopAssigning) {
+      const { error: profileError } = await supabase
+        .from('collector_assignment_profiles')
+        .upsert({
+          collector_id: body.fromCollectorId,
+          agency_id: agencyId,
+          is_accepting: false,
+          updated_by: user.id,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'collector_id,agency_id' })
+
+      if (profileError) {
+        console.error('Error updating collector profile:', profileError)
+        return NextResponse.json({ error: 'Failed to stop assigning to collector', details: profileError.message }, { status: 500 })
+      }
+    }
+
+    const summary = await reassignCollectorAccounts(supabase, {
+      agencyId,
+      fromCollectorId: body.fromCollectorId,
+      toCollectorId: body.toCollectorId || null,
+      changedBy: user.id,
+      reason: typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null
+    })
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.DATA_UPDATE,
+      'debt_accounts',
+      body.fromCollectorId,
+      {
+        action: 'bulk_reassignment',
+        agencyId,
+        fromCollectorId: body.fromCollectorId,
+        toCollectorId: body.toCollectorId || null,
+        stopAssigning: !!body.stopAssigning,
+        ...summary
+      },
+      request
+    )
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    console.error('❌ [ASSIGNMENT] Bulk reassignment failed:', error)
+    return NextResponse.json({
+      error: 'Bulk reassignment failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
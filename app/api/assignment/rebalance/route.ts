@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { rebalanceAgency, resolveAssignmentAgency } from '@/lib/assignment'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Assign an agency's unassigned accounts through its rules and move accounts off collectors over capacity
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { agencyId, error: scopeError, status } = resolveAssignmentAgency(user, body.agencyId || null)
+    if (scopeError || !agencyId) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+
+    const summary = await rebalanceAgency(createAdminSupabaseClient(), agencyId, user.id)
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.DATA_UPDATE,
+      'debt_accounts',
+      agencyId,
+      { action: 'rebalance', ...summary },
+      request
+    )
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    console.error('❌ [ASSIGNMENT] Rebalance failed:', error)
+    return NextResponse.json({
+      error: 'Rebalance failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
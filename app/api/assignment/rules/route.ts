@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { pickAssignmentRuleFields, resolveAssignmentAgency, validateAssignmentRule } from '@/lib/assignment'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// An agency's rules in the order they're tried
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { agencyId, error: scopeError, status } = resolveAssignmentAgency(user, new URL(request.url).searchParams.get('agencyId'))
+    if (scopeError || !agencyId) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { data, error } = await supabase
+      .from('assignment_rules')
+      .select('*')
+      .eq('agency_id', agencyId)
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching assignment rules:', error)
+      return NextResponse.json({ error: 'Failed to fetch assignment rules', details: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ rules: data || [] })
+  } catch (error) {
+    console.error('Error in assignment rules GET:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Create a rule, or update one when the body carries its id. Rules apply to accounts assigned
+// from then on; run a rebalance to apply them to unassigned accounts already on file.
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const supabase = createAdminSupabaseClient()
+
+    let existing: any = null
+    if (body.id) {
+      const { data } = await supabase
+        .from('assignment_rules')
+        .select('*')
+        .eq('id', body.id)
+        .maybeSingle()
+      if (!data) {
+        return NextResponse.json({ error: 'Assignment rule not found' }, { status: 404 })
+      }
+      existing = data
+    }
+
+    const { agencyId, error: scopeError, status } = resolveAssignmentAgency(user, existing?.agency_id || body.agency_id || null)
+    if (scopeError || !agencyId) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+
+    const updates = { ...pickAssignmentRuleFields(body), agency_id: agencyId }
+    const errors = validateAssignmentRule({ ...(existing || {}), ...updates })
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid assignment rule', details: errors }, { status: 400 })
+    }
+
+    const { data: rule, error } = existing
+      ? await supabase
+          .from('assignment_rules')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('assignment_rules')
+          .insert({ ...updates, created_by: user.id })
+          .select()
+          .single()
+
+    if (error) {
+      console.error('Error saving assignment rule:', error)
+      return NextResponse.json({ error: 'Failed to save assignment rule', details: error.message }, { status: 500 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'assignment_rules',
+      rule.id,
+      { action: existing ? 'updated' : 'created', updates },
+      request
+    )
+
+    return NextResponse.json({ rule }, { status: existing ? 200 : 201 })
+  } catch (error) {
+    console.error('Error in assignment rules PUT:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Rule id is required' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { data: existing } = await supabase
+      .from('assignment_rules')
+      .select('id, agency_id')
+      .eq('id', id)
+      .maybeSingle()
+    if (!existing) {
+      return NextResponse.json({ error: 'Assignment rule not found' }, { status: 404 })
+    }
+
+    const { error: scopeError, status } = resolveAssignmentAgency(user, existing.agency_id)
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+
+    const { error } = await supabase
+      .from('assignment_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting assignment rule:', error)
+      return NextResponse.json({ error: 'Failed to delete assignment rule', details: error.message }, { status: 500 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'assignment_rules',
+      id,
+      { action: 'deleted' },
+      request
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in assignment rules DELETE:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import {
+  DISPOSITION_ACTIONS,
+  loadDispositionCodes,
+  pickDispositionCodeFields,
+  resolveDispositionAgency,
+  validateDispositionCode
+} from '@/lib/calls'
+import { CALL_RESULTS } from '@/lib/import/history-processor'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// The disposition codes the user's agency wraps calls up with; includeInactive=true also lists disabled ones
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin', 'agency_user'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const agencyId = user.activeRole.roleType === 'platform_admin'
+      ? searchParams.get('agencyId')
+      : user.activeRole.organizationId || null
+
+    const codes = await loadDispositionCodes(createAdminSupabaseClient(), agencyId, {
+      includeInactive: searchParams.get('includeInactive') === 'true'
+    })
+
+    return NextResponse.json({ codes, actions: DISPOSITION_ACTIONS, callResults: CALL_RESULTS })
+  } catch (error) {
+    console.error('Error in disposition codes GET:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch disposition codes',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Create a code, or update one when the body carries its id. An agency overrides or disables a
+// default by saving its own code with the same code.
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const supabase = createAdminSupabaseClient()
+
+    let existing: any = null
+    if (body.id) {
+      const { data } = await supabase
+        .from('call_disposition_codes')
+        .select('*')
+        .eq('id', body.id)
+        .maybeSingle()
+      if (!data) {
+        return NextResponse.json({ error: 'Disposition code not found' }, { status: 404 })
+      }
+      existing = data
+    }
+
+    const { agencyId, error: scopeError, status } = resolveDispositionAgency(
+      user,
+      existing ? existing.agency_id : body.agency_id || null
+    )
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+    if (existing && existing.agency_id !== agencyId) {
+      return NextResponse.json({
+        error: 'Default codes can only be changed by platform admins; save a code with the same code to override it'
+      }, { status: 403 })
+    }
+
+    const updates: Record<string, any> = { ...pickDispositionCodeFields(body), agency_id: agencyId }
+    const errors = validateDispositionCode({ ...(existing || {}), ...updates })
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid disposition code', details: errors }, { status: 400 })
+    }
+
+    const { data: code, error } = existing
+      ? await supabase
+          .from('call_disposition_codes')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('call_disposition_codes')
+          .insert({ ...updates, created_by: user.id })
+          .select()
+          .single()
+
+    if (error) {
+      console.error('Error saving disposition code:', error)
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `Code ${updates.code} already exists` }, { status: 409 })
+      }
+      return NextResponse.json({ error: 'Failed to save disposition code', details: error.message }, { status: 500 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'call_disposition_codes',
+      code.id,
+      { action: existing ? 'updated' : 'created', updates },
+      request
+    )
+
+    return NextResponse.json({ code }, { status: existing ? 200 : 201 })
+  } catch (error) {
+    console.error('Error in disposition codes PUT:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Delete a code; deleting an agency's override brings the default back. Past calls keep the code text.
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Disposition code id is required' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { data: existing } = await supabase
+      .from('call_disposition_codes')
+      .select('id, agency_id, code')
+      .eq('id', id)
+      .maybeSingle()
+    if (!existing) {
+      return NextResponse.json({ error: 'Disposition code not found' }, { status: 404 })
+    }
+
+    const { agencyId, error: scopeError, status } = resolveDispositionAgency(user, existing.agency_id)
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status })
+    }
+    if (existing.agency_id !== agencyId) {
+      return NextResponse.json({ error: 'Default codes can only be deleted by platform admins' }, { status: 403 })
+    }
+
+    const { error } = await supabase
+      .from('call_disposition_codes')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting disposition code:', error)
+      return NextResponse.json({ error: 'Failed to delete disposition code', details: error.message }, { status: 500 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'call_disposition_codes',
+      id,
+      { action: 'deleted', code: existing.code },
+      request
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in disposition codes DELETE:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
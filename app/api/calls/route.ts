@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataAccess, logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import {
+  CALL_ACCOUNT_SELECT,
+  CallInput,
+  findAccountPhone,
+  getCallAccountAgencyId,
+  loadDispositionCodes,
+  logCall,
+  validateCallInput
+} from '@/lib/calls'
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_CALL_LIMIT = 100
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Load an account the user may log calls on; returns the response to send instead when they can't
+async function loadCallAccount(supabase: any, user: any, accountId: string) {
+  const allowedRoles = ['platform_admin', 'agency_admin', 'agency_user']
+  if (!allowedRoles.includes(user.activeRole.roleType)) {
+    return { account: null, denied: NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 }) }
+  }
+
+  const { data: account, error } = await supabase
+    .from('debt_accounts')
+    .select(CALL_ACCOUNT_SELECT)
+    .eq('id', accountId)
+    .maybeSingle()
+
+  if (error || !account) {
+    return { account: null, denied: NextResponse.json({ error: 'Account not found' }, { status: 404 }) }
+  }
+
+  if (user.activeRole.roleType !== 'platform_admin' && getCallAccountAgencyId(account) !== user.activeRole.organizationId) {
+    return { account: null, denied: NextResponse.json({ error: 'Access denied' }, { status: 403 }) }
+  }
+
+  return { account, denied: null }
+}
+
+// Calls logged on an account, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const accountId = searchParams.get('accountId')
+    if (!accountId) {
+      return NextResponse.json({ error: 'accountId is required' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { denied } = await loadCallAccount(supabase, user, accountId)
+    if (denied) return denied
+
+    const limit = Math.min(500, parseInt(searchParams.get('limit') || String(DEFAULT_CALL_LIMIT)) || DEFAULT_CALL_LIMIT)
+    const { data, error } = await supabase
+      .from('calls')
+      .select('*, platform_users(id, full_name)')
+      .eq('debtor_id', accountId)
+      .order('call_date', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching calls:', error)
+      return NextResponse.json({ error: 'Failed to fetch calls', details: error.message }, { status: 500 })
+    }
+
+    await logDataAccess(
+      user.id,
+      AUDIT_ACTIONS.DATA_VIEW,
+      'calls',
+      accountId,
+      { calls: data?.length || 0 },
+      request
+    )
+
+    return NextResponse.json({ calls: data || [] })
+  } catch (error) {
+    console.error('Error in calls GET:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Log a call the signed-in collector made. Body: accountId, dispositionCode and the call details;
+ * the disposition decides which follow-up fields are required (promise amount and date, callback
+ * time, the phone record dialled).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.accountId || !body.dispositionCode) {
+      return NextResponse.json({ error: 'accountId and dispositionCode are required' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { account, denied } = await loadCallAccount(supabase, user, body.accountId)
+    if (denied) return denied
+
+    const codes = await loadDispositionCodes(supabase, getCallAccountAgencyId(account))
+    const disposition = codes.find(code => code.code === body.dispositionCode)
+    if (!disposition) {
+      return NextResponse.json({ error: `Unknown disposition code: ${body.dispositionCode}` }, { status: 400 })
+    }
+
+    const toNumber = (value: any) => value === null || value === undefined || value === '' ? null : Number(value)
+    const input: CallInput = {
+      dispositionCode: disposition.code,
+      callDate: body.callDate || null,
+      duration: toNumber(body.duration),
+      notes: typeof body.notes === 'string' ? body.notes : null,
+      phoneId: body.phoneId || null,
+      phoneNumber: typeof body.phoneNumber === 'string' ? body.phoneNumber : null,
+      promiseAmount: toNumber(body.promiseAmount),
+      promiseDate: body.promiseDate || null,
+      callbackAt: body.callbackAt || null,
+      qualityScore: toNumber(body.qualityScore)
+    }
+
+    const errors = validateCallInput(input, disposition, account)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid call', details: errors }, { status: 400 })
+    }
+
+    const phone = input.phoneId ? await findAccountPhone(supabase, account, input.phoneId) : null
+    if (input.phoneId && !phone) {
+      return NextResponse.json({ error: 'Phone number not found for this consumer' }, { status: 404 })
+    }
+
+    const { call, actionsApplied } = await logCall(supabase, account, disposition, input, phone, user.id)
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.DATA_CREATE,
+      'calls',
+      call.id,
+      { accountId: account.id, dispositionCode: disposition.code, actionsApplied },
+      request
+    )
+
+    return NextResponse.json({ call, actionsApplied }, { status: 201 })
+  } catch (error) {
+    console.error('❌ [CALLS] Failed to log call:', error)
+    return NextResponse.json({
+      error: 'Failed to log call',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
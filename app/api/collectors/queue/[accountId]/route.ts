@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { recordQueueEvent, releaseQueueHolds, resolveQueueCollector, validateQueueEvent } from '@/lib/work-queue'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+async function isAssignedTo(supabase: any, accountId: string, collectorId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('debt_accounts')
+    .select('id')
+    .eq('id', accountId)
+    .eq('assigned_collector_id', collectorId)
+    .maybeSingle()
+  return !!data
+}
+
+// Skip or defer an account in the collector's queue, with a reason
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { accountId: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const supabase = createAdminSupabaseClient()
+    const { collectorId, error: accessError } = await resolveQueueCollector(supabase, user, body.collectorId || null)
+    if (accessError || !collectorId) {
+      return NextResponse.json({ error: accessError }, { status: 403 })
+    }
+
+    if (body.action !== 'skip' && body.action !== 'defer') {
+      return NextResponse.json({ error: 'action must be skip or defer' }, { status: 400 })
+    }
+
+    const input = {
+      accountId: params.accountId,
+      collectorId,
+      action: body.action === 'skip' ? 'skipped' as const : 'deferred' as const,
+      reason: body.reason,
+      notes: body.notes,
+      deferUntil: body.deferUntil
+    }
+    const errors = validateQueueEvent(input)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid queue event', details: errors }, { status: 400 })
+    }
+
+    if (!(await isAssignedTo(supabase, params.accountId, collectorId))) {
+      return NextResponse.json({ error: 'Account is not assigned to this collector' }, { status: 404 })
+    }
+
+    const event = await recordQueueEvent(supabase, input)
+    console.log(`⏭️ [QUEUE] Collector ${collectorId} ${input.action} account ${params.accountId} (${input.reason})`)
+
+    return NextResponse.json({ event }, { status: 201 })
+  } catch (error) {
+    console.error('Error in collector queue event POST:', error)
+    return NextResponse.json({
+      error: 'Failed to update work queue',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Put a skipped or deferred account back in the queue now
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { accountId: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const requestedCollectorId = new URL(request.url).searchParams.get('collectorId')
+    const { collectorId, error: accessError } = await resolveQueueCollector(supabase, user, requestedCollectorId)
+    if (accessError || !collectorId) {
+      return NextResponse.json({ error: accessError }, { status: 403 })
+    }
+
+    await releaseQueueHolds(supabase, collectorId, params.accountId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in collector queue event DELETE:', error)
+    return NextResponse.json({
+      error: 'Failed to update work queue',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
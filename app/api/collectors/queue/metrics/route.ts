@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { getQueueMetrics, listAgencyCollectors, QUEUE_EVENT_REASONS, QUEUE_EXCLUSION_REASONS } from '@/lib/work-queue'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Queue metrics for every collector of an agency. Agency admins see their own agency;
+// platform admins pass agencyId.
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.activeRole.roleType !== 'platform_admin' && user.activeRole.roleType !== 'agency_admin') {
+      return NextResponse.json({ error: 'Only supervisors can view queue metrics' }, { status: 403 })
+    }
+
+    const agencyId = user.activeRole.roleType === 'platform_admin'
+      ? new URL(request.url).searchParams.get('agencyId')
+      : user.activeRole.organizationId
+    if (!agencyId) {
+      return NextResponse.json({ error: 'agencyId is required' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const collectors = await listAgencyCollectors(supabase, agencyId)
+    const metrics = await getQueueMetrics(supabase, collectors)
+
+    const { count: unassignedAccounts } = await supabase
+      .from('debt_accounts')
+      .select('id, master_portfolios!debt_accounts_portfolio_id_fkey!inner(agency_id)', { count: 'exact', head: true })
+      .is('assigned_collector_id', null)
+      .eq('master_portfolios.agency_id', agencyId)
+
+    return NextResponse.json({
+      agencyId,
+      collectors: metrics,
+      unassignedAccounts: unassignedAccounts || 0,
+      eventReasons: QUEUE_EVENT_REASONS,
+      exclusionReasons: QUEUE_EXCLUSION_REASONS
+    })
+  } catch (error) {
+    console.error('Error in collector queue metrics GET:', error)
+    return NextResponse.json({
+      error: 'Failed to build queue metrics',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { getNextAccount, resolveQueueCollector } from '@/lib/work-queue'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Serve the collector's next-best account. Returns entry: null when nothing can be called right now.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const supabase = createAdminSupabaseClient()
+    const { collectorId, error: accessError } = await resolveQueueCollector(supabase, user, body.collectorId || null)
+    if (accessError || !collectorId) {
+      return NextResponse.json({ error: accessError }, { status: 403 })
+    }
+
+    const entry = await getNextAccount(supabase, collectorId)
+    return NextResponse.json({ entry })
+  } catch (error) {
+    console.error('Error in collector queue next POST:', error)
+    return NextResponse.json({
+      error: 'Failed to get next account',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
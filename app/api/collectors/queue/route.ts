@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import {
+  buildCollectorQueue,
+  resolveQueueCollector,
+  QUEUE_EVENT_REASONS,
+  QUEUE_EXCLUSION_REASONS
+} from '@/lib/work-queue'
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_QUEUE_LIMIT = 50
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// The caller's queue, best account first; supervisors can pass collectorId to view another collector's
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const supabase = createAdminSupabaseClient()
+    const { collectorId, error: accessError } = await resolveQueueCollector(supabase, user, searchParams.get('collectorId'))
+    if (accessError || !collectorId) {
+      return NextResponse.json({ error: accessError }, { status: 403 })
+    }
+
+    const limit = Math.max(1, parseInt(searchParams.get('limit') || String(DEFAULT_QUEUE_LIMIT)) || DEFAULT_QUEUE_LIMIT)
+    const queue = await buildCollectorQueue(supabase, collectorId)
+
+    return NextResponse.json({
+      collectorId,
+      assignedAccounts: queue.assignedAccounts,
+      readyAccounts: queue.entries.length,
+      entries: queue.entries.slice(0, limit),
+      excluded: queue.excluded,
+      eventReasons: QUEUE_EVENT_REASONS,
+      exclusionReasons: QUEUE_EXCLUSION_REASONS
+    })
+  } catch (error) {
+    console.error('Error in collector queue GET:', error)
+    return NextResponse.json({
+      error: 'Failed to build work queue',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
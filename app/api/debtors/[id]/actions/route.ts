@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import {
+  ACCOUNT_ACTION_SELECT,
+  SOL_RESTRICTED_ACTIONS,
+  SolRestrictedAction,
+  TimeBarredAccountError,
+  startAccountAction,
+  stopAccountAction
+} from '@/lib/sol'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+function parseAction(value: any): SolRestrictedAction | null {
+  return SOL_RESTRICTED_ACTIONS.includes(value) ? value as SolRestrictedAction : null
+}
+
+// Only admins start or stop litigation and credit reporting, on their own agency's accounts
+async function loadActionAccount(request: NextRequest, accountId: string) {
+  const { user, error: authError } = await authenticateApiRequest(request)
+  if (authError || !user) {
+    return { user: null, supabase: null, account: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (!['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)) {
+    return { user, supabase: null, account: null, response: NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 }) }
+  }
+
+  const supabase = createAdminSupabaseClient()
+  const { data: account, error } = await supabase
+    .from('debt_accounts')
+    .select(`${ACCOUNT_ACTION_SELECT}, master_portfolios!debt_accounts_portfolio_id_fkey(agency_id)`)
+    .eq('id', accountId)
+    .maybeSingle()
+
+  if (error || !account) {
+    return { user, supabase, account: null, response: NextResponse.json({ error: 'Account not found' }, { status: 404 }) }
+  }
+
+  const agencyId = (account as any).master_portfolios?.agency_id
+  if (user.activeRole.roleType !== 'platform_admin' && agencyId !== user.activeRole.organizationId) {
+    return { user, supabase, account: null, response: NextResponse.json({ error: 'Access denied' }, { status: 403 }) }
+  }
+
+  return { user, supabase, account, response: null }
+}
+
+// Start litigation or credit reporting. Refused with 409 once the account is time-barred.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, supabase, account, response } = await loadActionAccount(request, params.id)
+    if (response || !user || !supabase || !account) return response
+
+    const body = await request.json()
+    const action = parseAction(body.action)
+    if (!action) {
+      return NextResponse.json({ error: `action must be one of: ${SOL_RESTRICTED_ACTIONS.join(', ')}` }, { status: 400 })
+    }
+
+    let updated: any
+    try {
+      updated = await startAccountAction(supabase, account, action, user.id)
+    } catch (actionError) {
+      if (actionError instanceof TimeBarredAccountError) {
+        return NextResponse.json({ error: actionError.message }, { status: 409 })
+      }
+      throw actionError
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.DATA_UPDATE,
+      'debt_accounts',
+      params.id,
+      { action: `${action}_started` },
+      request
+    )
+
+    return NextResponse.json({ account: updated })
+  } catch (error) {
+    console.error('Error in debtor actions POST:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Stop an action: ?action=litigation or ?action=credit_reporting
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, supabase, account, response } = await loadActionAccount(request, params.id)
+    if (response || !user || !supabase || !account) return response
+
+    const action = parseAction(new URL(request.url).searchParams.get('action'))
+    if (!action) {
+      return NextResponse.json({ error: `action must be one of: ${SOL_RESTRICTED_ACTIONS.join(', ')}` }, { status: 400 })
+    }
+
+    const updated = await stopAccountAction(supabase, params.id, action)
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.DATA_UPDATE,
+      'debt_accounts',
+      params.id,
+      { action: `${action}_stopped` },
+      request
+    )
+
+    return NextResponse.json({ account: updated })
+  } catch (error) {
+    console.error('Error in debtor actions DELETE:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataAccess, AUDIT_ACTIONS } from '@/lib/audit-log'
+
+export const dynamic = 'force-dynamic'
+
+const HISTORY_LIMIT = 200
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Call history for one debt account, newest first. Notes have their own API under notes/.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const allowedRoles = ['platform_admin', 'agency_admin', 'agency_user']
+    if (!allowedRoles.includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+
+    const { data: account, error: accountError } = await supabase
+      .from('debt_accounts')
+      .select('id, master_portfolios!debt_accounts_portfolio_id_fkey(agency_id)')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (accountError || !account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+    }
+
+    const agencyId = (account as any).master_portfolios?.agency_id
+    if (user.activeRole.roleType !== 'platform_admin' && agencyId !== user.activeRole.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const { data: calls, error: callsError } = await supabase
+      .from('calls')
+      .select('id, call_date, call_duration, call_result, original_result, disposition_code, call_notes, phone_number, source, original_collector, platform_users(id, full_name)')
+      .eq('debtor_id', params.id)
+      .order('call_date', { ascending: false })
+      .limit(HISTORY_LIMIT)
+
+    if (callsError) {
+      console.error('Error fetching account history:', callsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch account history', details: callsError.message },
+        { status: 500 }
+      )
+    }
+
+    await logDataAccess(
+      user.id,
+      AUDIT_ACTIONS.DATA_VIEW,
+      'calls',
+      params.id,
+      { calls: calls?.length || 0 },
+      request
+    )
+
+    return NextResponse.json({ calls: calls || [] })
+  } catch (error) {
+    console.error('Error in account history API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import {
+  canSeeNote,
+  getNoteVersions,
+  loadNoteAccount,
+  reviseNote,
+  setNotePinned,
+  toNoteInput,
+  validateNoteInput,
+  validateNoteLinks
+} from '@/lib/notes'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Load a note on an account the user can see; returns the response to send instead when they can't
+async function loadNote(supabase: any, user: any, accountId: string, noteId: string) {
+  const { error: accessError, status } = await loadNoteAccount(supabase, user, accountId)
+  if (accessError) {
+    return { note: null, denied: NextResponse.json({ error: accessError }, { status }) }
+  }
+
+  const { data: note } = await supabase
+    .from('debtor_notes')
+    .select('*')
+    .eq('id', noteId)
+    .eq('debtor_id', accountId)
+    .maybeSingle()
+
+  if (!note || !canSeeNote(user, note)) {
+    return { note: null, denied: NextResponse.json({ error: 'Note not found' }, { status: 404 }) }
+  }
+  return { note, denied: null }
+}
+
+// Every version of the note, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; noteId: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { note, denied } = await loadNote(supabase, user, params.id, params.noteId)
+    if (denied) return denied
+
+    const versions = await getNoteVersions(supabase, user, note.note_group_id || note.id)
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error in note versions GET:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch note versions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * Edit a note by saving a new version of it; the version edited is kept as history. Only the
+ * note's author and admins can edit it, and only its current version.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; noteId: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { note, denied } = await loadNote(supabase, user, params.id, params.noteId)
+    if (denied) return denied
+
+    if (note.user_id !== user.id && !['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Only the author or an admin can edit this note' }, { status: 403 })
+    }
+    if (note.superseded_at) {
+      return NextResponse.json({ error: 'This version has already been edited; edit the current version' }, { status: 409 })
+    }
+
+    const input = toNoteInput(await request.json())
+    const errors = validateNoteInput({ ...input, noteText: input.noteText ?? note.note_text })
+      .concat(await validateNoteLinks(supabase, params.id, input))
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid note', details: errors }, { status: 400 })
+    }
+
+    const revision = await reviseNote(supabase, note, input, user.id)
+    if (!revision) {
+      return NextResponse.json({ error: 'This version has already been edited; edit the current version' }, { status: 409 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.DATA_UPDATE,
+      'debtor_notes',
+      revision.id,
+      { action: 'new_version', accountId: params.id, supersedes: note.id, version: revision.version },
+      request
+    )
+
+    return NextResponse.json({ note: revision }, { status: 201 })
+  } catch (error) {
+    console.error('Error in note PUT:', error)
+    return NextResponse.json({
+      error: 'Failed to save note version',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Pin or unpin a note. Pinning doesn't change the note's wording, so it doesn't add a version.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; noteId: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (typeof body.isPinned !== 'boolean') {
+      return NextResponse.json({ error: 'isPinned must be true or false' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { note, denied } = await loadNote(supabase, user, params.id, params.noteId)
+    if (denied) return denied
+
+    const updated = await setNotePinned(supabase, note.id, body.isPinned)
+    if (!updated) {
+      return NextResponse.json({ error: 'This version has already been edited; pin the current version' }, { status: 409 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.DATA_UPDATE,
+      'debtor_notes',
+      note.id,
+      { action: body.isPinned ? 'pinned' : 'unpinned', accountId: params.id },
+      request
+    )
+
+    return NextResponse.json({ note: updated })
+  } catch (error) {
+    console.error('Error in note PATCH:', error)
+    return NextResponse.json({
+      error: 'Failed to update note',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataAccess, logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import {
+  DEFAULT_NOTE_LIMIT,
+  NOTE_TYPES,
+  createNote,
+  listAccountNotes,
+  loadNoteAccount,
+  toNoteInput,
+  validateNoteInput,
+  validateNoteLinks
+} from '@/lib/notes'
+
+export const dynamic = 'force-dynamic'
+
+// Calls and payments offered when linking a note
+const LINK_OPTION_LIMIT = 25
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+/**
+ * An account's notes timeline: the current version of each note, newest first. Filters: search
+ * (note text or imported author), noteType and pinned=true. linkOptions=true also returns the
+ * account's recent calls and payments a new note can be linked to.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { error: accessError, status } = await loadNoteAccount(supabase, user, params.id)
+    if (accessError) {
+      return NextResponse.json({ error: accessError }, { status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const noteType = searchParams.get('noteType')
+    if (noteType && !NOTE_TYPES.includes(noteType)) {
+      return NextResponse.json({ error: `noteType must be one of: ${NOTE_TYPES.join(', ')}` }, { status: 400 })
+    }
+
+    const notes = await listAccountNotes(supabase, user, params.id, {
+      search: searchParams.get('search'),
+      noteType,
+      pinnedOnly: searchParams.get('pinned') === 'true',
+      limit: Math.min(500, parseInt(searchParams.get('limit') || String(DEFAULT_NOTE_LIMIT)) || DEFAULT_NOTE_LIMIT)
+    })
+
+    let linkOptions = null
+    if (searchParams.get('linkOptions') === 'true') {
+      const [callsResult, paymentsResult] = await Promise.all([
+        supabase
+          .from('calls')
+          .select('id, call_date, call_result, disposition_code')
+          .eq('debtor_id', params.id)
+          .order('call_date', { ascending: false })
+          .limit(LINK_OPTION_LIMIT),
+        supabase
+          .from('debtor_payments')
+          .select('id, payment_date, payment_amount, payment_status')
+          .eq('debtor_id', params.id)
+          .order('payment_date', { ascending: false })
+          .limit(LINK_OPTION_LIMIT)
+      ])
+      linkOptions = { calls: callsResult.data || [], payments: paymentsResult.data || [] }
+    }
+
+    await logDataAccess(
+      user.id,
+      AUDIT_ACTIONS.DATA_VIEW,
+      'debtor_notes',
+      params.id,
+      { notes: notes.length, search: searchParams.get('search') || null },
+      request
+    )
+
+    return NextResponse.json({ notes, noteTypes: NOTE_TYPES, linkOptions })
+  } catch (error) {
+    console.error('Error in account notes GET:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch notes',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Add a note. Body: noteText, noteType, isPrivate, isPinned, and optionally the callId or paymentId it's about.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { error: accessError, status } = await loadNoteAccount(supabase, user, params.id)
+    if (accessError) {
+      return NextResponse.json({ error: accessError }, { status })
+    }
+
+    const input = toNoteInput(await request.json())
+    const errors = validateNoteInput(input).concat(await validateNoteLinks(supabase, params.id, input))
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid note', details: errors }, { status: 400 })
+    }
+
+    const note = await createNote(supabase, params.id, input, user.id)
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.DATA_CREATE,
+      'debtor_notes',
+      note.id,
+      { accountId: params.id, noteType: note.note_type, callId: note.call_id, paymentId: note.payment_id },
+      request
+    )
+
+    return NextResponse.json({ note }, { status: 201 })
+  } catch (error) {
+    console.error('Error in account notes POST:', error)
+    return NextResponse.json({
+      error: 'Failed to save note',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataAccess, AUDIT_ACTIONS } from '@/lib/audit-log'
+import {
+  DEFAULT_TIMELINE_LIMIT,
+  TIMELINE_ACCOUNT_SELECT,
+  TIMELINE_CATEGORIES,
+  buildAccountTimeline,
+  parseTimelineCategories
+} from '@/lib/account-timeline'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+/**
+ * Everything that happened to one debt account, newest first. Filters: categories (comma-separated,
+ * see TIMELINE_CATEGORIES), from and to (dates or timestamps), limit, and includeViews=true to
+ * keep audit entries for reads of the account.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const allowedRoles = ['platform_admin', 'agency_admin', 'agency_user']
+    if (!allowedRoles.includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value && isNaN(new Date(value).getTime())) {
+        return NextResponse.json({ error: `${name} must be a valid date` }, { status: 400 })
+      }
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { data: account, error: accountError } = await supabase
+      .from('debt_accounts')
+      .select(TIMELINE_ACCOUNT_SELECT)
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (accountError || !account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+    }
+
+    const agencyId = (account as any).master_portfolios?.agency_id
+    if (user.activeRole.roleType !== 'platform_admin' && agencyId !== user.activeRole.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const timeline = await buildAccountTimeline(supabase, user, account, {
+      categories: parseTimelineCategories(searchParams.get('categories')),
+      from,
+      to,
+      limit: Math.min(1000, parseInt(searchParams.get('limit') || String(DEFAULT_TIMELINE_LIMIT)) || DEFAULT_TIMELINE_LIMIT),
+      includeViews: searchParams.get('includeViews') === 'true'
+    })
+
+    await logDataAccess(
+      user.id,
+      AUDIT_ACTIONS.DATA_VIEW,
+      'debt_accounts',
+      params.id,
+      { view: 'timeline', events: timeline.events.length },
+      request
+    )
+
+    return NextResponse.json({ ...timeline, categories: TIMELINE_CATEGORIES })
+  } catch (error) {
+    console.error('Error in account timeline API:', error)
+    return NextResponse.json({
+      error: 'Failed to build account timeline',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
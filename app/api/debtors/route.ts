@@ -3,6 +3,8 @@ import { createClient } from '@supabase/supabase-js'
 import { authenticateApiRequest } from '@/lib/auth-utils'
 import { rateLimitByUser } from '@/lib/rate-limit'
 import { logDataAccess, logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { SOL_RESTRICTED_ACTIONS, getDebtAgeDays, getDebtAgeFilter, isTimeBarred } from '@/lib/sol'
+import { logAssignmentChanges } from '@/lib/assignment'
 
 // Force dynamic runtime for this API route
 export const dynamic = 'force-dynamic'
@@ -89,6 +91,8 @@ export async function GET(request: NextRequest) {
     const portfolioId = searchParams.get('portfolioId')
     const statusFilter = searchParams.get('status')
     const priorityFilter = searchParams.get('priority')
+    const solFilter = searchParams.get('sol')
+    const debtAgeFilter = searchParams.get('debtAge')
     const limit = parseInt(searchParams.get('limit') || '50')
     const offset = parseInt(searchParams.get('offset') || '0')
 
@@ -116,6 +120,23 @@ export async function GET(request: NextRequest) {
       query = query.eq('collection_priority', priorityFilter)
     }
 
+    // Time-barred is judged on the expiry date so accounts that expired since the last refresh count
+    const today = new Date().toISOString().split('T')[0]
+    if (solFilter === 'time_barred') {
+      query = query.lte('sol_expiration_date', today)
+    } else if (solFilter === 'within_sol') {
+      query = query.gt('sol_expiration_date', today)
+    } else if (solFilter === 'unknown') {
+      query = query.is('sol_expiration_date', null)
+    }
+
+    if (debtAgeFilter && debtAgeFilter !== 'all') {
+      const debtAgeCondition = getDebtAgeFilter(debtAgeFilter)
+      if (debtAgeCondition) {
+        query = query.or(debtAgeCondition)
+      }
+    }
+
     // Apply agency filtering for non-platform admins
     if (user.activeRole.roleType !== 'platform_admin') {
       query = query.eq('master_portfolios.agency_id', user.activeRole.organizationId)
@@ -179,14 +200,20 @@ export async function GET(request: NextRequest) {
         portfolioId,
         statusFilter,
         priorityFilter,
+        solFilter,
+        debtAgeFilter,
         limit,
         offset
       },
       request
     )
 
-    // Use filtered results if phone search was applied
-    const finalDebtAccounts = filteredDebtAccounts || debtAccounts
+    // Use filtered results if phone search was applied, with debt age and any actions the SOL rules out
+    const finalDebtAccounts = (filteredDebtAccounts || debtAccounts)?.map((debtAccount: any) => ({
+      ...debtAccount,
+      debt_age_days: getDebtAgeDays(debtAccount),
+      sol_restricted_actions: isTimeBarred(debtAccount) ? SOL_RESTRICTED_ACTIONS : []
+    }))
     const finalCount = finalDebtAccounts?.length || 0
 
     return NextResponse.json({
@@ -264,6 +291,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (newDebtAccount.assigned_collector_id) {
+      await logAssignmentChanges(supabase, [{
+        account_id: newDebtAccount.id,
+        previous_collector_id: null,
+        new_collector_id: newDebtAccount.assigned_collector_id,
+        source: 'manual',
+        reason: 'Assigned when account was created',
+        changed_by: user.id
+      }])
+    }
+
     // Log data modification
     await logDataModification(
       user.id,
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logImportEvent, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { checkImportJobAccess } from '@/lib/import/account-changes'
+
+export const dynamic = 'force-dynamic'
+
+// Approve a job's dry run so it can move to processing
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    
+    const allowedRoles = ['platform_admin', 'agency_admin']
+    if (!allowedRoles.includes(user.activeRole.roleType)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to approve import jobs' },
+        { status: 403 }
+      )
+    }
+    
+    const { jobId } = await request.json()
+    if (!jobId) {
+      return NextResponse.json({ error: 'Job ID is required' }, { status: 400 })
+    }
+    
+    // Get Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+    
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .select('id, file_name, status, import_type, agency_id, portfolio_id, dry_run_results')
+      .eq('id', jobId)
+      .single()
+    
+    if (jobError || !job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 })
+    }
+    
+    const access = await checkImportJobAccess(supabase, user, job)
+    if (access.error) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    
+    if (job.status !== 'validated' || !job.dry_run_results) {
+      return NextResponse.json({ error: 'Run a dry run before approving this import' }, { status: 400 })
+    }
+    
+    const { error: updateError } = await supabase
+      .from('import_jobs')
+      .update({
+        dry_run_approved_at: new Date().toISOString(),
+        dry_run_approved_by: user.id
+      })
+      .eq('id', jobId)
+    
+    if (updateError) {
+      console.error('[APPROVE] Failed to approve dry run:', updateError)
+      return NextResponse.json({ error: 'Failed to approve import' }, { status: 500 })
+    }
+    
+    await logImportEvent(
+      user.id,
+      AUDIT_ACTIONS.IMPORT_APPROVED,
+      jobId,
+      { file_name: job.file_name, counts: job.dry_run_results.counts },
+      true,
+      undefined,
+      request
+    )
+    
+    return NextResponse.json({ success: true, message: 'Import approved for processing' })
+    
+  } catch (error) {
+    console.error('[APPROVE] Approval failed:', error)
+    
+    return NextResponse.json({ 
+      error: 'Approval failed', 
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { authenticateApiRequest } from '@/lib/auth-utils'
+import { cancelImportTasks } from '@/lib/import/job-queue'
 
 // Create admin client for data operations
 const createAdminSupabaseClient = () => {
@@ -85,6 +86,9 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    // Drop any queued or leased worker tasks so nothing picks the job back up
+    await cancelImportTasks(supabase, jobId)
+    
     // If the job was processing and had a portfolio, we should clean up any partial data
     if (job.status === 'processing' && job.portfolio_id) {
       // Delete any debt accounts that were created by this import job
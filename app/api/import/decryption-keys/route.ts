@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { deleteAgencyImportKey, getAgencyImportKeySummary, saveAgencyImportKey } from '@/lib/import/import-keys'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Agency admins manage their own agency's key; platform admins name the agency
+function resolveAgencyId(user: any, requestedAgencyId: string | null): string | null {
+  if (user.activeRole.roleType === 'platform_admin') return requestedAgencyId
+  return user.activeRole.organizationId || null
+}
+
+// Metadata for the agency's import decryption key - the key itself is never returned
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const agencyId = resolveAgencyId(user, new URL(request.url).searchParams.get('agency_id'))
+    if (!agencyId) {
+      return NextResponse.json({ error: 'agency_id is required' }, { status: 400 })
+    }
+
+    const key = await getAgencyImportKeySummary(createAdminSupabaseClient(), agencyId)
+    return NextResponse.json({ key })
+  } catch (error) {
+    console.error('Error in decryption keys GET:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Store or replace the agency's armored PGP private key
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const agencyId = resolveAgencyId(user, body.agency_id || null)
+    if (!agencyId) {
+      return NextResponse.json({ error: 'agency_id is required' }, { status: 400 })
+    }
+
+    if (!body.private_key || typeof body.private_key !== 'string') {
+      return NextResponse.json({ error: 'private_key is required' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    let key
+    try {
+      key = await saveAgencyImportKey(supabase, agencyId, body.private_key, body.passphrase || null, user.id)
+    } catch (saveError) {
+      return NextResponse.json(
+        { error: 'Failed to save decryption key', details: saveError instanceof Error ? saveError.message : 'Unknown error' },
+        { status: 400 }
+      )
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'agency_import_keys',
+      agencyId,
+      { action: 'key_saved', fingerprint: key.fingerprint },
+      request
+    )
+
+    return NextResponse.json({ key })
+  } catch (error) {
+    console.error('Error in decryption keys PUT:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const agencyId = resolveAgencyId(user, new URL(request.url).searchParams.get('agency_id'))
+    if (!agencyId) {
+      return NextResponse.json({ error: 'agency_id is required' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    await deleteAgencyImportKey(supabase, agencyId)
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'agency_import_keys',
+      agencyId,
+      { action: 'key_deleted' },
+      request
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in decryption keys DELETE:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
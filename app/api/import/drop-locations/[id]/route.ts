@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { findOverlappingDropLocation, pickDropLocationFields, validateDropLocation } from '@/lib/import/drop-folders'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+async function portfolioAgencyId(supabase: any, portfolioId: string | null): Promise<string | null> {
+  if (!portfolioId) return null
+  const { data } = await supabase
+    .from('master_portfolios')
+    .select('agency_id')
+    .eq('id', portfolioId)
+    .maybeSingle()
+  return data?.agency_id || null
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { data: existing } = await supabase
+      .from('import_drop_locations')
+      .select('*')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Drop location not found' }, { status: 404 })
+    }
+
+    const updates = pickDropLocationFields(await request.json())
+    const location = { ...existing, ...updates }
+
+    const errors = validateDropLocation(location)
+    if (location.source_type === 'local' && user.activeRole.roleType !== 'platform_admin') {
+      errors.push('Only platform admins can configure server directories')
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid drop location', details: errors }, { status: 400 })
+    }
+
+    // Agency admins must own the portfolio both before and after the change
+    if (user.activeRole.roleType !== 'platform_admin') {
+      const agencies = await Promise.all([
+        portfolioAgencyId(supabase, existing.portfolio_id),
+        portfolioAgencyId(supabase, location.portfolio_id)
+      ])
+      if (agencies.some(agencyId => agencyId !== user.activeRole.organizationId)) {
+        return NextResponse.json({ error: 'Access denied to this drop location' }, { status: 403 })
+      }
+    }
+
+    const overlapping = await findOverlappingDropLocation(supabase, location, params.id)
+    if (overlapping) {
+      return NextResponse.json(
+        { error: 'Invalid drop location', details: [`Folder overlaps the ${overlapping.name} drop location`] },
+        { status: 409 }
+      )
+    }
+
+    const { data: updated, error } = await supabase
+      .from('import_drop_locations')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating drop location:', error)
+      return NextResponse.json({ error: 'Failed to update drop location', details: error.message }, { status: 500 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'import_drop_locations',
+      params.id,
+      { action: 'updated', updates },
+      request
+    )
+
+    return NextResponse.json({ location: updated })
+  } catch (error) {
+    console.error('Error in drop location PATCH:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { data: existing } = await supabase
+      .from('import_drop_locations')
+      .select('id, portfolio_id')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Drop location not found' }, { status: 404 })
+    }
+
+    if (user.activeRole.roleType !== 'platform_admin' &&
+        await portfolioAgencyId(supabase, existing.portfolio_id) !== user.activeRole.organizationId) {
+      return NextResponse.json({ error: 'Access denied to this drop location' }, { status: 403 })
+    }
+
+    // Jobs already created from the location are kept; only the location and its pick-up log go
+    const { error } = await supabase
+      .from('import_drop_locations')
+      .delete()
+      .eq('id', params.id)
+
+    if (error) {
+      console.error('Error deleting drop location:', error)
+      return NextResponse.json({ error: 'Failed to delete drop location', details: error.message }, { status: 500 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'import_drop_locations',
+      params.id,
+      { action: 'deleted' },
+      request
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in drop location DELETE:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { pollDropLocations } from '@/lib/import/drop-folders'
+import { kickImportWorker } from '@/lib/import/job-runner'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Scheduled runs authenticate with CRON_SECRET; platform admins can also trigger a poll manually
+async function isAuthorizedPollRequest(request: NextRequest): Promise<boolean> {
+  const cronSecret = process.env.CRON_SECRET
+  const authHeader = request.headers.get('authorization')
+
+  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return true
+  }
+
+  const { user, error } = await authenticateApiRequest(request)
+  return !error && !!user && user.activeRole.roleType === 'platform_admin'
+}
+
+async function handlePollRequest(request: NextRequest) {
+  try {
+    if (!(await isAuthorizedPollRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const summary = await pollDropLocations(createAdminSupabaseClient())
+
+    // Start staging the new jobs now rather than on the next scheduled worker run
+    if (summary.jobsCreated > 0) {
+      kickImportWorker()
+    }
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    console.error('❌ [DROP] Poll failed:', error)
+    return NextResponse.json({
+      error: 'Drop folder poll failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handlePollRequest(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handlePollRequest(request)
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { findOverlappingDropLocation, ImportDropLocation, pickDropLocationFields, validateDropLocation } from '@/lib/import/drop-folders'
+
+export const dynamic = 'force-dynamic'
+
+// Recent pick-ups shown with each location
+const RECENT_FILES_LIMIT = 100
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Agency admins see the locations feeding their agency's portfolios
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const clientId = new URL(request.url).searchParams.get('client_id')
+
+    let query = supabase
+      .from('import_drop_locations')
+      .select('*, master_clients(id, name), master_portfolios(id, name, agency_id)')
+      .order('created_at', { ascending: false })
+
+    if (clientId) {
+      query = query.eq('client_id', clientId)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('Error fetching drop locations:', error)
+      return NextResponse.json({ error: 'Failed to fetch drop locations', details: error.message }, { status: 500 })
+    }
+
+    const locations = user.activeRole.roleType === 'platform_admin'
+      ? data || []
+      : (data || []).filter((location: any) => location.master_portfolios?.agency_id === user.activeRole.organizationId)
+
+    const { data: recentFiles } = locations.length > 0
+      ? await supabase
+          .from('import_drop_files')
+          .select('id, location_id, file_name, status, job_id, template_id, match_details, error_message, notified_at, created_at')
+          .in('location_id', locations.map((location: any) => location.id))
+          .order('created_at', { ascending: false })
+          .limit(RECENT_FILES_LIMIT)
+      : { data: [] }
+
+    return NextResponse.json({ locations, recent_files: recentFiles || [] })
+  } catch (error) {
+    console.error('Error in drop locations GET:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const location: Record<string, any> = { source_type: 'storage', import_mode: 'insert', ...pickDropLocationFields(body) }
+
+    const errors = validateDropLocation(location)
+    // Server directories are only configured by platform staff
+    if (location.source_type === 'local' && user.activeRole.roleType !== 'platform_admin') {
+      errors.push('Only platform admins can configure server directories')
+    }
+    if (user.activeRole.roleType !== 'platform_admin' && !location.portfolio_id) {
+      errors.push('A portfolio is required')
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid drop location', details: errors }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+
+    if (location.portfolio_id) {
+      const { data: portfolio } = await supabase
+        .from('master_portfolios')
+        .select('client_id, agency_id')
+        .eq('id', location.portfolio_id)
+        .maybeSingle()
+
+      if (!portfolio) {
+        return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 })
+      }
+      if (portfolio.client_id !== location.client_id) {
+        return NextResponse.json({ error: 'Portfolio does not belong to this client' }, { status: 400 })
+      }
+      if (user.activeRole.roleType !== 'platform_admin' && portfolio.agency_id !== user.activeRole.organizationId) {
+        return NextResponse.json({ error: 'Access denied to this portfolio' }, { status: 403 })
+      }
+    }
+
+    const overlapping = await findOverlappingDropLocation(supabase, location as ImportDropLocation)
+    if (overlapping) {
+      return NextResponse.json(
+        { error: 'Invalid drop location', details: [`Folder overlaps the ${overlapping.name} drop location`] },
+        { status: 409 }
+      )
+    }
+
+    const { data: created, error } = await supabase
+      .from('import_drop_locations')
+      .insert({ ...location, created_by: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating drop location:', error)
+      return NextResponse.json({ error: 'Failed to create drop location', details: error.message }, { status: 500 })
+    }
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'import_drop_locations',
+      created.id,
+      { action: 'created', location },
+      request
+    )
+
+    return NextResponse.json({ location: created }, { status: 201 })
+  } catch (error) {
+    console.error('Error in drop locations POST:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
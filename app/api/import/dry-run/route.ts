@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { checkImportJobAccess } from '@/lib/import/account-changes'
+import { isProcessableImportType } from '@/lib/import/process-chunk'
+import { cancelImportTasks, enqueueImportTask } from '@/lib/import/job-queue'
+import { kickImportWorker } from '@/lib/import/job-runner'
+
+export const dynamic = 'force-dynamic'
+
+// Queue a dry run of a validated job. The worker classifies the rows in checkpointed pages; the
+// job shows the dry run in progress until dry_run_completed_at is set.
+export async function POST(request: NextRequest) {
+  try {
+    console.log('🔍 [DRY RUN] Queueing import dry run...')
+    
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    
+    const allowedRoles = ['platform_admin', 'agency_admin']
+    if (!allowedRoles.includes(user.activeRole.roleType)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to dry run import jobs' },
+        { status: 403 }
+      )
+    }
+    
+    const { jobId } = await request.json()
+    if (!jobId) {
+      return NextResponse.json({ error: 'Job ID is required' }, { status: 400 })
+    }
+    
+    // Get Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+    
+    // Get the import job details
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single()
+    
+    if (jobError || !job) {
+      console.error('[DRY RUN] Error fetching job:', jobError)
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 })
+    }
+    
+    const access = await checkImportJobAccess(supabase, user, job)
+    if (access.error) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    
+    if (job.status !== 'validated' || !job.validation_results) {
+      return NextResponse.json({ error: 'Run validation before starting a dry run' }, { status: 400 })
+    }
+    
+    if (!isProcessableImportType(job.import_type)) {
+      return NextResponse.json({ error: `Import type '${job.import_type}' is not supported yet` }, { status: 400 })
+    }
+    
+    if (job.dry_run_started_at && !job.dry_run_completed_at) {
+      return NextResponse.json({ error: 'A dry run is already running for this import' }, { status: 409 })
+    }
+    
+    // A fresh dry run always needs a fresh approval. Guarded on the previous start so two
+    // requests can't both queue one.
+    const startedAt = new Date().toISOString()
+    let claimQuery = supabase
+      .from('import_jobs')
+      .update({
+        dry_run_results: null,
+        dry_run_started_at: startedAt,
+        dry_run_completed_at: null,
+        dry_run_approved_at: null,
+        dry_run_approved_by: null
+      })
+      .eq('id', jobId)
+      .eq('status', 'validated')
+    claimQuery = job.dry_run_started_at
+      ? claimQuery.eq('dry_run_started_at', job.dry_run_started_at)
+      : claimQuery.is('dry_run_started_at', null)
+    
+    const { data: claimed, error: updateError } = await claimQuery.select('id')
+    
+    if (updateError) {
+      console.error('[DRY RUN] Failed to start dry run:', updateError)
+      return NextResponse.json({ error: 'Failed to start dry run' }, { status: 500 })
+    }
+    if (!claimed || claimed.length === 0) {
+      return NextResponse.json({ error: 'A dry run is already running for this import' }, { status: 409 })
+    }
+    
+    // Drop a dry run left over from before the job was last validated
+    await cancelImportTasks(supabase, jobId, 'dry_run')
+    
+    const task = await enqueueImportTask(supabase, jobId, 'dry_run', { startedAt, requestedBy: user.id })
+    kickImportWorker()
+    
+    return NextResponse.json({
+      success: true,
+      taskId: task.id,
+      message: 'Dry run started'
+    }, { status: 202 })
+    
+  } catch (error) {
+    console.error('[DRY RUN] Dry run failed:', error)
+    
+    return NextResponse.json({ 
+      error: 'Dry run failed', 
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { authenticateApiRequest } from '@/lib/auth-utils'
+import { getDelimitedFileType } from '@/lib/import/delimited-reader'
+import { enqueueImportTask } from '@/lib/import/job-queue'
+import { kickImportWorker } from '@/lib/import/job-runner'
+import { buildFailedRowsCsv, loadJobStagingSettings } from '@/lib/import/failed-rows'
+import { getDataFileMimeType, unpackImportUpload, UnpackedUpload } from '@/lib/import/file-unpacking'
+import { loadAgencyPrivateKey, resolveImportAgencyId } from '@/lib/import/import-keys'
+import { resolveImportScope } from '@/lib/import/account-changes'
+
+export const dynamic = 'force-dynamic'
 
 // Create admin client for data operations
 const createAdminSupabaseClient = () => {
@@ -14,6 +23,11 @@ const createAdminSupabaseClient = () => {
   return createClient(supabaseUrl, supabaseServiceKey)
 }
 
+// Jobs record the uploader's auth user id
+function canAccessJob(user: any, job: any) {
+  return user.activeRole.roleType === 'platform_admin' || job.user_id === user.auth_user_id || job.user_id === user.id
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: { jobId: string } }
@@ -48,43 +62,46 @@ export async function GET(
     }
     
     // Check permissions - user can only download their own failed rows or platform admin
-    if (user.activeRole.roleType !== 'platform_admin' && job.user_id !== user.id) {
+    if (!canAccessJob(user, job)) {
       return NextResponse.json(
         { error: 'Insufficient permissions' },
         { status: 403 }
       )
     }
     
-    // Check if failed rows CSV exists
-    if (!job.failed_rows_csv_path) {
-      return NextResponse.json(
-        { error: 'No failed rows CSV available for this import job' },
-        { status: 404 }
-      )
-    }
-    
-    // Download the CSV file from storage
-    const { data: csvData, error: downloadError } = await supabase.storage
-      .from('import-files')
-      .download(job.failed_rows_csv_path)
-    
-    if (downloadError || !csvData) {
-      console.error('Error downloading failed rows CSV:', downloadError)
-      return NextResponse.json(
-        { error: 'Failed to download failed rows CSV' },
-        { status: 500 }
-      )
+    // Jobs finished before failed-rows files were written, or not processed yet, are built on request
+    let csvText: string
+    if (job.failed_rows_csv_path) {
+      const { data: csvData, error: downloadError } = await supabase.storage
+        .from('import-files')
+        .download(job.failed_rows_csv_path)
+      
+      if (downloadError || !csvData) {
+        console.error('Error downloading failed rows CSV:', downloadError)
+        return NextResponse.json(
+          { error: 'Failed to download failed rows CSV' },
+          { status: 500 }
+        )
+      }
+      
+      csvText = await csvData.text()
+    } else {
+      const result = job.validation_results ? await buildFailedRowsCsv(supabase, job) : null
+      if (!result) {
+        return NextResponse.json(
+          { error: 'No failed rows CSV available for this import job' },
+          { status: 404 }
+        )
+      }
+      csvText = result.csv
     }
     
-    // Convert to text
-    const csvText = await csvData.text()
-    
     // Return CSV file
     return new NextResponse(csvText, {
       status: 200,
       headers: {
         'Content-Type': 'text/csv',
-        'Content-Disposition': `attachment; filename="failed_rows_${jobId}.csv"`,
+        'Content-Disposition': `attachment; filename="${String(job.file_name || jobId).replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9_-]/g, '_')}_failed_rows.csv"`,
         'Cache-Control': 'no-cache'
       }
     })
@@ -96,4 +113,146 @@ export async function GET(
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+} 
+// Upload a corrected failed-rows file as a child job of the original. The child reuses the
+// original's template, portfolio, import mode and mapping, so nothing is re-mapped.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: authError || 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+
+    const { data: sourceJob, error: jobError } = await supabase
+      .from('import_jobs')
+      .select('*')
+      .eq('id', params.jobId)
+      .single()
+
+    if (jobError || !sourceJob) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 })
+    }
+
+    if (!canAccessJob(user, sourceJob)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    // Resubmitting a resubmission's failed rows still hangs off the original
+    let parentJob = sourceJob
+    if (sourceJob.parent_job_id) {
+      const { data: original } = await supabase
+        .from('import_jobs')
+        .select('*')
+        .eq('id', sourceJob.parent_job_id)
+        .maybeSingle()
+      if (original) parentJob = original
+    }
+
+    if (!['completed', 'validated', 'failed'].includes(sourceJob.status)) {
+      return NextResponse.json(
+        { error: `Failed rows can only be resubmitted once the job has finished (job is ${sourceJob.status})` },
+        { status: 400 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+    if (!file) {
+      return NextResponse.json({ error: 'A corrected file is required' }, { status: 400 })
+    }
+
+    // The caller still has to own the original's portfolio to import into it again
+    const importScope = await resolveImportScope(supabase, user, parentJob.import_type, parentJob.portfolio_id)
+    if (importScope.error) {
+      return NextResponse.json({ error: importScope.error }, { status: importScope.status })
+    }
+
+    let upload: UnpackedUpload
+    try {
+      upload = await unpackImportUpload(Buffer.from(await file.arrayBuffer()), file.name, async () =>
+        loadAgencyPrivateKey(supabase, resolveImportAgencyId(user, importScope.agencyId))
+      )
+    } catch (unpackError) {
+      return NextResponse.json(
+        { error: 'Failed to unpack file', details: unpackError instanceof Error ? unpackError.message : 'Unknown error' },
+        { status: 400 }
+      )
+    }
+
+    const dataFileName = upload.fileName
+    const fileType = getDelimitedFileType(dataFileName) || (dataFileName.toLowerCase().endsWith('.xls') ? 'xls' : 'xlsx')
+    const { fieldMapping, transformRules } = await loadJobStagingSettings(supabase, sourceJob)
+
+    if (Object.keys(fieldMapping).length === 0) {
+      return NextResponse.json({ error: 'The original job has no field mapping to reuse' }, { status: 400 })
+    }
+
+    const { data: job, error: createError } = await supabase
+      .from('import_jobs')
+      .insert({
+        user_id: user.auth_user_id,
+        parent_job_id: parentJob.id,
+        file_name: file.name,
+        file_size: file.size,
+        file_type: fileType,
+        data_file_name: upload.encodings.length > 0 ? dataFileName : null,
+        upload_encodings: upload.encodings,
+        import_type: parentJob.import_type,
+        template_id: parentJob.template_id,
+        template_version_id: parentJob.template_version_id,
+        portfolio_id: parentJob.portfolio_id,
+        agency_id: parentJob.agency_id,
+        import_mode: parentJob.import_mode,
+        status: 'pending'
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Error creating resubmission job:', createError)
+      return NextResponse.json({ error: 'Failed to create import job', details: createError.message }, { status: 500 })
+    }
+
+    const filePath = `${user.auth_user_id}/${job.id}/${dataFileName}`
+    const { error: uploadError } = await supabase.storage
+      .from('import-files')
+      .upload(filePath, upload.data, {
+        contentType: upload.encodings.length > 0 ? getDataFileMimeType(dataFileName) : file.type,
+        upsert: true
+      })
+
+    if (uploadError) {
+      await supabase.from('import_jobs').delete().eq('id', job.id)
+      return NextResponse.json({ error: 'Failed to upload file to storage', details: uploadError.message }, { status: 500 })
+    }
+
+    // Corrected files are often re-saved from a spreadsheet, so the delimiter is detected again;
+    // the mapping is already settled, so validation starts as soon as the rows are staged
+    await enqueueImportTask(supabase, job.id, 'stage', {
+      filePath,
+      fieldMapping,
+      transformRules,
+      portfolioId: parentJob.portfolio_id,
+      delimiter: undefined,
+      sheetConfig: null,
+      deleteFileAfterStaging: upload.encodings.length > 0,
+      autoValidate: true
+    })
+    kickImportWorker()
+
+    console.log(`📋 Import: Queued resubmission job ${job.id} for failed rows of job ${sourceJob.id}`)
+
+    return NextResponse.json({ success: true, job_id: job.id, parent_job_id: parentJob.id }, { status: 201 })
+  } catch (error) {
+    console.error('Error in failed rows resubmission:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
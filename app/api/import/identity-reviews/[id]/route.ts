@@ -0,0 +1,267 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logImportEvent, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { findExistingAccount, selectScopedAccounts } from '@/lib/import/account-changes'
+import { ImportChangeContext, recordImportChanges } from '@/lib/import/change-log'
+import { createAccountFromRow, resolveImportClientId } from '@/lib/import/process-chunk'
+
+export const dynamic = 'force-dynamic'
+
+const REVIEW_ROLES = ['platform_admin', 'agency_admin']
+const REVIEW_ACTIONS = ['link', 'create', 'dismiss']
+
+/**
+ * Create the reviewed row's account, on the linked person or a new one. Returns a conflict
+ * instead when another import has created the account since the row was queued.
+ */
+async function createReviewedAccount(
+  supabase: any,
+  job: any,
+  review: any,
+  linkPersonId: string | null
+): Promise<{ conflict: string } | { personId: string; accountId: string }> {
+  const clientId = await resolveImportClientId(supabase, job)
+  const mappedData = review.mapped_data || {}
+
+  if (mappedData.original_account_number) {
+    const existing = await findExistingAccount(supabase, clientId, String(mappedData.original_account_number))
+    if (existing) {
+      return { conflict: `Account ${mappedData.original_account_number} already exists for this client` }
+    }
+  }
+
+  // Logged against the original job so rolling the job back also removes this account
+  const changeContext: ImportChangeContext = { jobId: job.id, rowNumber: review.row_number, changes: [] }
+  try {
+    const created = await createAccountFromRow(
+      supabase,
+      job,
+      clientId,
+      { row_number: review.row_number, mapped_data: mappedData },
+      linkPersonId,
+      changeContext
+    )
+    if (created.relatedErrors.length > 0) {
+      console.warn(`⚠️ [IDENTITY REVIEW] Related sheet rows not attached to account ${created.accountId}:`, created.relatedErrors)
+    }
+    return { personId: created.personId, accountId: created.accountId }
+  } finally {
+    await recordImportChanges(supabase, changeContext.changes)
+  }
+}
+
+// Put a claimed review back in the queue when its account couldn't be created
+async function releaseReview(supabase: any, reviewId: string) {
+  const { error } = await supabase
+    .from('import_identity_reviews')
+    .update({ status: 'pending', resolved_by: null, resolved_at: null })
+    .eq('id', reviewId)
+
+  if (error) {
+    console.error('[IDENTITY REVIEW] Failed to release review:', error)
+  }
+}
+
+/**
+ * Resolve a queued identity match:
+ * - link: create the row's account on an existing person
+ * - create: create the account on a new person
+ * - dismiss: drop the row without creating anything
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!REVIEW_ROLES.includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions to review identity matches' }, { status: 403 })
+    }
+
+    const { action, personId } = await request.json()
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `Action must be one of: ${REVIEW_ACTIONS.join(', ')}` }, { status: 400 })
+    }
+    if (action === 'link' && !personId) {
+      return NextResponse.json({ error: 'Person ID is required to link' }, { status: 400 })
+    }
+
+    // Get Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+
+    const { data: review, error: reviewError } = await supabase
+      .from('import_identity_reviews')
+      .select('*')
+      .eq('id', params.id)
+      .single()
+
+    if (reviewError || !review) {
+      return NextResponse.json({ error: 'Identity review not found' }, { status: 404 })
+    }
+
+    if (review.status !== 'pending') {
+      return NextResponse.json({ error: `Identity review already ${review.status}` }, { status: 400 })
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .select('*')
+      .eq('id', review.job_id)
+      .single()
+
+    if (jobError || !job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 })
+    }
+
+    if (user.activeRole.roleType !== 'platform_admin' && user.activeRole.organizationId !== job.agency_id) {
+      return NextResponse.json({ error: 'Access denied to this import job' }, { status: 403 })
+    }
+
+    // Rows of a cancelled or undone job must not come back as live accounts
+    if (['cancelled', 'rolling_back', 'rolled_back'].includes(job.status)) {
+      return NextResponse.json({ error: `Import job is ${job.status}` }, { status: 409 })
+    }
+
+    let linkPersonId: string | null = null
+    if (action === 'link') {
+      const { data: person } = await supabase
+        .from('persons')
+        .select('id, merged_into')
+        .eq('id', personId)
+        .maybeSingle()
+
+      if (!person) {
+        return NextResponse.json({ error: 'Person not found' }, { status: 404 })
+      }
+
+      // The candidate may have been merged since the row was queued
+      linkPersonId = person.merged_into || person.id
+
+      // Only the persons the row was matched against can be linked, or what they were merged into
+      const candidateIds: string[] = (review.candidates || []).map((candidate: any) => candidate.personId)
+      const { data: candidatePersons, error: candidatesError } = candidateIds.length > 0
+        ? await supabase.from('persons').select('id, merged_into').in('id', candidateIds)
+        : { data: [], error: null }
+
+      if (candidatesError) {
+        throw new Error(`Failed to load review candidates: ${candidatesError.message}`)
+      }
+
+      const linkableIds = new Set((candidatePersons || []).map((candidate: any) => candidate.merged_into || candidate.id))
+      if (!linkableIds.has(linkPersonId)) {
+        return NextResponse.json({ error: 'Person is not a candidate for this row' }, { status: 400 })
+      }
+
+      // Reviews queued before candidates were scoped may list other agencies' persons
+      if (job.agency_id) {
+        const { data: agencyAccounts, error: agencyAccountsError } = await selectScopedAccounts(
+          supabase, { clientId: null, agencyId: job.agency_id }, 'id'
+        )
+          .eq('person_id', linkPersonId)
+          .limit(1)
+
+        if (agencyAccountsError) {
+          throw new Error(`Failed to check the person's accounts: ${agencyAccountsError.message}`)
+        }
+        if (!agencyAccounts || agencyAccounts.length === 0) {
+          return NextResponse.json({ error: 'Person is not a candidate for this row' }, { status: 400 })
+        }
+      }
+    }
+
+    // Claim the review before creating anything, so concurrent requests can't both create the account
+    const status = action === 'link' ? 'linked' : action === 'create' ? 'created' : 'dismissed'
+    const { data: claimed, error: claimError } = await supabase
+      .from('import_identity_reviews')
+      .update({
+        status,
+        resolved_by: user.id,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', review.id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (claimError) {
+      console.error('[IDENTITY REVIEW] Failed to claim review:', claimError)
+      return NextResponse.json({ error: 'Failed to update identity review', details: claimError.message }, { status: 500 })
+    }
+    if (!claimed || claimed.length === 0) {
+      return NextResponse.json({ error: 'Identity review was already resolved' }, { status: 409 })
+    }
+
+    let resolvedPersonId: string | null = null
+    let resolvedAccountId: string | null = null
+
+    if (action !== 'dismiss') {
+      let created: Awaited<ReturnType<typeof createReviewedAccount>>
+      try {
+        created = await createReviewedAccount(supabase, job, review, linkPersonId)
+      } catch (error) {
+        await releaseReview(supabase, review.id)
+        throw error
+      }
+
+      if ('conflict' in created) {
+        await releaseReview(supabase, review.id)
+        return NextResponse.json({ error: created.conflict }, { status: 409 })
+      }
+
+      resolvedPersonId = created.personId
+      resolvedAccountId = created.accountId
+
+      const { error: updateError } = await supabase
+        .from('import_identity_reviews')
+        .update({
+          resolved_person_id: resolvedPersonId,
+          resolved_account_id: resolvedAccountId
+        })
+        .eq('id', review.id)
+
+      if (updateError) {
+        console.error('[IDENTITY REVIEW] Failed to update review:', updateError)
+        return NextResponse.json({ error: 'Failed to update identity review', details: updateError.message }, { status: 500 })
+      }
+    }
+
+    await logImportEvent(
+      user.id,
+      AUDIT_ACTIONS.IDENTITY_REVIEW_RESOLVED,
+      job.id,
+      {
+        review_id: review.id,
+        row_number: review.row_number,
+        action,
+        person_id: resolvedPersonId,
+        account_id: resolvedAccountId
+      },
+      true,
+      undefined,
+      request
+    )
+
+    return NextResponse.json({
+      success: true,
+      status,
+      personId: resolvedPersonId,
+      accountId: resolvedAccountId
+    })
+
+  } catch (error) {
+    console.error('[IDENTITY REVIEW] Failed to resolve review:', error)
+
+    return NextResponse.json({
+      error: 'Failed to resolve identity review',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+
+export const dynamic = 'force-dynamic'
+
+const REVIEW_ROLES = ['platform_admin', 'agency_admin']
+
+function lastFour(ssn: string | null): string | null {
+  if (!ssn) return null
+  const digits = ssn.replace(/\D/g, '')
+  return digits.length >= 4 ? digits.slice(-4) : null
+}
+
+// List rows waiting for a reviewer to decide who they belong to
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!REVIEW_ROLES.includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions to review identity matches' }, { status: 403 })
+    }
+
+    // Get Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || 'pending'
+    const jobId = searchParams.get('job_id')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+
+    let query = supabase
+      .from('import_identity_reviews')
+      .select('*, import_jobs!inner(id, file_name, agency_id)')
+      .eq('status', status)
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (jobId) {
+      query = query.eq('job_id', jobId)
+    }
+
+    if (user.activeRole.roleType !== 'platform_admin') {
+      query = query.eq('import_jobs.agency_id', user.activeRole.organizationId)
+    }
+
+    const { data: reviews, error } = await query
+
+    if (error) {
+      console.error('[IDENTITY REVIEW] Failed to fetch reviews:', error)
+      return NextResponse.json({ error: 'Failed to fetch identity reviews', details: error.message }, { status: 500 })
+    }
+
+    // Load the candidate persons so the reviewer can compare them side by side
+    const personIds = Array.from(new Set((reviews || [])
+      .flatMap(review => (review.candidates || []).map((candidate: any) => candidate.personId))))
+
+    const personsById = new Map<string, any>()
+    if (personIds.length > 0) {
+      const { data: persons, error: personsError } = await supabase
+        .from('persons')
+        .select(`
+          id, first_name, last_name, full_name, dob, ssn,
+          person_addresses (full_address, is_current),
+          person_phones (number),
+          debt_accounts (id, master_portfolios!debt_accounts_portfolio_id_fkey (agency_id))
+        `)
+        .in('id', personIds)
+
+      if (personsError) {
+        console.error('[IDENTITY REVIEW] Failed to fetch candidate persons:', personsError)
+      }
+
+      for (const person of persons || []) {
+        personsById.set(person.id, {
+          id: person.id,
+          name: [person.first_name, person.last_name].filter(Boolean).join(' ') || person.full_name,
+          dob: person.dob,
+          ssn_last4: lastFour(person.ssn),
+          address: person.person_addresses?.find((address: any) => address.is_current)?.full_address
+            || person.person_addresses?.[0]?.full_address
+            || null,
+          phones: (person.person_phones || []).map((phone: any) => phone.number),
+          accountAgencyIds: (person.debt_accounts || []).map((account: any) => account.master_portfolios?.agency_id)
+        })
+      }
+    }
+
+    const results = (reviews || []).map(review => {
+      const { ssn, ...mappedData } = review.mapped_data || {}
+      const agencyId = review.import_jobs?.agency_id
+
+      // Only persons with accounts in the job's agency are shown; reviews queued before candidates
+      // were scoped may list others
+      const candidates = (review.candidates || []).flatMap((candidate: any) => {
+        const person = personsById.get(candidate.personId)
+        if (!person) return []
+
+        const { accountAgencyIds, ...details } = person
+        const accountCount = agencyId
+          ? accountAgencyIds.filter((accountAgencyId: string) => accountAgencyId === agencyId).length
+          : accountAgencyIds.length
+        if (accountCount === 0) return []
+
+        return [{ ...candidate, person: { ...details, account_count: accountCount } }]
+      })
+
+      return {
+        ...review,
+        mapped_data: { ...mappedData, ssn_last4: lastFour(ssn) },
+        candidates
+      }
+    })
+
+    return NextResponse.json({ reviews: results })
+
+  } catch (error) {
+    console.error('[IDENTITY REVIEW] Failed to list reviews:', error)
+
+    return NextResponse.json({
+      error: 'Failed to fetch identity reviews',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { getClientFieldMapping, getClientIdForPortfolio } from '@/lib/import/mapping-memory'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// The last confirmed field mapping for a client, looked up directly or through one of its portfolios
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const portfolioId = searchParams.get('portfolio_id')
+    const importType = searchParams.get('import_type') || 'accounts'
+    let clientId = searchParams.get('client_id')
+
+    if (!clientId && !portfolioId) {
+      return NextResponse.json({ error: 'client_id or portfolio_id is required' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+
+    if (!clientId && portfolioId) {
+      clientId = await getClientIdForPortfolio(supabase, portfolioId)
+    }
+
+    if (!clientId) {
+      return NextResponse.json({ mapping: null })
+    }
+
+    const mapping = await getClientFieldMapping(supabase, clientId, importType)
+    return NextResponse.json({ mapping })
+  } catch (error) {
+    console.error('Error in mapping memory GET:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
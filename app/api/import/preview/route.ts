@@ -2,10 +2,17 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import ExcelJS from 'exceljs'
 import { authenticateApiRequest } from '@/lib/auth-utils'
+import { getDelimitedFileType, isDelimitedFile, readDelimitedFile, resolveDelimiter } from '@/lib/import/delimited-reader'
+import { getDataFileMimeType, getUploadEncoding, unpackImportUpload } from '@/lib/import/file-unpacking'
+import { loadAgencyPrivateKey, resolveImportAgencyId } from '@/lib/import/import-keys'
+import { resolveImportScope } from '@/lib/import/account-changes'
+import { ImportSheetPreview } from '@/types/import'
 
 // Force dynamic runtime for this API route
 export const dynamic = 'force-dynamic'
 
+const PREVIEW_SAMPLE_SIZE = 10
+
 // Create admin client for data operations
 const createAdminSupabaseClient = () => {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -65,7 +72,7 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData()
     
     // Extract form fields
-    const file = formData.get('file') as File
+    let file = formData.get('file') as File
     const importType = formData.get('import_type') as string
     const templateId = formData.get('template_id') as string
     
@@ -85,12 +92,36 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    // Validate file type
+    // Zipped, gzipped or PGP-encrypted uploads are previewed from the data file inside
+    if (getUploadEncoding(file.name)) {
+      try {
+        const supabase = createAdminSupabaseClient()
+        const portfolioId = formData.get('portfolio_id') as string
+        const importScope = await resolveImportScope(supabase, user!, importType, portfolioId || null)
+        if (importScope.error) {
+          return NextResponse.json({ error: importScope.error }, { status: importScope.status })
+        }
+        const upload = await unpackImportUpload(Buffer.from(await file.arrayBuffer()), file.name, async () =>
+          loadAgencyPrivateKey(supabase, resolveImportAgencyId(user!, importScope.agencyId))
+        )
+        console.log('✅ Import preview: Unpacked upload:', { fileName: upload.fileName, encodings: upload.encodings })
+        file = new File([new Uint8Array(upload.data)], upload.fileName, { type: getDataFileMimeType(upload.fileName) })
+      } catch (unpackError) {
+        console.error('❌ Import preview: Failed to unpack upload:', unpackError)
+        return NextResponse.json(
+          { error: 'Failed to unpack file', details: unpackError instanceof Error ? unpackError.message : 'Unknown error' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Validate file type (TSV/pipe files often arrive without a MIME type, so also check the extension)
     const allowedTypes = ['text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel']
-    if (!allowedTypes.includes(file.type)) {
+    const isDelimited = isDelimitedFile(file.name, file.type)
+    if (!allowedTypes.includes(file.type) && !isDelimited) {
       console.error('❌ Import preview: Invalid file type:', file.type)
       return NextResponse.json(
-        { error: 'Invalid file type. Please upload a CSV or Excel file.' },
+        { error: 'Invalid file type. Please upload a CSV, TSV, pipe-delimited or Excel file.' },
         { status: 400 }
       )
     }
@@ -99,74 +130,59 @@ export async function POST(request: NextRequest) {
     
     // Read and parse file
     console.log('🔍 Import preview: Reading file...')
-    const arrayBuffer = await file.arrayBuffer()
-    const fileBuffer = Buffer.from(arrayBuffer)
     
     let rows: any[] = []
     let headers: string[] = []
+    let totalRows = 0
+    let sheets: ImportSheetPreview[] | undefined
     
-    if (file.type === 'text/csv') {
-      console.log('🔍 Import preview: Parsing CSV file...')
-      const csvText = fileBuffer.toString('utf-8')
-      const lines = csvText.split('\n').filter(line => line.trim())
-      
-      if (lines.length > 0) {
-        headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''))
-        rows = lines.slice(1).map(line => {
-          const values = line.split(',').map(v => v.trim().replace(/"/g, ''))
+    if (isDelimited) {
+      console.log('🔍 Import preview: Parsing delimited text file...')
+      try {
+        const delimiter = resolveDelimiter(formData.get('delimiter') as string)
+        const contents = await readDelimitedFile(file.stream(), { delimiter }, PREVIEW_SAMPLE_SIZE)
+        
+        headers = contents.headers
+        totalRows = contents.totalRows
+        rows = contents.rows.map(values => {
           const obj: any = {}
           headers.forEach((header, index) => {
             obj[header] = values[index] || ''
           })
           return obj
         })
+      } catch (error) {
+        console.error('❌ Import preview: Error parsing delimited file:', error)
+        return NextResponse.json(
+          { error: 'Error parsing file. Please ensure it\'s a valid delimited text file.' },
+          { status: 400 }
+        )
       }
     } else {
       console.log('🔍 Import preview: Parsing Excel file...')
+      const arrayBuffer = await file.arrayBuffer()
+      
       // Parse Excel file using exceljs library
       try {
         const workbook = new ExcelJS.Workbook()
         await workbook.xlsx.load(arrayBuffer)
-        const worksheet = workbook.worksheets[0]
-        
-        if (!worksheet) {
+        if (workbook.worksheets.length === 0) {
           return NextResponse.json({ error: 'No worksheet found in Excel file' }, { status: 400 })
         }
-        
-        // Convert worksheet to JSON with headers
-        const jsonData: any[][] = []
-        const dimensions = worksheet.dimensions
-        
-        if (dimensions) {
-          // Read header row
-          const headerRow: any[] = []
-          for (let col = dimensions.left; col <= dimensions.right; col++) {
-            const cell = worksheet.getCell(dimensions.top, col)
-            headerRow.push(cell.value?.toString() || '')
-          }
-          jsonData.push(headerRow)
-          
-          // Read data rows
-          for (let row = dimensions.top + 1; row <= dimensions.bottom; row++) {
-            const dataRow: any[] = []
-            for (let col = dimensions.left; col <= dimensions.right; col++) {
-              const cell = worksheet.getCell(row, col)
-              dataRow.push(cell.value?.toString() || '')
-            }
-            jsonData.push(dataRow)
-          }
-        }
-        
-        if (jsonData.length > 0) {
-          headers = jsonData[0].map(h => String(h || '').trim())
-          rows = jsonData.slice(1).map(row => {
-            const obj: any = {}
-            headers.forEach((header, index) => {
-              obj[header] = row[index] ? String(row[index]).trim() : ''
-            })
-            return obj
-          })
-        }
+
+        // Every sheet is previewed so the wizard can pick the primary and related sheets;
+        // the first one stays the default
+        const contents = workbook.worksheets.map(worksheet => readWorksheetContents(worksheet))
+        sheets = workbook.worksheets.map((worksheet, index) => ({
+          name: worksheet.name,
+          headers: contents[index].headers,
+          total_rows: contents[index].rows.length,
+          sample_rows: contents[index].rows.slice(0, PREVIEW_SAMPLE_SIZE)
+        }))
+
+        headers = contents[0].headers
+        rows = contents[0].rows
+        totalRows = rows.length
         
         console.log('✅ Import preview: Excel file parsed successfully')
       } catch (error) {
@@ -179,7 +195,7 @@ export async function POST(request: NextRequest) {
     }
     
     console.log('✅ Import preview: File parsed successfully:', {
-      totalRows: rows.length,
+      totalRows,
       headers: headers.length,
       sampleRows: rows.slice(0, 3)
     })
@@ -187,12 +203,13 @@ export async function POST(request: NextRequest) {
     // Return preview data
     return NextResponse.json({
       preview: {
-        total_rows: rows.length,
-        sample_rows: rows.slice(0, 10), // Show first 10 rows
+        total_rows: totalRows,
+        sample_rows: rows.slice(0, PREVIEW_SAMPLE_SIZE), // Show first 10 rows
         headers: headers,
-        file_type: file.type === 'text/csv' ? 'csv' : 'excel',
+        file_type: isDelimited ? (getDelimitedFileType(file.name) || 'csv') : 'excel',
         file_size: file.size,
-        validation_errors: []
+        validation_errors: [],
+        sheets
       }
     })
 
@@ -209,63 +226,42 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function parseCSV(text: string): any[] {
-  const lines = text.split('\n')
-  if (lines.length < 2) return []
-  
-  // Parse headers properly
-  const headers = parseCSVLine(lines[0])
-  const rows = []
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim()
-    if (line) {
-      const values = parseCSVLine(line)
-      const row: any = {}
-      headers.forEach((header, index) => {
-        row[header] = values[index] || ''
-      })
-      rows.push(row)
+// Header row and data rows of one worksheet, as objects keyed by header
+function readWorksheetContents(worksheet: ExcelJS.Worksheet): { headers: string[]; rows: any[] } {
+  const jsonData: any[][] = []
+  const dimensions = worksheet.dimensions
+
+  if (dimensions) {
+    // Read header row
+    const headerRow: any[] = []
+    for (let col = dimensions.left; col <= dimensions.right; col++) {
+      const cell = worksheet.getCell(dimensions.top, col)
+      headerRow.push(cell.value?.toString() || '')
     }
-  }
-  
-  return rows
-}
+    jsonData.push(headerRow)
 
-function parseCSVLine(line: string): string[] {
-  const result = []
-  let current = ''
-  let inQuotes = false
-  let i = 0
-  
-  while (i < line.length) {
-    const char = line[i]
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Escaped quote
-        current += '"'
-        i += 2
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes
-        i++
+    // Read data rows
+    for (let row = dimensions.top + 1; row <= dimensions.bottom; row++) {
+      const dataRow: any[] = []
+      for (let col = dimensions.left; col <= dimensions.right; col++) {
+        const cell = worksheet.getCell(row, col)
+        dataRow.push(cell.value?.toString() || '')
       }
-    } else if (char === ',' && !inQuotes) {
-      // End of field
-      result.push(current.trim())
-      current = ''
-      i++
-    } else {
-      current += char
-      i++
+      jsonData.push(dataRow)
     }
   }
-  
-  // Add the last field
-  result.push(current.trim())
-  
-  return result
+
+  if (jsonData.length === 0) return { headers: [], rows: [] }
+
+  const headers = jsonData[0].map(h => String(h || '').trim())
+  const rows = jsonData.slice(1).map(row => {
+    const obj: any = {}
+    headers.forEach((header, index) => {
+      obj[header] = row[index] ? String(row[index]).trim() : ''
+    })
+    return obj
+  })
+  return { headers, rows }
 }
 
 function validateRows(rows: any[], importType: string, columnMapping: Record<string, string>): any[] {
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { MAX_PROGRESS_STREAM_JOBS, createImportProgressStream } from '@/lib/import/progress-stream'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Server-sent events for the import jobs a page is watching (?jobs=id,id): status, row counts,
+// throughput/ETA and new row errors. errors_from=id:count,... resumes each job's error list.
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const allowedRoles = ['platform_admin', 'agency_admin', 'agency_user', 'client_admin', 'client_user', 'buyer']
+    if (!allowedRoles.includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const jobIds = Array.from(new Set((searchParams.get('jobs') || '').split(',').map(id => id.trim()).filter(Boolean)))
+    if (jobIds.length === 0) {
+      return NextResponse.json({ error: 'At least one job ID is required' }, { status: 400 })
+    }
+    if (jobIds.length > MAX_PROGRESS_STREAM_JOBS) {
+      return NextResponse.json({ error: `At most ${MAX_PROGRESS_STREAM_JOBS} jobs can be followed at once` }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { data: jobs, error: jobsError } = await supabase
+      .from('import_jobs')
+      .select('id, user_id, agency_id, master_portfolios(agency_id)')
+      .in('id', jobIds)
+
+    if (jobsError || !jobs || jobs.length !== jobIds.length) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 })
+    }
+
+    if (user.activeRole.roleType !== 'platform_admin') {
+      const denied = jobs.some((job: any) => {
+        // Portfolio-less jobs (skip trace, drop folders) carry the agency themselves
+        const agencyId = job.agency_id ?? job.master_portfolios?.agency_id
+        return job.user_id !== user.auth_user_id && (!agencyId || agencyId !== user.activeRole.organizationId)
+      })
+      if (denied) {
+        return NextResponse.json({ error: 'Access denied to one or more import jobs' }, { status: 403 })
+      }
+    }
+
+    const errorsFrom: Record<string, number> = {}
+    for (const entry of (searchParams.get('errors_from') || '').split(',')) {
+      const [jobId, count] = entry.split(':')
+      const parsed = parseInt(count || '', 10)
+      if (jobId && !isNaN(parsed)) errorsFrom[jobId] = parsed
+    }
+
+    const stream = createImportProgressStream(supabase, jobIds, {
+      errorsFrom,
+      signal: request.signal
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Stop proxies from buffering the stream
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    console.error('Error in import progress stream:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
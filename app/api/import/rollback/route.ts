@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logImportEvent, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { cancelImportTasks, enqueueImportTask } from '@/lib/import/job-queue'
+import { kickImportWorker } from '@/lib/import/job-runner'
+
+export const dynamic = 'force-dynamic'
+
+// Statuses whose writes can be rolled back
+const ROLLBACK_STATUSES = ['completed', 'failed']
+
+// Queue a rollback of everything a single import job wrote. The worker runs it in checkpointed
+// pages; the job shows 'rolling_back' until it finishes.
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const allowedRoles = ['platform_admin', 'agency_admin']
+    if (!allowedRoles.includes(user.activeRole.roleType)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to roll back import jobs' },
+        { status: 403 }
+      )
+    }
+
+    const { jobId } = await request.json()
+    if (!jobId) {
+      return NextResponse.json({ error: 'Job ID is required' }, { status: 400 })
+    }
+
+    // Get Supabase client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single()
+
+    if (jobError || !job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 })
+    }
+
+    if (user.activeRole.roleType !== 'platform_admin' && user.activeRole.organizationId !== job.agency_id) {
+      return NextResponse.json({ error: 'Access denied to this import job' }, { status: 403 })
+    }
+
+    if (job.status === 'rolling_back') {
+      return NextResponse.json({ error: 'This import is already being rolled back' }, { status: 409 })
+    }
+
+    if (!ROLLBACK_STATUSES.includes(job.status)) {
+      return NextResponse.json(
+        { error: `Only completed or failed imports can be rolled back (current status: ${job.status})` },
+        { status: 400 }
+      )
+    }
+
+    // Make sure no worker picks the job back up while it's being undone
+    await cancelImportTasks(supabase, jobId)
+
+    // Guard on the status so two requests can't both start a rollback
+    const { data: claimed, error: updateError } = await supabase
+      .from('import_jobs')
+      .update({ status: 'rolling_back', error_message: null })
+      .eq('id', jobId)
+      .in('status', ROLLBACK_STATUSES)
+      .select('id')
+
+    if (updateError) {
+      throw new Error(`Failed to update job status: ${updateError.message}`)
+    }
+    if (!claimed || claimed.length === 0) {
+      return NextResponse.json({ error: 'This import is already being rolled back' }, { status: 409 })
+    }
+
+    const task = await enqueueImportTask(supabase, jobId, 'rollback', { requestedBy: user.id })
+    kickImportWorker()
+
+    await logImportEvent(
+      user.id,
+      AUDIT_ACTIONS.IMPORT_ROLLBACK,
+      jobId,
+      {
+        file_name: job.file_name,
+        previous_status: job.status,
+        task_id: task.id,
+        note: 'Rollback queued'
+      },
+      true,
+      undefined,
+      request
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rollback started',
+      taskId: task.id
+    }, { status: 202 })
+
+  } catch (error) {
+    console.error('❌ [ROLLBACK] Rollback failed:', error)
+
+    return NextResponse.json({
+      error: 'Rollback failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
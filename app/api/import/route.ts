@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
-import ExcelJS from 'exceljs'
 import { authenticateApiRequest } from '@/lib/auth-utils'
 import { rateLimitByUser } from '@/lib/rate-limit'
 import { logDataAccess, logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
 import { sanitizeString, sanitizeEmail, sanitizePhone, sanitizeAddress, containsSqlInjection } from '@/lib/validation'
+import { getDelimitedFileType, resolveDelimiter } from '@/lib/import/delimited-reader'
+import { enqueueImportTask, cancelImportTasks } from '@/lib/import/job-queue'
+import { kickImportWorker } from '@/lib/import/job-runner'
+import { normalizeImportMode, resolveImportScope } from '@/lib/import/account-changes'
+import { resolveTemplateVersionId } from '@/lib/import/template-versions'
+import { getClientIdForPortfolio, rememberClientFieldMapping } from '@/lib/import/mapping-memory'
+import { validateTransformRules } from '@/lib/import/transform-rules'
+import { validateRelatedSheets } from '@/lib/import/sheet-config'
+import { getDataFileMimeType, unpackImportUpload, UnpackedUpload } from '@/lib/import/file-unpacking'
+import { loadAgencyPrivateKey, resolveImportAgencyId } from '@/lib/import/import-keys'
+import { getImportFamilyTotals } from '@/lib/import/failed-rows'
 
 // Force dynamic runtime for this API route
 export const dynamic = 'force-dynamic'
@@ -50,539 +60,6 @@ const createAdminSupabaseClient = () => {
   return createClient(supabaseUrl, supabaseServiceKey)
 }
 
-// Import processing function - moved to top for accessibility
-async function processImportJob(jobId: string, filePath: string, fieldMapping: any, portfolioId: string) {
-  console.log(`🚀 [PROCESS IMPORT] Function entered with params:`, { jobId, filePath, fieldMapping, portfolioId })
-  
-  const startTime = Date.now()
-  let tempTableName: string | null = null
-  
-  try {
-    console.log(`🚀 Starting import job ${jobId} with temp table approach`)
-    
-    // Create Supabase client
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_ROLE_KEY!
-    )
-    
-    // Update job status to processing
-    await supabase
-      .from('import_jobs')
-      .update({ 
-        status: 'processing', 
-        started_at: new Date().toISOString(),
-        progress: 0
-      })
-      .eq('id', jobId)
-    
-    // Download and parse the file
-    const { data: fileBuffer, error: downloadError } = await supabase.storage
-      .from('import-files')
-      .download(filePath)
-    
-    if (downloadError) {
-      throw new Error(`Failed to download file: ${downloadError.message}`)
-    }
-    
-    // Debug the file buffer
-    console.log(`📊 File buffer info:`, {
-      bufferType: typeof fileBuffer,
-      bufferSize: fileBuffer?.size || 0,
-      bufferIsBlob: fileBuffer instanceof Blob,
-      bufferIsArrayBuffer: fileBuffer instanceof ArrayBuffer,
-      bufferIsUint8Array: fileBuffer instanceof Uint8Array
-    })
-    
-    if (!fileBuffer || fileBuffer.size === 0) {
-      throw new Error('Downloaded file is empty or corrupted')
-    }
-    
-    // Convert Blob to ArrayBuffer for XLSX parsing
-    let arrayBuffer: ArrayBuffer
-    if (fileBuffer && typeof fileBuffer === 'object' && 'arrayBuffer' in fileBuffer) {
-      console.log(`📊 Converting Blob to ArrayBuffer...`)
-      arrayBuffer = await (fileBuffer as Blob).arrayBuffer()
-      console.log(`📊 ArrayBuffer created:`, {
-        byteLength: arrayBuffer.byteLength,
-        isArrayBuffer: arrayBuffer instanceof ArrayBuffer
-      })
-    } else if (fileBuffer && typeof fileBuffer === 'object' && 'byteLength' in fileBuffer) {
-      arrayBuffer = fileBuffer as ArrayBuffer
-    } else {
-      throw new Error(`Unsupported file buffer type: ${typeof fileBuffer}`)
-    }
-    
-    // Parse the file
-    console.log(`📊 Starting file parsing...`)
-    const workbook = new ExcelJS.Workbook()
-    await workbook.xlsx.load(arrayBuffer)
-    console.log(`📊 Workbook created, sheet names:`, workbook.worksheets.map(ws => ws.name))
-    
-    const worksheet = workbook.worksheets[0]
-    if (!worksheet) {
-      throw new Error('No worksheet found in Excel file')
-    }
-    console.log(`📊 Using sheet: ${worksheet.name}`)
-    
-    // Get worksheet dimensions
-    const dimensions = worksheet.dimensions
-    console.log(`📊 Worksheet dimensions:`, dimensions)
-    
-    if (!dimensions) {
-      throw new Error('Worksheet has no dimensions defined')
-    }
-    
-    // Log detailed dimension information
-    console.log(`📊 Detailed dimensions analysis:`, {
-      top: dimensions.top,
-      left: dimensions.left,
-      bottom: dimensions.bottom,
-      right: dimensions.right,
-      totalRows: dimensions.bottom - dimensions.top + 1,
-      totalCols: dimensions.right - dimensions.left + 1
-    })
-    
-    // Verify dimensions make sense
-    if (dimensions.bottom < dimensions.top) {
-      throw new Error(`Invalid dimensions: bottom (${dimensions.bottom}) < top (${dimensions.top})`)
-    }
-    
-    if (dimensions.right < dimensions.left) {
-      throw new Error(`Invalid dimensions: right (${dimensions.right}) < left (${dimensions.left})`)
-    }
-    
-    // Build rows by reading each cell
-    const rows: any[][] = []
-    
-    // Read header row (first row)
-    const headerRow: any[] = []
-    for (let col = dimensions.left; col <= dimensions.right; col++) {
-      const cell = worksheet.getCell(dimensions.top, col)
-      headerRow.push(cell.value?.toString() || '')
-    }
-    rows.push(headerRow)
-    
-    // Read data rows
-    let actualDataRows = 0
-    for (let row = dimensions.top + 1; row <= dimensions.bottom; row++) {
-      const dataRow: any[] = []
-      let hasData = false
-      
-      for (let col = dimensions.left; col <= dimensions.right; col++) {
-        const cell = worksheet.getCell(row, col)
-        const cellValue = cell.value?.toString() || ''
-        dataRow.push(cellValue)
-        
-        // Check if this row has any non-empty data
-        if (cellValue.trim() !== '') {
-          hasData = true
-        }
-      }
-      
-      // Only count rows that actually have data
-      if (hasData) {
-        rows.push(dataRow)
-        actualDataRows++
-      } else {
-        console.log(`📊 Skipping empty row ${row} (all cells empty)`)
-      }
-    }
-    
-    console.log(`📊 Row analysis:`, {
-      totalRowsInFile: rows.length,
-      headerRow: 1,
-      dataRowsWithContent: actualDataRows,
-      emptyRowsSkipped: (dimensions.bottom - dimensions.top) - actualDataRows,
-      originalDimensions: dimensions
-    })
-    
-    if (rows.length < 2) {
-      console.error(`❌ File parsing failed: rows.length = ${rows.length}`)
-      console.error(`❌ First few rows:`, rows)
-      console.error(`❌ Dimensions:`, dimensions)
-      throw new Error('File must have at least a header row and one data row')
-    }
-    
-    const headers = rows[0] as string[]
-    const dataRows = rows.slice(1) as any[]
-    
-    console.log(`📊 File parsed: ${headers.length} columns, ${dataRows.length} rows`)
-    
-    // Create temp table
-    tempTableName = await createTempImportTable(supabase, jobId, fieldMapping)
-    
-    // Convert rows to objects with headers
-    const rowObjects = dataRows.map((row, index) => {
-      const obj: any = { jobId, import_id: jobId }
-      headers.forEach((header, colIndex) => {
-        if (header && row[colIndex] !== undefined) {
-          obj[header] = row[colIndex]
-        }
-      })
-      return obj
-    })
-    
-    // Verify we have valid data before processing
-    console.log(`📊 Data validation:`, {
-      totalRowObjects: rowObjects.length,
-      sampleRowObject: rowObjects[0],
-      sampleRowKeys: Object.keys(rowObjects[0] || {}),
-      firstFewRows: rowObjects.slice(0, 3).map(row => ({
-        keys: Object.keys(row),
-        hasJobId: !!row.jobId,
-        hasImportId: !!row.import_id
-      }))
-    })
-    
-    // Check for potential issues
-    if (rowObjects.length === 0) {
-      throw new Error('No data rows found after parsing')
-    }
-    
-    if (!rowObjects[0]?.jobId) {
-      throw new Error('First row missing jobId - data structure issue')
-    }
-    
-    // Bulk insert to temp table
-    console.log(`🚀 [IMPORT] About to call bulkInsertToTempTable with ${rowObjects.length} rows`)
-    console.log(`🚀 [IMPORT] Field mapping keys:`, Object.keys(fieldMapping))
-    console.log(`🚀 [IMPORT] Sample row object keys:`, Object.keys(rowObjects[0] || {}))
-    
-    try {
-      // Add a timeout to prevent hanging
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('bulkInsertToTempTable timed out after 60 seconds')), 60000)
-      })
-      
-      const insertPromise = bulkInsertToTempTable(supabase, tempTableName, rowObjects, fieldMapping, jobId)
-      
-      await Promise.race([insertPromise, timeoutPromise])
-      console.log(`✅ [IMPORT] bulkInsertToTempTable completed successfully`)
-    } catch (error) {
-      console.error(`❌ [IMPORT] bulkInsertToTempTable failed:`, error)
-      throw error
-    }
-    
-    console.log(`✅ [IMPORT] bulkInsertToTempTable completed, moving to status update...`)
-    
-    // File upload and staging is complete - mark as uploaded (not completed)
-    console.log(`✅ File uploaded and staged successfully`)
-    console.log(`📊 Staging data is available in import_staging_data table for validation and processing`)
-    
-    // Update job status to uploaded (ready for validation)
-    console.log(`🔄 [IMPORT] Updating job status to 'uploaded' for job ${jobId}`)
-    console.log(`🔄 [IMPORT] About to execute Supabase update query...`)
-    
-    try {
-      // First verify the job exists
-      console.log(`🔄 [IMPORT] Verifying job exists before update...`)
-      const { data: existingJob, error: fetchError } = await supabase
-        .from('import_jobs')
-        .select('id, status, created_at')
-        .eq('id', jobId)
-        .single()
-      
-      if (fetchError) {
-        console.error(`❌ [IMPORT] Error fetching job for verification:`, fetchError)
-        throw fetchError
-      }
-      
-      if (!existingJob) {
-        console.error(`❌ [IMPORT] Job ${jobId} not found for update`)
-        throw new Error(`Job ${jobId} not found`)
-      }
-      
-      console.log(`✅ [IMPORT] Job verification successful:`, {
-        id: existingJob.id,
-        currentStatus: existingJob.status,
-        createdAt: existingJob.created_at
-      })
-      
-      console.log(`🔄 [IMPORT] Creating update object...`)
-      const updateData = { 
-        status: 'uploaded',
-        uploaded_at: new Date().toISOString(),
-        progress: 0, // No progress yet - waiting for validation
-        rows_processed: 0 // No rows processed yet
-      }
-      console.log(`🔄 [IMPORT] Update data:`, JSON.stringify(updateData, null, 2))
-      
-      console.log(`🔄 [IMPORT] Executing Supabase update...`)
-      console.log(`🔄 [IMPORT] Target table: import_jobs`)
-      console.log(`🔄 [IMPORT] Target job ID: ${jobId}`)
-      
-      const updateResult = await supabase
-        .from('import_jobs')
-        .update(updateData)
-        .eq('id', jobId)
-      
-      console.log(`🔄 [IMPORT] Update result received:`, {
-        data: updateResult.data,
-        error: updateResult.error,
-        count: updateResult.count,
-        status: updateResult.status,
-        statusText: updateResult.statusText
-      })
-      
-      if (updateResult.error) {
-        console.error(`❌ [IMPORT] Failed to update job status:`, updateResult.error)
-        console.error(`❌ [IMPORT] Error details:`, {
-          code: updateResult.error.code,
-          message: updateResult.error.message,
-          details: updateResult.error.details,
-          hint: updateResult.error.hint
-        })
-        throw updateResult.error
-      }
-      
-      console.log(`✅ [IMPORT] Job status updated successfully to 'uploaded'`)
-      console.log(`✅ [IMPORT] Update completed, moving to cleanup...`)
-    } catch (updateError) {
-      console.error(`❌ [IMPORT] Error updating job status:`, updateError)
-      console.error(`❌ [IMPORT] Error type:`, typeof updateError)
-      console.error(`❌ [IMPORT] Error constructor:`, updateError?.constructor?.name)
-      if (updateError instanceof Error) {
-        console.error(`❌ [IMPORT] Error stack:`, updateError.stack)
-      }
-      throw updateError
-    }
-    
-    console.log(`✅ [IMPORT] Status update completed successfully`)
-    
-    const duration = Date.now() - startTime
-    console.log(`✅ [IMPORT] Import job ${jobId} uploaded in ${duration}ms. Ready for validation.`)
-    console.log(`✅ [IMPORT] Moving to cleanup phase...`)
-    
-    // Cleanup: Drop the staging table
-    try {
-      await cleanupStagingTable(supabase, tempTableName)
-    } catch (cleanupError) {
-      console.error('Failed to cleanup staging table:', cleanupError)
-      // Don't fail the import if cleanup fails
-    }
-    
-    // Email functionality disabled
-    // try {
-    //   const { data: job } = await supabase
-    //     .from('import_jobs')
-    //     .select('*')
-    //     .eq('id', jobId)
-    //     .single()
-    //   
-    //   if (job) {
-    //     await sendImportJobCompletedEmail(
-    //       job.user_id, // This should be an email address
-    //       job.file_name,
-    //       job.import_type,
-    //       job.status,
-    //       `Processed ${processedCount} rows successfully`
-    //     )
-    //   }
-    // } catch (emailError) {
-    //   console.error('Failed to send completion email:', emailError)
-    // }
-    
-  } catch (error) {
-    console.error(`❌ [IMPORT] Import job ${jobId} failed:`, error)
-    console.error(`❌ [IMPORT] Error stack:`, error instanceof Error ? error.stack : 'No stack trace')
-    console.error(`❌ [IMPORT] Error message:`, error instanceof Error ? error.message : 'No message')
-    
-    // Cleanup: Drop the staging table even on failure
-    if (tempTableName) {
-      try {
-        console.log(`🧹 [IMPORT] Cleaning up staging table: ${tempTableName}`)
-        const cleanupSupabase = createClient(
-          process.env.NEXT_PUBLIC_SUPABASE_URL!,
-          process.env.SUPABASE_SERVICE_ROLE_KEY!
-        )
-        await cleanupStagingTable(cleanupSupabase, tempTableName)
-        console.log(`✅ [IMPORT] Staging table cleanup completed`)
-      } catch (cleanupError) {
-        console.error('❌ [IMPORT] Failed to cleanup staging table on error:', cleanupError)
-        // Don't fail the error handling if cleanup fails
-      }
-    }
-    
-    // Update job status to failed
-    try {
-      console.log(`🔄 [IMPORT] Updating job status to 'failed' for job ${jobId}`)
-      const supabase = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.SUPABASE_SERVICE_ROLE_KEY!
-      )
-      
-      const updateResult = await supabase
-        .from('import_jobs')
-        .update({ 
-          status: 'failed', 
-          error_message: error instanceof Error ? error.message : 'Unknown error',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', jobId)
-      
-      if (updateResult.error) {
-        console.error(`❌ [IMPORT] Failed to update job status to failed:`, updateResult.error)
-      } else {
-        console.log(`✅ [IMPORT] Job status updated to 'failed' successfully`)
-      }
-    } catch (updateError) {
-      console.error('❌ [IMPORT] Failed to update job status to failed:', updateError)
-    }
-    
-    throw error
-  }
-}
-
-// Helper functions for temp table processing
-async function createTempImportTable(supabase: any, jobId: string, fieldMapping: any) {
-  try {
-    // Get job details to extract filename
-    const { data: job, error: jobError } = await supabase
-      .from('import_jobs')
-      .select('file_name, created_at')
-      .eq('id', jobId)
-      .single()
-    
-    if (jobError) {
-      console.error('[TEMP TABLE] Error getting job details:', jobError)
-      throw jobError
-    }
-    
-    // Create table name in format: temp_date_filename
-    const date = new Date(job.created_at)
-    const dateStr = date.toISOString().split('T')[0].replace(/-/g, '') // YYYYMMDD format
-    const filename = job.file_name.replace(/\.[^/.]+$/, '') // Remove file extension
-    const cleanFilename = filename.replace(/[^a-zA-Z0-9]/g, '_') // Replace special chars with underscores
-    
-    const tempTableName = `temp_${dateStr}_${cleanFilename}`
-    
-    // Get all the target fields from the field mapping
-    const targetFields = Object.values(fieldMapping || {})
-    const uniqueFields = Array.from(new Set(targetFields as string[]))
-    
-    console.log(`[TEMP TABLE] Using staging table: ${tempTableName}`)
-    console.log(`[TEMP TABLE] Fields to map: ${uniqueFields.join(', ')}`)
-    
-    // Instead of creating a dynamic table, we'll use a flexible staging approach
-    // Store the data in a JSONB column with the field mapping information
-    // This allows us to handle any field structure without dynamic table creation
-    
-    console.log(`[TEMP TABLE] Staging approach: Using JSONB storage for dynamic fields`)
-    return tempTableName
-    
-  } catch (error) {
-    console.error('[TEMP TABLE] Failed to setup staging:', error)
-    throw new Error(`Failed to setup staging: ${error}`)
-  }
-}
-
-async function bulkInsertToTempTable(supabase: any, tempTableName: string, rows: any[], fieldMapping: any, jobId: string) {
-  try {
-    console.log(`🚀 [BULK INSERT] Function started with ${rows.length} rows`)
-    console.log(`🚀 [BULK INSERT] tempTableName: ${tempTableName}`)
-    console.log(`🚀 [BULK INSERT] jobId: ${jobId}`)
-    console.log(`🚀 [BULK INSERT] fieldMapping:`, JSON.stringify(fieldMapping, null, 2))
-    
-    if (rows.length === 0) {
-      console.log(`⚠️ [BULK INSERT] No rows to process, returning early`)
-      return
-    }
-    
-    console.log(`📊 [BULK INSERT] Sample row object:`, JSON.stringify(rows[0], null, 2))
-    console.log(`📊 [BULK INSERT] Sample row keys:`, Object.keys(rows[0] || {}))
-    
-    // Prepare the data for bulk insert into the staging table
-    console.log(`🔄 [BULK INSERT] Preparing insert data...`)
-    const insertData = rows.map((row: any, index) => {
-      // Create the mapped data object
-      const mappedData: any = {}
-      
-      // Only log detailed info for first row and every 100th row to reduce log spam
-      const shouldLog = index === 0 || (index + 1) % 100 === 0
-      
-      if (shouldLog) {
-        console.log(`🔄 [BULK INSERT] Processing row ${index + 1}:`, {
-          rowKeys: Object.keys(row),
-          fieldMappingEntries: Object.entries(fieldMapping || {})
-        })
-      }
-      
-      Object.entries(fieldMapping || {}).forEach(([targetField, sourceField]) => {
-        const sourceValue = row[sourceField as string]
-        
-        if (shouldLog) {
-          console.log(`🔄 [BULK INSERT] Mapping ${sourceField} -> ${targetField}:`, {
-            sourceField,
-            targetField,
-            sourceValue,
-            hasValue: sourceValue !== undefined
-          })
-        }
-        
-        if (sourceValue !== undefined) {
-          mappedData[targetField as string] = sourceValue?.toString() || ''
-        }
-      })
-      
-      const insertRow = {
-        job_id: jobId,
-        table_name: tempTableName,
-        row_number: index + 1,
-        field_mapping: fieldMapping,
-        mapped_data: mappedData,
-        raw_data: row
-      }
-      
-      if (index === 0) {
-        console.log(`📊 [BULK INSERT] First insert row sample:`, JSON.stringify(insertRow, null, 2))
-      }
-      
-      // Show progress every 500 rows
-      if ((index + 1) % 500 === 0) {
-        console.log(`📊 [BULK INSERT] Data preparation progress: ${index + 1}/${rows.length} rows processed`)
-      }
-      
-      return insertRow
-    })
-    
-    console.log(`📊 [BULK INSERT] Data preparation completed: ${insertData.length} rows ready for insertion`)
-    console.log(`📊 [BULK INSERT] First row mapped_data:`, JSON.stringify(insertData[0]?.mapped_data, null, 2))
-    
-    // Insert into the staging table - single operation as before
-    console.log(`🚀 [BULK INSERT] About to insert into import_staging_data table...`)
-    const { data, error } = await supabase
-      .from('import_staging_data')
-      .insert(insertData)
-    
-    if (error) {
-      console.error('❌ [BULK INSERT] Error inserting data:', error)
-      console.error('❌ [BULK INSERT] Error details:', {
-        code: error.code,
-        message: error.message,
-        details: error.details,
-        hint: error.hint
-      })
-      throw error
-    }
-    
-    console.log(`✅ [BULK INSERT] Successfully inserted ${rows.length} rows into staging table`)
-    console.log(`✅ [BULK INSERT] Insert result:`, { 
-      data, 
-      rowsInserted: data?.length,
-      expectedRows: rows.length
-    })
-    
-    return data
-  } catch (error) {
-    console.error('❌ [BULK INSERT] Failed to insert data:', error)
-    console.error('❌ [BULK INSERT] Error type:', typeof error)
-    console.error('❌ [BULK INSERT] Error constructor:', error?.constructor?.name)
-    console.error('❌ [BULK INSERT] Full error object:', JSON.stringify(error, null, 2))
-    throw error
-  }
-}
-
 async function processFromTempTable(supabase: any, tempTableName: string, portfolioId: string, batchSize: number = 25) {
   try {
     console.log(`[TEMP TABLE] Starting processing from staging table for: ${tempTableName}`)
@@ -742,30 +219,6 @@ async function processTempTableBatch(batch: any[], portfolioId: string, supabase
   }
 }
 
-// Cleanup function - we keep staging data for inspection
-async function cleanupStagingTable(supabase: any, tempTableName: string) {
-  try {
-    console.log(`[CLEANUP] Keeping staging data for table: ${tempTableName}`)
-    console.log(`[CLEANUP] Data will remain in import_staging_data table for inspection`)
-    
-    // Get count of rows for this table
-    const { count, error: countError } = await supabase
-      .from('import_staging_data')
-      .select('*', { count: 'exact', head: true })
-      .eq('table_name', tempTableName)
-    
-    if (countError) {
-      console.error('[CLEANUP] Error getting staging data count:', countError)
-    } else {
-      console.log(`[CLEANUP] Staging table ${tempTableName} contains ${count} rows`)
-    }
-    
-  } catch (error) {
-    console.error('[CLEANUP] Failed to check staging data:', error)
-    // Don't throw here - cleanup failure shouldn't fail the import
-  }
-}
-
 export async function GET(request: NextRequest) {
   try {
     // Authenticate the request
@@ -827,8 +280,14 @@ export async function GET(request: NextRequest) {
       )
     }
     
+    // Originals with resubmitted failed rows report totals across the whole family
+    const familyTotals = await getImportFamilyTotals(supabase, jobs || [])
+    const jobsWithTotals = (jobs || []).map((job: any) =>
+      familyTotals[job.id] ? { ...job, combined_totals: familyTotals[job.id] } : job
+    )
+    
     return NextResponse.json({
-      jobs: jobs || [],
+      jobs: jobsWithTotals,
       total: count || 0,
       page,
       limit,
@@ -892,13 +351,17 @@ export async function POST(request: NextRequest) {
     const importType = formData.get('import_type') as string
     const templateId = formData.get('template_id') as string
     const portfolioId = formData.get('portfolio_id') as string
+    const delimiter = resolveDelimiter(formData.get('delimiter') as string)
+    const importMode = normalizeImportMode(formData.get('import_mode') as string)
     
     console.log('🔍 Import API: FormData extracted:', {
       fileName: file?.name,
       fileSize: file?.size,
       importType,
       templateId,
-      portfolioId
+      portfolioId,
+      delimiter,
+      importMode
     })
 
     if (!file || !importType) {
@@ -910,8 +373,8 @@ export async function POST(request: NextRequest) {
 
     console.log('✅ Import API: File validation passed')
 
-    // Validate portfolio ID for account imports
-    if (importType === 'accounts') {
+    // Validate portfolio ID for account imports; other imports may name one to scope account matching
+    if (importType === 'accounts' || portfolioId) {
       if (!portfolioId || portfolioId.trim() === '') {
         return NextResponse.json(
           { error: 'Portfolio ID is required for account imports' },
@@ -929,16 +392,97 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // The portfolio must be the caller's; imports without one stay within the caller's agency
+    const importScope = await resolveImportScope(supabase, user, importType, portfolioId || null)
+    if (importScope.error) {
+      return NextResponse.json({ error: importScope.error }, { status: importScope.status })
+    }
+
+    // Zipped, gzipped or PGP-encrypted uploads are reduced to the data file they carry;
+    // only that file is written to storage
+    let upload: UnpackedUpload
+    try {
+      upload = await unpackImportUpload(Buffer.from(await file.arrayBuffer()), file.name, async () =>
+        loadAgencyPrivateKey(supabase, resolveImportAgencyId(user, importScope.agencyId))
+      )
+    } catch (unpackError) {
+      console.error('❌ Import API: Failed to unpack upload:', unpackError)
+      return NextResponse.json(
+        { error: 'Failed to unpack file', details: unpackError instanceof Error ? unpackError.message : 'Unknown error' },
+        { status: 400 }
+      )
+    }
+    const dataFileName = upload.fileName
+    const fileType = getDelimitedFileType(dataFileName) || (dataFileName.toLowerCase().endsWith('.xls') ? 'xls' : 'xlsx')
+    if (upload.encodings.length > 0) {
+      console.log('✅ Import API: Unpacked upload:', { fileName: dataFileName, encodings: upload.encodings })
+    }
+
     // Test import job creation
     console.log('🔍 Import API: Testing import job creation...')
     try {
+      // Stamp the job with the exact template version so later template edits don't change it
+      const templateVersionId = templateId ? await resolveTemplateVersionId(supabase, templateId) : null
+
+      // Rules confirmed in the mapping modal, otherwise those of the stamped template version
+      const transformRulesRaw = formData.get('transform_rules') as string
+      let transformRules: any = []
+      if (transformRulesRaw) {
+        try {
+          transformRules = JSON.parse(transformRulesRaw)
+        } catch {
+          return NextResponse.json({ error: 'Transformation rules must be valid JSON' }, { status: 400 })
+        }
+      } else if (templateVersionId) {
+        const { data: templateVersion } = await supabase
+          .from('import_template_versions')
+          .select('transform_rules')
+          .eq('id', templateVersionId)
+          .single()
+        transformRules = templateVersion?.transform_rules || []
+      }
+
+      const transformErrors = validateTransformRules(transformRules)
+      if (transformErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid transformation rules', details: transformErrors },
+          { status: 400 }
+        )
+      }
+
+      // Workbooks: the sheet holding the accounts and any related sheets to attach to them
+      const sheetConfigRaw = formData.get('sheet_config') as string
+      let sheetConfig: any = null
+      if (sheetConfigRaw) {
+        try {
+          sheetConfig = JSON.parse(sheetConfigRaw)
+        } catch {
+          return NextResponse.json({ error: 'Sheet configuration must be valid JSON' }, { status: 400 })
+        }
+
+        const sheetErrors = !sheetConfig?.primarySheet
+          ? ['A primary sheet is required']
+          : validateRelatedSheets(sheetConfig.related || [], sheetConfig.primarySheet)
+        if (getDelimitedFileType(dataFileName)) sheetErrors.push('Sheets can only be selected for Excel workbooks')
+        if ((sheetConfig?.related || []).length > 0 && importType !== 'accounts') {
+          sheetErrors.push('Related sheets are only supported for account imports')
+        }
+        if (sheetErrors.length > 0) {
+          return NextResponse.json(
+            { error: 'Invalid sheet configuration', details: sheetErrors },
+            { status: 400 }
+          )
+        }
+        sheetConfig = { primarySheet: sheetConfig.primarySheet, related: sheetConfig.related || [] }
+      }
+
       // Create import job
       console.log('🔍 Import API: Creating import job...')
       console.log('🔍 Import API: Job data:', {
         user_id: user.auth_user_id,
         file_name: file.name,
         file_size: file.size,
-        file_type: file.name.endsWith('.csv') ? 'csv' : 'xlsx',
+        file_type: fileType,
         import_type: importType,
         template_id: templateId || null
       })
@@ -947,7 +491,7 @@ export async function POST(request: NextRequest) {
         user_id: user.auth_user_id,
         file_name: file.name,
         file_size: file.size,
-        file_type: file.name.endsWith('.csv') ? 'csv' : 'xlsx',
+        file_type: fileType,
         import_type: importType,
         template_id: templateId || null,
         portfolio_id: portfolioId || null,
@@ -960,10 +504,16 @@ export async function POST(request: NextRequest) {
           user_id: user.auth_user_id,
           file_name: file.name,
           file_size: file.size,
-          file_type: file.name.endsWith('.csv') ? 'csv' : 'xlsx',
+          file_type: fileType,
+          data_file_name: upload.encodings.length > 0 ? dataFileName : null,
+          upload_encodings: upload.encodings,
           import_type: importType,
           template_id: templateId || null,
+          template_version_id: templateVersionId,
           portfolio_id: portfolioId || null,
+          agency_id: importScope.agencyId,
+          import_mode: importMode,
+          sheet_config: sheetConfig,
           status: 'pending'
         })
         .select()
@@ -994,6 +544,26 @@ export async function POST(request: NextRequest) {
         } catch {}
       }
 
+      // Remember the confirmed mapping for this client's next file
+      if (portfolioId && Object.keys(fieldMapping).length > 0) {
+        try {
+          const clientId = await getClientIdForPortfolio(supabase, portfolioId)
+          if (clientId) {
+            await rememberClientFieldMapping(supabase, {
+              clientId,
+              importType,
+              fieldMappings: fieldMapping,
+              templateVersionId,
+              jobId: job.id,
+              confirmedBy: user.id
+            })
+          }
+        } catch (memoryError) {
+          // Not worth failing the upload over
+          console.warn('⚠️ Import: Failed to remember client field mapping:', memoryError)
+        }
+      }
+
       // Upload file to storage
       console.log('🔍 Import: Starting file upload to storage...')
       console.log('🔍 Import: File details:', {
@@ -1004,14 +574,14 @@ export async function POST(request: NextRequest) {
         jobId: job.id
       })
       
-      const fileBuffer = await file.arrayBuffer()
+      const fileBuffer = upload.data
       console.log('🔍 Import: File buffer created, size:', fileBuffer.byteLength)
       
       try {
         const { error: uploadError } = await supabase.storage
           .from('import-files')
-          .upload(`${user.auth_user_id}/${job.id}/${file.name}`, fileBuffer, {
-            contentType: file.type,
+          .upload(`${user.auth_user_id}/${job.id}/${dataFileName}`, fileBuffer, {
+            contentType: upload.encodings.length > 0 ? getDataFileMimeType(dataFileName) : file.type,
             upsert: true
           })
         
@@ -1034,58 +604,31 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      // Start background processing via separate endpoint
-      console.log('🔍 Import: Starting background processing via separate endpoint...')
-      
-      // Start background processing
-      console.log('🔍 Import: Starting background processing...')
-      
-      // Call processImportJob and handle any immediate errors
+      // Stage the file through the durable import queue so an interrupted upload resumes where it stopped
       try {
-        console.log('🔍 Import: About to call processImportJob with params:', {
-          jobId: job.id,
-          filePath: `${user.auth_user_id}/${job.id}/${file.name}`,
-          fieldMapping: fieldMapping,
-          portfolioId: portfolioId
+        const task = await enqueueImportTask(supabase, job.id, 'stage', {
+          filePath: `${user.auth_user_id}/${job.id}/${dataFileName}`,
+          fieldMapping,
+          transformRules,
+          portfolioId,
+          delimiter,
+          sheetConfig,
+          // Decrypted/extracted copies don't stay in the bucket once their rows are staged
+          deleteFileAfterStaging: upload.encodings.length > 0
         })
+        console.log(`📋 Import: Queued staging task ${task.id} for job ${job.id}`)
         
-        // Start the background processing
-        const processingPromise = processImportJob(job.id, `${user.auth_user_id}/${job.id}/${file.name}`, fieldMapping, portfolioId)
-        
-        console.log('🔍 Import: processImportJob called successfully, got promise:', !!processingPromise)
-        
-        // Handle completion/failure asynchronously
-        processingPromise
-          .then(() => {
-            console.log('✅ Import: Background processing completed successfully')
-          })
-          .catch(async (error) => {
-            console.error('❌ Import: Background processing failed:', error)
-            // Update job status to failed if we can
-            try {
-              await supabase
-                .from('import_jobs')
-                .update({ 
-                  status: 'failed', 
-                  error_message: error instanceof Error ? error.message : 'Unknown error',
-                  completed_at: new Date().toISOString()
-                })
-                .eq('id', job.id)
-              console.log('✅ Updated job status to failed')
-            } catch (updateError) {
-              console.error('❌ Failed to update job status:', updateError)
-            }
+        kickImportWorker()
+      } catch (queueError) {
+        console.error('❌ Import: Failed to queue staging task:', queueError)
+        await supabase
+          .from('import_jobs')
+          .update({ 
+            status: 'failed', 
+            error_message: queueError instanceof Error ? queueError.message : 'Failed to queue import',
+            completed_at: new Date().toISOString()
           })
-        
-        console.log('✅ Import: Background processing started successfully')
-      } catch (startError) {
-        console.error('❌ Import: Failed to start background processing:', startError)
-        console.error('❌ Import: Start error details:', {
-          message: startError instanceof Error ? startError.message : 'Unknown error',
-          stack: startError instanceof Error ? startError.stack : 'No stack trace',
-          name: startError instanceof Error ? startError.name : 'Unknown error type'
-        })
-        // Don't fail the entire request, but log the error
+          .eq('id', job.id)
       }
 
       return NextResponse.json({
@@ -1178,6 +721,9 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    // Stop any queued or running work for this job before removing its data
+    await cancelImportTasks(supabase, jobId)
+
     // 1. Get all person IDs from debt accounts in this import job
     const { data: debtAccounts, error: debtAccountsError } = await supabase
       .from('debt_accounts')
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { authenticateApiRequest } from '@/lib/auth-utils'
+import { createTemplateVersion, templateChangeNeedsVersion } from '@/lib/import/template-versions'
+import { validateTransformRules } from '@/lib/import/transform-rules'
+import { validateValidationRules } from '@/lib/import/validation-rules'
 
 // Create admin client for data operations
 const createAdminSupabaseClient = () => {
@@ -114,7 +117,7 @@ export async function PUT(
     }
 
     const body = await request.json()
-    const { name, description, import_type, field_mappings, validation_rules } = body
+    const { name, description, import_type, field_mappings, validation_rules, transform_rules, file_name_pattern } = body
 
     console.log('🔍 [TEMPLATE UPDATE] Request body:', {
       name,
@@ -131,6 +134,16 @@ export async function PUT(
       return NextResponse.json({ error: 'Name and import_type are required' }, { status: 400 })
     }
 
+    const transformErrors = validateTransformRules(transform_rules)
+    if (transformErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid transformation rules', details: transformErrors }, { status: 400 })
+    }
+
+    const ruleErrors = validateValidationRules(validation_rules)
+    if (ruleErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid validation rules', details: ruleErrors }, { status: 400 })
+    }
+
     // Check if new name conflicts with existing template
     if (name !== template.name) {
       const { data: existingTemplate } = await supabase
@@ -168,7 +181,10 @@ export async function PUT(
       field_mappings: field_mappings || {},
       required_columns: requiredColumns,
       optional_columns: optionalColumns,
-      validation_rules: validation_rules || [],
+      // Edits that don't send rules (e.g. a mapping-only update) keep the existing ones
+      validation_rules: validation_rules ?? template.validation_rules ?? [],
+      transform_rules: transform_rules ?? template.transform_rules ?? [],
+      file_name_pattern: file_name_pattern !== undefined ? (file_name_pattern || null) : (template.file_name_pattern ?? null),
       updated_at: new Date().toISOString()
     }
     
@@ -194,6 +210,16 @@ export async function PUT(
       updatedFieldMappings: updatedTemplate.field_mappings
     })
 
+    // Mapping changes become a new version; jobs stamped with earlier versions keep theirs
+    if (templateChangeNeedsVersion(template, updateData) || !template.current_version_id) {
+      const version = await createTemplateVersion(supabase, updatedTemplate, user.id)
+      console.log(`✅ [TEMPLATE UPDATE] Created version ${version.version_number} of template ${params.id}`)
+
+      return NextResponse.json({
+        template: { ...updatedTemplate, current_version_id: version.id, current_version: version.version_number }
+      })
+    }
+
     return NextResponse.json({ template: updatedTemplate })
   } catch (error) {
     console.error('Error in template PUT:', error)
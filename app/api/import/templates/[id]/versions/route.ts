@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// List every version of a template, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createAdminSupabaseClient()
+
+    // Authenticate the request using the new system
+    const authResult = await authenticateApiRequest(request)
+    if (!authResult.user) {
+      return NextResponse.json(
+        { error: authResult.error || 'Authentication failed' },
+        { status: 401 }
+      )
+    }
+
+    const { data: versions, error } = await supabase
+      .from('import_template_versions')
+      .select('*')
+      .eq('template_id', params.id)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching template versions:', error)
+      return NextResponse.json({ error: 'Failed to fetch template versions' }, { status: 500 })
+    }
+
+    return NextResponse.json({ versions: versions || [] })
+  } catch (error) {
+    console.error('Error in template versions GET:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
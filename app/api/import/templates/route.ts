@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { authenticateApiRequest } from '@/lib/auth-utils'
+import { createTemplateVersion } from '@/lib/import/template-versions'
+import { validateTransformRules } from '@/lib/import/transform-rules'
+import { validateValidationRules } from '@/lib/import/validation-rules'
 
 // Create admin client for data operations
 const createAdminSupabaseClient = () => {
@@ -69,7 +72,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     console.log('🔍 [TEMPLATE CREATE] Request body:', body)
     
-    const { name, description, import_type, field_mappings, validation_rules } = body
+    const { name, description, import_type, field_mappings, validation_rules, transform_rules, file_name_pattern } = body
 
     // Validate required fields
     if (!name || !import_type) {
@@ -77,6 +80,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Name and import_type are required' }, { status: 400 })
     }
 
+    const transformErrors = validateTransformRules(transform_rules)
+    if (transformErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid transformation rules', details: transformErrors }, { status: 400 })
+    }
+
+    const ruleErrors = validateValidationRules(validation_rules)
+    if (ruleErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid validation rules', details: ruleErrors }, { status: 400 })
+    }
+
     console.log('🔍 [TEMPLATE CREATE] Checking for existing template with name:', name)
     
     // Check if template name already exists for this user
@@ -119,6 +132,9 @@ export async function POST(request: NextRequest) {
         optional_columns: [], // Keep for backward compatibility
         sample_data: [],
         validation_rules: validation_rules || [],
+        transform_rules: transform_rules || [],
+        // Drop-folder files whose name matches are offered this template
+        file_name_pattern: file_name_pattern || null,
         created_by: user.id
       })
       .select()
@@ -135,8 +151,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create template' }, { status: 500 })
     }
 
+    // Every template starts at version 1 so jobs always have a version to point at
+    const version = await createTemplateVersion(supabase, template, user.id)
+
     console.log('✅ [TEMPLATE CREATE] Template created successfully:', template)
-    return NextResponse.json({ template })
+    return NextResponse.json({
+      template: { ...template, current_version_id: version.id, current_version: version.version_number }
+    })
   } catch (error) {
     console.error('❌ [TEMPLATE CREATE] Unexpected error:', error)
     console.error('❌ [TEMPLATE CREATE] Error stack:', error instanceof Error ? error.stack : 'No stack trace')
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { runImportWorker } from '@/lib/import/job-runner'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// Scheduled runs authenticate with CRON_SECRET; platform admins can also trigger a run manually
+async function isAuthorizedWorkerRequest(request: NextRequest): Promise<boolean> {
+  const cronSecret = process.env.CRON_SECRET
+  const authHeader = request.headers.get('authorization')
+
+  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return true
+  }
+
+  const { user, error } = await authenticateApiRequest(request)
+  return !error && !!user && user.activeRole.roleType === 'platform_admin'
+}
+
+async function handleWorkerRequest(request: NextRequest) {
+  try {
+    if (!(await isAuthorizedWorkerRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const summary = await runImportWorker()
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    console.error('❌ [WORKER] Worker run failed:', error)
+    return NextResponse.json({
+      error: 'Import worker failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleWorkerRequest(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handleWorkerRequest(request)
+}
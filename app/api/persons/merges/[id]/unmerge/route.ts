@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification } from '@/lib/audit-log'
+import { MERGE_ROLES, findUnmergePersonsOutsideScope } from '@/lib/person-merges'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Undo a merge, moving every recorded row back to the person it came from
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!MERGE_ROLES.includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+
+    const { data: merge, error: mergeError } = await supabase
+      .from('person_merges')
+      .select('id, survivor_id, merged_person_ids, moved_records')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (mergeError || !merge) {
+      return NextResponse.json({ error: 'Merge not found' }, { status: 404 })
+    }
+
+    const outsideScope = await findUnmergePersonsOutsideScope(supabase, user, merge)
+    if (outsideScope.length > 0) {
+      return NextResponse.json({ error: 'Access denied to one or more persons' }, { status: 403 })
+    }
+
+    const { data: restored, error: unmergeError } = await supabase.rpc('unmerge_persons', {
+      p_merge_id: params.id,
+      p_unmerged_by: user.id
+    })
+
+    if (unmergeError) {
+      console.error('Error unmerging persons:', unmergeError)
+      return NextResponse.json({ error: 'Failed to unmerge persons', details: unmergeError.message }, { status: 400 })
+    }
+
+    await logDataModification(
+      user.auth_user_id,
+      'PERSON_UNMERGE',
+      'person_merges',
+      params.id,
+      { restored },
+      request
+    )
+
+    return NextResponse.json({ success: true, restored })
+  } catch (error) {
+    console.error('Error in person unmerge API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification } from '@/lib/audit-log'
+import { MERGE_ROLES, findPersonsOutsideScope, isUuid } from '@/lib/person-merges'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// List merges, most recent first, optionally for a single person (as survivor or merged).
+// Agency admins see merges whose survivor has an account in their agency.
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!MERGE_ROLES.includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { searchParams } = new URL(request.url)
+    const personId = searchParams.get('person_id')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+
+    if (personId && !isUuid(personId)) {
+      return NextResponse.json({ error: 'person_id must be a valid UUID' }, { status: 400 })
+    }
+
+    const agencyId = user.activeRole.roleType === 'platform_admin' ? null : user.activeRole.organizationId
+    if (user.activeRole.roleType !== 'platform_admin' && !agencyId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const survivorSelect = 'survivor:persons!person_merges_survivor_id_fkey(id, first_name, last_name, full_name)'
+    const scopeSelect = 'scope:persons!person_merges_survivor_id_fkey!inner(debt_accounts!inner(master_portfolios!debt_accounts_portfolio_id_fkey!inner(agency_id)))'
+
+    // A person shows up as the survivor or among the merged ids; two queries rather than a
+    // hand-built .or() filter
+    const loadMerges = async (filter: (query: any) => any) => {
+      let query = supabase
+        .from('person_merges')
+        .select(agencyId ? `*, ${survivorSelect}, ${scopeSelect}` : `*, ${survivorSelect}`)
+        .order('merged_at', { ascending: false })
+        .limit(limit)
+
+      if (agencyId) query = query.eq('scope.debt_accounts.master_portfolios.agency_id', agencyId)
+      return filter(query)
+    }
+
+    const results = personId
+      ? await Promise.all([
+          loadMerges(query => query.eq('survivor_id', personId)),
+          loadMerges(query => query.contains('merged_person_ids', [personId]))
+        ])
+      : [await loadMerges(query => query)]
+
+    const failed = results.find(result => result.error)
+    if (failed) {
+      console.error('Error fetching person merges:', failed.error)
+      return NextResponse.json({ error: 'Failed to fetch person merges' }, { status: 500 })
+    }
+
+    const byId = new Map<string, any>()
+    results.forEach(result => {
+      (result.data || []).forEach((merge: any) => {
+        const { scope: _scope, ...row } = merge
+        byId.set(row.id, row)
+      })
+    })
+    const merges = Array.from(byId.values())
+      .sort((a, b) => String(b.merged_at).localeCompare(String(a.merged_at)))
+      .slice(0, limit)
+
+    return NextResponse.json({ merges })
+  } catch (error) {
+    console.error('Error in person merges API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Merge one or more persons into a survivor
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate the request
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!MERGE_ROLES.includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { survivorId, mergedIds, reason } = await request.json()
+
+    if (!survivorId || !Array.isArray(mergedIds) || mergedIds.length === 0) {
+      return NextResponse.json({ error: 'A survivor and at least one person to merge are required' }, { status: 400 })
+    }
+
+    const personIds = Array.from(new Set<string>([survivorId, ...mergedIds]))
+    if (!personIds.every(isUuid)) {
+      return NextResponse.json({ error: 'Person IDs must be valid UUIDs' }, { status: 400 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+
+    const outsideScope = await findPersonsOutsideScope(supabase, user, personIds)
+    if (outsideScope.length > 0) {
+      return NextResponse.json({ error: 'Access denied to one or more persons' }, { status: 403 })
+    }
+
+    // Re-pointing and the merge record happen in one transaction inside merge_persons
+    const { data: mergeId, error: mergeError } = await supabase.rpc('merge_persons', {
+      p_survivor_id: survivorId,
+      p_merged_ids: Array.from(new Set<string>(mergedIds)),
+      p_merged_by: user.id,
+      p_reason: reason || null
+    })
+
+    if (mergeError) {
+      console.error('Error merging persons:', mergeError)
+      return NextResponse.json({ error: 'Failed to merge persons', details: mergeError.message }, { status: 400 })
+    }
+
+    const { data: merge } = await supabase
+      .from('person_merges')
+      .select('*')
+      .eq('id', mergeId)
+      .single()
+
+    await logDataModification(
+      user.auth_user_id,
+      'PERSON_MERGE',
+      'persons',
+      survivorId,
+      {
+        merge_id: mergeId,
+        merged_person_ids: mergedIds,
+        reason: reason || null,
+        moved_records: Object.fromEntries(
+          Object.entries<any[]>(merge?.moved_records || {}).map(([table, rows]) => [table, rows.length])
+        )
+      },
+      request
+    )
+
+    return NextResponse.json({ merge }, { status: 201 })
+  } catch (error) {
+    console.error('Error in person merges API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -79,6 +79,7 @@ export async function GET(request: NextRequest) {
         person_phones (*),
         person_emails (*)
       `)
+      .is('merged_into', null)
       .range(offset, offset + limit - 1)
 
     if (ssn) {
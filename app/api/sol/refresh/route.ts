@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { refreshSolStatuses } from '@/lib/sol'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Scheduled runs authenticate with CRON_SECRET; platform admins can also run a refresh after changing rules
+async function isAuthorizedRefreshRequest(request: NextRequest): Promise<boolean> {
+  const cronSecret = process.env.CRON_SECRET
+  const authHeader = request.headers.get('authorization')
+
+  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return true
+  }
+
+  const { user, error } = await authenticateApiRequest(request)
+  return !error && !!user && user.activeRole.roleType === 'platform_admin'
+}
+
+async function handleRefreshRequest(request: NextRequest) {
+  try {
+    if (!(await isAuthorizedRefreshRequest(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const summary = await refreshSolStatuses(createAdminSupabaseClient())
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error) {
+    console.error('❌ [SOL] Refresh failed:', error)
+    return NextResponse.json({
+      error: 'SOL refresh failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleRefreshRequest(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handleRefreshRequest(request)
+}
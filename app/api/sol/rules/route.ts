@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { authenticateApiRequest } from '@/lib/auth-utils'
+import { logDataModification, AUDIT_ACTIONS } from '@/lib/audit-log'
+import { clearSolRulesCache, pickSolRuleFields, validateSolRule } from '@/lib/sol'
+
+export const dynamic = 'force-dynamic'
+
+// Create admin client for data operations
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+// Anyone working accounts can see the rules; only platform admins change them
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!['platform_admin', 'agency_admin', 'agency_user'].includes(user.activeRole.roleType)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const supabase = createAdminSupabaseClient()
+    const { data, error } = await supabase
+      .from('sol_rules')
+      .select('*')
+      .order('state_code', { ascending: true, nullsFirst: true })
+      .order('debt_type', { ascending: true, nullsFirst: true })
+
+    if (error) {
+      console.error('Error fetching SOL rules:', error)
+      return NextResponse.json({ error: 'Failed to fetch SOL rules', details: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ rules: data || [] })
+  } catch (error) {
+    console.error('Error in SOL rules GET:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Create a rule, or update one when the body carries its id. Affected accounts are
+// recomputed by the next SOL refresh run.
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.activeRole.roleType !== 'platform_admin') {
+      return NextResponse.json({ error: 'Only platform admins can change SOL rules' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const updates = pickSolRuleFields(body)
+    const supabase = createAdminSupabaseClient()
+
+    let existing: any = null
+    if (body.id) {
+      const { data } = await supabase
+        .from('sol_rules')
+        .select('*')
+        .eq('id', body.id)
+        .maybeSingle()
+      if (!data) {
+        return NextResponse.json({ error: 'SOL rule not found' }, { status: 404 })
+      }
+      existing = data
+    }
+
+    const errors = validateSolRule({ ...(existing || {}), ...updates })
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid SOL rule', details: errors }, { status: 400 })
+    }
+
+    const { data: rule, error } = existing
+      ? await supabase
+          .from('sol_rules')
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('sol_rules')
+          .insert({ ...updates, created_by: user.id })
+          .select()
+          .single()
+
+    if (error) {
+      console.error('Error saving SOL rule:', error)
+      const duplicate = error.code === '23505'
+      return NextResponse.json(
+        { error: duplicate ? 'A rule for this state and debt type already exists' : 'Failed to save SOL rule', details: error.message },
+        { status: duplicate ? 409 : 500 }
+      )
+    }
+
+    clearSolRulesCache()
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'sol_rules',
+      rule.id,
+      { action: existing ? 'updated' : 'created', updates },
+      request
+    )
+
+    return NextResponse.json({ rule }, { status: existing ? 200 : 201 })
+  } catch (error) {
+    console.error('Error in SOL rules PUT:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateApiRequest(request)
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.activeRole.roleType !== 'platform_admin') {
+      return NextResponse.json({ error: 'Only platform admins can change SOL rules' }, { status: 403 })
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Rule id is required' }, { status: 400 })
+    }
+
+    // Deleting a rule doesn't touch the rule timestamps the refresh watches, so mark the
+    // accounts it governed for recomputation first
+    const supabase = createAdminSupabaseClient()
+    await supabase
+      .from('debt_accounts')
+      .update({ sol_computed_at: null })
+      .eq('sol_rule_id', id)
+
+    const { error } = await supabase
+      .from('sol_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting SOL rule:', error)
+      return NextResponse.json({ error: 'Failed to delete SOL rule', details: error.message }, { status: 500 })
+    }
+
+    clearSolRulesCache()
+
+    await logDataModification(
+      user.id,
+      AUDIT_ACTIONS.CONFIGURATION_CHANGE,
+      'sol_rules',
+      id,
+      { action: 'deleted' },
+      request
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in SOL rules DELETE:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,14 +2,18 @@
 
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/lib/auth-context'
+import { authenticatedFetch } from '@/lib/supabase'
+import { toast } from 'react-toastify'
 import { Sidebar } from '@/components/Sidebar'
 import DashboardHeader from '@/components/DashboardHeader'
+import CallWrapUpPanel from '@/components/CallWrapUpPanel'
+import AccountNotesPanel from '@/components/AccountNotesPanel'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { ChevronDown, ChevronRight, Phone, Mail, MapPin, CreditCard, User, Building, FileText, DollarSign, Calendar, AlertTriangle, CheckCircle, Clock, XCircle } from 'lucide-react'
+import { ChevronDown, ChevronRight, Phone, Mail, MapPin, CreditCard, User, Building, FileText, DollarSign, Calendar, AlertTriangle, CheckCircle, Clock, XCircle, PhoneForwarded, SkipForward, BarChart3 } from 'lucide-react'
 
 interface Person {
   id: string
@@ -23,6 +27,7 @@ interface Person {
     phone_type: string
     is_current: boolean
     is_verified: boolean
+    is_wrong_number: boolean | null
   }[]
 }
 
@@ -112,6 +117,30 @@ interface DebtAccount {
   } | null
 }
 
+interface QueueEntry {
+  account: DebtAccount
+  score: number
+  factors: string[]
+  timeBarred: boolean
+  timeZone: string | null
+}
+
+interface CollectorQueueMetrics {
+  collectorId: string
+  collectorName: string | null
+  assignedAccounts: number
+  readyAccounts: number
+  readyBalance: number
+  callbacksDue: number
+  promisesDue: number
+  timeBarred: number
+  excluded: Record<string, number>
+  servedToday: number
+  skippedToday: number
+  deferredToday: number
+  skipReasons: Record<string, number>
+}
+
 interface CollapsibleSectionProps {
   title: string
   icon: React.ReactNode
@@ -151,35 +180,140 @@ function CollapsibleSection({ title, icon, children, defaultCollapsed = false, h
 }
 
 function CollectorsInterface() {
-  const { user } = useAuth()
-  const [debtAccounts, setDebtAccounts] = useState<DebtAccount[]>([])
+  const { user, isPlatformAdmin, isAgencyAdmin } = useAuth()
+  const [queueEntries, setQueueEntries] = useState<QueueEntry[]>([])
+  const [readyAccounts, setReadyAccounts] = useState(0)
+  const [excludedCounts, setExcludedCounts] = useState<Record<string, number>>({})
+  const [eventReasons, setEventReasons] = useState<Record<string, string>>({})
+  const [exclusionReasons, setExclusionReasons] = useState<Record<string, string>>({})
   const [selectedAccount, setSelectedAccount] = useState<DebtAccount | null>(null)
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
+  const [servingNext, setServingNext] = useState(false)
+  const [queueAction, setQueueAction] = useState<'skip' | 'defer' | null>(null)
+  const [queueReason, setQueueReason] = useState('')
+  const [queueNotes, setQueueNotes] = useState('')
+  const [deferUntil, setDeferUntil] = useState('')
+  const [savingQueueAction, setSavingQueueAction] = useState(false)
+  const [showMetrics, setShowMetrics] = useState(false)
+  const [metrics, setMetrics] = useState<CollectorQueueMetrics[]>([])
+  const [unassignedAccounts, setUnassignedAccounts] = useState(0)
+  const [metricsLoading, setMetricsLoading] = useState(false)
+
+  const isSupervisor = isPlatformAdmin || isAgencyAdmin
 
   useEffect(() => {
-    fetchDebtAccounts()
-  }, [])
+    if (user) fetchQueue()
+  }, [user])
 
-  const fetchDebtAccounts = async () => {
+  const fetchQueue = async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/debtors?limit=100')
+      const response = await authenticatedFetch('/api/collectors/queue?limit=200')
       if (response.ok) {
         const data = await response.json()
-        setDebtAccounts(data.data.debtAccounts || [])
-        if (data.data.debtAccounts && data.data.debtAccounts.length > 0) {
-          setSelectedAccount(data.data.debtAccounts[0])
-        }
+        setQueueEntries(data.entries || [])
+        setReadyAccounts(data.readyAccounts || 0)
+        setExcludedCounts(data.excluded || {})
+        setEventReasons(data.eventReasons || {})
+        setExclusionReasons(data.exclusionReasons || {})
+      } else {
+        const data = await response.json().catch(() => ({}))
+        toast.error(data.error || 'Failed to load work queue')
       }
     } catch (error) {
-      console.error('Error fetching debt accounts:', error)
+      console.error('Error fetching work queue:', error)
     } finally {
       setLoading(false)
     }
   }
 
-  const filteredAccounts = debtAccounts.filter(account => 
+  const fetchMetrics = async () => {
+    try {
+      setMetricsLoading(true)
+      const response = await authenticatedFetch('/api/collectors/queue/metrics')
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load queue metrics')
+        return
+      }
+      setMetrics(data.collectors || [])
+      setUnassignedAccounts(data.unassignedAccounts || 0)
+    } catch (error) {
+      console.error('Error fetching queue metrics:', error)
+    } finally {
+      setMetricsLoading(false)
+    }
+  }
+
+  const handleNextAccount = async () => {
+    try {
+      setServingNext(true)
+      const response = await authenticatedFetch('/api/collectors/queue/next', { method: 'POST', body: '{}' })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to get next account')
+        return
+      }
+      if (!data.entry) {
+        toast.info('No accounts can be called right now')
+        return
+      }
+      setSelectedAccount(data.entry.account)
+      setShowMetrics(false)
+      await fetchQueue()
+    } catch (error) {
+      console.error('Error getting next account:', error)
+    } finally {
+      setServingNext(false)
+    }
+  }
+
+  const resetQueueAction = () => {
+    setQueueAction(null)
+    setQueueReason('')
+    setQueueNotes('')
+    setDeferUntil('')
+  }
+
+  const handleQueueAction = async () => {
+    if (!selectedAccount || !queueAction) return
+    try {
+      setSavingQueueAction(true)
+      const response = await authenticatedFetch(`/api/collectors/queue/${selectedAccount.id}`, {
+        method: 'POST',
+        body: JSON.stringify({
+          action: queueAction,
+          reason: queueReason,
+          notes: queueNotes,
+          deferUntil: queueAction === 'defer' && deferUntil ? new Date(deferUntil).toISOString() : null
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(Array.isArray(data.details) ? data.details.join('; ') : data.error || 'Failed to update queue')
+        return
+      }
+      toast.success(queueAction === 'skip' ? 'Account skipped' : 'Account deferred')
+      resetQueueAction()
+      setSelectedAccount(null)
+      await fetchQueue()
+    } catch (error) {
+      console.error('Error updating work queue:', error)
+    } finally {
+      setSavingQueueAction(false)
+    }
+  }
+
+  const handleCallLogged = async () => {
+    resetQueueAction()
+    setSelectedAccount(null)
+    await fetchQueue()
+  }
+
+  const selectedEntry = queueEntries.find(entry => entry.account.id === selectedAccount?.id)
+
+  const filteredEntries = queueEntries.filter(({ account }) => 
     account.account_number?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     account.original_creditor_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     account.persons?.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -243,9 +377,38 @@ function CollectorsInterface() {
         <div className="flex-1 flex overflow-hidden">
           {/* Left Sidebar - Account List */}
           <div className="w-80 bg-white border-r border-gray-200 flex flex-col">
-            <div className="p-4 border-b border-gray-200">
+            <div className="p-4 border-b border-gray-200 space-y-3">
+              <Button onClick={handleNextAccount} disabled={servingNext} className="w-full">
+                <PhoneForwarded className="h-4 w-4 mr-2" />
+                {servingNext ? 'Finding account...' : 'Next Account'}
+              </Button>
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>{readyAccounts} ready to call</span>
+                {isSupervisor && (
+                  <button
+                    className="flex items-center text-blue-600 hover:text-blue-800"
+                    onClick={() => {
+                      setShowMetrics(!showMetrics)
+                      if (!showMetrics) fetchMetrics()
+                    }}
+                  >
+                    <BarChart3 className="h-3 w-3 mr-1" />
+                    {showMetrics ? 'Hide team metrics' : 'Team metrics'}
+                  </button>
+                )}
+              </div>
+              {Object.keys(excludedCounts).length > 0 && (
+                <div className="text-xs text-gray-500 space-y-0.5">
+                  {Object.entries(excludedCounts).map(([reason, count]) => (
+                    <div key={reason} className="flex justify-between">
+                      <span>{exclusionReasons[reason] || reason}</span>
+                      <span>{count}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <Input
-                placeholder="Search accounts..."
+                placeholder="Search queue..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full"
@@ -254,16 +417,21 @@ function CollectorsInterface() {
             
             <div className="flex-1 overflow-y-auto">
               {loading ? (
-                <div className="p-4 text-center text-gray-500">Loading accounts...</div>
+                <div className="p-4 text-center text-gray-500">Loading queue...</div>
+              ) : filteredEntries.length === 0 ? (
+                <div className="p-4 text-center text-gray-500">No accounts can be called right now</div>
               ) : (
                 <div className="divide-y divide-gray-200">
-                  {filteredAccounts.map((account) => (
+                  {filteredEntries.map(({ account, factors, timeBarred }) => (
                     <div
                       key={account.id}
                       className={`p-4 cursor-pointer hover:bg-gray-50 transition-colors ${
                         selectedAccount?.id === account.id ? 'bg-blue-50 border-r-2 border-blue-500' : ''
                       }`}
-                      onClick={() => setSelectedAccount(account)}
+                      onClick={() => {
+                        setSelectedAccount(account)
+                        setShowMetrics(false)
+                      }}
                     >
                       <div className="flex items-start justify-between">
                         <div className="flex-1 min-w-0">
@@ -276,6 +444,9 @@ function CollectorsInterface() {
                           <p className="text-xs text-gray-500 truncate">
                             {account.original_creditor_name || 'Unknown Creditor'}
                           </p>
+                          {factors.length > 0 && (
+                            <p className="text-xs text-blue-600 truncate">{factors.join(' · ')}</p>
+                          )}
                         </div>
                         <div className="ml-2 flex flex-col items-end">
                           <p className="text-sm font-semibold text-gray-900">
@@ -284,6 +455,9 @@ function CollectorsInterface() {
                           <Badge className={`text-xs ${getPriorityColor(account.collection_priority)}`}>
                             {account.collection_priority || 'normal'}
                           </Badge>
+                          {timeBarred && (
+                            <Badge className="mt-1 text-xs bg-orange-100 text-orange-800 border-orange-200">time-barred</Badge>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -295,7 +469,56 @@ function CollectorsInterface() {
 
           {/* Main Content - Account Details */}
           <div className="flex-1 overflow-y-auto p-6">
-            {selectedAccount ? (
+            {showMetrics ? (
+              <div className="max-w-5xl mx-auto">
+                <div className="flex items-center justify-between mb-4">
+                  <h1 className="text-2xl font-bold text-gray-900">Team Queue Metrics</h1>
+                  <Button variant="outline" onClick={fetchMetrics} disabled={metricsLoading}>
+                    {metricsLoading ? 'Refreshing...' : 'Refresh'}
+                  </Button>
+                </div>
+                <p className="text-sm text-gray-500 mb-4">{unassignedAccounts} account(s) have no collector assigned.</p>
+                <Card>
+                  <CardContent className="p-0 overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Collector</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500">Assigned</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500">Ready</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500">Ready Balance</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500">Callbacks Due</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500">Promises Due</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500">Served / Skipped / Deferred Today</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500">Skip & Defer Reasons</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {metrics.map((row) => (
+                          <tr key={row.collectorId}>
+                            <td className="px-4 py-3 text-gray-900">{row.collectorName || row.collectorId}</td>
+                            <td className="px-4 py-3 text-right">{row.assignedAccounts}</td>
+                            <td className="px-4 py-3 text-right">{row.readyAccounts}</td>
+                            <td className="px-4 py-3 text-right">{formatCurrency(row.readyBalance)}</td>
+                            <td className="px-4 py-3 text-right">{row.callbacksDue}</td>
+                            <td className="px-4 py-3 text-right">{row.promisesDue}</td>
+                            <td className="px-4 py-3 text-right">{row.servedToday} / {row.skippedToday} / {row.deferredToday}</td>
+                            <td className="px-4 py-3 text-xs text-gray-500">
+                              {Object.entries(row.skipReasons).map(([reason, count]) => `${eventReasons[reason] || reason}: ${count}`).join(', ') || '-'}
+                            </td>
+                          </tr>
+                        ))}
+                        {metrics.length === 0 && !metricsLoading && (
+                          <tr>
+                            <td colSpan={8} className="px-4 py-6 text-center text-gray-500">No collectors found</td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+              </div>
+            ) : selectedAccount ? (
               <div className="max-w-4xl mx-auto">
                 {/* Header */}
                 <div className="mb-6">
@@ -337,6 +560,84 @@ function CollectorsInterface() {
                       </p>
                     </div>
                   </div>
+
+                  {selectedEntry?.timeBarred && (
+                    <div className="mt-4 flex items-start space-x-2 rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+                      <AlertTriangle className="h-4 w-4 mt-0.5" />
+                      <span>This debt is past the statute of limitations. Give the time-barred disclosure; the consumer can&apos;t be sued for it.</span>
+                    </div>
+                  )}
+
+                  {/* Queue actions */}
+                  <div className="mt-4 bg-white p-4 rounded-lg border">
+                    <div className="flex items-center space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => setQueueAction(queueAction === 'skip' ? null : 'skip')}>
+                        <SkipForward className="h-4 w-4 mr-1" />
+                        Skip
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setQueueAction(queueAction === 'defer' ? null : 'defer')}>
+                        <Clock className="h-4 w-4 mr-1" />
+                        Defer
+                      </Button>
+                      {selectedEntry && (
+                        <span className="text-xs text-gray-500">
+                          Queue score {selectedEntry.score}{selectedEntry.timeZone ? ` · ${selectedEntry.timeZone.replace('_', ' ')}` : ''}
+                        </span>
+                      )}
+                    </div>
+                    {queueAction && (
+                      <div className="mt-4 grid grid-cols-2 gap-4">
+                        <div>
+                          <Label className="text-sm font-medium text-gray-700">Reason</Label>
+                          <select
+                            value={queueReason}
+                            onChange={(e) => setQueueReason(e.target.value)}
+                            className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                          >
+                            <option value="">Select a reason</option>
+                            {Object.entries(eventReasons).map(([value, label]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        {queueAction === 'defer' && (
+                          <div>
+                            <Label className="text-sm font-medium text-gray-700">Defer Until</Label>
+                            <Input
+                              type="datetime-local"
+                              value={deferUntil}
+                              onChange={(e) => setDeferUntil(e.target.value)}
+                              className="mt-1"
+                            />
+                          </div>
+                        )}
+                        <div className="col-span-2">
+                          <Label className="text-sm font-medium text-gray-700">Notes</Label>
+                          <Input
+                            value={queueNotes}
+                            onChange={(e) => setQueueNotes(e.target.value)}
+                            placeholder={queueReason === 'other' ? 'Required' : 'Optional'}
+                            className="mt-1"
+                          />
+                        </div>
+                        <div className="col-span-2 flex justify-end space-x-2">
+                          <Button variant="outline" size="sm" onClick={resetQueueAction}>Cancel</Button>
+                          <Button size="sm" onClick={handleQueueAction} disabled={!queueReason || savingQueueAction}>
+                            {savingQueueAction ? 'Saving...' : queueAction === 'skip' ? 'Skip Account' : 'Defer Account'}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="mt-4">
+                    <CallWrapUpPanel
+                      accountId={selectedAccount.id}
+                      currentBalance={selectedAccount.current_balance}
+                      phones={selectedAccount.persons?.person_phones || []}
+                      onLogged={handleCallLogged}
+                    />
+                  </div>
                 </div>
 
                 {/* Collapsible Sections */}
@@ -383,6 +684,9 @@ function CollectorsInterface() {
                               {phone.is_verified && (
                                 <Badge className="bg-blue-100 text-blue-800 text-xs">Verified</Badge>
                               )}
+                              {phone.is_wrong_number && (
+                                <Badge className="bg-red-100 text-red-800 text-xs">Wrong Number</Badge>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -390,6 +694,15 @@ function CollectorsInterface() {
                     )}
                   </CollapsibleSection>
 
+                  {/* Notes timeline */}
+                  <CollapsibleSection
+                    title="Notes Timeline"
+                    icon={<FileText className="h-5 w-5" />}
+                    hasData={true}
+                  >
+                    <AccountNotesPanel accountId={selectedAccount.id} />
+                  </CollapsibleSection>
+
                   {/* Account Details */}
                   <CollapsibleSection 
                     title="Account Details" 
@@ -650,7 +963,7 @@ function CollectorsInterface() {
             ) : (
               <div className="text-center text-gray-500 mt-20">
                 <User className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                <p className="text-lg">Select an account to view details</p>
+                <p className="text-lg">Select an account or get the next account from your queue</p>
               </div>
             )}
           </div>
@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { DEBT_AGE_BUCKETS } from '@/lib/sol'
 import {
   MagnifyingGlassIcon,
   PlusIcon,
@@ -17,7 +18,8 @@ import {
   MapPinIcon,
   UserIcon,
   CurrencyDollarIcon,
-  CalendarIcon
+  CalendarIcon,
+  ScaleIcon
 } from '@heroicons/react/24/outline'
 import { useSearchParams } from 'next/navigation'
 
@@ -114,6 +116,12 @@ interface DebtAccount {
   data_quality_warnings: string | null
   data_quality_flags: string | null
   duplicate_notes: string | null
+  sol_state: string | null
+  sol_expiration_date: string | null
+  is_time_barred: boolean
+  // Added by the API: days since charge-off, and actions ruled out by an expired SOL
+  debt_age_days: number | null
+  sol_restricted_actions: string[]
   created_at: string
   updated_at: string
   persons: Person & {
@@ -151,6 +159,8 @@ function DebtorsForm() {
   const [phoneSearch, setPhoneSearch] = useState('')
   const [statusFilter, setStatusFilter] = useState('all')
   const [priorityFilter, setPriorityFilter] = useState('all')
+  const [solFilter, setSolFilter] = useState('all')
+  const [debtAgeFilter, setDebtAgeFilter] = useState('all')
 
   // Check for PhoneNumber in URL parameters on component mount
   useEffect(() => {
@@ -163,7 +173,7 @@ function DebtorsForm() {
 
   useEffect(() => {
     fetchDebtAccounts()
-  }, [searchTerm, phoneSearch, statusFilter, priorityFilter])
+  }, [searchTerm, phoneSearch, statusFilter, priorityFilter, solFilter, debtAgeFilter])
 
   const fetchDebtAccounts = async () => {
     try {
@@ -174,6 +184,8 @@ function DebtorsForm() {
       if (phoneSearch) params.append('phone', phoneSearch)
       if (statusFilter !== 'all') params.append('status', statusFilter)
       if (priorityFilter !== 'all') params.append('priority', priorityFilter)
+      if (solFilter !== 'all') params.append('sol', solFilter)
+      if (debtAgeFilter !== 'all') params.append('debtAge', debtAgeFilter)
 
       const response = await authenticatedFetch(`/api/debtors?${params.toString()}`)
       if (!response.ok) {
@@ -243,7 +255,7 @@ function DebtorsForm() {
             <div className="bg-white rounded-lg shadow p-6">
               <h2 className="text-lg font-semibold mb-4">Search & Filters</h2>
               
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Search
@@ -293,6 +305,28 @@ function DebtorsForm() {
                   <option value="low">Low</option>
                   <option value="normal">Normal</option>
                 </select>
+
+                <select
+                  value={solFilter}
+                  onChange={(e) => setSolFilter(e.target.value)}
+                  className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">Any SOL Status</option>
+                  <option value="within_sol">Within SOL</option>
+                  <option value="time_barred">Time-Barred</option>
+                  <option value="unknown">SOL Unknown</option>
+                </select>
+
+                <select
+                  value={debtAgeFilter}
+                  onChange={(e) => setDebtAgeFilter(e.target.value)}
+                  className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">Any Debt Age</option>
+                  {Object.entries(DEBT_AGE_BUCKETS).map(([value, bucket]) => (
+                    <option key={value} value={value}>{bucket.label}</option>
+                  ))}
+                </select>
               </div>
             </div>
 
@@ -321,6 +355,11 @@ function DebtorsForm() {
                           <Badge className={getStatusColor(debtAccount.status)}>
                             {debtAccount.status || 'unknown'}
                           </Badge>
+                          {debtAccount.sol_restricted_actions?.length > 0 && (
+                            <Badge className="bg-red-100 text-red-800">
+                              time-barred
+                            </Badge>
+                          )}
                         </div>
                       </div>
                     </CardHeader>
@@ -350,6 +389,18 @@ function DebtorsForm() {
                         <span>Creditor: {debtAccount.original_creditor_name || 'Unknown'}</span>
                       </div>
                       
+                      {(debtAccount.sol_expiration_date || debtAccount.debt_age_days !== null) && (
+                        <div className="flex items-center gap-2 text-sm text-gray-600">
+                          <ScaleIcon className="h-4 w-4" />
+                          <span>
+                            {debtAccount.sol_expiration_date
+                              ? `SOL ${debtAccount.sol_restricted_actions?.length > 0 ? 'expired' : 'expires'} ${new Date(debtAccount.sol_expiration_date).toLocaleDateString()}${debtAccount.sol_state ? ` (${debtAccount.sol_state})` : ''}`
+                              : 'SOL unknown'}
+                            {debtAccount.debt_age_days !== null && ` · ${(debtAccount.debt_age_days / 365).toFixed(1)} yrs old`}
+                          </span>
+                        </div>
+                      )}
+
                       {debtAccount.last_payment_date && (
                         <div className="flex items-center gap-2 text-sm text-gray-600">
                           <CalendarIcon className="h-4 w-4" />
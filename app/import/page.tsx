@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useAuth } from '@/lib/auth-context'
 import { authenticatedFetch } from '@/lib/supabase'
 import ProtectedRoute from '@/components/ProtectedRoute'
@@ -8,6 +8,9 @@ import { Sidebar } from '@/components/Sidebar'
 import DashboardHeader from '@/components/DashboardHeader'
 import PortfolioModal from '@/components/PortfolioModal'
 import FieldMappingModal from '@/components/FieldMappingModal'
+import WorkbookSheetsPanel from '@/components/WorkbookSheetsPanel'
+import { validateRelatedSheets } from '@/lib/import/sheet-config'
+import { useImportJobsProgress, ImportJobLiveState } from '@/lib/hooks/useImportJobsProgress'
 import DeletePortfolioConfirmDialog from '@/components/DeletePortfolioConfirmDialog'
 import ImportValidationResults from '@/components/ImportValidationResults'
 import { 
@@ -21,11 +24,13 @@ import {
   TrashIcon,
   PlusIcon,
   DocumentMagnifyingGlassIcon,
-  ArrowUpTrayIcon
+  ArrowUpTrayIcon,
+  ArrowUturnLeftIcon,
+  ArrowPathIcon
 } from '@heroicons/react/24/outline'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import type { ImportJob, ImportTemplate, ImportPreview } from '@/types/import'
+import type { ImportJob, ImportTemplate, ImportPreview, ImportSheetConfig, TransformRule } from '@/types/import'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
@@ -47,14 +52,50 @@ interface Portfolio {
   }
 }
 
+// Imports that attach history or skip-trace data to accounts already on file, matched by account number
+const ACCOUNT_MATCH_IMPORT_TYPES = ['payments', 'notes', 'calls', 'skip_trace']
+// Jobs in these states have their progress streamed from /api/import/progress
+const LIVE_JOB_STATUSES = ['pending', 'validating', 'processing', 'rolling_back']
+// Queued dry runs don't change the job's status, so the list is polled until their results land
+const DRY_RUN_POLL_MS = 3000
+
+function isDryRunRunning(job: ImportJob): boolean {
+  return !!job.dry_run_started_at && !job.dry_run_completed_at
+}
+
+// Overlay the streamed status and counts on the last fetched job row
+function applyLiveState(job: ImportJob, live?: ImportJobLiveState): ImportJob {
+  if (!live?.progress) return job
+  return {
+    ...job,
+    status: (live.status || job.status) as ImportJob['status'],
+    progress: live.progress.progress,
+    processed_rows: live.progress.phase === 'processing' ? live.progress.rowsDone : job.processed_rows,
+    total_rows: live.progress.totalRows ?? job.total_rows
+  }
+}
+
+function formatEta(seconds: number) {
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
 export default function ImportPage() {
   const { user, session, isPlatformAdmin } = useAuth()
   const [jobs, setJobs] = useState<ImportJob[]>([])
+  // Corrected failed-rows upload: the job the file is for and the one currently uploading
+  const resubmitInputRef = useRef<HTMLInputElement>(null)
+  const [resubmitSourceJobId, setResubmitSourceJobId] = useState<string | null>(null)
+  const [resubmittingJobId, setResubmittingJobId] = useState<string | null>(null)
   const [templates, setTemplates] = useState<ImportTemplate[]>([])
   const [portfolios, setPortfolios] = useState<Portfolio[]>([])
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [importType, setImportType] = useState<string>('accounts')
   const [selectedTemplate, setSelectedTemplate] = useState<string>('')
+  const [delimiter, setDelimiter] = useState<string>('auto')
+  const [importMode, setImportMode] = useState<string>('insert')
   const [isUploading, setIsUploading] = useState(false)
   const [preview, setPreview] = useState<ImportPreview | null>(null)
   const [showPreview, setShowPreview] = useState(false)
@@ -70,6 +111,10 @@ export default function ImportPage() {
   const [showFieldMapping, setShowFieldMapping] = useState(false)
   const [fieldMapping, setFieldMapping] = useState<Record<string, string>>({})
   const [mappingConfirmed, setMappingConfirmed] = useState(false)
+  const [transformRules, setTransformRules] = useState<TransformRule[]>([])
+  const [rememberedMapping, setRememberedMapping] = useState<Record<string, string> | null>(null)
+  // Multi-sheet workbooks: the sheet holding the accounts and related child sheets
+  const [sheetConfig, setSheetConfig] = useState<ImportSheetConfig | null>(null)
 
   // Delete portfolio state
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
@@ -80,8 +125,6 @@ export default function ImportPage() {
   const [jobToDeleteJob, setJobToDeleteJob] = useState<ImportJob | null>(null)
   const [showDeleteJobModal, setShowDeleteJobModal] = useState(false)
 
-  // Auto-refresh state
-  const [hasProcessingJobs, setHasProcessingJobs] = useState(false)
   
   // Validation state
   const [validationResults, setValidationResults] = useState<any>(null)
@@ -93,87 +136,31 @@ export default function ImportPage() {
     fetchPortfolios()
   }, [])
 
-  // Auto-refresh effect for processing jobs
-  useEffect(() => {
-    let intervalId: NodeJS.Timeout | null = null
-    let retryCount = 0
-    const maxRetries = 3
-
-    if (hasProcessingJobs) {
-      console.log('Starting auto-refresh for processing jobs')
-      
-      const pollJobs = async () => {
-        try {
-          await fetchJobs()
-          retryCount = 0 // Reset retry count on success
-        } catch (error) {
-          retryCount++
-          console.warn(`Polling attempt ${retryCount} failed:`, error)
-          
-          if (retryCount >= maxRetries) {
-            console.error('Max retries reached, stopping auto-refresh')
-            setHasProcessingJobs(false)
-            return
-          }
-        }
-      }
-
-      // Initial poll
-      pollJobs()
-      
-      // Set up interval with exponential backoff
-      intervalId = setInterval(() => {
-        pollJobs()
-      }, 10000) // Refresh every 10 seconds instead of 3
-    }
-
-    return () => {
-      if (intervalId) {
-        console.log('Stopping auto-refresh')
-        clearInterval(intervalId)
-      }
-    }
-  }, [hasProcessingJobs])
-
-  // Check for active jobs whenever jobs state changes
-  useEffect(() => {
-    const activeJobs = jobs.filter(job => 
-      job.status === 'processing' || job.status === 'pending' || job.status === 'validated'
-    )
-    const shouldRefresh = activeJobs.length > 0
-    
-    if (shouldRefresh !== hasProcessingJobs) {
-      setHasProcessingJobs(shouldRefresh)
-    }
-  }, [jobs, hasProcessingJobs])
-
-  // Poll for updates when validation is running
+  // Load the last mapping confirmed for the selected portfolio's client
   useEffect(() => {
-    const validatingJob = jobs.find(job => job.status === 'validating')
-    
-    if (validatingJob) {
-      const interval = setInterval(() => {
-        fetchJobs()
-      }, 2000) // Poll every 2 seconds during validation
-      
-      return () => clearInterval(interval)
+    if (!selectedPortfolioId) {
+      setRememberedMapping(null)
+      return
     }
-  }, [jobs])
-
-  // Auto-refresh jobs for active import jobs
+    fetchRememberedMapping(selectedPortfolioId)
+  }, [selectedPortfolioId, importType])
+
+  // Active jobs stream their progress; a status change refetches the list for the rest of the row
+  const liveJobIds = jobs.filter(job => LIVE_JOB_STATUSES.includes(job.status)).map(job => job.id)
+  const liveProgress = useImportJobsProgress(liveJobIds, () => {
+    fetchJobs().catch(() => {})
+  })
+  const hasProcessingJobs = liveJobIds.length > 0
+  const displayJobs = jobs.map(job => applyLiveState(job, liveProgress[job.id]))
+
+  const hasRunningDryRun = jobs.some(job => job.status === 'validated' && isDryRunRunning(job))
   useEffect(() => {
-    const activeJobs = jobs.filter(job => 
-      ['processing', 'pending', 'validating'].includes(job.status)
-    )
-    
-    if (activeJobs.length > 0) {
-      const interval = setInterval(() => {
-        fetchJobs()
-      }, 5000) // Poll every 5 seconds for active jobs
-      
-      return () => clearInterval(interval)
-    }
-  }, [jobs])
+    if (!hasRunningDryRun) return
+    const timer = setInterval(() => {
+      fetchJobs().catch(() => {})
+    }, DRY_RUN_POLL_MS)
+    return () => clearInterval(timer)
+  }, [hasRunningDryRun])
 
   const fetchJobs = async () => {
     try {
@@ -187,8 +174,7 @@ export default function ImportPage() {
       
       // Handle authentication errors
       if (response.status === 401 || response.status === 403) {
-        console.warn('Authentication error, stopping auto-refresh')
-        setHasProcessingJobs(false)
+        console.warn('Authentication error fetching jobs')
         throw new Error('Authentication failed')
       }
       
@@ -200,7 +186,7 @@ export default function ImportPage() {
       setJobs(data.jobs || [])
     } catch (error) {
       console.error('Error fetching jobs:', error)
-      throw error // Re-throw to let the polling logic handle it
+      throw error // Re-throw to let the caller handle it
     } finally {
       setLoading(false)
     }
@@ -235,12 +221,25 @@ export default function ImportPage() {
     }
   }
 
+  const fetchRememberedMapping = async (portfolioId: string) => {
+    try {
+      const params = new URLSearchParams({ portfolio_id: portfolioId, import_type: importType })
+      const response = await authenticatedFetch(`/api/import/mapping-memory?${params}`)
+      const data = await response.json()
+      setRememberedMapping(data.mapping?.field_mappings || null)
+    } catch (error) {
+      console.error('Error fetching remembered mapping:', error)
+      setRememberedMapping(null)
+    }
+  }
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
       setSelectedFile(file)
       setPreview(null)
       setShowPreview(false)
+      setSheetConfig(null)
       // Reset portfolio selection when file changes
       setSelectedPortfolioId(null)
       setNewPortfolio(null)
@@ -258,6 +257,13 @@ export default function ImportPage() {
       if (selectedTemplate) {
         formData.append('template_id', selectedTemplate)
       }
+      if (delimiter !== 'auto') {
+        formData.append('delimiter', delimiter)
+      }
+      // Encrypted uploads are decrypted with the key of the agency that owns the portfolio
+      if (selectedPortfolioId) {
+        formData.append('portfolio_id', selectedPortfolioId)
+      }
 
       const response = await authenticatedFetch('/api/import/preview', {
         method: 'POST',
@@ -268,6 +274,9 @@ export default function ImportPage() {
       if (data.preview) {
         setPreview(data.preview)
         setShowPreview(true)
+        setSheetConfig(data.preview.sheets?.length > 1
+          ? { primarySheet: data.preview.sheets[0].name, related: [] }
+          : null)
       }
     } catch (error) {
       console.error('Error generating preview:', error)
@@ -276,6 +285,26 @@ export default function ImportPage() {
     }
   }
 
+  // Switching the primary sheet changes the columns being mapped, so the mapping starts over
+  const handleSheetConfigChange = (config: ImportSheetConfig) => {
+    const primary = preview?.sheets?.find(sheet => sheet.name === config.primarySheet)
+    if (preview && primary && config.primarySheet !== sheetConfig?.primarySheet) {
+      setPreview({
+        ...preview,
+        headers: primary.headers,
+        sample_rows: primary.sample_rows,
+        total_rows: primary.total_rows
+      })
+      setFieldMapping({})
+      setMappingConfirmed(false)
+    }
+    setSheetConfig(config)
+  }
+
+  const sheetConfigErrors = sheetConfig && importType === 'accounts'
+    ? validateRelatedSheets(sheetConfig.related, sheetConfig.primarySheet)
+    : []
+
   // Required/optional fields for each import type - Focused on Debt Collection
   const requiredFieldsByType: Record<string, string[]> = {
     accounts: [
@@ -284,6 +313,10 @@ export default function ImportPage() {
       'current_balance',         // Current outstanding amount
       'charge_off_date'          // When debt was charged off
     ],
+    skip_trace: ['account_key'],
+    payments: ['original_account_number', 'payment_date', 'payment_amount'],
+    notes: ['original_account_number', 'note_date', 'note_text'],
+    calls: ['original_account_number', 'call_date'],
     portfolios: ['name', 'client_code', 'original_balance', 'account_count'],
     clients: ['name', 'code'],
     agencies: ['name', 'code', 'instance_id', 'contact_email']
@@ -353,6 +386,41 @@ export default function ImportPage() {
       'portfolio_name',         // Portfolio assignment
       'client_name'             // Client/creditor name
     ],
+    skip_trace: [
+      // Input / matching
+      'ssn', 'first_name', 'last_name', 'scrub_date',
+      
+      // Deceased
+      'deceased', 'verified_proof', 'ssdi_date_of_dec', 'obit_date_of_dec',
+      
+      // Bankruptcy
+      'bankrupt', 'case_number', 'chapter', 'filing_date', 'discharged_date', 'dismissed_date', 'closed_date',
+      'court_district', 'court_venue', 'court_city', 'court_state', 'disposition_status',
+      'codebtor_first_name', 'codebtor_middle_name', 'codebtor_last_name', 'codebtor_address', 'codebtor_city', 'codebtor_state', 'codebtor_zip',
+      'trustee_name', 'trustee_phone', 'attorney_name', 'attorney_firm_name', 'attorney_phone', 'hearing_date',
+      
+      // Address
+      'address1', 'address1_city', 'address1_state', 'address1_zip', 'address1_county', 'address1_first_seen', 'address1_last_seen',
+      
+      // Phones
+      'phone1', 'phone1_type', 'phone1_first_seen', 'phone1_last_seen',
+      'phone2', 'phone2_type', 'phone2_first_seen', 'phone2_last_seen',
+      'phone3', 'phone3_type', 'phone3_first_seen', 'phone3_last_seen',
+      
+      // Relatives
+      ...[1, 2, 3, 4, 5].flatMap(n => [
+        `rel${n}_full_name`, `rel${n}_first_name`, `rel${n}_middle_name`, `rel${n}_last_name`, `rel${n}_suffix`,
+        `rel${n}_address`, `rel${n}_city`, `rel${n}_state`, `rel${n}_zip`,
+        `rel${n}_phone_1`, `rel${n}_phone_2`, `rel${n}_phone_3`, `rel${n}_email_1`, `rel${n}_likely_relationship`
+      ]),
+      
+      // Place of employment
+      'poe_employer_name', 'poe_employer_phone', 'poe_phone', 'poe_employer_address', 'poe_employer_city',
+      'poe_employer_state', 'poe_employer_zip', 'poe_last_seen_date', 'poe_job_title'
+    ],
+    payments: ['payment_method', 'payment_status', 'processor_reference', 'payment_reference', 'payment_notes'],
+    notes: ['note_type', 'author'],
+    calls: ['call_result', 'call_duration', 'call_notes', 'collector', 'phone_number'],
     portfolios: ['description', 'portfolio_type', 'charge_off_date', 'debt_age_months', 'average_balance', 'geographic_focus', 'credit_score_range', 'status'],
     clients: ['contact_name', 'contact_email', 'contact_phone', 'address', 'city', 'state', 'zipcode', 'client_type', 'status'],
     agencies: ['contact_name', 'contact_phone', 'address', 'city', 'state', 'zipcode', 'subscription_tier', 'subscription_status', 'status']
@@ -366,8 +434,9 @@ export default function ImportPage() {
   //   }
   // }, [showPreview, preview])
 
-  const handleFieldMappingConfirm = (mapping: Record<string, string>, templateId?: string) => {
+  const handleFieldMappingConfirm = (mapping: Record<string, string>, templateId?: string, rules?: TransformRule[]) => {
     setFieldMapping(mapping)
+    setTransformRules(rules || [])
     setShowFieldMapping(false)
     setMappingConfirmed(true)
     // Store the selected template ID for the upload
@@ -491,18 +560,34 @@ export default function ImportPage() {
       if (selectedTemplate) {
         formData.append('template_id', selectedTemplate)
       }
+      if (delimiter !== 'auto') {
+        formData.append('delimiter', delimiter)
+      }
       
-      // Add portfolio information for account imports
+      // Add portfolio information and import mode for account imports
       if (importType === 'accounts') {
         if (selectedPortfolioId) {
           formData.append('portfolio_id', selectedPortfolioId)
         } else if (newPortfolio) {
           formData.append('new_portfolio', JSON.stringify(newPortfolio))
         }
+        formData.append('import_mode', importMode)
+      }
+
+      // These rows match within the selected portfolio's client, or within the agency without one
+      if (ACCOUNT_MATCH_IMPORT_TYPES.includes(importType) && selectedPortfolioId) {
+        formData.append('portfolio_id', selectedPortfolioId)
       }
 
       // Add field mapping
       formData.append('field_mapping', JSON.stringify(fieldMapping))
+      formData.append('transform_rules', JSON.stringify(transformRules))
+      if (sheetConfig) {
+        // Related sheets only apply to account imports
+        formData.append('sheet_config', JSON.stringify(
+          importType === 'accounts' ? sheetConfig : { ...sheetConfig, related: [] }
+        ))
+      }
 
       console.log('🔍 [FRONTEND] About to call authenticatedFetch with:', {
         url: '/api/import',
@@ -531,6 +616,7 @@ export default function ImportPage() {
         setSelectedFile(null)
         setPreview(null)
         setShowPreview(false)
+        setSheetConfig(null)
         setSelectedPortfolioId(null)
         setNewPortfolio(null)
         setPendingUpload(false)
@@ -590,6 +676,29 @@ export default function ImportPage() {
     }
   }
 
+  const handleRollbackImportJob = async (job: ImportJob) => {
+    if (!confirm(`Roll back "${job.file_name}"? Records created by this import will be deleted and updated fields restored.`)) return
+
+    try {
+      const response = await authenticatedFetch('/api/import/rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: job.id })
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        fetchJobs()
+        toast.success(result.message)
+      } else {
+        toast.error(`Failed to roll back import: ${result.details || result.error}`)
+      }
+    } catch (error) {
+      console.error('Error rolling back import job:', error)
+      toast.error('An error occurred while rolling back the import job')
+    }
+  }
+
   const downloadFailedRows = async (jobId: string) => {
     try {
       const response = await authenticatedFetch(`/api/import/failed-rows/${jobId}`)
@@ -620,6 +729,45 @@ export default function ImportPage() {
     }
   }
 
+  // Failed rows are downloadable once processing has recorded them, or from validation before that
+  const hasFailedRows = (job: ImportJob) =>
+    (job.failed_rows || 0) > 0 || (job.status === 'validated' && (job.validation_results?.invalidRows || 0) > 0)
+
+  const startResubmitFailedRows = (jobId: string) => {
+    setResubmitSourceJobId(jobId)
+    resubmitInputRef.current?.click()
+  }
+
+  const handleResubmitFile = async (file: File | undefined) => {
+    const jobId = resubmitSourceJobId
+    if (resubmitInputRef.current) resubmitInputRef.current.value = ''
+    if (!file || !jobId) return
+
+    setResubmittingJobId(jobId)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await authenticatedFetch(`/api/import/failed-rows/${jobId}`, {
+        method: 'POST',
+        body: formData
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details || errorData.error || response.statusText)
+      }
+
+      toast.success('Corrected rows uploaded; they will be validated with the original mapping')
+      await fetchJobs()
+    } catch (error) {
+      console.error('Error resubmitting failed rows:', error)
+      toast.error(`Failed to resubmit rows: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setResubmittingJobId(null)
+      setResubmitSourceJobId(null)
+    }
+  }
+
   const handleConfirmDeletePortfolio = async () => {
     if (!jobToDelete) return
 
@@ -703,98 +851,91 @@ export default function ImportPage() {
     }
   }
 
-  const handleProcess = async (jobId: string) => {
+  const handleDryRun = async (jobId: string) => {
     try {
-      console.log(`🚀 Starting processing for job: ${jobId}`)
+      console.log(`🔍 Starting dry run for job: ${jobId}`)
       
-      // Find the job to show initial info
-      const job = jobs.find(j => j.id === jobId)
-      if (job) {
-        toast.info(`Processing started for ${job.file_name} (${job.import_type})...`, {
-          autoClose: false,
-          toastId: `processing-${jobId}`
-        })
+      const response = await authenticatedFetch('/api/import/dry-run', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ jobId })
+      })
+      
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details || errorData.error || 'Dry run failed')
       }
       
-      // Process data in chunks to avoid Vercel timeout
-      let startIndex = 0
-      const chunkSize = 100
-      let totalProcessed = 0
-      let allErrors: string[] = []
-      let isCompleted = false
+      const data = await response.json()
+      console.log('✅ Dry run queued:', data)
       
-      while (!isCompleted) {
-        console.log(`📊 Processing chunk: ${startIndex + 1}-${startIndex + chunkSize}`)
-        
-        // Call the processing API with chunk parameters
-        const response = await authenticatedFetch('/api/import/process', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ 
-            jobId, 
-            chunkSize, 
-            startIndex 
-          }),
-        })
-        
-        if (!response.ok) {
-          const errorData = await response.json()
-          throw new Error(errorData.error || 'Processing failed')
-        }
-        
-        const result = await response.json()
-        console.log(`📊 Chunk completed:`, result)
-        
-        // Accumulate results
-        totalProcessed += result.processedCount || 0
-        if (result.errors && result.errors.length > 0) {
-          allErrors = allErrors.concat(result.errors)
-        }
-        
-        // Update progress toast
-        if (job) {
-          toast.info(`Processing ${job.file_name}: ${result.progress || 0}% complete (${totalProcessed} rows processed)`, {
-            autoClose: false,
-            toastId: `processing-${jobId}`
-          })
-        }
-        
-        // Check if processing is complete
-        if (result.completed) {
-          isCompleted = true
-          console.log('✅ Processing completed:', result)
-        } else {
-          // Move to next chunk
-          startIndex = result.nextStartIndex || (startIndex + chunkSize)
-          
-          // Small delay between chunks to avoid overwhelming the system
-          await new Promise(resolve => setTimeout(resolve, 100))
-        }
+      await fetchJobs()
+      
+      toast.success(data.message)
+      
+    } catch (error) {
+      console.error('❌ Dry run failed:', error)
+      toast.error(`Dry run failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleApprove = async (jobId: string) => {
+    try {
+      const response = await authenticatedFetch('/api/import/approve', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ jobId })
+      })
+      
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Approval failed')
       }
       
-      // Dismiss the processing toast
-      toast.dismiss(`processing-${jobId}`)
+      await fetchJobs()
+      
+      toast.success('Import approved. You can now process the data.')
       
-      if (allErrors.length > 0) {
-        toast.warning(`Processing completed with ${allErrors.length} errors. ${totalProcessed} rows processed.`)
-      } else {
-        toast.success(`Processing completed successfully! ${totalProcessed} rows processed.`)
+    } catch (error) {
+      console.error('❌ Approval failed:', error)
+      toast.error(`Approval failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleProcess = async (jobId: string) => {
+    try {
+      console.log(`🚀 Starting processing for job: ${jobId}`)
+      
+      // Processing runs in the background job queue; the live progress stream picks up status changes
+      const response = await authenticatedFetch('/api/import/process', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ jobId }),
+      })
+      
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Processing failed')
       }
       
+      const result = await response.json()
+      console.log('📋 Processing queued:', result)
+      
+      const job = jobs.find(j => j.id === jobId)
+      toast.info(`Processing started for ${job ? `${job.file_name} (${job.import_type})` : 'import'}. Progress will update automatically.`)
+      
       // Refresh the import jobs to show updated status
       fetchJobs()
       
     } catch (error) {
       console.error('❌ Processing failed:', error)
       
-      // Dismiss the processing toast on error
-      const job = jobs.find(j => j.id === jobId)
-      if (job) {
-        toast.dismiss(`processing-${jobId}`)
-      }
-      
       toast.error(`Processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
@@ -817,6 +958,10 @@ export default function ImportPage() {
         return <XCircleIcon className="h-5 w-5 text-red-500" />
       case 'cancelled':
         return <ExclamationTriangleIcon className="h-5 w-5 text-gray-500" />
+      case 'rolling_back':
+        return <ArrowUturnLeftIcon className="h-5 w-5 text-orange-500 animate-pulse" />
+      case 'rolled_back':
+        return <ArrowUturnLeftIcon className="h-5 w-5 text-orange-500" />
       default:
         return <ClockIcon className="h-5 w-5 text-gray-500" />
     }
@@ -840,6 +985,9 @@ export default function ImportPage() {
         return 'bg-red-100 text-red-800'
       case 'cancelled':
         return 'bg-gray-100 text-gray-800'
+      case 'rolling_back':
+      case 'rolled_back':
+        return 'bg-orange-100 text-orange-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -901,7 +1049,7 @@ export default function ImportPage() {
                         <input
                           id="file-input"
                           type="file"
-                          accept=".csv,.xlsx,.xls"
+                          accept=".csv,.tsv,.txt,.psv,.xlsx,.xls,.zip,.gz,.pgp,.gpg,.asc"
                           onChange={handleFileSelect}
                           className="hidden"
                         />
@@ -913,7 +1061,7 @@ export default function ImportPage() {
                         </label>
                       </div>
                       <p className="mt-2 text-sm text-gray-500">
-                        {selectedFile ? selectedFile.name : 'CSV or Excel files only'}
+                        {selectedFile ? selectedFile.name : 'CSV, TSV, pipe-delimited or Excel files, optionally zipped, gzipped or PGP-encrypted'}
                       </p>
                       {selectedFile && (
                         <p className="mt-1 text-xs text-gray-400">
@@ -941,26 +1089,67 @@ export default function ImportPage() {
                       >
                         <option value="accounts">Debt Accounts</option>
                         <option value="skip_trace">Skip Trace</option>
+                        <option value="payments">Payment History</option>
+                        <option value="notes">Collection Notes</option>
+                        <option value="calls">Call History</option>
                         <option value="portfolios">Portfolios</option>
                         <option value="clients">Clients</option>
                         <option value="agencies">Agencies</option>
                       </select>
                     </div>
 
-                    {/* Portfolio Selection for Account Imports */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Delimiter
+                      </label>
+                      <select
+                        value={delimiter}
+                        onChange={(e) => setDelimiter(e.target.value)}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="auto">Auto-detect</option>
+                        <option value="comma">Comma (,)</option>
+                        <option value="tab">Tab</option>
+                        <option value="pipe">Pipe (|)</option>
+                        <option value="semicolon">Semicolon (;)</option>
+                      </select>
+                      <p className="mt-1 text-xs text-gray-500">Only used for text files; ignored for Excel workbooks</p>
+                    </div>
+
                     {importType === 'accounts' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Import Mode
+                        </label>
+                        <select
+                          value={importMode}
+                          onChange={(e) => setImportMode(e.target.value)}
+                          className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="insert">Insert new accounts only</option>
+                          <option value="update">Update existing accounts only</option>
+                          <option value="upsert">Insert or update (upsert)</option>
+                        </select>
+                        <p className="mt-1 text-xs text-gray-500">Existing accounts are matched on original account number and client</p>
+                      </div>
+                    )}
+
+                    {/* Portfolio Selection for Account and Account-Matching Imports */}
+                    {(importType === 'accounts' || ACCOUNT_MATCH_IMPORT_TYPES.includes(importType)) && (
                       <div>
                         <div className="flex items-center justify-between mb-2">
                           <label className="block text-sm font-medium text-gray-700">
                             Portfolio Assignment
                           </label>
-                          <button
-                            onClick={() => setIsPortfolioModalOpen(true)}
-                            className="flex items-center text-sm text-blue-600 hover:text-blue-800"
-                          >
-                            <PlusIcon className="h-4 w-4 mr-1" />
-                            Create New
-                          </button>
+                          {importType === 'accounts' && (
+                            <button
+                              onClick={() => setIsPortfolioModalOpen(true)}
+                              className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                            >
+                              <PlusIcon className="h-4 w-4 mr-1" />
+                              Create New
+                            </button>
+                          )}
                         </div>
                         
                         <div className="space-y-3">
@@ -1045,7 +1234,7 @@ export default function ImportPage() {
                   {preview && mappingConfirmed && (
                     <button
                       onClick={handleUpload}
-                      disabled={isUploading}
+                      disabled={isUploading || sheetConfigErrors.length > 0}
                       className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       {isUploading ? 'Uploading...' : 'Upload'}
@@ -1074,6 +1263,15 @@ export default function ImportPage() {
                     </div>
                   </div>
 
+                  {preview.sheets && sheetConfig && (
+                    <WorkbookSheetsPanel
+                      sheets={preview.sheets}
+                      value={sheetConfig}
+                      onChange={handleSheetConfigChange}
+                      allowRelated={importType === 'accounts'}
+                    />
+                  )}
+
                   {preview.validation_errors && preview.validation_errors.length > 0 && (
                     <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
                       <h3 className="font-medium text-red-900 mb-2">Validation Errors:</h3>
@@ -1121,7 +1319,7 @@ export default function ImportPage() {
                       {hasProcessingJobs && (
                         <div className="flex items-center space-x-2">
                           <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                          <span className="text-sm text-blue-600 font-medium">Auto-refreshing...</span>
+                          <span className="text-sm text-blue-600 font-medium">Live updates</span>
                         </div>
                       )}
                       <button
@@ -1134,11 +1332,18 @@ export default function ImportPage() {
                         </svg>
                         Refresh
                       </button>
+                      <input
+                        ref={resubmitInputRef}
+                        type="file"
+                        accept=".csv,.xlsx,.xls,.txt,.tsv,.zip,.gz,.pgp,.gpg,.asc"
+                        className="hidden"
+                        onChange={(e) => handleResubmitFile(e.target.files?.[0])}
+                      />
                     </div>
                     
                     {/* Real-time processing status */}
                     {(() => {
-                      const activeJobs = jobs.filter(job => job.status === 'processing' || job.status === 'validated')
+                      const activeJobs = displayJobs.filter(job => job.status === 'processing' || job.status === 'validated')
                       if (activeJobs.length > 0) {
                         return (
                           <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-md">
@@ -1218,11 +1423,21 @@ export default function ImportPage() {
                         </tr>
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
-                        {jobs.map((job) => (
+                        {displayJobs.map((job) => (
                           <tr key={job.id} className="hover:bg-gray-50">
                             <td className="px-6 py-4 whitespace-nowrap">
                               <div className="text-sm font-medium text-gray-900">{job.file_name}</div>
                               <div className="text-sm text-gray-500">{formatFileSize(job.file_size)}</div>
+                              {job.parent_job_id && (
+                                <div className="text-xs text-purple-700">Resubmitted failed rows</div>
+                              )}
+                              {job.combined_totals && (
+                                <div className="text-xs text-gray-600" title="Totals across this import and its resubmitted failed rows">
+                                  {job.combined_totals.successfulRows} / {job.combined_totals.totalRows} rows imported
+                                  {' '}({job.combined_totals.childJobs} resubmission{job.combined_totals.childJobs === 1 ? '' : 's'}
+                                  {job.combined_totals.outstandingRows > 0 && `, ${job.combined_totals.outstandingRows} still failing`})
+                                </div>
+                              )}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
                               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
@@ -1276,6 +1491,17 @@ export default function ImportPage() {
                                     {job.processed_rows} / {job.total_rows} rows processed
                                   </div>
                                 )}
+                                {liveProgress[job.id]?.progress?.rowsPerSecond ? (
+                                  <div className="text-xs text-gray-500">
+                                    {liveProgress[job.id].progress!.rowsPerSecond} rows/s
+                                    {liveProgress[job.id].progress!.etaSeconds !== null && ` · ~${formatEta(liveProgress[job.id].progress!.etaSeconds!)} left`}
+                                  </div>
+                                ) : null}
+                                {(liveProgress[job.id]?.errors.length || 0) > 0 && (
+                                  <div className="text-xs text-red-600" title={liveProgress[job.id].errors.slice(-5).join('\n')}>
+                                    {liveProgress[job.id].errors.length} row error(s) so far
+                                  </div>
+                                )}
                                 {job.status === 'validated' && job.validation_results && (
                                   <div className="text-xs text-gray-500">
                                     {job.validation_results.validRows} valid rows ready
@@ -1320,6 +1546,16 @@ export default function ImportPage() {
                                       Delete Portfolio
                                     </button>
                                   )}
+                                  {(job.status === 'completed' || job.status === 'failed') && (
+                                    <button
+                                      onClick={() => handleRollbackImportJob(job)}
+                                      className="inline-flex items-center px-2 py-1 border border-orange-300 rounded-md text-xs font-medium text-orange-700 bg-orange-50 hover:bg-orange-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500"
+                                      title="Undo the records this import created or updated"
+                                    >
+                                      <ArrowUturnLeftIcon className="h-3 w-3 mr-1" />
+                                      Roll Back
+                                    </button>
+                                  )}
                                   {job.status === 'processing' && (
                                     <button
                                       onClick={() => handleCancelImportJob(job)}
@@ -1330,16 +1566,27 @@ export default function ImportPage() {
                                       Cancel Job
                                     </button>
                                   )}
-                                  {job.failed_rows && job.failed_rows > 0 && job.failed_rows_csv_path && (
+                                  {hasFailedRows(job) && (
                                     <button
                                       onClick={() => downloadFailedRows(job.id)}
                                       className="inline-flex items-center px-2 py-1 border border-blue-300 rounded-md text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                                      title="Download failed rows CSV"
+                                      title="Download failed rows with an error column, to correct and resubmit"
                                     >
                                       <DocumentArrowUpIcon className="h-3 w-3 mr-1" />
                                       Download Failed Rows
                                     </button>
                                   )}
+                                  {hasFailedRows(job) && ['completed', 'validated', 'failed'].includes(job.status) && (
+                                    <button
+                                      onClick={() => startResubmitFailedRows(job.id)}
+                                      disabled={resubmittingJobId === job.id}
+                                      className="inline-flex items-center px-2 py-1 border border-purple-300 rounded-md text-xs font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50"
+                                      title="Upload the corrected failed rows as a new job using this import's template and mapping"
+                                    >
+                                      <ArrowPathIcon className="h-3 w-3 mr-1" />
+                                      {resubmittingJobId === job.id ? 'Uploading...' : 'Resubmit Corrected'}
+                                    </button>
+                                  )}
                                   <button
                                     onClick={() => handleDeleteImportJob(job)}
                                     className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
@@ -1366,7 +1613,7 @@ export default function ImportPage() {
                   
                   {/* Show validation for the most recent uploaded, validating, or validated job */}
                   {(() => {
-                    const latestValidationJob = jobs
+                    const latestValidationJob = displayJobs
                       .filter(job => (job.status === 'uploaded' || job.status === 'validating' || job.status === 'validated') && job.created_at)
                       .sort((a, b) => new Date(b.created_at!).getTime() - new Date(a.created_at!).getTime())[0]
                     
@@ -1377,6 +1624,11 @@ export default function ImportPage() {
                           validationResults={validationResults}
                           onValidate={handleValidate}
                           onProcess={handleProcess}
+                          onDryRun={handleDryRun}
+                          onApprove={handleApprove}
+                          dryRunResults={latestValidationJob.dry_run_results}
+                          dryRunApprovedAt={latestValidationJob.dry_run_approved_at}
+                          isDryRunRunning={isDryRunRunning(latestValidationJob)}
                           jobStatus={latestValidationJob.status}
                           jobProgress={latestValidationJob.progress}
                         />
@@ -1413,6 +1665,9 @@ export default function ImportPage() {
         requiredFields={requiredFieldsByType[importType] || []}
         optionalFields={optionalFieldsByType[importType] || []}
         initialMapping={fieldMapping}
+        initialTransformRules={transformRules}
+        sampleRows={preview?.sample_rows || []}
+        rememberedMapping={rememberedMapping}
         importType={importType}
         templates={templates}
         onSaveTemplate={handleSaveTemplate}
@@ -2,6 +2,9 @@
 
 import { Dialog } from '@headlessui/react'
 import { XMarkIcon, PencilIcon, TrashIcon, BuildingOfficeIcon } from '@heroicons/react/24/outline'
+import AccountHistoryPanel from './AccountHistoryPanel'
+import AccountNotesPanel from './AccountNotesPanel'
+import AccountTimelinePanel from './AccountTimelinePanel'
 
 interface Portfolio {
   id: string
@@ -314,6 +317,24 @@ export default function AccountDetailsModal({
               </div>
             </div>
 
+            {/* Activity Timeline */}
+            <div className="space-y-4">
+              <h3 className="text-md font-medium text-gray-900 border-b pb-2">Activity Timeline</h3>
+              {isOpen && <AccountTimelinePanel accountId={account.id} />}
+            </div>
+
+            {/* Notes */}
+            <div className="space-y-4">
+              <h3 className="text-md font-medium text-gray-900 border-b pb-2">Notes</h3>
+              {isOpen && <AccountNotesPanel accountId={account.id} />}
+            </div>
+
+            {/* Call History */}
+            <div className="space-y-4">
+              <h3 className="text-md font-medium text-gray-900 border-b pb-2">Call History</h3>
+              {isOpen && <AccountHistoryPanel accountId={account.id} />}
+            </div>
+
             {/* Timestamps */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t">
               <div>
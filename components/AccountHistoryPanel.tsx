@@ -0,0 +1,116 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { PhoneIcon } from '@heroicons/react/24/outline'
+import { authenticatedFetch } from '@/lib/supabase'
+
+interface AccountCall {
+  id: string
+  call_date: string
+  call_duration: number | null
+  call_result: string | null
+  original_result: string | null
+  disposition_code: string | null
+  call_notes: string | null
+  phone_number: string | null
+  source: string | null
+  original_collector: string | null
+  platform_users?: { id: string; full_name: string | null } | null
+}
+
+interface AccountHistoryPanelProps {
+  accountId: string
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString()
+}
+
+function formatDuration(seconds: number | null) {
+  if (seconds === null || seconds === undefined) return null
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+// Imported records keep the previous agency's author as text
+function authorName(user: { full_name: string | null } | null | undefined, originalName: string | null) {
+  return user?.full_name || originalName || 'Unknown'
+}
+
+export default function AccountHistoryPanel({ accountId }: AccountHistoryPanelProps) {
+  const [calls, setCalls] = useState<AccountCall[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchHistory = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await authenticatedFetch(`/api/debtors/${accountId}/history`)
+        const data = await response.json()
+        if (cancelled) return
+        if (!response.ok) {
+          setError(data.error || 'Failed to load history')
+          return
+        }
+        setCalls(data.calls || [])
+      } catch (fetchError) {
+        console.error('Error fetching account history:', fetchError)
+        if (!cancelled) setError('Failed to load history')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchHistory()
+    return () => {
+      cancelled = true
+    }
+  }, [accountId])
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  return (
+    <div>
+      <h4 className="flex items-center text-sm font-medium text-gray-700 mb-2">
+        <PhoneIcon className="h-4 w-4 mr-1" />
+        Calls ({calls.length})
+      </h4>
+      {calls.length === 0 ? (
+        <p className="text-sm text-gray-500">No calls on this account</p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {calls.map(call => (
+            <li key={call.id} className="p-3 bg-gray-50 rounded-md">
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>{authorName(call.platform_users, call.original_collector)}</span>
+                <span>{formatDateTime(call.call_date)}</span>
+              </div>
+              <p className="text-sm text-gray-900 mt-1 capitalize">
+                {(call.disposition_code || call.call_result || 'other').replace(/_/g, ' ')}
+                {call.original_result && call.original_result !== call.call_result && (
+                  <span className="normal-case text-gray-500"> ({call.original_result})</span>
+                )}
+              </p>
+              {call.call_notes && <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{call.call_notes}</p>}
+              <div className="flex gap-2 mt-1 text-xs text-gray-500">
+                {call.phone_number && <span>{call.phone_number}</span>}
+                {formatDuration(call.call_duration) && <span>{formatDuration(call.call_duration)}</span>}
+                {call.source === 'import' && <span className="text-amber-700">Imported</span>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,356 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ChatBubbleLeftEllipsisIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import { toast } from 'react-toastify'
+import { authenticatedFetch } from '@/lib/supabase'
+
+interface AccountNote {
+  id: string
+  note_type: string | null
+  note_text: string
+  is_private: boolean | null
+  is_pinned: boolean
+  source: string | null
+  original_author: string | null
+  created_at: string
+  note_group_id: string | null
+  version: number
+  superseded_at: string | null
+  call_id: string | null
+  payment_id: string | null
+  platform_users?: { id: string; full_name: string | null } | null
+  editor?: { id: string; full_name: string | null } | null
+  calls?: { id: string; call_date: string; call_result: string | null; disposition_code: string | null } | null
+  debtor_payments?: { id: string; payment_date: string; payment_amount: number; payment_status: string | null } | null
+}
+
+interface LinkOptions {
+  calls: { id: string; call_date: string; call_result: string | null; disposition_code: string | null }[]
+  payments: { id: string; payment_date: string; payment_amount: number; payment_status: string | null }[]
+}
+
+interface AccountNotesPanelProps {
+  accountId: string
+}
+
+const EMPTY_FORM = { noteText: '', noteType: 'general', isPrivate: false, isPinned: false, callId: '', paymentId: '' }
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString()
+}
+
+function formatLabel(value: string | null) {
+  return (value || 'other').replace(/_/g, ' ')
+}
+
+// Imported records keep the previous agency's author as text
+function authorName(user: { full_name: string | null } | null | undefined, originalName: string | null) {
+  return user?.full_name || originalName || 'Unknown'
+}
+
+function describeCall(call: { call_date: string; call_result: string | null; disposition_code: string | null }) {
+  return `Call ${formatDateTime(call.call_date)} - ${formatLabel(call.disposition_code || call.call_result)}`
+}
+
+function describePayment(payment: { payment_date: string; payment_amount: number; payment_status: string | null }) {
+  return `Payment ${payment.payment_date} - $${Number(payment.payment_amount).toFixed(2)}${payment.payment_status ? ` (${payment.payment_status})` : ''}`
+}
+
+// Notes timeline for an account: add, search, pin, and edit notes as new versions
+export default function AccountNotesPanel({ accountId }: AccountNotesPanelProps) {
+  const [notes, setNotes] = useState<AccountNote[]>([])
+  const [noteTypes, setNoteTypes] = useState<string[]>([])
+  const [linkOptions, setLinkOptions] = useState<LinkOptions>({ calls: [], payments: [] })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [appliedSearch, setAppliedSearch] = useState('')
+  const [typeFilter, setTypeFilter] = useState('')
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+  const [versions, setVersions] = useState<AccountNote[]>([])
+
+  const fetchNotes = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ linkOptions: 'true' })
+      if (appliedSearch) params.set('search', appliedSearch)
+      if (typeFilter) params.set('noteType', typeFilter)
+      const response = await authenticatedFetch(`/api/debtors/${accountId}/notes?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to load notes')
+        return
+      }
+      setNotes(data.notes || [])
+      setNoteTypes(data.noteTypes || [])
+      setLinkOptions(data.linkOptions || { calls: [], payments: [] })
+    } catch (fetchError) {
+      console.error('Error fetching account notes:', fetchError)
+      setError('Failed to load notes')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchNotes()
+  }, [accountId, appliedSearch, typeFilter])
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditingId(null)
+  }
+
+  const startEdit = (note: AccountNote) => {
+    setEditingId(note.id)
+    setForm({
+      noteText: note.note_text,
+      noteType: note.note_type || 'general',
+      isPrivate: !!note.is_private,
+      isPinned: note.is_pinned,
+      callId: note.call_id || '',
+      paymentId: note.payment_id || ''
+    })
+  }
+
+  const handleSave = async () => {
+    if (!form.noteText.trim()) return
+    try {
+      setSaving(true)
+      const response = await authenticatedFetch(
+        editingId ? `/api/debtors/${accountId}/notes/${editingId}` : `/api/debtors/${accountId}/notes`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          body: JSON.stringify({
+            noteText: form.noteText,
+            noteType: form.noteType,
+            isPrivate: form.isPrivate,
+            isPinned: form.isPinned,
+            callId: form.callId || null,
+            paymentId: form.paymentId || null
+          })
+        }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(Array.isArray(data.details) ? data.details.join('; ') : data.error || 'Failed to save note')
+        return
+      }
+      toast.success(editingId ? 'Note updated' : 'Note added')
+      resetForm()
+      setHistoryFor(null)
+      await fetchNotes()
+    } catch (saveError) {
+      console.error('Error saving note:', saveError)
+      toast.error('Failed to save note')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const togglePinned = async (note: AccountNote) => {
+    try {
+      const response = await authenticatedFetch(`/api/debtors/${accountId}/notes/${note.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ isPinned: !note.is_pinned })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update note')
+        return
+      }
+      await fetchNotes()
+    } catch (pinError) {
+      console.error('Error pinning note:', pinError)
+    }
+  }
+
+  const toggleHistory = async (note: AccountNote) => {
+    if (historyFor === note.id) {
+      setHistoryFor(null)
+      return
+    }
+    try {
+      const response = await authenticatedFetch(`/api/debtors/${accountId}/notes/${note.id}`)
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load note history')
+        return
+      }
+      setVersions(data.versions || [])
+      setHistoryFor(note.id)
+    } catch (historyError) {
+      console.error('Error fetching note history:', historyError)
+    }
+  }
+
+  const pinnedNotes = notes.filter(note => note.is_pinned)
+  const otherNotes = notes.filter(note => !note.is_pinned)
+
+  const renderNote = (note: AccountNote) => (
+    <li key={note.id} className={`p-3 rounded-md ${note.is_pinned ? 'bg-yellow-50 border border-yellow-200' : 'bg-gray-50'}`}>
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>{authorName(note.platform_users, note.original_author)}</span>
+        <span>{formatDateTime(note.created_at)}</span>
+      </div>
+      <p className="text-sm text-gray-900 mt-1 whitespace-pre-wrap">{note.note_text}</p>
+      <div className="flex flex-wrap gap-2 mt-1 text-xs text-gray-500">
+        <span className="capitalize">{formatLabel(note.note_type)}</span>
+        {note.is_private && <span className="text-purple-700">Private</span>}
+        {note.version > 1 && <span>Edited (v{note.version})</span>}
+        {note.source === 'import' && <span className="text-amber-700">Imported</span>}
+        {note.calls && <span className="text-blue-700">{describeCall(note.calls)}</span>}
+        {note.debtor_payments && <span className="text-green-700">{describePayment(note.debtor_payments)}</span>}
+      </div>
+      <div className="flex gap-3 mt-2 text-xs">
+        <button type="button" onClick={() => togglePinned(note)} className="text-blue-600 hover:text-blue-800">
+          {note.is_pinned ? 'Unpin' : 'Pin'}
+        </button>
+        <button type="button" onClick={() => startEdit(note)} className="text-blue-600 hover:text-blue-800">
+          Edit
+        </button>
+        {note.version > 1 && (
+          <button type="button" onClick={() => toggleHistory(note)} className="text-blue-600 hover:text-blue-800">
+            {historyFor === note.id ? 'Hide history' : 'History'}
+          </button>
+        )}
+      </div>
+      {historyFor === note.id && (
+        <ol className="mt-2 space-y-1 border-l-2 border-gray-200 pl-3">
+          {versions.map(version => (
+            <li key={version.id} className="text-xs text-gray-600">
+              <span className="font-medium">v{version.version}</span> {formatDateTime(version.created_at)} by{' '}
+              {version.editor ? authorName(version.editor, null) : authorName(version.platform_users, version.original_author)}
+              <p className="whitespace-pre-wrap text-gray-800">{version.note_text}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </li>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <textarea
+          value={form.noteText}
+          onChange={(e) => setForm({ ...form, noteText: e.target.value })}
+          rows={3}
+          placeholder={editingId ? 'Edit note (saved as a new version)' : 'Add a note'}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <select
+            value={form.noteType}
+            onChange={(e) => setForm({ ...form, noteType: e.target.value })}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm capitalize"
+          >
+            {noteTypes.map(type => (
+              <option key={type} value={type}>{formatLabel(type)}</option>
+            ))}
+          </select>
+          <select
+            value={form.callId}
+            onChange={(e) => setForm({ ...form, callId: e.target.value })}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            <option value="">No linked call</option>
+            {linkOptions.calls.map(call => (
+              <option key={call.id} value={call.id}>{describeCall(call)}</option>
+            ))}
+          </select>
+          <select
+            value={form.paymentId}
+            onChange={(e) => setForm({ ...form, paymentId: e.target.value })}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            <option value="">No linked payment</option>
+            {linkOptions.payments.map(payment => (
+              <option key={payment.id} value={payment.id}>{describePayment(payment)}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.isPrivate}
+              onChange={(e) => setForm({ ...form, isPrivate: e.target.checked })}
+            />
+            Private
+          </label>
+          <label className="flex items-center gap-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.isPinned}
+              onChange={(e) => setForm({ ...form, isPinned: e.target.checked })}
+            />
+            Pinned
+          </label>
+          <div className="ml-auto flex gap-2">
+            {editingId && (
+              <button type="button" onClick={resetForm} className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50">
+                Cancel
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || !form.noteText.trim()}
+              className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Version' : 'Add Note'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <MagnifyingGlassIcon className="absolute left-2 top-2 h-4 w-4 text-gray-400" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') setAppliedSearch(search.trim())
+            }}
+            placeholder="Search notes"
+            className="w-full rounded-md border border-gray-300 py-1 pl-8 pr-3 text-sm"
+          />
+        </div>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value)}
+          className="rounded-md border border-gray-300 px-2 py-1 text-sm capitalize"
+        >
+          <option value="">All categories</option>
+          {noteTypes.map(type => (
+            <option key={type} value={type}>{formatLabel(type)}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading notes...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-gray-500">{appliedSearch || typeFilter ? 'No notes match' : 'No notes on this account'}</p>
+      ) : (
+        <div className="space-y-3">
+          {pinnedNotes.length > 0 && (
+            <ul className="space-y-2">{pinnedNotes.map(renderNote)}</ul>
+          )}
+          <h4 className="flex items-center text-sm font-medium text-gray-700">
+            <ChatBubbleLeftEllipsisIcon className="h-4 w-4 mr-1" />
+            Timeline ({otherNotes.length})
+          </h4>
+          <ul className="space-y-2 max-h-96 overflow-y-auto">{otherNotes.map(renderNote)}</ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ClockIcon } from '@heroicons/react/24/outline'
+import { authenticatedFetch } from '@/lib/supabase'
+
+interface TimelineEvent {
+  id: string
+  occurredAt: string
+  category: string
+  type: string
+  title: string
+  description: string | null
+  actor: string | null
+  source: string
+  recordId: string
+}
+
+interface AccountTimelinePanelProps {
+  accountId: string
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  account: 'Account',
+  call: 'Calls',
+  note: 'Notes',
+  payment: 'Payments',
+  placement: 'Placements',
+  import: 'Imports',
+  assignment: 'Assignment',
+  queue: 'Work Queue',
+  audit: 'Audit'
+}
+
+const CATEGORY_COLORS: Record<string, string> = {
+  account: 'bg-gray-400',
+  call: 'bg-blue-500',
+  note: 'bg-yellow-500',
+  payment: 'bg-green-500',
+  placement: 'bg-indigo-500',
+  import: 'bg-amber-600',
+  assignment: 'bg-purple-500',
+  queue: 'bg-cyan-500',
+  audit: 'bg-red-400'
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString()
+}
+
+// Everything that happened to the account in one stream, filterable by kind of event and date
+export default function AccountTimelinePanel({ accountId }: AccountTimelinePanelProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([])
+  const [truncatedSources, setTruncatedSources] = useState<string[]>([])
+  const [selected, setSelected] = useState<string[]>(Object.keys(CATEGORY_LABELS))
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [includeViews, setIncludeViews] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchTimeline = async () => {
+      if (selected.length === 0) {
+        setEvents([])
+        setLoading(false)
+        return
+      }
+      setLoading(true)
+      setError(null)
+      try {
+        const params = new URLSearchParams({ categories: selected.join(',') })
+        if (from) params.set('from', from)
+        if (to) params.set('to', to)
+        if (includeViews) params.set('includeViews', 'true')
+        const response = await authenticatedFetch(`/api/debtors/${accountId}/timeline?${params.toString()}`)
+        const data = await response.json()
+        if (cancelled) return
+        if (!response.ok) {
+          setError(data.error || 'Failed to load timeline')
+          return
+        }
+        setEvents(data.events || [])
+        setTruncatedSources(data.truncatedSources || [])
+      } catch (fetchError) {
+        console.error('Error fetching account timeline:', fetchError)
+        if (!cancelled) setError('Failed to load timeline')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchTimeline()
+    return () => {
+      cancelled = true
+    }
+  }, [accountId, selected, from, to, includeViews])
+
+  const toggleCategory = (category: string) => {
+    setSelected(selected.includes(category)
+      ? selected.filter(value => value !== category)
+      : selected.concat(category))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(CATEGORY_LABELS).map(([category, categoryLabel]) => (
+          <button
+            key={category}
+            type="button"
+            onClick={() => toggleCategory(category)}
+            className={`px-2 py-1 text-xs rounded-full border ${
+              selected.includes(category)
+                ? 'bg-blue-50 border-blue-300 text-blue-800'
+                : 'bg-white border-gray-300 text-gray-500'
+            }`}
+          >
+            {categoryLabel}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <label className="flex items-center gap-1">
+          From
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="rounded-md border border-gray-300 px-2 py-1 text-sm" />
+        </label>
+        <label className="flex items-center gap-1">
+          To
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="rounded-md border border-gray-300 px-2 py-1 text-sm" />
+        </label>
+        {selected.includes('audit') && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={includeViews} onChange={(e) => setIncludeViews(e.target.checked)} />
+            Include record views
+          </label>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading timeline...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity matches these filters</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 max-h-96 overflow-y-auto">
+          {events.map(event => (
+            <li key={event.id} className="ml-4 mb-4">
+              <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${CATEGORY_COLORS[event.category] || 'bg-gray-400'}`} />
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span className="flex items-center">
+                  <ClockIcon className="h-3 w-3 mr-1" />
+                  {formatDateTime(event.occurredAt)}
+                </span>
+                <span>{CATEGORY_LABELS[event.category] || event.category}</span>
+              </div>
+              <p className="text-sm font-medium text-gray-900">{event.title}</p>
+              {event.description && <p className="text-sm text-gray-700 whitespace-pre-wrap">{event.description}</p>}
+              {event.actor && <p className="text-xs text-gray-500">by {event.actor}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {truncatedSources.length > 0 && (
+        <p className="text-xs text-amber-700">
+          Showing the most recent records only for: {truncatedSources.map(source => CATEGORY_LABELS[source] || source).join(', ')}. Narrow the dates to see older activity.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { PhoneIcon } from '@heroicons/react/24/outline'
+import { toast } from 'react-toastify'
+import { authenticatedFetch } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+
+interface DispositionCode {
+  id: string
+  code: string
+  label: string
+  call_result: string
+  actions: string[]
+  is_right_party_contact: boolean
+}
+
+interface WrapUpPhone {
+  id: string
+  number: string
+  phone_type: string | null
+  is_wrong_number?: boolean | null
+}
+
+interface CallWrapUpPanelProps {
+  accountId: string
+  currentBalance: number | null
+  phones: WrapUpPhone[]
+  // Called with the follow-up actions the disposition applied once the call is saved
+  onLogged?: (actionsApplied: string[]) => void
+}
+
+const ACTION_MESSAGES: Record<string, string> = {
+  set_promise: 'promise recorded',
+  schedule_callback: 'callback scheduled',
+  mark_wrong_number: 'number marked wrong',
+  flag_do_not_call: 'account flagged do-not-call'
+}
+
+// Wrap up a call: pick a disposition and fill in the follow-up it asks for
+export default function CallWrapUpPanel({ accountId, currentBalance, phones, onLogged }: CallWrapUpPanelProps) {
+  const [codes, setCodes] = useState<DispositionCode[]>([])
+  const [dispositionCode, setDispositionCode] = useState('')
+  const [phoneId, setPhoneId] = useState('')
+  const [durationMinutes, setDurationMinutes] = useState('')
+  const [notes, setNotes] = useState('')
+  const [promiseAmount, setPromiseAmount] = useState('')
+  const [promiseDate, setPromiseDate] = useState('')
+  const [callbackAt, setCallbackAt] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const fetchCodes = async () => {
+      try {
+        const response = await authenticatedFetch('/api/calls/dispositions')
+        const data = await response.json()
+        if (!response.ok) {
+          toast.error(data.error || 'Failed to load disposition codes')
+          return
+        }
+        setCodes(data.codes || [])
+      } catch (error) {
+        console.error('Error fetching disposition codes:', error)
+      }
+    }
+
+    fetchCodes()
+  }, [])
+
+  // Start each account with a clean form, dialling its first working number
+  useEffect(() => {
+    setDispositionCode('')
+    setPhoneId(phones.find(phone => !phone.is_wrong_number)?.id || '')
+    setDurationMinutes('')
+    setNotes('')
+    setPromiseAmount('')
+    setPromiseDate('')
+    setCallbackAt('')
+  }, [accountId])
+
+  const disposition = codes.find(code => code.code === dispositionCode)
+  const actions = disposition?.actions || []
+
+  const handleSave = async () => {
+    if (!disposition) return
+    try {
+      setSaving(true)
+      const response = await authenticatedFetch('/api/calls', {
+        method: 'POST',
+        body: JSON.stringify({
+          accountId,
+          dispositionCode: disposition.code,
+          phoneId: phoneId || null,
+          duration: durationMinutes ? Math.round(parseFloat(durationMinutes) * 60) : null,
+          notes,
+          promiseAmount: actions.includes('set_promise') ? promiseAmount : null,
+          promiseDate: actions.includes('set_promise') ? promiseDate : null,
+          callbackAt: actions.includes('schedule_callback') && callbackAt ? new Date(callbackAt).toISOString() : null
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(Array.isArray(data.details) ? data.details.join('; ') : data.error || 'Failed to log call')
+        return
+      }
+
+      const applied = (data.actionsApplied || []).map((action: string) => ACTION_MESSAGES[action] || action)
+      toast.success(applied.length > 0 ? `Call logged: ${applied.join(', ')}` : 'Call logged')
+      onLogged?.(data.actionsApplied || [])
+    } catch (error) {
+      console.error('Error logging call:', error)
+      toast.error('Failed to log call')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-lg border">
+      <h4 className="flex items-center text-sm font-medium text-gray-700 mb-3">
+        <PhoneIcon className="h-4 w-4 mr-1" />
+        Call Wrap-Up
+      </h4>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Disposition</Label>
+          <select
+            value={dispositionCode}
+            onChange={(e) => setDispositionCode(e.target.value)}
+            className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">Select a disposition</option>
+            {codes.map(code => (
+              <option key={code.code} value={code.code}>{code.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Number Dialled</Label>
+          <select
+            value={phoneId}
+            onChange={(e) => setPhoneId(e.target.value)}
+            className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">Not recorded</option>
+            {phones.map(phone => (
+              <option key={phone.id} value={phone.id}>
+                {phone.number}{phone.phone_type ? ` (${phone.phone_type})` : ''}{phone.is_wrong_number ? ' - wrong number' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Duration (minutes)</Label>
+          <Input
+            type="number"
+            min="0"
+            step="0.5"
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        {actions.includes('schedule_callback') && (
+          <div>
+            <Label className="text-sm font-medium text-gray-700">Call Back At</Label>
+            <Input
+              type="datetime-local"
+              value={callbackAt}
+              onChange={(e) => setCallbackAt(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+        )}
+        {actions.includes('set_promise') && (
+          <>
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Promise Amount</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                max={currentBalance ?? undefined}
+                value={promiseAmount}
+                onChange={(e) => setPromiseAmount(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label className="text-sm font-medium text-gray-700">Promise Date</Label>
+              <Input
+                type="date"
+                value={promiseDate}
+                onChange={(e) => setPromiseDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </>
+        )}
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-gray-700">Notes</Label>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            className="mt-1"
+          />
+        </div>
+        {actions.includes('mark_wrong_number') && (
+          <p className="col-span-2 text-xs text-amber-700">
+            {phoneId ? 'The number dialled will be marked wrong for this consumer.' : 'Select the number dialled to mark it wrong.'}
+          </p>
+        )}
+        {actions.includes('flag_do_not_call') && (
+          <p className="col-span-2 text-xs text-red-700">This account will be flagged do-not-call.</p>
+        )}
+        <div className="col-span-2 flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={!disposition || saving}>
+            {saving ? 'Saving...' : 'Log Call'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
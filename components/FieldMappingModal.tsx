@@ -14,8 +14,13 @@ import {
   PencilIcon,
   ChevronDownIcon,
   ChevronRightIcon,
-  PlusIcon
+  PlusIcon,
+  ClockIcon
 } from '@heroicons/react/24/outline'
+import { applyRememberedMapping } from '@/lib/import/mapping-memory'
+import { TransformRule, ValidationRule } from '@/types/import'
+import TransformRulesEditor, { parseTransformRulesText, transformRuleTargets } from './TransformRulesEditor'
+import ValidationRulesEditor, { parseValidationRulesText } from './ValidationRulesEditor'
 
 // Fuzzy matching field mappings - Focused on Debt Collection
 const FIELD_MAPPINGS = {
@@ -48,6 +53,7 @@ const FIELD_MAPPINGS = {
   'name_prefix': ['name_prefix', 'prefix', 'title', 'name_title', 'honorific', 'debtor_prefix', 'borrower_prefix'],
   'name_suffix': ['name_suffix', 'suffix', 'name_suffix_jr', 'jr', 'sr', 'iii', 'iv', 'debtor_suffix', 'borrower_suffix'],
   'dob': ['dob', 'date_of_birth', 'birth_date', 'birthdate', 'birth_dt', 'date_of_birth_dt', 'debtor_dob', 'borrower_dob', 'birthday'],
+  'preferred_language': ['preferred_language', 'language', 'lang', 'primary_language', 'spoken_language', 'language_preference', 'debtor_language'],
 
   // Contact Information - Primary
   'phone_primary': ['phone_primary', 'primary_phone', 'phone', 'phone_number', 'phone_num', 'tel', 'telephone', 'debtor_phone', 'borrower_phone', 'home_phone', 'cell_phone', 'mobile_phone'],
@@ -555,26 +561,35 @@ function getDataTypeSimilarity(fieldName: string, targetField: string): number {
   return 0.0
 }
 
+type MappingSource = 'auto' | 'manual' | 'template' | 'memory'
+
 interface ImportTemplate {
   id: string
   name: string
   description: string | null
   import_type: string
   field_mappings: any
-  validation_rules: any
+  validation_rules: ValidationRule[] | null
+  transform_rules?: TransformRule[] | null
   created_at: string | null
   updated_at: string | null
+  current_version?: number | null
 }
 
 interface FieldMappingModalProps {
   isOpen: boolean
   onClose: () => void
-  onConfirm: (mapping: Record<string, string>, templateId?: string) => void
+  onConfirm: (mapping: Record<string, string>, templateId?: string, transformRules?: TransformRule[]) => void
   onMappingUpdate?: (mapping: Record<string, string>) => void
   headers: string[]
   requiredFields: string[]
   optionalFields?: string[]
   initialMapping?: Record<string, string>
+  initialTransformRules?: TransformRule[]
+  // Sample rows from the file preview, used to preview transformation rules
+  sampleRows?: Record<string, any>[]
+  // Last mapping confirmed for the selected client's files
+  rememberedMapping?: Record<string, string> | null
   importType: string
   templates: ImportTemplate[]
   onSaveTemplate?: (template: Partial<ImportTemplate>) => Promise<void>
@@ -591,6 +606,9 @@ export default function FieldMappingModal({
   requiredFields,
   optionalFields = [],
   initialMapping = {},
+  initialTransformRules,
+  sampleRows = [],
+  rememberedMapping,
   importType,
   templates,
   onSaveTemplate,
@@ -598,6 +616,10 @@ export default function FieldMappingModal({
   onDeleteTemplate
 }: FieldMappingModalProps) {
   const [mapping, setMapping] = useState<Record<string, string>>(initialMapping)
+  const [transformRulesText, setTransformRulesText] = useState<string>(
+    initialTransformRules && initialTransformRules.length > 0 ? JSON.stringify(initialTransformRules, null, 2) : ''
+  )
+  const [validationRulesText, setValidationRulesText] = useState<string>('')
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>('')
   const [showSaveTemplate, setShowSaveTemplate] = useState(false)
   const [showTemplateManager, setShowTemplateManager] = useState(false)
@@ -615,7 +637,7 @@ export default function FieldMappingModal({
   } | null>(null)
   
   // Track mapping source (auto vs manual)
-  const [mappingSource, setMappingSource] = useState<Record<string, 'auto' | 'manual' | 'template'>>({})
+  const [mappingSource, setMappingSource] = useState<Record<string, MappingSource>>({})
   
   // Collapsible sections state
   const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>({
@@ -635,13 +657,37 @@ export default function FieldMappingModal({
   useEffect(() => {
     setMapping(initialMapping)
     // Initialize mapping source for existing mappings
-    const initialSource: Record<string, 'auto' | 'manual' | 'template'> = {}
+    const initialSource: Record<string, MappingSource> = {}
     Object.keys(initialMapping).forEach(field => {
       initialSource[field] = 'template'
     })
     setMappingSource(initialSource)
   }, [initialMapping])
 
+  // Fields from the client's last confirmed mapping whose header is in this file
+  const rememberedForFile = rememberedMapping ? applyRememberedMapping(rememberedMapping, headers) : {}
+  const hasRememberedMapping = Object.keys(rememberedForFile).length > 0
+
+  const applyClientMemory = () => {
+    setMapping(prev => ({ ...prev, ...rememberedForFile }))
+    setMappingSource(prev => {
+      const next = { ...prev }
+      Object.keys(rememberedForFile).forEach(field => {
+        next[field] = 'memory'
+      })
+      return next
+    })
+  }
+
+  // Apply the client's remembered mapping when nothing has been mapped yet
+  useEffect(() => {
+    if (!isOpen || !hasRememberedMapping || selectedTemplateId) return
+    const hasMapping = Object.values(mapping).some(header => header && header.trim() !== '')
+    if (!hasMapping) {
+      applyClientMemory()
+    }
+  }, [isOpen, rememberedMapping, headers])
+
   const handleChange = (field: string, value: string) => {
     console.log('🔍 [MAPPING CHANGE] Field mapping updated:')
     console.log('  - Field:', field)
@@ -662,7 +708,7 @@ export default function FieldMappingModal({
     
     // Mark as manual mapping
     setMappingSource(prev => {
-      const newSource: Record<string, 'auto' | 'manual' | 'template'> = {
+      const newSource: Record<string, MappingSource> = {
         ...prev,
         [field]: 'manual'
       }
@@ -686,12 +732,22 @@ export default function FieldMappingModal({
         setMapping(template.field_mappings)
         
         // Mark all template mappings
-        const templateSource: Record<string, 'auto' | 'manual' | 'template'> = {}
+        const templateSource: Record<string, MappingSource> = {}
         Object.keys(template.field_mappings).forEach(field => {
           templateSource[field] = 'template'
         })
         console.log('  - Setting mapping source:', templateSource)
         setMappingSource(templateSource)
+        setTransformRulesText(
+          template.transform_rules && template.transform_rules.length > 0
+            ? JSON.stringify(template.transform_rules, null, 2)
+            : ''
+        )
+        setValidationRulesText(
+          template.validation_rules && template.validation_rules.length > 0
+            ? JSON.stringify(template.validation_rules, null, 2)
+            : ''
+        )
         setTemplateApplied(true)
         console.log('  - Template applied successfully')
       }
@@ -699,6 +755,8 @@ export default function FieldMappingModal({
       console.log('  - No template selected, clearing mapping')
       setMapping({})
       setMappingSource({})
+      setTransformRulesText('')
+      setValidationRulesText('')
       setTemplateApplied(false)
     }
   }
@@ -801,7 +859,9 @@ export default function FieldMappingModal({
     try {
       const result = await onUpdateTemplate!(template.id, {
         ...template,
-        field_mappings: finalMapping
+        field_mappings: finalMapping,
+        transform_rules: transformRules || template.transform_rules || [],
+        validation_rules: validationRules || template.validation_rules || []
       })
       
       console.log('✅ [UPDATE MAPPING] Template update result:', result)
@@ -824,7 +884,9 @@ export default function FieldMappingModal({
         name: templateName,
         description: templateDescription,
         import_type: importType,
-        field_mappings: mapping
+        field_mappings: mapping,
+        transform_rules: transformRules || [],
+        validation_rules: validationRules || []
       })
       setShowSaveTemplate(false)
       setTemplateName('')
@@ -865,7 +927,9 @@ export default function FieldMappingModal({
         name: templateName,
         description: templateDescription,
         import_type: editingTemplate.import_type,
-        field_mappings: mapping
+        field_mappings: mapping,
+        transform_rules: transformRules || editingTemplate.transform_rules || [],
+        validation_rules: validationRules || editingTemplate.validation_rules || []
       }
       
       console.log('🔄 [FIELD MAPPING] Update data being sent:')
@@ -915,7 +979,12 @@ export default function FieldMappingModal({
     }
   }
 
-  const missingRequired = requiredFields.filter(f => !mapping[f])
+  const { rules: transformRules, errors: transformRuleErrors } = parseTransformRulesText(transformRulesText)
+  const { rules: validationRules } = parseValidationRulesText(validationRulesText)
+
+  // Fields filled by a transformation rule count as mapped
+  const ruleTargets = transformRules ? transformRuleTargets(transformRules) : []
+  const missingRequired = requiredFields.filter(f => !mapping[f] && !ruleTargets.includes(f))
 
   // Get available headers (excluding already mapped ones)
   const getAvailableHeaders = (currentField: string) => {
@@ -1019,6 +1088,13 @@ export default function FieldMappingModal({
           selectClass: 'border-purple-500 bg-purple-50',
           badge: { text: 'Template', color: 'bg-purple-100 text-purple-800 border-purple-300' }
         }
+      case 'memory':
+        return {
+          containerClass: 'border-amber-200 bg-amber-50',
+          labelClass: 'text-amber-800 font-medium',
+          selectClass: 'border-amber-500 bg-amber-50',
+          badge: { text: 'Remembered', color: 'bg-amber-100 text-amber-800 border-amber-300' }
+        }
       default:
         return {
           containerClass: 'border-gray-200 bg-gray-50',
@@ -1269,7 +1345,7 @@ export default function FieldMappingModal({
                       <option value="">No template (manual mapping)</option>
                       {filteredTemplates.map(template => (
                         <option key={template.id} value={template.id}>
-                          {template.name}
+                          {template.name}{template.current_version ? ` (v${template.current_version})` : ''}
                         </option>
                       ))}
                     </select>
@@ -1354,15 +1430,29 @@ export default function FieldMappingModal({
               <CardContent className="p-4">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-medium">Field Mapping</h3>
-                  <Button
-                    onClick={handleAutoMatch}
-                    variant="outline"
-                    size="sm"
-                    className="bg-gradient-to-r from-purple-500 to-blue-500 text-white border-0 hover:from-purple-600 hover:to-blue-600"
-                  >
-                    <SparklesIcon className="h-4 w-4 mr-2" />
-                    Auto Match Fields
-                  </Button>
+                  <div className="flex gap-2">
+                    {hasRememberedMapping && (
+                      <Button
+                        type="button"
+                        onClick={applyClientMemory}
+                        variant="outline"
+                        size="sm"
+                        className="bg-amber-50 border-amber-200 text-amber-700 hover:bg-amber-100"
+                      >
+                        <ClockIcon className="h-4 w-4 mr-2" />
+                        Use Client&apos;s Last Mapping
+                      </Button>
+                    )}
+                    <Button
+                      onClick={handleAutoMatch}
+                      variant="outline"
+                      size="sm"
+                      className="bg-gradient-to-r from-purple-500 to-blue-500 text-white border-0 hover:from-purple-600 hover:to-blue-600"
+                    >
+                      <SparklesIcon className="h-4 w-4 mr-2" />
+                      Auto Match Fields
+                    </Button>
+                  </div>
                 </div>
                 <div className="text-sm text-gray-600 mb-4">
                   Map each field to a column from your file. Required fields are marked with *. Use Auto Match to automatically map fields based on name similarity.
@@ -1386,7 +1476,7 @@ export default function FieldMappingModal({
                 {/* Mapping Legend */}
                 <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
                   <h4 className="text-sm font-medium text-gray-900 mb-3">Mapping Status Legend</h4>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-xs">
                     <div className="flex items-center space-x-2">
                       <div className="w-4 h-4 bg-green-100 border-2 border-green-200 rounded"></div>
                       <span className="text-green-800 font-medium">Auto</span>
@@ -1402,14 +1492,19 @@ export default function FieldMappingModal({
                       <span className="text-purple-800 font-medium">Template</span>
                       <span className="text-gray-600">From saved template</span>
                     </div>
+                    <div className="flex items-center space-x-2">
+                      <div className="w-4 h-4 bg-amber-100 border-2 border-amber-200 rounded"></div>
+                      <span className="text-amber-800 font-medium">Remembered</span>
+                      <span className="text-gray-600">From this client's last import</span>
+                    </div>
                   </div>
                 </div>
 
                 <form
                   onSubmit={e => {
                     e.preventDefault()
-                    if (missingRequired.length === 0) {
-                      onConfirm(mapping, selectedTemplateId || undefined)
+                    if (missingRequired.length === 0 && transformRules) {
+                      onConfirm(mapping, selectedTemplateId || undefined, transformRules)
                     }
                   }}
                   className="space-y-6"
@@ -1429,6 +1524,20 @@ export default function FieldMappingModal({
                   {/* Phone Fields */}
                   {renderDynamicFieldGroup('phones', fieldGroups.phones, 'Phone Numbers', phoneCount, addPhoneField, removePhoneField)}
 
+                  {/* Transformation Rules */}
+                  <TransformRulesEditor
+                    value={transformRulesText}
+                    onChange={setTransformRulesText}
+                    mapping={mapping}
+                    sampleRows={sampleRows}
+                  />
+
+                  {/* Validation Rules */}
+                  <ValidationRulesEditor
+                    value={validationRulesText}
+                    onChange={setValidationRulesText}
+                  />
+
                   {/* Action Buttons */}
                   <div className="flex justify-between items-center pt-4 border-t border-gray-200">
                     <div className="text-sm text-gray-600">
@@ -1436,6 +1545,10 @@ export default function FieldMappingModal({
                         <span className="text-red-600">
                           {missingRequired.length} required field{missingRequired.length !== 1 ? 's' : ''} not mapped
                         </span>
+                      ) : transformRuleErrors.length > 0 ? (
+                        <span className="text-red-600">
+                          Fix the transformation rules before confirming
+                        </span>
                       ) : (
                         <span className="text-green-600">
                           All required fields mapped ✓
@@ -1464,7 +1577,7 @@ export default function FieldMappingModal({
                       </Button>
                       <Button
                         type="submit"
-                        disabled={missingRequired.length > 0}
+                        disabled={missingRequired.length > 0 || !transformRules}
                         className="bg-blue-600 hover:bg-blue-700"
                       >
                         Confirm Mapping
@@ -1563,7 +1676,7 @@ export default function FieldMappingModal({
                             console.log('🔄 [EDIT] Setting mapping to:', template.field_mappings)
                             setMapping(template.field_mappings || {})
                             // Update mapping source to indicate these are from template
-                            const templateSource: Record<string, 'auto' | 'manual' | 'template'> = {}
+                            const templateSource: Record<string, MappingSource> = {}
                             Object.keys(template.field_mappings || {}).forEach(field => {
                               templateSource[field] = 'template'
                             })
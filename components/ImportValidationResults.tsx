@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { ImportDryRunResults, ImportDryRunSample } from '@/types/import'
 
 interface ValidationResults {
   totalRows: number
@@ -25,24 +26,59 @@ interface ImportValidationResultsProps {
   validationResults: ValidationResults | null
   onValidate: (jobId: string) => Promise<void>
   onProcess: (jobId: string) => Promise<void>
+  onDryRun: (jobId: string) => Promise<void>
+  onApprove: (jobId: string) => Promise<void>
+  dryRunResults?: ImportDryRunResults | null
+  dryRunApprovedAt?: string | null
+  // A dry run is queued or running in the worker
+  isDryRunRunning?: boolean
   jobStatus?: string
   jobProgress?: number | null
 }
 
+const DRY_RUN_SECTIONS: Array<{ key: keyof ImportDryRunResults['samples']; title: string; className: string }> = [
+  { key: 'newAccounts', title: 'New Accounts', className: 'text-green-700' },
+  { key: 'updatedAccounts', title: 'Updated Accounts', className: 'text-blue-700' },
+  { key: 'newPersons', title: 'New Persons', className: 'text-green-700' },
+  { key: 'matchedPersons', title: 'Matched Persons', className: 'text-gray-700' },
+  { key: 'identityReviews', title: 'Needs Identity Review', className: 'text-yellow-700' },
+  { key: 'rejectedRows', title: 'Rejected Rows', className: 'text-red-700' }
+]
+
+function formatSampleDetails(sample: ImportDryRunSample): string | null {
+  if (!sample.details) return null
+  return Object.entries(sample.details)
+    .map(([field, value]) => {
+      if (value && typeof value === 'object' && 'before' in value) {
+        return `${field}: ${value.before ?? '—'} → ${value.after ?? '—'}`
+      }
+      return `${field}: ${Array.isArray(value) ? value.join(', ') : value ?? '—'}`
+    })
+    .join('; ')
+}
+
 export default function ImportValidationResults({
   jobId,
   validationResults,
   onValidate,
   onProcess,
+  onDryRun,
+  onApprove,
+  dryRunResults,
+  dryRunApprovedAt,
+  isDryRunRunning = false,
   jobStatus,
   jobProgress
 }: ImportValidationResultsProps) {
   const [isValidating, setIsValidating] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [isQueueingDryRun, setIsQueueingDryRun] = useState(false)
+  const [isApproving, setIsApproving] = useState(false)
   const [showDetails, setShowDetails] = useState(false)
 
   // Check if validation is currently running
   const isValidationRunning = jobStatus === 'validating'
+  const isRunningDryRun = isQueueingDryRun || isDryRunRunning
 
   const handleValidate = async () => {
     setIsValidating(true)
@@ -62,6 +98,24 @@ export default function ImportValidationResults({
     }
   }
 
+  const handleDryRun = async () => {
+    setIsQueueingDryRun(true)
+    try {
+      await onDryRun(jobId)
+    } finally {
+      setIsQueueingDryRun(false)
+    }
+  }
+
+  const handleApprove = async () => {
+    setIsApproving(true)
+    try {
+      await onApprove(jobId)
+    } finally {
+      setIsApproving(false)
+    }
+  }
+
   // Show validation in progress
   if (isValidationRunning) {
     return (
@@ -245,7 +299,23 @@ export default function ImportValidationResults({
             {showDetails ? 'Hide Details' : 'View Details'}
           </Button>
 
-          {validationResults.invalidRows === 0 ? (
+          {!dryRunResults ? (
+            <Button 
+              onClick={handleDryRun} 
+              disabled={isRunningDryRun || validationResults.validRows === 0}
+              className="flex-1"
+            >
+              {isRunningDryRun ? 'Running Dry Run...' : 'Run Dry Run'}
+            </Button>
+          ) : !dryRunApprovedAt ? (
+            <Button 
+              onClick={handleApprove} 
+              disabled={isApproving}
+              className="flex-1"
+            >
+              {isApproving ? 'Approving...' : 'Approve Changes'}
+            </Button>
+          ) : validationResults.invalidRows === 0 ? (
             <Button 
               onClick={handleProcess} 
               disabled={isProcessing}
@@ -265,6 +335,84 @@ export default function ImportValidationResults({
           )}
         </div>
 
+        {/* Dry Run Change Set */}
+        {dryRunResults && (
+          <div className="border-t pt-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Dry Run: What This Import Will Do</h4>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{dryRunResults.importMode} mode</Badge>
+                {dryRunApprovedAt ? (
+                  <Badge variant="default">Approved</Badge>
+                ) : (
+                  <Badge variant="outline">Awaiting Approval</Badge>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+              <div className="text-center">
+                <div className="text-2xl font-bold text-green-600">{dryRunResults.counts.newAccounts}</div>
+                <div className="text-sm text-muted-foreground">New Accounts</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-blue-600">{dryRunResults.counts.updatedAccounts}</div>
+                <div className="text-sm text-muted-foreground">Updated Accounts</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-green-600">{dryRunResults.counts.newPersons}</div>
+                <div className="text-sm text-muted-foreground">New Persons</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-700">{dryRunResults.counts.matchedPersons}</div>
+                <div className="text-sm text-muted-foreground">Matched Persons</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-yellow-600">{dryRunResults.counts.identityReviews ?? 0}</div>
+                <div className="text-sm text-muted-foreground">Identity Reviews</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-red-600">{dryRunResults.counts.rejectedRows}</div>
+                <div className="text-sm text-muted-foreground">Rejected Rows</div>
+              </div>
+            </div>
+
+            {dryRunResults.counts.unchangedAccounts > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {dryRunResults.counts.unchangedAccounts} existing accounts match the file and will not change.
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {DRY_RUN_SECTIONS
+                .filter(section => (dryRunResults.samples[section.key] || []).length > 0)
+                .map(section => (
+                  <div key={section.key}>
+                    <h5 className={`font-medium mb-2 ${section.className}`}>
+                      {section.title} (sample)
+                    </h5>
+                    <div className="space-y-1 max-h-64 overflow-y-auto">
+                      {dryRunResults.samples[section.key].map(sample => (
+                        <div key={`${section.key}-${sample.rowNumber}`} className="text-sm p-2 rounded border border-gray-200">
+                          <span className="font-medium">Row {sample.rowNumber}:</span> {sample.label}
+                          {formatSampleDetails(sample) && (
+                            <div className="text-xs text-muted-foreground">{formatSampleDetails(sample)}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+            </div>
+
+            {!dryRunApprovedAt && (
+              <Button variant="outline" onClick={handleDryRun} disabled={isRunningDryRun} className="w-full">
+                {isRunningDryRun ? 'Running Dry Run...' : 'Re-run Dry Run'}
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Details Section */}
         {showDetails && (
           <div className="border-t pt-4 space-y-4">
@@ -36,6 +36,8 @@ const navigationItems = [
   { name: 'Users', href: '/users', icon: UsersIcon },
   { name: 'Import', href: '/import', icon: ArrowUpTrayIcon },
   { name: 'Admin Imports', href: '/admin/imports', icon: ArrowUpTrayIcon },
+  { name: 'Identity Reviews', href: '/admin/identity-reviews', icon: UserGroupIcon },
+  { name: 'Merge Persons', href: '/admin/person-merges', icon: UsersIcon },
   { name: 'Debtors', href: '/debtors', icon: UserGroupIcon },
   { name: 'Collectors', href: '/collectors', icon: UserGroupIcon },
   { name: 'Security', href: '/security', icon: ShieldCheckIcon },
@@ -53,6 +55,8 @@ const navigationPermissions = {
   'Users': ['platform_admin', 'agency_admin', 'agency_user', 'client_admin', 'client_user'],
   'Import': ['platform_admin', 'agency_admin', 'agency_user', 'client_admin', 'client_user'],
   'Admin Imports': ['platform_admin'],
+  'Identity Reviews': ['platform_admin', 'agency_admin'],
+  'Merge Persons': ['platform_admin', 'agency_admin'],
   'Debtors': ['platform_admin', 'agency_admin', 'agency_user', 'client_admin', 'client_user'],
   'Collectors': ['platform_admin', 'agency_admin', 'agency_user', 'client_admin', 'client_user'],
   'Security': ['platform_admin'],
@@ -0,0 +1,195 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { ChevronDownIcon, ChevronRightIcon, PlusIcon } from '@heroicons/react/24/outline'
+import { applyTransformRules, validateTransformRules } from '@/lib/import/transform-rules'
+import { TransformRule } from '@/types/import'
+
+// Starting point for each rule type when added from the menu
+const RULE_EXAMPLES: Record<string, TransformRule> = {
+  split: { type: 'split', source: 'Name', separator: ',', targets: ['last_name', 'first_name'] },
+  concat: { type: 'concat', sources: ['Address 1', 'Address 2'], separator: ' ', target: 'address_line1' },
+  regex_extract: { type: 'regex_extract', source: 'Account', pattern: '(\\d+)$', target: 'original_account_number' },
+  regex_replace: { type: 'regex_replace', source: 'current_balance', pattern: '[$,\\s]', replacement: '', target: 'current_balance' },
+  date_format: { type: 'date_format', source: 'charge_off_date', format: 'MM/DD/YY', target: 'charge_off_date' },
+  lookup: { type: 'lookup', source: 'Status', table: { A: 'active', C: 'closed' }, target: 'account_status', fallback: 'active' },
+  default: { type: 'default', target: 'account_status', value: 'active' },
+  conditional: {
+    type: 'conditional',
+    when: { source: 'Status', operator: 'equals', value: 'BK' },
+    then: [{ type: 'default', target: 'account_status', value: 'bankruptcy' }]
+  }
+}
+
+const PREVIEW_ROWS = 5
+
+// Fields a rule set writes to, including rules nested in conditionals
+export function transformRuleTargets(rules: TransformRule[]): string[] {
+  const targets = new Set<string>()
+  const collect = (rule: TransformRule) => {
+    if (rule.type === 'split') rule.targets.forEach(target => target && targets.add(target))
+    else if (rule.type === 'conditional') {
+      rule.then.forEach(collect)
+      ;(rule.otherwise || []).forEach(collect)
+    } else targets.add(rule.target)
+  }
+  rules.forEach(collect)
+  return Array.from(targets)
+}
+
+// Parse the editor text; null rules means it isn't a valid rule set yet
+export function parseTransformRulesText(text: string): { rules: TransformRule[] | null; errors: string[] } {
+  if (!text.trim()) return { rules: [], errors: [] }
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    return { rules: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  const errors = validateTransformRules(parsed)
+  return { rules: errors.length === 0 ? parsed : null, errors }
+}
+
+interface TransformRulesEditorProps {
+  value: string
+  onChange: (value: string) => void
+  mapping: Record<string, string>
+  sampleRows: Record<string, any>[]
+}
+
+export default function TransformRulesEditor({ value, onChange, mapping, sampleRows }: TransformRulesEditorProps) {
+  const [collapsed, setCollapsed] = useState(!value.trim())
+  const { rules, errors } = useMemo(() => parseTransformRulesText(value), [value])
+
+  const preview = useMemo(() => {
+    if (!rules || rules.length === 0) return null
+
+    const targets = transformRuleTargets(rules)
+    const rows = sampleRows.slice(0, PREVIEW_ROWS).map(row => {
+      const mapped: Record<string, string> = {}
+      Object.entries(mapping).forEach(([field, header]) => {
+        if (header && row[header] !== undefined && row[header] !== null) mapped[field] = String(row[header])
+      })
+      const result = applyTransformRules(mapped, row, rules)
+      return { before: mapped, after: result.data, warnings: result.warnings }
+    })
+
+    return { targets, rows }
+  }, [rules, sampleRows, mapping])
+
+  const addRule = (type: string) => {
+    const current = rules || []
+    onChange(JSON.stringify([...current, RULE_EXAMPLES[type]], null, 2))
+  }
+
+  const ruleCount = rules?.length || 0
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="pb-3 cursor-pointer hover:bg-gray-50" onClick={() => setCollapsed(!collapsed)}>
+        <div className="flex items-center space-x-2">
+          {collapsed ? (
+            <ChevronRightIcon className="h-4 w-4 text-gray-500" />
+          ) : (
+            <ChevronDownIcon className="h-4 w-4 text-gray-500" />
+          )}
+          <CardTitle className="text-base font-medium">Transformation Rules</CardTitle>
+          <Badge variant={errors.length > 0 ? 'destructive' : 'outline'} className="text-xs">
+            {errors.length > 0 ? `${errors.length} error${errors.length !== 1 ? 's' : ''}` : `${ruleCount} rule${ruleCount !== 1 ? 's' : ''}`}
+          </Badge>
+        </div>
+      </CardHeader>
+
+      {!collapsed && (
+        <CardContent className="pt-0 space-y-4">
+          <p className="text-sm text-gray-600">
+            Rules run in order after the column mapping. A rule&apos;s <code>source</code> can be a mapped field or a column
+            from the file; dates are converted to YYYY-MM-DD.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {Object.keys(RULE_EXAMPLES).map(type => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => addRule(type)}
+                disabled={rules === null}
+                className="flex items-center px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                <PlusIcon className="h-3 w-3 mr-1" />
+                {type}
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            rows={10}
+            spellCheck={false}
+            placeholder="[]"
+            className="w-full px-3 py-2 font-mono text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 space-y-1">
+              {errors.map((error, index) => (
+                <div key={index}>{error}</div>
+              ))}
+            </div>
+          )}
+
+          {preview && preview.rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Preview (first {preview.rows.length} rows)</h4>
+              <table className="min-w-full text-xs border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium text-gray-600">Row</th>
+                    {preview.targets.map(target => (
+                      <th key={target} className="px-2 py-1 text-left font-medium text-gray-600">{target}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row, index) => (
+                    <tr key={index} className="border-t border-gray-200 align-top">
+                      <td className="px-2 py-1 text-gray-500">{index + 1}</td>
+                      {preview.targets.map(target => {
+                        const before = row.before[target] ?? ''
+                        const after = row.after[target] ?? ''
+                        return (
+                          <td key={target} className="px-2 py-1">
+                            {before !== after && before !== '' && (
+                              <span className="text-gray-400 line-through mr-1">{before}</span>
+                            )}
+                            <span className={before !== after ? 'text-green-700 font-medium' : 'text-gray-700'}>
+                              {after || '—'}
+                            </span>
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.rows.some(row => row.warnings.length > 0) && (
+                <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800 space-y-1">
+                  {preview.rows.flatMap((row, index) =>
+                    row.warnings.map((warning, warningIndex) => (
+                      <div key={`${index}-${warningIndex}`}>Row {index + 1}: {warning}</div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
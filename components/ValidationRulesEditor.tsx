@@ -0,0 +1,109 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { ChevronDownIcon, ChevronRightIcon, PlusIcon } from '@heroicons/react/24/outline'
+import { validateValidationRules } from '@/lib/import/validation-rules'
+import { ValidationRule } from '@/types/import'
+
+// Starting point for each rule kind when added from the menu
+const RULE_EXAMPLES: Record<string, ValidationRule> = {
+  required: { field: 'date_opened', rule: 'required', severity: 'warning' },
+  enum: { field: 'account_status', rule: 'enum', options: ['active', 'closed'], severity: 'error' },
+  range: { field: 'current_balance', rule: 'range', min: 0, max: 1000000, severity: 'error' },
+  regex: { field: 'original_account_number', rule: 'regex', pattern: '^[A-Z0-9-]+$', severity: 'error' },
+  compare: { field: 'charge_off_date', rule: 'compare', operator: 'after', compareTo: 'date_opened', severity: 'warning' },
+  unique: { field: 'original_account_number', rule: 'unique', severity: 'error' }
+}
+
+// Parse the editor text; null rules means it isn't a valid rule list yet
+export function parseValidationRulesText(text: string): { rules: ValidationRule[] | null; errors: string[] } {
+  if (!text.trim()) return { rules: [], errors: [] }
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    return { rules: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  const errors = validateValidationRules(parsed)
+  return { rules: errors.length === 0 ? parsed : null, errors }
+}
+
+interface ValidationRulesEditorProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+export default function ValidationRulesEditor({ value, onChange }: ValidationRulesEditorProps) {
+  const [collapsed, setCollapsed] = useState(!value.trim())
+  const { rules, errors } = parseValidationRulesText(value)
+
+  const addRule = (kind: string) => {
+    onChange(JSON.stringify([...(rules || []), RULE_EXAMPLES[kind]], null, 2))
+  }
+
+  const ruleCount = rules?.length || 0
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="pb-3 cursor-pointer hover:bg-gray-50" onClick={() => setCollapsed(!collapsed)}>
+        <div className="flex items-center space-x-2">
+          {collapsed ? (
+            <ChevronRightIcon className="h-4 w-4 text-gray-500" />
+          ) : (
+            <ChevronDownIcon className="h-4 w-4 text-gray-500" />
+          )}
+          <CardTitle className="text-base font-medium">Validation Rules</CardTitle>
+          <Badge variant={errors.length > 0 ? 'destructive' : 'outline'} className="text-xs">
+            {errors.length > 0 ? `${errors.length} error${errors.length !== 1 ? 's' : ''}` : `${ruleCount} rule${ruleCount !== 1 ? 's' : ''}`}
+          </Badge>
+        </div>
+      </CardHeader>
+
+      {!collapsed && (
+        <CardContent className="pt-0 space-y-4">
+          <p className="text-sm text-gray-600">
+            Saved with the template and checked when a job created from it is validated. Rules with
+            severity <code>error</code> reject the row; <code>warning</code> rules are reported but the row still imports.
+            A rule for the same field and kind as a built-in check replaces it.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {Object.keys(RULE_EXAMPLES).map(kind => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => addRule(kind)}
+                disabled={rules === null}
+                className="flex items-center px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                <PlusIcon className="h-3 w-3 mr-1" />
+                {kind}
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            rows={8}
+            spellCheck={false}
+            placeholder="[]"
+            className="w-full px-3 py-2 font-mono text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 space-y-1">
+              {errors.map((error, index) => (
+                <div key={index}>{error}</div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
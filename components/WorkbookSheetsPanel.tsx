@@ -0,0 +1,171 @@
+'use client'
+
+import React from 'react'
+import { Badge } from './ui/badge'
+import { TableCellsIcon } from '@heroicons/react/24/outline'
+import { RELATED_SHEET_FIELDS, validateRelatedSheets } from '@/lib/import/sheet-config'
+import { ImportSheetConfig, ImportSheetPreview, RelatedSheetMapping, RelatedSheetType } from '@/types/import'
+
+// Header names that usually hold the account number on a child sheet
+const JOIN_COLUMN_HINTS = ['original_account_number', 'account_number', 'account number', 'account', 'acct']
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+// Pick the header matching a field name, ignoring case and separators
+function guessHeader(headers: string[], field: string): string {
+  const target = normalizeHeader(field)
+  return headers.find(header => normalizeHeader(header) === target)
+    || headers.find(header => normalizeHeader(header).includes(target))
+    || ''
+}
+
+function guessJoinColumn(headers: string[]): string {
+  for (const hint of JOIN_COLUMN_HINTS) {
+    const header = guessHeader(headers, hint)
+    if (header) return header
+  }
+  return ''
+}
+
+function guessRelatedMapping(sheet: ImportSheetPreview, type: RelatedSheetType): RelatedSheetMapping {
+  const fieldMapping: Record<string, string> = {}
+  RELATED_SHEET_FIELDS[type].fields.forEach(field => {
+    const header = guessHeader(sheet.headers, field)
+    if (header) fieldMapping[field] = header
+  })
+  return { sheet: sheet.name, type, joinColumn: guessJoinColumn(sheet.headers), fieldMapping }
+}
+
+interface WorkbookSheetsPanelProps {
+  sheets: ImportSheetPreview[]
+  value: ImportSheetConfig
+  onChange: (value: ImportSheetConfig) => void
+  // Related sheets attach child records to accounts, so only account imports offer them
+  allowRelated: boolean
+}
+
+export default function WorkbookSheetsPanel({ sheets, value, onChange, allowRelated }: WorkbookSheetsPanelProps) {
+  const errors = validateRelatedSheets(value.related, value.primarySheet)
+  const relatedFor = (sheetName: string) => value.related.find(mapping => mapping.sheet === sheetName)
+
+  const setPrimarySheet = (sheetName: string) => {
+    onChange({ primarySheet: sheetName, related: value.related.filter(mapping => mapping.sheet !== sheetName) })
+  }
+
+  const setRelatedType = (sheet: ImportSheetPreview, type: string) => {
+    const others = value.related.filter(mapping => mapping.sheet !== sheet.name)
+    onChange({
+      ...value,
+      related: type ? [...others, guessRelatedMapping(sheet, type as RelatedSheetType)] : others
+    })
+  }
+
+  const updateRelated = (sheetName: string, updates: Partial<RelatedSheetMapping>) => {
+    onChange({
+      ...value,
+      related: value.related.map(mapping => mapping.sheet === sheetName ? { ...mapping, ...updates } : mapping)
+    })
+  }
+
+  return (
+    <div className="mb-6 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center space-x-2 mb-3">
+        <TableCellsIcon className="h-5 w-5 text-gray-500" />
+        <h3 className="font-medium text-gray-900">Workbook Sheets</h3>
+        <Badge variant="outline" className="text-xs">{sheets.length} sheets</Badge>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Primary sheet (accounts)</label>
+        <select
+          value={value.primarySheet}
+          onChange={(e) => setPrimarySheet(e.target.value)}
+          className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {sheets.map(sheet => (
+            <option key={sheet.name} value={sheet.name}>
+              {sheet.name} ({sheet.total_rows} rows)
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {allowRelated && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Rows on a related sheet are attached to the account whose original account number matches
+            the sheet&apos;s account number column.
+          </p>
+
+          {sheets.filter(sheet => sheet.name !== value.primarySheet).map(sheet => {
+            const mapping = relatedFor(sheet.name)
+            return (
+              <div key={sheet.name} className="p-3 bg-gray-50 rounded-md">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm font-medium text-gray-900">{sheet.name}</span>
+                  <span className="text-xs text-gray-500">{sheet.total_rows} rows</span>
+                  <select
+                    value={mapping?.type || ''}
+                    onChange={(e) => setRelatedType(sheet, e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Ignore</option>
+                    {Object.entries(RELATED_SHEET_FIELDS).map(([type, { label }]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {mapping && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-3">
+                    <label className="text-xs text-gray-600">
+                      Account number column *
+                      <select
+                        value={mapping.joinColumn}
+                        onChange={(e) => updateRelated(sheet.name, { joinColumn: e.target.value })}
+                        className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      >
+                        <option value="">Select column</option>
+                        {sheet.headers.map(header => (
+                          <option key={header} value={header}>{header}</option>
+                        ))}
+                      </select>
+                    </label>
+
+                    {RELATED_SHEET_FIELDS[mapping.type].fields.map(field => (
+                      <label key={field} className="text-xs text-gray-600">
+                        {field}{RELATED_SHEET_FIELDS[mapping.type].required.includes(field) ? ' *' : ''}
+                        <select
+                          value={mapping.fieldMapping[field] || ''}
+                          onChange={(e) => updateRelated(sheet.name, {
+                            fieldMapping: { ...mapping.fieldMapping, [field]: e.target.value }
+                          })}
+                          className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="">Not mapped</option>
+                          {sheet.headers.map(header => (
+                            <option key={header} value={header}>{header}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 space-y-1">
+              {errors.map((error, index) => (
+                <div key={index}>{error}</div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,475 @@
+// Account activity timeline
+// Merges everything recorded about one debt account into a single event stream, newest first:
+// the account's own dates, calls, notes (every version), payments, portfolio and account
+// placements, import changes, collector assignments, work queue actions and audit log entries.
+// Each source is read up to a cap; the response says when a cap was hit so older events may be
+// missing from the merged stream.
+
+import { AuthenticatedUser } from '@/lib/auth-utils'
+import { AUDIT_ACTIONS } from '@/lib/audit-log'
+import { canSeeNote } from '@/lib/notes'
+
+export const TIMELINE_CATEGORIES = ['account', 'call', 'note', 'payment', 'placement', 'import', 'assignment', 'queue', 'audit'] as const
+export type TimelineCategory = typeof TIMELINE_CATEGORIES[number]
+
+// Rows read per source
+const SOURCE_LIMIT = 500
+// Events returned when the request doesn't ask for a number
+export const DEFAULT_TIMELINE_LIMIT = 200
+
+export const TIMELINE_ACCOUNT_SELECT = 'id, account_number, portfolio_id, created_at, date_opened, charge_off_date, import_batch_id, master_portfolios!debt_accounts_portfolio_id_fkey(id, name, agency_id)'
+
+export interface TimelineEvent {
+  // <source table>:<record id>[:<event>], unique within a timeline
+  id: string
+  occurredAt: string
+  category: TimelineCategory
+  type: string
+  title: string
+  description: string | null
+  actor: string | null
+  source: string
+  recordId: string
+}
+
+export interface TimelineOptions {
+  categories?: TimelineCategory[]
+  from?: string | null
+  to?: string | null
+  limit?: number
+  // Audit log entries for reads of the account are left out unless asked for
+  includeViews?: boolean
+}
+
+export interface AccountTimeline {
+  events: TimelineEvent[]
+  // Sources that had more rows than were read
+  truncatedSources: string[]
+}
+
+function label(value: string | null | undefined): string {
+  return (value || 'other').replace(/_/g, ' ')
+}
+
+function formatAmount(value: any): string {
+  return `$${Number(value || 0).toFixed(2)}`
+}
+
+// Date-only columns become midnight UTC so they sort alongside timestamps
+function toTimestamp(value: string | null | undefined): string | null {
+  if (!value) return null
+  const text = String(value)
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00.000Z` : text
+}
+
+function userName(user: any, fallback: string | null = null): string | null {
+  return user?.full_name || user?.email || fallback
+}
+
+interface TimelineRange {
+  from: string | null
+  to: string | null
+}
+
+// Restrict a source query to the requested dates, so the per-source cap applies within the range
+function inRange(query: any, column: string, range: TimelineRange, dateOnly = false) {
+  const bound = (value: string) => dateOnly ? value.slice(0, 10) : value
+  if (range.from) query = query.gte(column, bound(range.from))
+  if (range.to) query = query.lte(column, bound(range.to))
+  return query
+}
+
+// Parse the categories query parameter; unknown names are ignored and none means all
+export function parseTimelineCategories(value: string | null): TimelineCategory[] {
+  if (!value) return [...TIMELINE_CATEGORIES]
+  const requested = value.split(',').map(category => category.trim())
+  return TIMELINE_CATEGORIES.filter(category => requested.includes(category))
+}
+
+function accountEvents(account: any): TimelineEvent[] {
+  const events: TimelineEvent[] = []
+  const base = { category: 'account' as const, source: 'debt_accounts', recordId: account.id, actor: null }
+  if (account.date_opened) {
+    events.push({ ...base, id: `debt_accounts:${account.id}:opened`, occurredAt: toTimestamp(account.date_opened)!, type: 'opened', title: 'Account opened with original creditor', description: null })
+  }
+  if (account.charge_off_date) {
+    events.push({ ...base, id: `debt_accounts:${account.id}:charged_off`, occurredAt: toTimestamp(account.charge_off_date)!, type: 'charged_off', title: 'Charged off', description: null })
+  }
+  if (account.created_at) {
+    events.push({
+      ...base,
+      id: `debt_accounts:${account.id}:created`,
+      occurredAt: account.created_at,
+      type: 'created',
+      title: 'Account added to portfolio',
+      description: account.master_portfolios?.name || null
+    })
+  }
+  return events
+}
+
+async function callEvents(supabase: any, accountId: string, range: TimelineRange) {
+  const { data, error } = await inRange(supabase
+    .from('calls')
+    .select('id, call_date, call_duration, call_result, disposition_code, call_notes, phone_number, source, original_collector, promise_amount, promise_date, callback_at, platform_users(full_name)')
+    .eq('debtor_id', accountId), 'call_date', range)
+    .order('call_date', { ascending: false })
+    .limit(SOURCE_LIMIT)
+  if (error) throw new Error(`Failed to load calls: ${error.message}`)
+
+  return {
+    rows: data || [],
+    events: (data || []).map((call: any): TimelineEvent => {
+      const details = [
+        call.phone_number,
+        call.promise_amount ? `promised ${formatAmount(call.promise_amount)} by ${call.promise_date}` : null,
+        call.callback_at ? `callback ${new Date(call.callback_at).toLocaleString()}` : null,
+        call.call_notes
+      ].filter(Boolean)
+      return {
+        id: `calls:${call.id}`,
+        occurredAt: call.call_date,
+        category: 'call',
+        type: call.call_result || 'other',
+        title: `Call: ${label(call.disposition_code || call.call_result)}${call.source === 'import' ? ' (imported)' : ''}`,
+        description: details.length > 0 ? details.join(' - ') : null,
+        actor: userName(call.platform_users, call.original_collector),
+        source: 'calls',
+        recordId: call.id
+      }
+    })
+  }
+}
+
+async function noteEvents(supabase: any, user: AuthenticatedUser, accountId: string, range: TimelineRange) {
+  const { data, error } = await inRange(supabase
+    .from('debtor_notes')
+    .select('id, note_type, note_text, is_private, source, original_author, created_at, version, user_id, platform_users!debtor_notes_user_id_fkey(full_name)')
+    .eq('debtor_id', accountId), 'created_at', range)
+    .order('created_at', { ascending: false })
+    .limit(SOURCE_LIMIT)
+  if (error) throw new Error(`Failed to load notes: ${error.message}`)
+
+  return {
+    rows: data || [],
+    events: (data || [])
+      .filter((note: any) => canSeeNote(user, note))
+      .map((note: any): TimelineEvent => ({
+        id: `debtor_notes:${note.id}`,
+        occurredAt: note.created_at,
+        category: 'note',
+        type: (note.version || 1) > 1 ? 'edited' : 'added',
+        title: `${(note.version || 1) > 1 ? `Note edited (v${note.version})` : 'Note added'}: ${label(note.note_type)}${note.is_private ? ' (private)' : ''}`,
+        description: note.note_text,
+        actor: userName(note.platform_users, note.original_author),
+        source: 'debtor_notes',
+        recordId: note.id
+      }))
+  }
+}
+
+async function paymentEvents(supabase: any, accountId: string, range: TimelineRange) {
+  const { data, error } = await inRange(supabase
+    .from('debtor_payments')
+    .select('*')
+    .eq('debtor_id', accountId), 'payment_date', range, true)
+    .order('payment_date', { ascending: false })
+    .limit(SOURCE_LIMIT)
+  if (error) throw new Error(`Failed to load payments: ${error.message}`)
+
+  return {
+    rows: data || [],
+    events: (data || []).map((payment: any): TimelineEvent => ({
+      id: `debtor_payments:${payment.id}`,
+      occurredAt: toTimestamp(payment.payment_date) || payment.created_at,
+      category: 'payment',
+      type: payment.payment_status || 'pending',
+      title: `Payment of ${formatAmount(payment.payment_amount)} (${label(payment.payment_status || 'pending')})`,
+      description: [payment.payment_method && label(payment.payment_method), payment.payment_reference, payment.payment_notes]
+        .filter(Boolean).join(' - ') || null,
+      actor: null,
+      source: 'debtor_payments',
+      recordId: payment.id
+    }))
+  }
+}
+
+// Portfolio placements with agencies, and placements of this account where it's tracked on its own.
+// Agency users only see their own agency's placements.
+async function placementEvents(supabase: any, user: AuthenticatedUser, account: any) {
+  const agencyScope = user.activeRole.roleType === 'platform_admin' ? null : user.activeRole.organizationId
+  let portfolioQuery = supabase
+    .from('master_portfolio_placements')
+    .select('id, agency_id, placement_date, return_date, status, master_agencies(name)')
+    .eq('portfolio_id', account.portfolio_id)
+    .limit(SOURCE_LIMIT)
+  if (agencyScope) portfolioQuery = portfolioQuery.eq('agency_id', agencyScope)
+
+  const { data: masterAccounts } = await supabase
+    .from('master_accounts')
+    .select('id')
+    .eq('portfolio_id', account.portfolio_id)
+    .eq('account_number', account.account_number)
+  const masterAccountIds = (masterAccounts || []).map((row: any) => row.id)
+
+  let accountPlacements: any[] = []
+  if (masterAccountIds.length > 0) {
+    let accountQuery = supabase
+      .from('master_account_placements')
+      .select('id, agency_id, placement_date, return_date, placement_status, placement_amount, master_agencies(name)')
+      .in('account_id', masterAccountIds)
+      .limit(SOURCE_LIMIT)
+    if (agencyScope) accountQuery = accountQuery.eq('agency_id', agencyScope)
+    const { data, error } = await accountQuery
+    if (error) throw new Error(`Failed to load account placements: ${error.message}`)
+    accountPlacements = data || []
+  }
+
+  const { data: portfolioPlacements, error } = await portfolioQuery
+  if (error) throw new Error(`Failed to load portfolio placements: ${error.message}`)
+
+  const events: TimelineEvent[] = []
+  const addPlacement = (placement: any, source: string, scope: string) => {
+    const agency = placement.master_agencies?.name || 'agency'
+    events.push({
+      id: `${source}:${placement.id}:placed`,
+      occurredAt: toTimestamp(placement.placement_date)!,
+      category: 'placement',
+      type: 'placed',
+      title: `${scope} placed with ${agency}`,
+      description: placement.placement_amount ? `Placed balance ${formatAmount(placement.placement_amount)}` : null,
+      actor: null,
+      source,
+      recordId: placement.id
+    })
+    if (placement.return_date) {
+      events.push({
+        id: `${source}:${placement.id}:returned`,
+        occurredAt: toTimestamp(placement.return_date)!,
+        category: 'placement',
+        type: 'returned',
+        title: `${scope} returned from ${agency}`,
+        description: placement.placement_status || placement.status ? `Status: ${label(placement.placement_status || placement.status)}` : null,
+        actor: null,
+        source,
+        recordId: placement.id
+      })
+    }
+  }
+
+  for (const placement of portfolioPlacements || []) addPlacement(placement, 'master_portfolio_placements', 'Portfolio')
+  for (const placement of accountPlacements) addPlacement(placement, 'master_account_placements', 'Account')
+
+  return { rows: (portfolioPlacements || []).concat(accountPlacements), events }
+}
+
+// Changes imports made to the account, plus the job that created it when that predates the change log
+async function importEvents(supabase: any, account: any, range: TimelineRange) {
+  const { data, error } = await inRange(supabase
+    .from('import_job_changes')
+    .select('id, job_id, row_number, action, changes, created_at, import_jobs(id, file_name, import_type)')
+    .eq('table_name', 'debt_accounts')
+    .eq('record_id', account.id), 'created_at', range)
+    .order('created_at', { ascending: false })
+    .limit(SOURCE_LIMIT)
+  if (error) throw new Error(`Failed to load import changes: ${error.message}`)
+
+  const events: TimelineEvent[] = (data || []).map((change: any): TimelineEvent => {
+    const fields = change.action === 'update' ? Object.keys(change.changes || {}) : []
+    return {
+      id: `import_job_changes:${change.id}`,
+      occurredAt: change.created_at,
+      category: 'import',
+      type: change.action,
+      title: change.action === 'insert' ? 'Created by import' : 'Updated by import',
+      description: [
+        change.import_jobs?.file_name,
+        change.row_number ? `row ${change.row_number}` : null,
+        fields.length > 0 ? `changed ${fields.join(', ')}` : null
+      ].filter(Boolean).join(' - ') || null,
+      actor: null,
+      source: 'import_job_changes',
+      recordId: change.id
+    }
+  })
+
+  const loggedJobIds = (data || []).map((change: any) => change.job_id)
+  if (account.import_batch_id && !loggedJobIds.includes(account.import_batch_id)) {
+    const { data: job } = await supabase
+      .from('import_jobs')
+      .select('id, file_name, created_at')
+      .eq('id', account.import_batch_id)
+      .maybeSingle()
+    if (job) {
+      events.push({
+        id: `import_jobs:${job.id}`,
+        occurredAt: job.created_at,
+        category: 'import',
+        type: 'insert',
+        title: 'Created by import',
+        description: job.file_name,
+        actor: null,
+        source: 'import_jobs',
+        recordId: job.id
+      })
+    }
+  }
+
+  return { rows: data || [], events }
+}
+
+async function assignmentEvents(supabase: any, accountId: string, range: TimelineRange) {
+  const { data, error } = await inRange(supabase
+    .from('account_assignment_log')
+    .select(`
+      id, source, reason, created_at,
+      previous_collector:platform_users!account_assignment_log_previous_collector_id_fkey(full_name, email),
+      new_collector:platform_users!account_assignment_log_new_collector_id_fkey(full_name, email),
+      changed_by_user:platform_users!account_assignment_log_changed_by_fkey(full_name, email)
+    `)
+    .eq('account_id', accountId), 'created_at', range)
+    .order('created_at', { ascending: false })
+    .limit(SOURCE_LIMIT)
+  if (error) throw new Error(`Failed to load assignment log: ${error.message}`)
+
+  return {
+    rows: data || [],
+    events: (data || []).map((entry: any): TimelineEvent => {
+      const to = userName(entry.new_collector)
+      const from = userName(entry.previous_collector)
+      return {
+        id: `account_assignment_log:${entry.id}`,
+        occurredAt: entry.created_at,
+        category: 'assignment',
+        type: entry.source,
+        title: to ? `Assigned to ${to}${from ? ` (was ${from})` : ''}` : `Unassigned from ${from || 'collector'}`,
+        description: [label(entry.source), entry.reason].filter(Boolean).join(' - '),
+        actor: userName(entry.changed_by_user),
+        source: 'account_assignment_log',
+        recordId: entry.id
+      }
+    })
+  }
+}
+
+async function queueEvents(supabase: any, accountId: string, range: TimelineRange) {
+  const { data, error } = await inRange(supabase
+    .from('collector_queue_events')
+    .select('id, action, reason, notes, available_at, created_at, platform_users(full_name, email)')
+    .eq('account_id', accountId), 'created_at', range)
+    .order('created_at', { ascending: false })
+    .limit(SOURCE_LIMIT)
+  if (error) throw new Error(`Failed to load queue events: ${error.message}`)
+
+  return {
+    rows: data || [],
+    events: (data || []).map((event: any): TimelineEvent => ({
+      id: `collector_queue_events:${event.id}`,
+      occurredAt: event.created_at,
+      category: 'queue',
+      type: event.action,
+      title: event.action === 'served' ? 'Served from work queue'
+        : event.action === 'skipped' ? 'Skipped in work queue'
+        : `Deferred until ${new Date(event.available_at).toLocaleString()}`,
+      description: [event.reason && label(event.reason), event.notes].filter(Boolean).join(' - ') || null,
+      actor: userName(event.platform_users),
+      source: 'collector_queue_events',
+      recordId: event.id
+    }))
+  }
+}
+
+// Audit entries about the account itself, or about its calls and notes (which carry accountId in their details)
+async function auditEvents(supabase: any, accountId: string, range: TimelineRange, includeViews: boolean) {
+  let query = inRange(supabase
+    .from('audit_logs')
+    .select('id, user_id, action, resource_type, resource_id, details, success, created_at')
+    .or(`resource_id.eq.${accountId},details->>accountId.eq.${accountId}`), 'created_at', range)
+    .order('created_at', { ascending: false })
+    .limit(SOURCE_LIMIT)
+  if (!includeViews) query = query.neq('action', AUDIT_ACTIONS.DATA_VIEW)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to load audit log: ${error.message}`)
+
+  const userIds = Array.from(new Set<string>((data || []).map((entry: any) => entry.user_id).filter(Boolean)))
+  const names = new Map<string, string>()
+  if (userIds.length > 0) {
+    const { data: users } = await supabase
+      .from('platform_users')
+      .select('id, full_name, email')
+      .in('id', userIds)
+    for (const platformUser of users || []) names.set(platformUser.id, userName(platformUser) || platformUser.id)
+  }
+
+  return {
+    rows: data || [],
+    events: (data || []).map((entry: any): TimelineEvent => {
+      const detailAction = entry.details?.action
+      return {
+        id: `audit_logs:${entry.id}`,
+        occurredAt: entry.created_at,
+        category: 'audit',
+        type: entry.action,
+        title: `${label(entry.action)} on ${label(entry.resource_type)}${detailAction ? `: ${label(detailAction)}` : ''}${entry.success === false ? ' (failed)' : ''}`,
+        description: null,
+        actor: names.get(entry.user_id) || null,
+        source: 'audit_logs',
+        recordId: entry.id
+      }
+    })
+  }
+}
+
+/**
+ * Build the timeline for an account the user has access to. The account row must have been read
+ * with TIMELINE_ACCOUNT_SELECT.
+ */
+export async function buildAccountTimeline(
+  supabase: any,
+  user: AuthenticatedUser,
+  account: any,
+  options: TimelineOptions = {}
+): Promise<AccountTimeline> {
+  const categories = options.categories && options.categories.length > 0 ? options.categories : [...TIMELINE_CATEGORIES]
+  const range: TimelineRange = {
+    from: options.from ? new Date(options.from).toISOString() : null,
+    // A date-only upper bound includes the whole day
+    to: options.to
+      ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(options.to) ? `${options.to}T23:59:59.999Z` : options.to).toISOString()
+      : null
+  }
+
+  const loaders: Record<string, () => Promise<{ rows: any[]; events: TimelineEvent[] }>> = {
+    call: () => callEvents(supabase, account.id, range),
+    note: () => noteEvents(supabase, user, account.id, range),
+    payment: () => paymentEvents(supabase, account.id, range),
+    placement: () => placementEvents(supabase, user, account),
+    import: () => importEvents(supabase, account, range),
+    assignment: () => assignmentEvents(supabase, account.id, range),
+    queue: () => queueEvents(supabase, account.id, range),
+    audit: () => auditEvents(supabase, account.id, range, !!options.includeViews)
+  }
+
+  let events: TimelineEvent[] = categories.includes('account') ? accountEvents(account) : []
+  const truncatedSources: string[] = []
+  for (const category of categories) {
+    const loader = loaders[category]
+    if (!loader) continue
+    const result = await loader()
+    if (result.rows.length >= SOURCE_LIMIT) truncatedSources.push(category)
+    events = events.concat(result.events)
+  }
+
+  // Account dates and placements aren't filtered at the source
+  const from = range.from ? new Date(range.from).getTime() : null
+  const to = range.to ? new Date(range.to).getTime() : null
+  events = events.filter(event => {
+    const time = new Date(event.occurredAt).getTime()
+    if (isNaN(time)) return false
+    return (from === null || time >= from) && (to === null || time <= to)
+  })
+
+  events.sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime() || a.id.localeCompare(b.id))
+  return { events: events.slice(0, options.limit || DEFAULT_TIMELINE_LIMIT), truncatedSources }
+}
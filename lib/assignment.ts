@@ -0,0 +1,658 @@
+// Rules-based account assignment
+// An agency's assignment rules are tried in priority order; the first rule whose conditions match
+// the account (portfolio, balance band, consumer state and language) and that has an eligible
+// collector picks one, round-robin or least-loaded. A collector is eligible while they're
+// accepting accounts, under their capacity, licensed in the consumer's state and, for consumers
+// who prefer another language, speaking it when anyone in the pool does. Every change of assigned
+// collector is written to account_assignment_log.
+
+import { AuthenticatedUser } from '@/lib/auth-utils'
+import { ImportChangeContext, updateTracked } from '@/lib/import/change-log'
+import { normalizeStateCode } from '@/lib/sol'
+import { CLOSED_ACCOUNT_STATUSES, CLOSED_COLLECTION_STATUSES, listAgencyCollectors } from '@/lib/work-queue'
+
+export const ASSIGNMENT_STRATEGIES = ['round_robin', 'least_loaded']
+export type AssignmentSource = 'import' | 'rule' | 'bulk_reassignment' | 'rebalance' | 'manual'
+
+// Accounts read per page by bulk runs
+const ACCOUNT_PAGE_SIZE = 1000
+// Unassigned accounts picked up per rebalance run
+const REBALANCE_BATCH_SIZE = 1000
+
+// Fields a rule or collector profile can be saved with
+const ASSIGNMENT_RULE_FIELDS = ['agency_id', 'name', 'priority', 'is_active', 'portfolio_id', 'min_balance', 'max_balance', 'states', 'language', 'collector_ids', 'strategy']
+const COLLECTOR_PROFILE_FIELDS = ['licensed_states', 'languages', 'max_accounts', 'is_accepting']
+
+// Account columns the engine needs, with the consumer's language
+export const ASSIGNMENT_ACCOUNT_SELECT = 'id, portfolio_id, current_balance, sol_state, assigned_collector_id, last_contact_date, assigned_date, persons!debt_accounts_person_id_fkey(preferred_language)'
+
+export interface AssignmentRule {
+  id: string
+  agency_id: string
+  name: string
+  priority: number
+  is_active: boolean
+  portfolio_id: string | null
+  min_balance: number | null
+  max_balance: number | null
+  states: string[] | null
+  language: string | null
+  collector_ids: string[]
+  strategy: 'round_robin' | 'least_loaded'
+  last_assigned_collector_id: string | null
+}
+
+export interface CollectorProfile {
+  collector_id: string
+  agency_id: string
+  licensed_states: string[] | null
+  languages: string[]
+  max_accounts: number | null
+  is_accepting: boolean
+}
+
+export interface AssignmentCandidate {
+  portfolio_id: string | null
+  current_balance: number | string | null
+  sol_state: string | null
+  preferred_language: string | null
+}
+
+export interface AssignmentChoice {
+  collectorId: string
+  ruleId: string | null
+  reason: string
+}
+
+export interface AssignmentState {
+  rules: AssignmentRule[]
+  // Each collector's profile with each agency, keyed by profileKey
+  profiles: Map<string, CollectorProfile>
+  // Collector ids of each agency the rules belong to
+  agencyCollectors: Map<string, string[]>
+  // Agencies that work each portfolio: its owner and those it's actively placed with
+  portfolioAgencies: Map<string, string[]>
+  // Open accounts each collector carries, kept current as accounts are assigned
+  loads: Map<string, number>
+}
+
+export interface AssignmentLogEntry {
+  account_id: string
+  previous_collector_id: string | null
+  new_collector_id: string | null
+  rule_id?: string | null
+  source: AssignmentSource
+  reason?: string | null
+  changed_by?: string | null
+  import_job_id?: string | null
+}
+
+export interface AssignmentMeta {
+  source: AssignmentSource
+  changedBy?: string | null
+  importJobId?: string | null
+}
+
+export interface BulkAssignmentSummary {
+  assigned: number
+  unassigned: number
+  failed: number
+}
+
+function toNumberOrNull(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const number = Number(value)
+  return isNaN(number) ? NaN : number
+}
+
+function normalizeLanguage(value: any): string | null {
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  return text || null
+}
+
+function isEnglish(language: string | null): boolean {
+  return !language || language === 'en' || language === 'english'
+}
+
+// Profiles are kept per agency: a collector can work for several
+function profileKey(agencyId: string, collectorId: string): string {
+  return `${agencyId}:${collectorId}`
+}
+
+function toList(value: any): any[] {
+  if (Array.isArray(value)) return value
+  if (typeof value === 'string') return value.split(',').map(item => item.trim()).filter(Boolean)
+  return []
+}
+
+// Restrict a debt_accounts query to accounts still being worked. NULL statuses count as open.
+export function openAccountsOnly(query: any) {
+  return query
+    .or(`collection_status.is.null,collection_status.not.in.(${CLOSED_COLLECTION_STATUSES.join(',')})`)
+    .or(`account_status.is.null,account_status.not.in.(${CLOSED_ACCOUNT_STATUSES.join(',')})`)
+}
+
+export function pickAssignmentRuleFields(body: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {}
+  for (const field of ASSIGNMENT_RULE_FIELDS) {
+    if (!(field in body)) continue
+    const value = body[field]
+    if (field === 'states') {
+      const states = toList(value).map(state => normalizeStateCode(state) || String(state))
+      fields.states = states.length > 0 ? states : null
+    } else if (field === 'collector_ids') {
+      fields.collector_ids = toList(value)
+    } else if (field === 'language') {
+      fields.language = normalizeLanguage(value)
+    } else if (field === 'min_balance' || field === 'max_balance' || field === 'priority') {
+      fields[field] = toNumberOrNull(value)
+    } else {
+      fields[field] = value === '' ? null : value
+    }
+  }
+  // priority has a column default; leaving it out keeps it
+  if (fields.priority === null) delete fields.priority
+  return fields
+}
+
+export function validateAssignmentRule(rule: Record<string, any>): string[] {
+  const errors: string[] = []
+  if (!rule.agency_id) errors.push('agency_id is required')
+  if (!rule.name || !String(rule.name).trim()) errors.push('name is required')
+  if (rule.priority !== null && rule.priority !== undefined && !Number.isInteger(rule.priority)) {
+    errors.push('priority must be a whole number')
+  }
+  for (const field of ['min_balance', 'max_balance']) {
+    if (rule[field] !== null && rule[field] !== undefined && (isNaN(rule[field]) || rule[field] < 0)) {
+      errors.push(`${field} must be a non-negative number`)
+    }
+  }
+  if (rule.min_balance != null && rule.max_balance != null && rule.min_balance > rule.max_balance) {
+    errors.push('min_balance cannot be greater than max_balance')
+  }
+  const invalidStates = (rule.states || []).filter((state: string) => !/^[A-Z]{2}$/.test(state))
+  if (invalidStates.length > 0) errors.push(`Unknown states: ${invalidStates.join(', ')}`)
+  if (rule.strategy && !ASSIGNMENT_STRATEGIES.includes(rule.strategy)) {
+    errors.push(`strategy must be one of: ${ASSIGNMENT_STRATEGIES.join(', ')}`)
+  }
+  return errors
+}
+
+export function pickCollectorProfileFields(body: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {}
+  for (const field of COLLECTOR_PROFILE_FIELDS) {
+    if (!(field in body)) continue
+    const value = body[field]
+    if (field === 'licensed_states') {
+      // null or an empty value means licensed everywhere
+      const states = toList(value).map(state => normalizeStateCode(state) || String(state))
+      fields.licensed_states = states.length > 0 ? states : null
+    } else if (field === 'languages') {
+      fields.languages = toList(value).map(normalizeLanguage).filter(language => language && !isEnglish(language))
+    } else if (field === 'max_accounts') {
+      fields.max_accounts = toNumberOrNull(value)
+    } else {
+      fields[field] = value
+    }
+  }
+  return fields
+}
+
+export function validateCollectorProfile(profile: Record<string, any>): string[] {
+  const errors: string[] = []
+  const invalidStates = (profile.licensed_states || []).filter((state: string) => !/^[A-Z]{2}$/.test(state))
+  if (invalidStates.length > 0) errors.push(`Unknown states: ${invalidStates.join(', ')}`)
+  if (profile.max_accounts !== null && profile.max_accounts !== undefined &&
+      (!Number.isInteger(profile.max_accounts) || profile.max_accounts <= 0)) {
+    errors.push('max_accounts must be a positive whole number')
+  }
+  if ('is_accepting' in profile && typeof profile.is_accepting !== 'boolean') {
+    errors.push('is_accepting must be true or false')
+  }
+  return errors
+}
+
+// Open accounts each collector carries
+export async function getCollectorLoads(supabase: any, collectorIds: string[]): Promise<Map<string, number>> {
+  const loads = new Map<string, number>()
+  for (const collectorId of collectorIds) {
+    const { count, error } = await openAccountsOnly(
+      supabase
+        .from('debt_accounts')
+        .select('id', { count: 'exact', head: true })
+        .eq('assigned_collector_id', collectorId)
+    )
+
+    if (error) {
+      throw new Error(`Failed to count accounts for collector ${collectorId}: ${error.message}`)
+    }
+    loads.set(collectorId, count || 0)
+  }
+  return loads
+}
+
+/**
+ * Load the active rules, with the collectors, profiles, loads and agency portfolios they need.
+ * Pass agencyIds to load only those agencies' rules. Bulk runs and import chunks load this once
+ * and assign many accounts against it.
+ */
+export async function loadAssignmentState(supabase: any, agencyIds?: string[]): Promise<AssignmentState> {
+  let rulesQuery = supabase
+    .from('assignment_rules')
+    .select('*')
+    .eq('is_active', true)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true })
+  if (agencyIds) rulesQuery = rulesQuery.in('agency_id', agencyIds)
+
+  const { data: rules, error: rulesError } = await rulesQuery
+  if (rulesError) {
+    throw new Error(`Failed to load assignment rules: ${rulesError.message}`)
+  }
+
+  const ruleAgencyIds = Array.from(new Set<string>((rules || []).map((rule: AssignmentRule) => rule.agency_id)))
+  const agencyCollectors = new Map<string, string[]>()
+  const portfolioAgencies = new Map<string, string[]>()
+  for (const agencyId of ruleAgencyIds) {
+    const collectors = await listAgencyCollectors(supabase, agencyId)
+    agencyCollectors.set(agencyId, collectors.map(collector => collector.id))
+
+    for (const portfolioId of await listAgencyPortfolioIds(supabase, agencyId)) {
+      portfolioAgencies.set(portfolioId, [...(portfolioAgencies.get(portfolioId) || []), agencyId])
+    }
+  }
+
+  const collectorIds = Array.from(new Set(Array.from(agencyCollectors.values()).reduce((all, ids) => all.concat(ids), [] as string[])))
+  const profiles = new Map<string, CollectorProfile>()
+  if (collectorIds.length > 0) {
+    const { data: profileRows, error: profilesError } = await supabase
+      .from('collector_assignment_profiles')
+      .select('collector_id, agency_id, licensed_states, languages, max_accounts, is_accepting')
+      .in('collector_id', collectorIds)
+      .in('agency_id', ruleAgencyIds)
+
+    if (profilesError) {
+      throw new Error(`Failed to load collector profiles: ${profilesError.message}`)
+    }
+    for (const profile of profileRows || []) profiles.set(profileKey(profile.agency_id, profile.collector_id), profile)
+  }
+
+  return {
+    rules: rules || [],
+    profiles,
+    agencyCollectors,
+    portfolioAgencies,
+    loads: await getCollectorLoads(supabase, collectorIds)
+  }
+}
+
+function ruleMatches(state: AssignmentState, rule: AssignmentRule, account: AssignmentCandidate): boolean {
+  if (!account.portfolio_id || !(state.portfolioAgencies.get(account.portfolio_id) || []).includes(rule.agency_id)) return false
+  if (rule.portfolio_id && rule.portfolio_id !== account.portfolio_id) return false
+
+  const balance = Number(account.current_balance || 0)
+  if (rule.min_balance !== null && balance < Number(rule.min_balance)) return false
+  if (rule.max_balance !== null && balance > Number(rule.max_balance)) return false
+
+  if (rule.states?.length && (!account.sol_state || !rule.states.includes(account.sol_state))) return false
+  if (rule.language && normalizeLanguage(account.preferred_language) !== rule.language) return false
+  return true
+}
+
+function isEligibleCollector(state: AssignmentState, agencyId: string, collectorId: string, account: AssignmentCandidate): boolean {
+  const profile = state.profiles.get(profileKey(agencyId, collectorId))
+  if (!profile) return true
+  if (!profile.is_accepting) return false
+  if (profile.max_accounts !== null && (state.loads.get(collectorId) || 0) >= profile.max_accounts) return false
+  // A consumer whose state is unknown only goes to collectors licensed everywhere
+  if (profile.licensed_states && (!account.sol_state || !profile.licensed_states.includes(account.sol_state))) return false
+  return true
+}
+
+function pickFromPool(state: AssignmentState, rule: AssignmentRule, pool: string[]): string {
+  // Round-robin order is the pool sorted by id, starting after the last collector the rule assigned to
+  const ordered = pool.slice().sort()
+  const lastIndex = rule.last_assigned_collector_id ? ordered.indexOf(rule.last_assigned_collector_id) : -1
+  const rotated = lastIndex >= 0 ? ordered.slice(lastIndex + 1).concat(ordered.slice(0, lastIndex + 1)) : ordered
+
+  if (rule.strategy !== 'least_loaded') return rotated[0]
+  return rotated.reduce((best, collectorId) =>
+    (state.loads.get(collectorId) || 0) < (state.loads.get(best) || 0) ? collectorId : best
+  )
+}
+
+// The collector the rules assign an account to, or null when no rule has an eligible collector
+export function chooseCollector(
+  state: AssignmentState,
+  account: AssignmentCandidate,
+  options: { excludeCollectorIds?: string[] } = {}
+): AssignmentChoice | null {
+  const language = normalizeLanguage(account.preferred_language)
+
+  for (const rule of state.rules) {
+    if (!ruleMatches(state, rule, account)) continue
+
+    const agencyCollectors = state.agencyCollectors.get(rule.agency_id) || []
+    let pool = (rule.collector_ids?.length ? rule.collector_ids.filter(id => agencyCollectors.includes(id)) : agencyCollectors)
+      .filter(collectorId => !(options.excludeCollectorIds || []).includes(collectorId))
+      .filter(collectorId => isEligibleCollector(state, rule.agency_id, collectorId, account))
+    if (pool.length === 0) continue
+
+    if (!isEnglish(language)) {
+      const speakers = pool.filter(collectorId => (state.profiles.get(profileKey(rule.agency_id, collectorId))?.languages || []).includes(language as string))
+      if (speakers.length > 0) pool = speakers
+    }
+
+    return {
+      collectorId: pickFromPool(state, rule, pool),
+      ruleId: rule.id,
+      reason: `Rule "${rule.name}" (${rule.strategy.replace('_', ' ')})`
+    }
+  }
+  return null
+}
+
+export function toAssignmentCandidate(account: any): AssignmentCandidate {
+  return {
+    portfolio_id: account.portfolio_id,
+    current_balance: account.current_balance,
+    sol_state: account.sol_state,
+    preferred_language: account.preferred_language ?? account.persons?.preferred_language ?? null
+  }
+}
+
+/**
+ * Count an assignment against the in-memory state and move the rule's round-robin position.
+ * Call after the account has been written.
+ */
+async function noteAssignment(supabase: any, state: AssignmentState, previousCollectorId: string | null, choice: AssignmentChoice | null) {
+  if (previousCollectorId) {
+    state.loads.set(previousCollectorId, Math.max(0, (state.loads.get(previousCollectorId) || 0) - 1))
+  }
+  if (!choice) return
+
+  state.loads.set(choice.collectorId, (state.loads.get(choice.collectorId) || 0) + 1)
+  const rule = choice.ruleId ? state.rules.find(candidate => candidate.id === choice.ruleId) : null
+  if (rule) {
+    rule.last_assigned_collector_id = choice.collectorId
+    await supabase
+      .from('assignment_rules')
+      .update({ last_assigned_collector_id: choice.collectorId })
+      .eq('id', rule.id)
+  }
+}
+
+export async function logAssignmentChanges(supabase: any, entries: AssignmentLogEntry[]) {
+  if (entries.length === 0) return
+
+  const { error } = await supabase
+    .from('account_assignment_log')
+    .insert(entries)
+
+  // The assignment itself has already been made; a logging failure shouldn't undo it
+  if (error) {
+    console.error('❌ [ASSIGNMENT] Failed to log assignment changes:', error)
+  }
+}
+
+/**
+ * Pick the collector for an account being created by an import: the collector the file names by
+ * email when they're an active collector of the job's agency, otherwise the rules. The returned
+ * choice is written with the account; pass it to recordNewAccountAssignment once the account exists.
+ */
+export async function chooseImportCollector(
+  supabase: any,
+  state: AssignmentState,
+  agencyId: string | null,
+  mappedData: Record<string, any>,
+  account: AssignmentCandidate
+): Promise<AssignmentChoice | null> {
+  const email = typeof mappedData.assigned_collector_email === 'string' ? mappedData.assigned_collector_email.trim().toLowerCase() : ''
+  if (email && agencyId) {
+    const collectors = await listAgencyCollectors(supabase, agencyId)
+    const collector = collectors.find(candidate => candidate.email?.trim().toLowerCase() === email)
+    if (collector) {
+      return { collectorId: collector.id, ruleId: null, reason: 'Collector named in import file' }
+    }
+  }
+  return chooseCollector(state, account)
+}
+
+export async function recordNewAccountAssignment(
+  supabase: any,
+  state: AssignmentState,
+  accountId: string,
+  choice: AssignmentChoice,
+  meta: AssignmentMeta
+) {
+  await noteAssignment(supabase, state, null, choice)
+  await logAssignmentChanges(supabase, [{
+    account_id: accountId,
+    previous_collector_id: null,
+    new_collector_id: choice.collectorId,
+    rule_id: choice.ruleId,
+    source: meta.source,
+    reason: choice.reason,
+    changed_by: meta.changedBy || null,
+    import_job_id: meta.importJobId || null
+  }])
+}
+
+/**
+ * Change an existing account's collector (null unassigns it) and log the change. Pass the import
+ * change context when called from an import so a rollback restores the previous collector.
+ */
+export async function setAccountCollector(
+  supabase: any,
+  state: AssignmentState | null,
+  account: { id: string; assigned_collector_id: string | null },
+  choice: AssignmentChoice | null,
+  meta: AssignmentMeta & { reason?: string | null },
+  context?: ImportChangeContext
+) {
+  const newCollectorId = choice?.collectorId || null
+  if ((account.assigned_collector_id || null) === newCollectorId) return
+
+  await updateTracked(supabase, 'debt_accounts', account.id, {
+    assigned_collector_id: newCollectorId,
+    assigned_date: newCollectorId ? new Date().toISOString() : null,
+    updated_at: new Date().toISOString()
+  }, context)
+
+  if (state) await noteAssignment(supabase, state, account.assigned_collector_id, choice)
+  await logAssignmentChanges(supabase, [{
+    account_id: account.id,
+    previous_collector_id: account.assigned_collector_id || null,
+    new_collector_id: newCollectorId,
+    rule_id: choice?.ruleId || null,
+    source: meta.source,
+    reason: meta.reason || choice?.reason || null,
+    changed_by: meta.changedBy || null,
+    import_job_id: meta.importJobId || context?.jobId || null
+  }])
+}
+
+async function fetchAccounts(supabase: any, buildQuery: () => any): Promise<any[]> {
+  const accounts: any[] = []
+  for (let from = 0; ; from += ACCOUNT_PAGE_SIZE) {
+    const { data, error } = await buildQuery().order('id').range(from, from + ACCOUNT_PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(`Failed to fetch accounts: ${error.message}`)
+    }
+    accounts.push(...(data || []))
+    if (!data || data.length < ACCOUNT_PAGE_SIZE) return accounts
+  }
+}
+
+// Portfolios an agency works: those it owns and those actively placed with it
+export async function listAgencyPortfolioIds(supabase: any, agencyId: string): Promise<string[]> {
+  const { data: owned, error: ownedError } = await supabase
+    .from('master_portfolios')
+    .select('id')
+    .eq('agency_id', agencyId)
+
+  if (ownedError) {
+    throw new Error(`Failed to load agency portfolios: ${ownedError.message}`)
+  }
+
+  const { data: placements, error: placementsError } = await supabase
+    .from('master_portfolio_placements')
+    .select('portfolio_id')
+    .eq('agency_id', agencyId)
+    .eq('status', 'active')
+
+  if (placementsError) {
+    throw new Error(`Failed to load portfolio placements: ${placementsError.message}`)
+  }
+
+  return Array.from(new Set<string>([
+    ...(owned || []).map((portfolio: any) => portfolio.id),
+    ...(placements || []).map((placement: any) => placement.portfolio_id)
+  ]))
+}
+
+/**
+ * Move every open account off a collector within one agency's portfolios, e.g. when they leave.
+ * With toCollectorId all of them go to that collector; otherwise each is re-run through the
+ * agency's rules without the departing collector, and accounts no rule can place are left
+ * unassigned for a supervisor. Accounts the collector holds for other agencies are not touched.
+ */
+export async function reassignCollectorAccounts(
+  supabase: any,
+  options: { agencyId: string; fromCollectorId: string; toCollectorId?: string | null; changedBy: string; reason?: string | null }
+): Promise<BulkAssignmentSummary> {
+  const summary: BulkAssignmentSummary = { assigned: 0, unassigned: 0, failed: 0 }
+  const portfolioIds = await listAgencyPortfolioIds(supabase, options.agencyId)
+  if (portfolioIds.length === 0) return summary
+
+  const accounts = await fetchAccounts(supabase, () => openAccountsOnly(
+    supabase
+      .from('debt_accounts')
+      .select(ASSIGNMENT_ACCOUNT_SELECT)
+      .eq('assigned_collector_id', options.fromCollectorId)
+      .in('portfolio_id', portfolioIds)
+  ))
+  const state = options.toCollectorId ? null : await loadAssignmentState(supabase, [options.agencyId])
+
+  for (const account of accounts) {
+    try {
+      const choice: AssignmentChoice | null = options.toCollectorId
+        ? { collectorId: options.toCollectorId, ruleId: null, reason: 'Bulk reassignment' }
+        : chooseCollector(state as AssignmentState, toAssignmentCandidate(account), { excludeCollectorIds: [options.fromCollectorId] })
+
+      await setAccountCollector(supabase, state, account, choice, {
+        source: 'bulk_reassignment',
+        changedBy: options.changedBy,
+        reason: options.reason ? `${options.reason}${choice ? ` - ${choice.reason}` : ''}` : null
+      })
+      if (choice) summary.assigned++
+      else summary.unassigned++
+    } catch (error) {
+      console.error(`❌ [ASSIGNMENT] Failed to reassign account ${account.id}:`, error)
+      summary.failed++
+    }
+  }
+
+  console.log(`🔀 [ASSIGNMENT] Reassigned collector ${options.fromCollectorId}: ${summary.assigned} moved, ${summary.unassigned} unassigned, ${summary.failed} failed`)
+  return summary
+}
+
+/**
+ * Rebalance an agency: assign a batch of its unassigned open accounts through the rules, then move
+ * accounts off collectors carrying more than their capacity - those never contacted first, most
+ * recently assigned first - to collectors with room.
+ */
+export async function rebalanceAgency(supabase: any, agencyId: string, changedBy: string | null): Promise<BulkAssignmentSummary & { moved: number }> {
+  const state = await loadAssignmentState(supabase, [agencyId])
+  const summary = { assigned: 0, unassigned: 0, failed: 0, moved: 0 }
+  const portfolioIds = Array.from(state.portfolioAgencies.keys())
+  if (state.rules.length === 0 || portfolioIds.length === 0) return summary
+
+  const { data: unassigned, error } = await openAccountsOnly(
+    supabase
+      .from('debt_accounts')
+      .select(ASSIGNMENT_ACCOUNT_SELECT)
+      .is('assigned_collector_id', null)
+      .in('portfolio_id', portfolioIds)
+  ).order('created_at', { ascending: true }).limit(REBALANCE_BATCH_SIZE)
+
+  if (error) {
+    throw new Error(`Failed to fetch unassigned accounts: ${error.message}`)
+  }
+
+  for (const account of unassigned || []) {
+    const choice = chooseCollector(state, toAssignmentCandidate(account))
+    if (!choice) {
+      summary.unassigned++
+      continue
+    }
+    try {
+      await setAccountCollector(supabase, state, account, choice, { source: 'rebalance', changedBy })
+      summary.assigned++
+    } catch (assignError) {
+      console.error(`❌ [ASSIGNMENT] Failed to assign account ${account.id}:`, assignError)
+      summary.failed++
+    }
+  }
+
+  for (const collectorId of state.agencyCollectors.get(agencyId) || []) {
+    const capacity = state.profiles.get(profileKey(agencyId, collectorId))?.max_accounts
+    const excess = capacity ? (state.loads.get(collectorId) || 0) - capacity : 0
+    if (excess <= 0) continue
+
+    const { data: overflow, error: overflowError } = await openAccountsOnly(
+      supabase
+        .from('debt_accounts')
+        .select(ASSIGNMENT_ACCOUNT_SELECT)
+        .eq('assigned_collector_id', collectorId)
+        .in('portfolio_id', portfolioIds)
+    )
+      .order('last_contact_date', { ascending: true, nullsFirst: true })
+      .order('assigned_date', { ascending: false, nullsFirst: false })
+      .limit(excess)
+
+    if (overflowError) {
+      throw new Error(`Failed to fetch accounts over capacity: ${overflowError.message}`)
+    }
+
+    for (const account of overflow || []) {
+      // Only accounts never contacted are moved, so consumers keep the collector they've spoken to
+      if (account.last_contact_date) break
+      const choice = chooseCollector(state, toAssignmentCandidate(account), { excludeCollectorIds: [collectorId] })
+      if (!choice) break
+      try {
+        await setAccountCollector(supabase, state, account, choice, {
+          source: 'rebalance',
+          changedBy,
+          reason: `Collector over capacity (${capacity}) - ${choice.reason}`
+        })
+        summary.moved++
+      } catch (moveError) {
+        console.error(`❌ [ASSIGNMENT] Failed to move account ${account.id}:`, moveError)
+        summary.failed++
+      }
+    }
+  }
+
+  console.log(`⚖️ [ASSIGNMENT] Rebalanced agency ${agencyId}: ${summary.assigned} assigned, ${summary.moved} moved, ${summary.unassigned} without a rule`)
+  return summary
+}
+
+// The agency an assignment request manages: an agency admin's own, or the one a platform admin names
+export function resolveAssignmentAgency(
+  user: AuthenticatedUser,
+  requestedAgencyId: string | null
+): { agencyId: string | null; error: string | null; status: number } {
+  if (user.activeRole.roleType === 'platform_admin') {
+    return requestedAgencyId
+      ? { agencyId: requestedAgencyId, error: null, status: 200 }
+      : { agencyId: null, error: 'agencyId is required', status: 400 }
+  }
+  if (user.activeRole.roleType === 'agency_admin' && user.activeRole.organizationId) {
+    if (requestedAgencyId && requestedAgencyId !== user.activeRole.organizationId) {
+      return { agencyId: null, error: 'Agency admins can only manage their own agency', status: 403 }
+    }
+    return { agencyId: user.activeRole.organizationId, error: null, status: 200 }
+  }
+  return { agencyId: null, error: 'Only agency and platform admins can manage account assignment', status: 403 }
+}
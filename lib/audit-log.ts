@@ -55,6 +55,9 @@ export const AUDIT_ACTIONS = {
   IMPORT_START: 'import_start',
   IMPORT_COMPLETE: 'import_complete',
   IMPORT_FAILED: 'import_failed',
+  IMPORT_APPROVED: 'import_approved',
+  IMPORT_ROLLBACK: 'import_rollback',
+  IDENTITY_REVIEW_RESOLVED: 'identity_review_resolved',
   EXPORT_START: 'export_start',
   EXPORT_COMPLETE: 'export_complete',
   EXPORT_FAILED: 'export_failed'
@@ -0,0 +1,342 @@
+// Call logging and disposition codes
+// A collector wraps up each call with a disposition code. The code sets the call's result and can
+// trigger follow-up actions on the account: record a promise to pay, schedule a callback, mark the
+// number dialled as wrong on the consumer's phone record, or flag the account do-not-call.
+// Platform default codes apply to every agency; an agency's own code replaces the default with
+// the same code, and an inactive override hides the default.
+
+import { AuthenticatedUser } from '@/lib/auth-utils'
+import { CALL_RESULTS } from '@/lib/import/history-processor'
+
+export const DISPOSITION_ACTIONS: Record<string, string> = {
+  set_promise: 'Record a promise to pay',
+  schedule_callback: 'Schedule a callback',
+  mark_wrong_number: 'Mark the number wrong',
+  flag_do_not_call: 'Flag the account do-not-call'
+}
+
+// Longest call that can be logged, in seconds
+const MAX_CALL_DURATION = 4 * 60 * 60
+// Callbacks and promises further out than this are rejected
+const MAX_FOLLOW_UP_DAYS = 180
+
+const DISPOSITION_CODE_FIELDS = ['code', 'label', 'call_result', 'actions', 'is_right_party_contact', 'sort_order', 'is_active']
+
+// Collection statuses a right-party contact moves to contacted
+const UNWORKED_COLLECTION_STATUSES = [null, 'new']
+
+export const CALL_ACCOUNT_SELECT = 'id, person_id, current_balance, collection_status, do_not_call, master_portfolios!debt_accounts_portfolio_id_fkey(agency_id)'
+
+export interface DispositionCode {
+  id: string
+  agency_id: string | null
+  code: string
+  label: string
+  call_result: string
+  actions: string[]
+  is_right_party_contact: boolean
+  sort_order: number
+  is_active: boolean
+}
+
+export interface CallInput {
+  dispositionCode: string
+  callDate?: string | null
+  // Seconds
+  duration?: number | null
+  notes?: string | null
+  phoneId?: string | null
+  phoneNumber?: string | null
+  promiseAmount?: number | null
+  promiseDate?: string | null
+  callbackAt?: string | null
+  qualityScore?: number | null
+}
+
+export interface LoggedCall {
+  call: any
+  // Follow-up actions the disposition applied
+  actionsApplied: string[]
+}
+
+function toDateOnly(value: any): string | null {
+  if (!value) return null
+  const text = String(value).slice(0, 10)
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null
+}
+
+function toNumberOrNull(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const number = Number(value)
+  return isNaN(number) ? NaN : number
+}
+
+// The agency the account belongs to, through its portfolio
+export function getCallAccountAgencyId(account: any): string | null {
+  return account?.master_portfolios?.agency_id || null
+}
+
+/**
+ * Disposition codes an agency's collectors can use, in display order: the platform defaults with
+ * the agency's own codes layered over them. Inactive codes are left out unless asked for.
+ */
+export async function loadDispositionCodes(
+  supabase: any,
+  agencyId: string | null,
+  options: { includeInactive?: boolean } = {}
+): Promise<DispositionCode[]> {
+  let query = supabase.from('call_disposition_codes').select('*')
+  query = agencyId ? query.or(`agency_id.is.null,agency_id.eq.${agencyId}`) : query.is('agency_id', null)
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load disposition codes: ${error.message}`)
+  }
+
+  const byCode = new Map<string, DispositionCode>()
+  for (const code of (data || []) as DispositionCode[]) {
+    const existing = byCode.get(code.code)
+    if (!existing || (code.agency_id && !existing.agency_id)) {
+      byCode.set(code.code, { ...code, actions: code.actions || [] })
+    }
+  }
+
+  const codes: DispositionCode[] = []
+  byCode.forEach(code => {
+    if (code.is_active || options.includeInactive) codes.push(code)
+  })
+  return codes.sort((a, b) => a.sort_order - b.sort_order || a.label.localeCompare(b.label))
+}
+
+export function pickDispositionCodeFields(body: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {}
+  for (const field of DISPOSITION_CODE_FIELDS) {
+    if (!(field in body)) continue
+    const value = body[field]
+    if (field === 'code') {
+      fields.code = String(value || '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+    } else if (field === 'label') {
+      fields.label = String(value || '').trim()
+    } else if (field === 'actions') {
+      fields.actions = Array.isArray(value) ? value : String(value || '').split(',').map(action => action.trim()).filter(Boolean)
+    } else if (field === 'sort_order') {
+      const sortOrder = toNumberOrNull(value)
+      if (sortOrder !== null) fields.sort_order = sortOrder
+    } else {
+      fields[field] = value
+    }
+  }
+  return fields
+}
+
+export function validateDispositionCode(code: Record<string, any>): string[] {
+  const errors: string[] = []
+  if (!code.code) errors.push('code is required')
+  if (!code.label) errors.push('label is required')
+  if (!code.call_result || !CALL_RESULTS.includes(code.call_result)) {
+    errors.push(`call_result must be one of: ${CALL_RESULTS.join(', ')}`)
+  }
+  const unknownActions = (code.actions || []).filter((action: string) => !DISPOSITION_ACTIONS[action])
+  if (unknownActions.length > 0) {
+    errors.push(`Unknown actions: ${unknownActions.join(', ')}`)
+  }
+  if (code.sort_order !== undefined && !Number.isInteger(code.sort_order)) {
+    errors.push('sort_order must be a whole number')
+  }
+  for (const field of ['is_right_party_contact', 'is_active']) {
+    if (field in code && typeof code[field] !== 'boolean') errors.push(`${field} must be true or false`)
+  }
+  return errors
+}
+
+// Returns the validation errors for a call wrapped up with the given disposition
+export function validateCallInput(input: CallInput, disposition: DispositionCode, account: any, now: Date = new Date()): string[] {
+  const errors: string[] = []
+  const actions = disposition.actions || []
+  const latest = now.getTime() + MAX_FOLLOW_UP_DAYS * 24 * 60 * 60 * 1000
+
+  if (input.callDate) {
+    const callDate = new Date(input.callDate)
+    if (isNaN(callDate.getTime())) {
+      errors.push('callDate must be a valid date and time')
+    } else if (callDate.getTime() > now.getTime() + 5 * 60 * 1000) {
+      errors.push('callDate cannot be in the future')
+    }
+  }
+
+  if (input.duration !== null && input.duration !== undefined &&
+      (!Number.isInteger(input.duration) || input.duration < 0 || input.duration > MAX_CALL_DURATION)) {
+    errors.push(`duration must be a whole number of seconds up to ${MAX_CALL_DURATION}`)
+  }
+
+  if (input.qualityScore !== null && input.qualityScore !== undefined &&
+      (!Number.isInteger(input.qualityScore) || input.qualityScore < 1 || input.qualityScore > 10)) {
+    errors.push('qualityScore must be a whole number from 1 to 10')
+  }
+
+  if (actions.includes('set_promise')) {
+    const amount = input.promiseAmount
+    if (amount === null || amount === undefined || isNaN(amount) || amount <= 0) {
+      errors.push('promiseAmount must be a positive amount')
+    } else if (account.current_balance !== null && amount > Number(account.current_balance)) {
+      errors.push('promiseAmount cannot be more than the current balance')
+    }
+    const promiseDate = toDateOnly(input.promiseDate)
+    if (!promiseDate) {
+      errors.push('promiseDate is required')
+    } else if (promiseDate < now.toISOString().slice(0, 10) || new Date(promiseDate).getTime() > latest) {
+      errors.push(`promiseDate must be between today and ${MAX_FOLLOW_UP_DAYS} days out`)
+    }
+  }
+
+  if (actions.includes('schedule_callback')) {
+    const callbackAt = input.callbackAt ? new Date(input.callbackAt) : null
+    if (!callbackAt || isNaN(callbackAt.getTime())) {
+      errors.push('callbackAt must be a valid date and time')
+    } else if (callbackAt.getTime() <= now.getTime() || callbackAt.getTime() > latest) {
+      errors.push(`callbackAt must be in the future and within ${MAX_FOLLOW_UP_DAYS} days`)
+    }
+  }
+
+  if (actions.includes('mark_wrong_number') && !input.phoneId) {
+    errors.push('phoneId is required to mark the number wrong')
+  }
+
+  return errors
+}
+
+// One of the consumer's phone records, or null when it isn't theirs
+export async function findAccountPhone(supabase: any, account: any, phoneId: string): Promise<{ id: string; number: string } | null> {
+  const { data, error } = await supabase
+    .from('person_phones')
+    .select('id, person_id, number')
+    .eq('id', phoneId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up phone: ${error.message}`)
+  }
+  return data && data.person_id === account.person_id ? { id: data.id, number: data.number } : null
+}
+
+/**
+ * Record a call on an account and apply its disposition's follow-up actions. The account's last
+ * contact is updated on every call; its next contact date is set by a callback and cleared
+ * otherwise, so the account comes back into the collector's work queue.
+ */
+export async function logCall(
+  supabase: any,
+  account: any,
+  disposition: DispositionCode,
+  input: CallInput,
+  phone: { id: string; number: string } | null,
+  collectorId: string,
+  now: Date = new Date()
+): Promise<LoggedCall> {
+  const actions = disposition.actions || []
+  const callDate = input.callDate ? new Date(input.callDate).toISOString() : now.toISOString()
+
+  const callbackAt = actions.includes('schedule_callback') && input.callbackAt ? new Date(input.callbackAt).toISOString() : null
+  const promise = actions.includes('set_promise')
+    ? { amount: Number(input.promiseAmount), date: toDateOnly(input.promiseDate) }
+    : null
+
+  const { data: call, error: callError } = await supabase
+    .from('calls')
+    .insert({
+      debtor_id: account.id,
+      collector_id: collectorId,
+      call_date: callDate,
+      call_duration: input.duration ?? null,
+      call_result: disposition.call_result,
+      disposition_code: disposition.code,
+      call_notes: input.notes?.trim() || null,
+      phone_id: phone?.id || null,
+      phone_number: phone?.number || input.phoneNumber?.trim() || null,
+      promise_amount: promise?.amount ?? null,
+      promise_date: promise?.date ?? null,
+      callback_at: callbackAt,
+      next_call_date: toDateOnly(callbackAt),
+      call_quality_score: input.qualityScore ?? null,
+      source: 'manual'
+    })
+    .select()
+    .single()
+
+  if (callError) {
+    throw new Error(`Failed to record call: ${callError.message}`)
+  }
+
+  const accountUpdates: Record<string, any> = {
+    last_contact_date: callDate,
+    contact_method: 'phone',
+    contact_result: disposition.label,
+    next_contact_date: callbackAt,
+    updated_at: now.toISOString()
+  }
+  if (disposition.is_right_party_contact && UNWORKED_COLLECTION_STATUSES.includes(account.collection_status)) {
+    accountUpdates.collection_status = 'contacted'
+  }
+
+  const actionsApplied: string[] = []
+  if (callbackAt) actionsApplied.push('schedule_callback')
+  if (promise) {
+    accountUpdates.promise_to_pay_amount = promise.amount
+    accountUpdates.promise_to_pay_date = promise.date
+    accountUpdates.collection_status = 'promise_to_pay'
+    actionsApplied.push('set_promise')
+  }
+  if (actions.includes('flag_do_not_call')) {
+    accountUpdates.do_not_call = true
+    actionsApplied.push('flag_do_not_call')
+  }
+
+  const { error: accountError } = await supabase
+    .from('debt_accounts')
+    .update(accountUpdates)
+    .eq('id', account.id)
+
+  if (accountError) {
+    throw new Error(`Failed to update account after call: ${accountError.message}`)
+  }
+
+  if (phone && actions.includes('mark_wrong_number')) {
+    const { error: phoneError } = await supabase
+      .from('person_phones')
+      .update({
+        is_wrong_number: true,
+        is_current: false,
+        wrong_number_reported_at: now.toISOString(),
+        wrong_number_reported_by: collectorId
+      })
+      .eq('id', phone.id)
+
+    if (phoneError) {
+      throw new Error(`Failed to mark phone as a wrong number: ${phoneError.message}`)
+    }
+    actionsApplied.push('mark_wrong_number')
+  }
+
+  console.log(`📞 [CALLS] Logged ${disposition.code} call on account ${account.id} by ${collectorId}${actionsApplied.length ? ` (${actionsApplied.join(', ')})` : ''}`)
+  return { call, actionsApplied }
+}
+
+/**
+ * The agency whose disposition codes a request manages: an agency admin's own, or the one a
+ * platform admin names. Platform admins manage the defaults when they don't name one.
+ */
+export function resolveDispositionAgency(
+  user: AuthenticatedUser,
+  requestedAgencyId: string | null
+): { agencyId: string | null; error: string | null; status: number } {
+  if (user.activeRole.roleType === 'platform_admin') {
+    return { agencyId: requestedAgencyId, error: null, status: 200 }
+  }
+  if (user.activeRole.roleType === 'agency_admin' && user.activeRole.organizationId) {
+    if (requestedAgencyId && requestedAgencyId !== user.activeRole.organizationId) {
+      return { agencyId: null, error: 'Agency admins can only manage their own agency', status: 403 }
+    }
+    return { agencyId: user.activeRole.organizationId, error: null, status: 200 }
+  }
+  return { agencyId: null, error: 'Only agency and platform admins can manage disposition codes', status: 403 }
+}
@@ -411,4 +411,52 @@ export const sendImportJobCompletedEmail = async (email: string, fullName: strin
   `
   
   return sendEmail({ to: email, subject, html })
-} 
\ No newline at end of file
+} 
+export const sendImportDropReviewEmail = async (email: string, locationName: string, fileName: string, reason: string, details: string) => {
+  const subject = `Import Needs Review - ${fileName}`
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Import Needs Review</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #d97706; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .button { display: inline-block; background: #d97706; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+        .status-box { background: #fffbeb; border: 1px solid #fde68a; padding: 15px; border-radius: 6px; margin: 20px 0; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Import Needs Review</h1>
+        </div>
+        <div class="content">
+          <p>The file <strong>${fileName}</strong> arrived in the drop location <strong>${locationName}</strong> and needs someone to look at it before it can be imported.</p>
+          
+          <div class="status-box">
+            <p><strong>Reason:</strong> ${reason}</p>
+            <p><strong>Details:</strong></p>
+            <p>${details}</p>
+          </div>
+          
+          <a href="${process.env.NEXT_PUBLIC_APP_URL}/import" class="button">Open Imports</a>
+          
+          <p>Best regards,<br>The Collection Portal Team</p>
+        </div>
+        <div class="footer">
+          <p>This email was sent to ${email} because you are a notification contact for this drop location.</p>
+          <p>© 2024 Collection Portal. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+  
+  return sendEmail({ to: email, subject, html })
+}
@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from 'react'
+import { authenticatedFetch } from '@/lib/supabase'
+import type { ImportErrorsEvent, ImportProgressEvent, ImportStatusEvent } from '@/lib/import/progress-stream'
+
+export interface ImportJobLiveState {
+  status: string | null
+  errorMessage: string | null
+  progress: ImportProgressEvent | null
+  // Row-level processing errors received so far, oldest first
+  errors: string[]
+  done: boolean
+}
+
+const RECONNECT_DELAY_MS = 2000
+const MAX_FAILED_CONNECTS = 5
+
+const emptyState = (): ImportJobLiveState => ({ status: null, errorMessage: null, progress: null, errors: [], done: false })
+
+// Parse "event:" / "data:" blocks out of the buffered text; returns the unparsed remainder
+function parseEvents(buffer: string, onEvent: (event: string, data: any) => void): string {
+  const blocks = buffer.split('\n\n')
+  const remainder = blocks.pop() || ''
+
+  for (const block of blocks) {
+    let event = 'message'
+    let data = ''
+    for (const line of block.split('\n')) {
+      if (line.startsWith(':')) continue
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data += line.slice(5).trim()
+    }
+    if (data) {
+      try {
+        onEvent(event, JSON.parse(data))
+      } catch {
+        console.warn('Ignoring malformed import progress event:', block)
+      }
+    }
+  }
+
+  return remainder
+}
+
+/**
+ * Live status, progress and row errors for a set of import jobs, streamed from
+ * /api/import/progress over one connection. The connection is reopened for the jobs still
+ * running when the server ends a stream early, and closes once every job finishes.
+ * onStatusChange fires on every transition after the first, so callers can refresh anything
+ * the stream doesn't carry.
+ */
+export function useImportJobsProgress(
+  jobIds: string[],
+  onStatusChange?: (jobId: string, status: string, previousStatus: string | null) => void
+) {
+  const [states, setStates] = useState<Record<string, ImportJobLiveState>>({})
+  const onStatusChangeRef = useRef(onStatusChange)
+  onStatusChangeRef.current = onStatusChange
+
+  // Stable dependency so re-renders with the same jobs don't reopen the stream
+  const jobKey = Array.from(new Set(jobIds)).sort().join(',')
+
+  useEffect(() => {
+    if (!jobKey) return
+    const controller = new AbortController()
+
+    const update = (jobId: string, change: (state: ImportJobLiveState) => ImportJobLiveState) => {
+      setStates(previous => ({ ...previous, [jobId]: change(previous[jobId] || emptyState()) }))
+    }
+
+    const follow = async () => {
+      let pendingIds = jobKey.split(',')
+      const errorsFrom: Record<string, number> = {}
+      let failedConnects = 0
+
+      while (!controller.signal.aborted && pendingIds.length > 0 && failedConnects < MAX_FAILED_CONNECTS) {
+        try {
+          const errorsParam = pendingIds.map(jobId => `${jobId}:${errorsFrom[jobId] || 0}`).join(',')
+          const response = await authenticatedFetch(
+            `/api/import/progress?jobs=${pendingIds.join(',')}&errors_from=${errorsParam}`,
+            { signal: controller.signal }
+          )
+          if (!response.ok || !response.body) {
+            throw new Error(`HTTP ${response.status}`)
+          }
+          failedConnects = 0
+
+          const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+          let buffer = ''
+          while (true) {
+            const { value, done } = await reader.read()
+            if (done) break
+            buffer = parseEvents(buffer + value, (event, data) => {
+              if (event === 'status') {
+                const statusEvent = data as ImportStatusEvent
+                update(statusEvent.jobId, state => ({ ...state, status: statusEvent.status, errorMessage: statusEvent.errorMessage }))
+                if (statusEvent.previousStatus) {
+                  onStatusChangeRef.current?.(statusEvent.jobId, statusEvent.status, statusEvent.previousStatus)
+                }
+              } else if (event === 'progress') {
+                const progressEvent = data as ImportProgressEvent
+                update(progressEvent.jobId, state => ({ ...state, progress: progressEvent }))
+              } else if (event === 'errors') {
+                const errorsEvent = data as ImportErrorsEvent
+                update(errorsEvent.jobId, state => ({
+                  ...state,
+                  errors: [...state.errors.slice(0, errorsEvent.offset), ...errorsEvent.errors]
+                }))
+                errorsFrom[errorsEvent.jobId] = errorsEvent.offset + errorsEvent.errors.length
+              } else if (event === 'done') {
+                pendingIds = pendingIds.filter(jobId => jobId !== data.jobId)
+                update(data.jobId, state => ({ ...state, status: data.status, done: true }))
+              } else if (event === 'error') {
+                // A job that disappeared is dropped; anything else is retried on reconnect
+                if (data.jobId) pendingIds = pendingIds.filter(jobId => jobId !== data.jobId)
+                console.warn(`Import progress stream error${data.jobId ? ` for job ${data.jobId}` : ''}:`, data.message)
+              }
+            })
+          }
+        } catch (streamError) {
+          if (controller.signal.aborted) return
+          failedConnects++
+          console.warn('Import progress stream dropped:', streamError)
+        }
+
+        if (pendingIds.length === 0) return
+        await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS))
+      }
+    }
+
+    follow()
+
+    return () => {
+      controller.abort()
+    }
+  }, [jobKey])
+
+  return states
+}
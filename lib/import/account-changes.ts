@@ -0,0 +1,384 @@
+// Update/upsert support for account imports
+// Existing accounts are matched on client_id + original_account_number and updated in place;
+// every changed field is logged to import_job_changes with its before/after value
+
+import { AuthenticatedUser } from '@/lib/auth-utils'
+import { ImportChangeContext, diffFields, insertTracked, updateTracked } from '@/lib/import/change-log'
+import { refreshAccountSol } from '@/lib/sol'
+
+export type ImportMode = 'insert' | 'update' | 'upsert'
+
+export const IMPORT_MODES: ImportMode[] = ['insert', 'update', 'upsert']
+
+const ACCOUNT_TYPES = ['credit_card', 'medical', 'personal_loan', 'auto_loan', 'mortgage', 'utility', 'student_loan', 'business_loan', 'other']
+const ACCOUNT_STATUSES = ['active', 'inactive', 'resolved', 'returned', 'bankruptcy', 'deceased', 'settled', 'paid_in_full']
+const NUMERIC_ACCOUNT_FIELDS = ['current_balance', 'original_balance', 'last_payment_amount']
+
+export function normalizeImportMode(value: string | null | undefined): ImportMode {
+  return IMPORT_MODES.includes(value as ImportMode) ? value as ImportMode : 'insert'
+}
+
+/**
+ * Why an accounts job can't run in its mode, or null. Update and upsert match existing accounts
+ * within the portfolio's client; a job without a portfolio has no client to match in.
+ */
+export function getImportModeError(job: any): string | null {
+  if (job.import_type !== 'accounts' || job.portfolio_id) return null
+  if (normalizeImportMode(job.import_mode) === 'insert') return null
+  return 'Update and upsert imports need a portfolio to match existing accounts in'
+}
+
+function hasValue(value: any): boolean {
+  return value !== undefined && value !== null && String(value).trim() !== ''
+}
+
+function toNumber(value: any): number | null {
+  const parsed = parseFloat(String(value).replace(/[$,]/g, ''))
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Build a debt_accounts update from the mapped row. Only fields present in the file are included,
+ * so columns the client didn't send are left as they are.
+ */
+export function buildAccountUpdate(mappedData: Record<string, any>): Record<string, any> {
+  const update: Record<string, any> = {}
+
+  if (hasValue(mappedData.account_number)) update.account_number = String(mappedData.account_number).trim()
+  if (hasValue(mappedData.current_balance)) update.current_balance = toNumber(mappedData.current_balance)
+  if (hasValue(mappedData.original_balance)) update.original_balance = toNumber(mappedData.original_balance)
+  if (hasValue(mappedData.last_payment_amount)) update.last_payment_amount = toNumber(mappedData.last_payment_amount)
+  if (hasValue(mappedData.charge_off_date)) update.charge_off_date = String(mappedData.charge_off_date).trim()
+  if (hasValue(mappedData.date_opened)) update.date_opened = String(mappedData.date_opened).trim()
+  if (hasValue(mappedData.last_payment_date)) update.last_payment_date = String(mappedData.last_payment_date).trim()
+  if (hasValue(mappedData.creditor_name)) update.original_creditor = String(mappedData.creditor_name).trim()
+  if (ACCOUNT_TYPES.includes(mappedData.account_type)) update.account_type = mappedData.account_type
+  if (ACCOUNT_STATUSES.includes(mappedData.status)) update.account_status = mappedData.status
+
+  // Drop numeric fields that didn't parse rather than nulling the stored value
+  for (const field of NUMERIC_ACCOUNT_FIELDS) {
+    if (field in update && update[field] === null) delete update[field]
+  }
+
+  return update
+}
+
+export async function findExistingAccount(supabase: any, clientId: string, originalAccountNumber: string) {
+  const { data, error } = await supabase
+    .from('debt_accounts')
+    .select('*')
+    .eq('client_id', clientId)
+    .eq('original_account_number', originalAccountNumber.trim())
+    .order('created_at', { ascending: true })
+    .limit(1)
+
+  if (error) {
+    throw new Error(`Failed to look up existing account: ${error.message}`)
+  }
+
+  return data && data.length > 0 ? data[0] : null
+}
+
+// The accounts a payment, note or call import can reach
+export interface AccountMatchScope {
+  clientId: string | null
+  agencyId: string | null
+}
+
+// Jobs with a portfolio match within its client; the rest within the agency they were uploaded for
+export function getAccountMatchScope(job: any, clientId: string | null): AccountMatchScope {
+  return job.portfolio_id
+    ? { clientId, agencyId: null }
+    : { clientId: null, agencyId: job.agency_id || null }
+}
+
+// Import types that post to existing accounts matched by account number (skip-trace matches a
+// person through their accounts)
+export const ACCOUNT_MATCH_IMPORT_TYPES = ['payments', 'notes', 'calls', 'skip_trace']
+
+/**
+ * A debt_accounts query limited to the scope. Agency scopes join the portfolio to filter on,
+ * so their rows also carry a master_portfolios field.
+ */
+export function selectScopedAccounts(supabase: any, scope: AccountMatchScope, columns: string) {
+  if (scope.clientId) {
+    return supabase.from('debt_accounts').select(columns).eq('client_id', scope.clientId)
+  }
+  if (!scope.agencyId) {
+    throw new Error('Import has no portfolio or agency to match accounts in')
+  }
+  return supabase
+    .from('debt_accounts')
+    .select(`${columns}, master_portfolios!debt_accounts_portfolio_id_fkey!inner(agency_id)`)
+    .eq('master_portfolios.agency_id', scope.agencyId)
+}
+
+/**
+ * The agency an upload is scoped to. A named portfolio has to be the caller's - their agency's,
+ * or for client users their client's - and the job takes its agency; otherwise agency staff
+ * import within their own agency. Returns the error and status to respond with when the
+ * portfolio isn't the caller's, or when an account-matching import has nothing to match within.
+ */
+export async function resolveImportScope(
+  supabase: any,
+  user: AuthenticatedUser,
+  importType: string,
+  portfolioId: string | null
+): Promise<{ agencyId: string | null; error: string | null; status: number }> {
+  const { roleType, organizationId } = user.activeRole
+
+  if (portfolioId) {
+    const { data: portfolio, error } = await supabase
+      .from('master_portfolios')
+      .select('client_id, agency_id')
+      .eq('id', portfolioId)
+      .maybeSingle()
+
+    if (error || !portfolio) {
+      return { agencyId: null, error: 'Portfolio not found', status: 404 }
+    }
+
+    const ownsPortfolio = roleType === 'platform_admin'
+      || (['agency_admin', 'agency_user'].includes(roleType) && portfolio.agency_id === organizationId)
+      || (['client_admin', 'client_user'].includes(roleType) && portfolio.client_id === organizationId)
+    if (!ownsPortfolio) {
+      return { agencyId: null, error: 'Access denied to this portfolio', status: 403 }
+    }
+    return { agencyId: portfolio.agency_id || null, error: null, status: 200 }
+  }
+
+  const agencyId = ['agency_admin', 'agency_user'].includes(roleType) ? organizationId || null : null
+  if (ACCOUNT_MATCH_IMPORT_TYPES.includes(importType) && !agencyId) {
+    return { agencyId: null, error: `A portfolio is required for ${importType} imports`, status: 400 }
+  }
+  return { agencyId, error: null, status: 200 }
+}
+
+/**
+ * Whether the caller may act on an existing import job: platform admins on any, others on jobs
+ * against their own portfolio (see resolveImportScope) or, without one, their own agency's.
+ */
+export async function checkImportJobAccess(
+  supabase: any,
+  user: AuthenticatedUser,
+  job: { import_type: string; portfolio_id: string | null; agency_id: string | null }
+): Promise<{ error: string | null; status: number }> {
+  if (user.activeRole.roleType === 'platform_admin') return { error: null, status: 200 }
+
+  if (job.portfolio_id) {
+    const scope = await resolveImportScope(supabase, user, job.import_type, job.portfolio_id)
+    return scope.error ? { error: 'Access denied to this import job', status: 403 } : { error: null, status: 200 }
+  }
+
+  if (!job.agency_id || job.agency_id !== user.activeRole.organizationId) {
+    return { error: 'Access denied to this import job', status: 403 }
+  }
+  return { error: null, status: 200 }
+}
+
+/**
+ * Find the account a history row (payment, note, call) belongs to. Without a client the account
+ * number has to identify a single account among the agency's portfolios.
+ */
+export async function findAccountByNumber(supabase: any, scope: AccountMatchScope, accountNumber: string) {
+  if (scope.clientId) {
+    return findExistingAccount(supabase, scope.clientId, accountNumber)
+  }
+  if (!scope.agencyId) {
+    throw new Error('Import has no portfolio or agency to match accounts in')
+  }
+
+  const { data, error } = await supabase
+    .from('debt_accounts')
+    .select('*, master_portfolios!debt_accounts_portfolio_id_fkey!inner(agency_id)')
+    .eq('master_portfolios.agency_id', scope.agencyId)
+    .eq('original_account_number', accountNumber.trim())
+    .limit(2)
+
+  if (error) {
+    throw new Error(`Failed to look up account: ${error.message}`)
+  }
+
+  if (data && data.length > 1) {
+    throw new Error(`Account number ${accountNumber} matches more than one client - import against a portfolio`)
+  }
+
+  if (!data || data.length === 0) return null
+  const { master_portfolios: _portfolio, ...account } = data[0]
+  return account
+}
+
+/**
+ * findAccountByNumber for a page of rows in one query. Numbers that match nothing are left out;
+ * a number matching accounts under more than one client of the agency maps to the error
+ * findAccountByNumber would throw for it.
+ */
+export async function findAccountsByNumbers(
+  supabase: any,
+  scope: AccountMatchScope,
+  accountNumbers: string[]
+): Promise<Map<string, any | Error>> {
+  const numbers = Array.from(new Set(accountNumbers.map(number => number.trim()).filter(Boolean)))
+  const accounts = new Map<string, any | Error>()
+  if (numbers.length === 0) return accounts
+
+  const { data, error } = await selectScopedAccounts(supabase, scope, '*')
+    .in('original_account_number', numbers)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to look up accounts: ${error.message}`)
+  }
+
+  for (const row of data || []) {
+    const { master_portfolios: _portfolio, ...account } = row
+    const number = account.original_account_number
+    const earlier = accounts.get(number)
+    if (!earlier) {
+      accounts.set(number, account)
+    } else if (!scope.clientId && !(earlier instanceof Error)) {
+      accounts.set(number, new Error(`Account number ${number} matches more than one client - import against a portfolio`))
+    }
+  }
+
+  return accounts
+}
+
+/**
+ * Apply a row to an existing account: balances/status on debt_accounts, then contact data
+ * on the linked person. Changes are collected on the row's change context.
+ */
+export async function updateExistingAccount(
+  supabase: any,
+  row: any,
+  account: any,
+  context: ImportChangeContext
+) {
+  const mappedData = row.mapped_data || {}
+  const today = new Date().toISOString().split('T')[0]
+
+  const accountChanges = diffFields(account, buildAccountUpdate(mappedData))
+  const update: Record<string, any> = { updated_at: new Date().toISOString() }
+  for (const [field, change] of Object.entries(accountChanges)) {
+    update[field] = change.after
+  }
+  if (Object.keys(accountChanges).length > 0) {
+    await updateTracked(supabase, 'debt_accounts', account.id, update, context)
+  }
+
+  if (account.person_id) {
+    await updatePersonContactData(supabase, row, account.person_id, today, context)
+  }
+
+  // New dates or a new address state can move the limitations period
+  await refreshAccountSol(supabase, { ...account, ...update }, context)
+}
+
+// Bring a person's current address up to date and add any phone/email from the row they don't have yet
+export async function updatePersonContactData(
+  supabase: any,
+  row: any,
+  personId: string,
+  today: string,
+  context: ImportChangeContext
+) {
+  const mappedData = row.mapped_data || {}
+
+  // Current address is updated in place
+  if (hasValue(mappedData.address_line1) || hasValue(mappedData.city) || hasValue(mappedData.state)) {
+    const addressUpdate: Record<string, any> = {}
+    if (hasValue(mappedData.address_line1)) addressUpdate.address_line1 = String(mappedData.address_line1).trim()
+    if (hasValue(mappedData.address_line2)) addressUpdate.address_line2 = String(mappedData.address_line2).trim()
+    if (hasValue(mappedData.city)) addressUpdate.city = String(mappedData.city).trim()
+    if (hasValue(mappedData.state)) addressUpdate.state = String(mappedData.state).trim()
+    if (hasValue(mappedData.zip_code)) addressUpdate.zipcode = String(mappedData.zip_code).trim()
+
+    const { data: currentAddresses } = await supabase
+      .from('person_addresses')
+      .select('*')
+      .eq('person_id', personId)
+      .eq('is_current', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    const currentAddress = currentAddresses?.[0]
+
+    try {
+      if (currentAddress) {
+        if (Object.keys(diffFields(currentAddress, addressUpdate)).length > 0) {
+          const merged = { ...currentAddress, ...addressUpdate }
+          const fullAddress = [merged.address_line1, merged.address_line2, merged.city, merged.state, merged.zipcode]
+            .filter(Boolean).join(', ')
+
+          await updateTracked(supabase, 'person_addresses', currentAddress.id, {
+            ...addressUpdate,
+            full_address: fullAddress,
+            last_seen: today
+          }, context)
+        }
+      } else {
+        await insertTracked(supabase, 'person_addresses', {
+          person_id: personId,
+          ...addressUpdate,
+          full_address: [addressUpdate.address_line1, addressUpdate.address_line2, addressUpdate.city, addressUpdate.state, addressUpdate.zipcode]
+            .filter(Boolean).join(', '),
+          address_type: 'residential',
+          is_current: true,
+          first_seen: today,
+          last_seen: today,
+          source: 'import'
+        }, context)
+      }
+    } catch (addressError) {
+      // Don't fail the entire row for address errors, just log them
+      console.error(`[PROCESS] Address update error for row ${row.row_number}:`, addressError)
+    }
+  }
+
+  // Phones and emails are additive - a new value is added alongside the ones on file
+  if (hasValue(mappedData.phone_primary)) {
+    await addContactIfMissing(supabase, row, 'person_phones', 'number', String(mappedData.phone_primary).trim(), {
+      person_id: personId,
+      phone_type: 'mobile',
+      is_current: true,
+      first_seen: today,
+      last_seen: today,
+      source: 'import'
+    }, context)
+  }
+
+  if (hasValue(mappedData.email_primary)) {
+    await addContactIfMissing(supabase, row, 'person_emails', 'email', String(mappedData.email_primary).trim(), {
+      person_id: personId,
+      is_current: true,
+      first_seen: today,
+      last_seen: today,
+      source: 'import'
+    }, context)
+  }
+}
+
+export async function addContactIfMissing(
+  supabase: any,
+  row: any,
+  tableName: string,
+  valueField: string,
+  value: string,
+  insertData: Record<string, any>,
+  context: ImportChangeContext
+) {
+  const { data: existing } = await supabase
+    .from(tableName)
+    .select('id')
+    .eq('person_id', insertData.person_id)
+    .eq(valueField, value)
+    .limit(1)
+
+  if (existing && existing.length > 0) return
+
+  try {
+    await insertTracked(supabase, tableName, { ...insertData, [valueField]: value }, context)
+  } catch (insertError) {
+    console.error(`[PROCESS] ${tableName} insert error for row ${row.row_number}:`, insertError)
+  }
+}
@@ -0,0 +1,168 @@
+// Change log for import processing (see import_job_changes)
+// Every record an import inserts or updates is logged with its before/after values
+// so a single job can be reviewed or rolled back later
+
+export interface FieldChange {
+  before: any
+  after: any
+}
+
+export interface ImportChangeRecord {
+  job_id: string
+  row_number: number | null
+  table_name: string
+  record_id: string
+  action: 'insert' | 'update'
+  changes: Record<string, any>
+}
+
+// Collects the changes made while processing one staged row
+export interface ImportChangeContext {
+  jobId: string
+  rowNumber: number | null
+  changes: ImportChangeRecord[]
+}
+
+// Bookkeeping columns that change on every write and aren't worth reverting
+const UNTRACKED_FIELDS = ['updated_at', 'created_at']
+const NUMERIC_FIELDS = ['current_balance', 'original_balance', 'last_payment_amount']
+
+function hasValue(value: any): boolean {
+  return value !== undefined && value !== null && String(value).trim() !== ''
+}
+
+export function sameValue(field: string, before: any, after: any): boolean {
+  if (!hasValue(before) && !hasValue(after)) return true
+  if (!hasValue(before) || !hasValue(after)) return false
+  if (NUMERIC_FIELDS.includes(field)) return Number(before) === Number(after)
+  // Dates come back from Postgres as YYYY-MM-DD; compare on the date part
+  if (field.endsWith('_date') || field === 'date_opened') {
+    return String(before).slice(0, 10) === String(after).slice(0, 10)
+  }
+  return String(before).trim() === String(after).trim()
+}
+
+// Compare a proposed update against the stored record, keeping only fields that actually change
+export function diffFields(existing: Record<string, any>, update: Record<string, any>): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {}
+  for (const [field, after] of Object.entries(update)) {
+    if (UNTRACKED_FIELDS.includes(field)) continue
+    const before = existing[field] ?? null
+    if (!sameValue(field, before, after)) {
+      changes[field] = { before, after }
+    }
+  }
+  return changes
+}
+
+// The change log couldn't be written. Rollback and chunk retries both read the log, so this fails
+// the chunk instead of being reported against a row.
+export class ChangeLogWriteError extends Error {
+  constructor(message: string) {
+    super(`Failed to record import changes: ${message}`)
+    this.name = 'ChangeLogWriteError'
+  }
+}
+
+export async function recordImportChanges(supabase: any, changes: ImportChangeRecord[]) {
+  if (changes.length === 0) return
+
+  const { error } = await supabase
+    .from('import_job_changes')
+    .insert(changes)
+
+  if (error) {
+    console.error('❌ [PROCESS] Failed to record import changes:', error)
+    throw new ChangeLogWriteError(error.message)
+  }
+}
+
+/**
+ * Row numbers of the given rows that already logged changes for the job. A chunk retried after a
+ * lost lease or crash skips these so their writes aren't made twice.
+ */
+export async function loadRecordedRowNumbers(supabase: any, jobId: string, rowNumbers: number[]): Promise<Set<number>> {
+  if (rowNumbers.length === 0) return new Set<number>()
+
+  const { data, error } = await supabase
+    .from('import_job_changes')
+    .select('row_number')
+    .eq('job_id', jobId)
+    .in('row_number', rowNumbers)
+
+  if (error) throw new Error(`Failed to check processed rows: ${error.message}`)
+  return new Set<number>((data || []).map((change: any) => change.row_number))
+}
+
+// Log a record that was inserted outside insertTracked
+export function trackInsert(context: ImportChangeContext, table: string, recordId: string, record: Record<string, any>) {
+  context.changes.push({
+    job_id: context.jobId,
+    row_number: context.rowNumber,
+    table_name: table,
+    record_id: recordId,
+    action: 'insert',
+    changes: record
+  })
+}
+
+/**
+ * Insert a record and, when a context is given, log it so rollback can delete it.
+ * Returns the new record id.
+ */
+export async function insertTracked(
+  supabase: any,
+  table: string,
+  record: Record<string, any>,
+  context?: ImportChangeContext
+): Promise<string> {
+  const { data, error } = await supabase
+    .from(table)
+    .insert(record)
+    .select('id')
+    .single()
+
+  if (error) throw new Error(`${table} insert failed - ${error.message}`)
+
+  if (context) trackInsert(context, table, data.id, record)
+
+  return data.id
+}
+
+/**
+ * Update a record and, when a context is given, log the previous value of every field that changed.
+ */
+export async function updateTracked(
+  supabase: any,
+  table: string,
+  id: string,
+  updates: Record<string, any>,
+  context?: ImportChangeContext
+) {
+  let fieldChanges: Record<string, FieldChange> = {}
+
+  if (context) {
+    const { data: existing, error: findError } = await supabase
+      .from(table)
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (findError) throw new Error(`${table} lookup failed - ${findError.message}`)
+    fieldChanges = diffFields(existing, updates)
+  }
+
+  const { error } = await supabase.from(table).update(updates).eq('id', id)
+  if (error) throw new Error(`${table} update failed - ${error.message}`)
+
+  if (context && Object.keys(fieldChanges).length > 0) {
+    context.changes.push({
+      job_id: context.jobId,
+      row_number: context.rowNumber,
+      table_name: table,
+      record_id: id,
+      action: 'update',
+      changes: fieldChanges
+    })
+  }
+}
@@ -0,0 +1,226 @@
+// Streaming reader for flat files (CSV, TSV, pipe-delimited)
+// Produces the same { headers, rows } shape the ExcelJS path feeds into staging
+
+export interface DelimitedReaderOptions {
+  // Field delimiter - detected from the header line when omitted
+  delimiter?: string
+  quote?: string
+}
+
+export interface DelimitedFileContents {
+  headers: string[]
+  rows: string[][]
+  // Data rows in the file, which can exceed rows.length when maxRows is set
+  totalRows: number
+}
+
+const CANDIDATE_DELIMITERS = [',', '\t', '|', ';']
+
+const DELIMITED_EXTENSIONS: Record<string, string> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  txt: 'txt',
+  psv: 'txt',
+  dat: 'txt'
+}
+
+const DELIMITED_MIME_TYPES = ['text/csv', 'text/plain', 'text/tab-separated-values', 'application/csv']
+
+// Map a file name to the import_jobs.file_type we store for flat files, or null for workbooks
+export function getDelimitedFileType(fileName: string): string | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() || ''
+  return DELIMITED_EXTENSIONS[extension] || null
+}
+
+export function isDelimitedFile(fileName: string, mimeType?: string): boolean {
+  if (getDelimitedFileType(fileName)) return true
+  return !!mimeType && DELIMITED_MIME_TYPES.includes(mimeType)
+}
+
+// Accepts the user-facing names as well as the raw characters
+export function resolveDelimiter(value: string | null | undefined): string | undefined {
+  if (!value) return undefined
+  switch (value.toLowerCase()) {
+    case 'comma': return ','
+    case 'tab':
+    case '\\t': return '\t'
+    case 'pipe': return '|'
+    case 'semicolon': return ';'
+    default: return value.length === 1 ? value : undefined
+  }
+}
+
+// Pick the candidate delimiter that appears most often outside quotes on the first line
+export function detectDelimiter(sample: string, quote = '"'): string {
+  const counts: Record<string, number> = {}
+  let inQuotes = false
+
+  for (const char of sample) {
+    if (char === quote) {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break
+    } else if (!inQuotes && CANDIDATE_DELIMITERS.includes(char)) {
+      counts[char] = (counts[char] || 0) + 1
+    }
+  }
+
+  let best = ','
+  let bestCount = 0
+  for (const candidate of CANDIDATE_DELIMITERS) {
+    if ((counts[candidate] || 0) > bestCount) {
+      best = candidate
+      bestCount = counts[candidate]
+    }
+  }
+  return best
+}
+
+async function* decodeChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder('utf-8')
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      const text = decoder.decode(value, { stream: true })
+      if (text) yield text
+    }
+    const tail = decoder.decode()
+    if (tail) yield tail
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Stream records out of a delimited text file one at a time.
+ * Handles a leading BOM, quoted fields, doubled quotes, embedded newlines and CRLF line endings.
+ * Blank lines are skipped. The first record yielded is the header row.
+ */
+export async function* readDelimitedRecords(
+  stream: ReadableStream<Uint8Array>,
+  options: DelimitedReaderOptions = {}
+): AsyncGenerator<string[]> {
+  const quote = options.quote || '"'
+  let delimiter = options.delimiter
+
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+  let fieldWasQuoted = false
+  let pendingQuote = false
+  let skipNextLineFeed = false
+  let isFirstChunk = true
+
+  const endField = () => {
+    record.push(fieldWasQuoted ? field : field.trim())
+    field = ''
+    fieldWasQuoted = false
+  }
+
+  const endRecord = (): string[] | null => {
+    endField()
+    const completed = record
+    record = []
+    // A lone empty field means the line was blank
+    if (completed.length === 1 && completed[0] === '') return null
+    return completed
+  }
+
+  for await (let chunk of decodeChunks(stream)) {
+    if (isFirstChunk) {
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1)
+      if (!delimiter) delimiter = detectDelimiter(chunk, quote)
+      isFirstChunk = false
+    }
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i]
+
+      if (skipNextLineFeed) {
+        skipNextLineFeed = false
+        if (char === '\n') continue
+      }
+
+      if (inQuotes) {
+        if (pendingQuote) {
+          pendingQuote = false
+          if (char === quote) {
+            // Doubled quote inside a quoted field
+            field += quote
+            continue
+          }
+          inQuotes = false
+          // Fall through and treat this character as unquoted
+        } else if (char === quote) {
+          pendingQuote = true
+          continue
+        } else {
+          field += char
+          continue
+        }
+      }
+
+      if (char === quote && field.trim() === '' && !fieldWasQuoted) {
+        field = ''
+        inQuotes = true
+        fieldWasQuoted = true
+      } else if (char === delimiter) {
+        endField()
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r') skipNextLineFeed = true
+        const completed = endRecord()
+        if (completed) yield completed
+      } else {
+        field += char
+      }
+    }
+  }
+
+  // Flush whatever is left when the file doesn't end with a newline
+  if (field !== '' || record.length > 0 || fieldWasQuoted) {
+    const completed = endRecord()
+    if (completed) yield completed
+  }
+}
+
+/**
+ * Read a whole delimited file into headers and rows.
+ * Rows are padded/truncated to the header width so every row lines up with a header.
+ */
+export async function readDelimitedFile(
+  stream: ReadableStream<Uint8Array>,
+  options: DelimitedReaderOptions = {},
+  maxRows?: number
+): Promise<DelimitedFileContents> {
+  let headers: string[] | null = null
+  const rows: string[][] = []
+  let totalRows = 0
+
+  for await (const record of readDelimitedRecords(stream, options)) {
+    if (!headers) {
+      headers = record.map(h => h.trim())
+      continue
+    }
+
+    totalRows++
+    if (maxRows === undefined || rows.length < maxRows) {
+      rows.push(alignToHeaders(record, headers.length))
+    }
+  }
+
+  return {
+    headers: headers || [],
+    rows,
+    totalRows
+  }
+}
+
+export function alignToHeaders(record: string[], width: number): string[] {
+  if (record.length === width) return record
+  if (record.length > width) return record.slice(0, width)
+  return record.concat(new Array(width - record.length).fill(''))
+}
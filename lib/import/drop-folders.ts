@@ -0,0 +1,591 @@
+// Watched drop-folder ingestion (see import_drop_locations / import_drop_files)
+// Each poll lists a client's drop locations, matches new files to a saved template by file name
+// pattern and header signature, and turns them into import jobs that stage and validate on the
+// worker. Anything that needs a person - no template match, a failure, rows that didn't validate -
+// is emailed to the location's notification contacts.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { readWorkbookRecords } from '@/lib/import/workbook-reader'
+import { getDataFileMimeType, getUploadEncoding, isImportDataFile, unpackImportUpload } from '@/lib/import/file-unpacking'
+import { getPortfolioAgencyId, loadAgencyPrivateKey } from '@/lib/import/import-keys'
+import { getDelimitedFileType, isDelimitedFile, readDelimitedRecords, resolveDelimiter } from '@/lib/import/delimited-reader'
+import { enqueueImportTask } from '@/lib/import/job-queue'
+import { resolveTemplateVersionId } from '@/lib/import/template-versions'
+import { ACCOUNT_MATCH_IMPORT_TYPES, normalizeImportMode } from '@/lib/import/account-changes'
+import { sendImportDropReviewEmail } from '@/lib/email'
+import { emailSchema } from '@/lib/validation'
+
+export const DROP_BUCKET = 'import-drops'
+// Picked-up files are moved here, inside the location, so the drop folder only shows new arrivals
+const PROCESSED_FOLDER = 'processed'
+// Share of a template's mapped headers a file must contain to match it
+export const MIN_HEADER_COVERAGE = 0.9
+// Files per location per poll; the rest are picked up next time
+const MAX_FILES_PER_POLL = 20
+
+// Import types a drop location can feed
+export const DROP_IMPORT_TYPES = ['accounts', 'skip_trace', 'payments', 'notes', 'calls']
+const DROP_LOCATION_FIELDS = [
+  'client_id', 'name', 'source_type', 'location', 'import_type', 'portfolio_id', 'import_mode',
+  'delimiter', 'template_ids', 'notify_emails', 'is_active'
+]
+
+export interface ImportDropLocation {
+  id: string
+  client_id: string
+  name: string
+  source_type: 'storage' | 'local'
+  location: string
+  import_type: string
+  portfolio_id: string | null
+  import_mode: string
+  delimiter: string | null
+  template_ids: string[] | null
+  notify_emails: string[] | null
+  is_active: boolean
+  last_polled_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface DropFileEntry {
+  name: string
+  size: number | null
+  modifiedAt: string | null
+}
+
+export interface TemplateMatch {
+  template: any
+  coverage: number
+  nameMatched: boolean
+  missingHeaders: string[]
+}
+
+export interface DropPollSummary {
+  locations: number
+  filesSeen: number
+  jobsCreated: number
+  unmatched: number
+  failed: number
+}
+
+// ----------------------------------------------------------------------------
+// Configuration
+// ----------------------------------------------------------------------------
+
+// Keep only the editable columns of a create/update body
+export function pickDropLocationFields(body: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(body).filter(([key]) => DROP_LOCATION_FIELDS.includes(key)))
+}
+
+// Checks a complete location record (the stored row merged with any updates)
+export function validateDropLocation(location: Record<string, any>): string[] {
+  const errors: string[] = []
+
+  if (!location.name || String(location.name).trim() === '') errors.push('Name is required')
+  if (!location.client_id) errors.push('Client is required')
+  if (!['storage', 'local'].includes(location.source_type)) errors.push('Source type must be storage or local')
+  if (!location.location || String(location.location).trim() === '') {
+    errors.push(location.source_type === 'local' ? 'Directory is required' : 'Storage prefix is required')
+  } else if (location.source_type === 'local' && !path.isAbsolute(location.location)) {
+    errors.push('Directory must be an absolute path')
+  } else if (location.source_type === 'storage' && String(location.location).split('/').some(segment => ['.', '..'].includes(segment.trim()))) {
+    errors.push('Storage prefix cannot contain . or .. segments')
+  }
+  if (!DROP_IMPORT_TYPES.includes(location.import_type)) {
+    errors.push(`Import type must be one of: ${DROP_IMPORT_TYPES.join(', ')}`)
+  }
+  if (location.import_type === 'accounts' && !location.portfolio_id) {
+    errors.push('A portfolio is required for account imports')
+  } else if (ACCOUNT_MATCH_IMPORT_TYPES.includes(location.import_type) && !location.portfolio_id) {
+    // Dropped files have no uploader whose agency could bound the account match
+    errors.push(`A portfolio is required for ${location.import_type} imports`)
+  }
+  for (const email of location.notify_emails || []) {
+    if (!emailSchema.safeParse(email).success) errors.push(`Invalid notification email: ${email}`)
+  }
+
+  return errors
+}
+
+// ----------------------------------------------------------------------------
+// Matching
+// ----------------------------------------------------------------------------
+
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.trim().replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')
+  return new RegExp(`^${escaped}$`, 'i')
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase()
+}
+
+// The source columns a template maps from - the headers its files are expected to carry
+export function getTemplateHeaderSignature(template: any): string[] {
+  const headers = Object.values(template.field_mappings || {})
+    .filter((header): header is string => typeof header === 'string' && header.trim() !== '')
+  return Array.from(new Set(headers))
+}
+
+/**
+ * Pick the template a dropped file belongs to. A template with a file name pattern only
+ * matches files with that name; among templates whose header signature the file covers,
+ * a name match wins, then the highest coverage. Two equally good candidates are ambiguous
+ * and left for a person to choose.
+ */
+export function matchDropFileTemplate(fileName: string, headers: string[], templates: any[]): TemplateMatch | null {
+  const fileHeaders = new Set(headers.map(normalizeHeader))
+  const candidates: TemplateMatch[] = []
+
+  for (const template of templates) {
+    const signature = getTemplateHeaderSignature(template)
+    if (signature.length === 0) continue
+
+    const nameMatched = !!template.file_name_pattern && globToRegExp(template.file_name_pattern).test(fileName)
+    if (template.file_name_pattern && !nameMatched) continue
+
+    const missingHeaders = signature.filter(header => !fileHeaders.has(normalizeHeader(header)))
+    const coverage = (signature.length - missingHeaders.length) / signature.length
+    if (coverage < MIN_HEADER_COVERAGE) continue
+
+    candidates.push({ template, coverage, nameMatched, missingHeaders })
+  }
+
+  if (candidates.length === 0) return null
+
+  candidates.sort((a, b) => Number(b.nameMatched) - Number(a.nameMatched) || b.coverage - a.coverage)
+  const [best, runnerUp] = candidates
+  if (runnerUp && runnerUp.nameMatched === best.nameMatched && runnerUp.coverage === best.coverage) {
+    throw new Error(`File matches more than one template equally well (${best.template.name}, ${runnerUp.template.name})`)
+  }
+  return best
+}
+
+async function readFileHeaders(fileName: string, data: Buffer, delimiter?: string): Promise<string[]> {
+  const stream = new Blob([new Uint8Array(data)]).stream()
+  const records = isDelimitedFile(fileName)
+    ? readDelimitedRecords(stream, { delimiter })
+    : readWorkbookRecords(stream)
+
+  for await (const record of records) {
+    return record.map(header => header.trim())
+  }
+  return []
+}
+
+// ----------------------------------------------------------------------------
+// Drop location sources
+// ----------------------------------------------------------------------------
+
+/**
+ * Where a location's files live. Storage prefixes are relative to the client's own root in the
+ * shared bucket, so a location can only ever read the files dropped for its client.
+ */
+export function getDropLocationPath(location: Pick<ImportDropLocation, 'client_id' | 'source_type' | 'location'>): string {
+  if (location.source_type === 'local') {
+    return path.resolve(location.location)
+  }
+  const prefix = location.location.split('/').map(segment => segment.trim()).filter(Boolean).join('/')
+  return prefix ? `clients/${location.client_id}/${prefix}` : `clients/${location.client_id}`
+}
+
+function storagePath(location: ImportDropLocation, fileName: string): string {
+  return `${getDropLocationPath(location)}/${fileName}`
+}
+
+// Whether either folder contains the other, so both locations would pick up the same files
+function dropPathsOverlap(a: string, b: string, separator: string): boolean {
+  return a === b || a.startsWith(`${b}${separator}`) || b.startsWith(`${a}${separator}`)
+}
+
+/**
+ * The existing location whose folder is, contains or sits inside this one's, if any.
+ * Each file must belong to exactly one location.
+ */
+export async function findOverlappingDropLocation(
+  supabase: any,
+  location: Pick<ImportDropLocation, 'client_id' | 'source_type' | 'location'>,
+  excludeId?: string
+): Promise<{ id: string; name: string } | null> {
+  let query = supabase
+    .from('import_drop_locations')
+    .select('id, name, client_id, source_type, location')
+    .eq('source_type', location.source_type)
+
+  if (excludeId) {
+    query = query.neq('id', excludeId)
+  }
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to check drop locations: ${error.message}`)
+
+  const separator = location.source_type === 'local' ? path.sep : '/'
+  const locationPath = getDropLocationPath(location)
+  return (data || []).find((other: any) => dropPathsOverlap(locationPath, getDropLocationPath(other), separator)) || null
+}
+
+async function listDropFiles(supabase: any, location: ImportDropLocation): Promise<DropFileEntry[]> {
+  if (location.source_type === 'local') {
+    const entries = await fs.readdir(location.location, { withFileTypes: true })
+    const files: DropFileEntry[] = []
+    for (const entry of entries) {
+      if (!entry.isFile() || entry.name.startsWith('.')) continue
+      const stats = await fs.stat(path.join(location.location, entry.name))
+      files.push({ name: entry.name, size: stats.size, modifiedAt: stats.mtime.toISOString() })
+    }
+    return files
+  }
+
+  const { data, error } = await supabase.storage
+    .from(DROP_BUCKET)
+    .list(getDropLocationPath(location), { limit: 1000, sortBy: { column: 'created_at', order: 'asc' } })
+
+  if (error) throw new Error(`Failed to list drop location: ${error.message}`)
+
+  // Folders (including processed/) come back without an id
+  return (data || [])
+    .filter((entry: any) => entry.id && !entry.name.startsWith('.'))
+    .map((entry: any) => ({
+      name: entry.name,
+      size: entry.metadata?.size ?? null,
+      modifiedAt: entry.updated_at || entry.created_at || null
+    }))
+}
+
+async function readDropFile(supabase: any, location: ImportDropLocation, fileName: string): Promise<Buffer> {
+  if (location.source_type === 'local') {
+    return fs.readFile(path.join(location.location, fileName))
+  }
+
+  const { data, error } = await supabase.storage
+    .from(DROP_BUCKET)
+    .download(storagePath(location, fileName))
+
+  if (error || !data) throw new Error(`Failed to download dropped file: ${error?.message || 'No data returned'}`)
+  return Buffer.from(await data.arrayBuffer())
+}
+
+// Timestamped so a file re-sent under the same name doesn't collide with the earlier one
+async function archiveDropFile(supabase: any, location: ImportDropLocation, fileName: string) {
+  const archivedName = `${new Date().toISOString().replace(/[:.]/g, '-')}_${fileName}`
+
+  if (location.source_type === 'local') {
+    const processedDir = path.join(location.location, PROCESSED_FOLDER)
+    await fs.mkdir(processedDir, { recursive: true })
+    await fs.rename(path.join(location.location, fileName), path.join(processedDir, archivedName))
+    return
+  }
+
+  const { error } = await supabase.storage
+    .from(DROP_BUCKET)
+    .move(storagePath(location, fileName), storagePath(location, `${PROCESSED_FOLDER}/${archivedName}`))
+
+  if (error) throw new Error(`Failed to move picked-up file: ${error.message}`)
+}
+
+function fileFingerprint(file: DropFileEntry): string {
+  return `${file.name}|${file.size ?? ''}|${file.modifiedAt ?? ''}`
+}
+
+// ----------------------------------------------------------------------------
+// Notifications
+// ----------------------------------------------------------------------------
+
+async function notifyDropFile(
+  supabase: any,
+  location: ImportDropLocation,
+  dropFileId: string,
+  fileName: string,
+  reason: string,
+  details: string
+) {
+  const recipients = location.notify_emails || []
+  if (recipients.length === 0) {
+    console.warn(`⚠️ [DROP] No notification contacts for ${location.name}; ${fileName} needs review: ${reason}`)
+    return
+  }
+
+  for (const email of recipients) {
+    try {
+      await sendImportDropReviewEmail(email, location.name, fileName, reason, details)
+    } catch (emailError) {
+      console.error(`❌ [DROP] Failed to notify ${email}:`, emailError)
+    }
+  }
+
+  await supabase
+    .from('import_drop_files')
+    .update({ notified_at: new Date().toISOString() })
+    .eq('id', dropFileId)
+}
+
+// ----------------------------------------------------------------------------
+// Polling
+// ----------------------------------------------------------------------------
+
+async function loadCandidateTemplates(supabase: any, location: ImportDropLocation): Promise<any[]> {
+  let query = supabase
+    .from('import_templates')
+    .select('id, name, import_type, field_mappings, transform_rules, file_name_pattern')
+    .eq('import_type', location.import_type)
+
+  if (location.template_ids && location.template_ids.length > 0) {
+    query = query.in('id', location.template_ids)
+  }
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to load templates: ${error.message}`)
+  return data || []
+}
+
+// Drop-folder jobs belong to whoever set up the location
+async function resolveJobOwner(supabase: any, location: ImportDropLocation): Promise<string | null> {
+  if (!location.created_by) return null
+  const { data } = await supabase
+    .from('platform_users')
+    .select('auth_user_id')
+    .eq('id', location.created_by)
+    .maybeSingle()
+  return data?.auth_user_id || null
+}
+
+async function createDropJob(
+  supabase: any,
+  location: ImportDropLocation,
+  file: DropFileEntry,
+  upload: { fileName: string; data: Buffer; encodings: string[] },
+  match: TemplateMatch,
+  agencyId: string | null
+): Promise<string> {
+  // Stamp the job with the template's current version, as a hand upload would be
+  const templateVersionId = await resolveTemplateVersionId(supabase, match.template.id)
+  let fieldMapping = match.template.field_mappings || {}
+  let transformRules = match.template.transform_rules || []
+  if (templateVersionId) {
+    const { data: templateVersion } = await supabase
+      .from('import_template_versions')
+      .select('field_mappings, transform_rules')
+      .eq('id', templateVersionId)
+      .single()
+    fieldMapping = templateVersion?.field_mappings || fieldMapping
+    transformRules = templateVersion?.transform_rules || transformRules
+  }
+
+  const ownerId = await resolveJobOwner(supabase, location)
+  const dataFileName = upload.fileName
+  const fileType = getDelimitedFileType(dataFileName) || (dataFileName.toLowerCase().endsWith('.xls') ? 'xls' : 'xlsx')
+
+  const { data: job, error: jobError } = await supabase
+    .from('import_jobs')
+    .insert({
+      user_id: ownerId,
+      file_name: file.name,
+      file_size: file.size ?? upload.data.byteLength,
+      file_type: fileType,
+      data_file_name: upload.encodings.length > 0 ? dataFileName : null,
+      upload_encodings: upload.encodings,
+      import_type: location.import_type,
+      template_id: match.template.id,
+      template_version_id: templateVersionId,
+      portfolio_id: location.portfolio_id,
+      agency_id: agencyId,
+      import_mode: normalizeImportMode(location.import_mode),
+      status: 'pending'
+    })
+    .select()
+    .single()
+
+  if (jobError) throw new Error(`Failed to create import job: ${jobError.message}`)
+
+  const filePath = `${ownerId || 'drop'}/${job.id}/${dataFileName}`
+  const { error: uploadError } = await supabase.storage
+    .from('import-files')
+    .upload(filePath, upload.data, { contentType: getDataFileMimeType(dataFileName), upsert: true })
+
+  if (uploadError) {
+    await supabase.from('import_jobs').delete().eq('id', job.id)
+    throw new Error(`Failed to upload file to storage: ${uploadError.message}`)
+  }
+
+  await enqueueImportTask(supabase, job.id, 'stage', {
+    filePath,
+    fieldMapping,
+    transformRules,
+    portfolioId: location.portfolio_id,
+    delimiter: resolveDelimiter(location.delimiter),
+    sheetConfig: null,
+    deleteFileAfterStaging: upload.encodings.length > 0,
+    autoValidate: true
+  })
+
+  return job.id
+}
+
+async function ingestDropFile(
+  supabase: any,
+  location: ImportDropLocation,
+  file: DropFileEntry,
+  templates: any[],
+  summary: DropPollSummary
+) {
+  const { data: dropFile, error: insertError } = await supabase
+    .from('import_drop_files')
+    .insert({
+      location_id: location.id,
+      file_name: file.name,
+      file_size: file.size,
+      file_modified_at: file.modifiedAt,
+      file_fingerprint: fileFingerprint(file),
+      status: 'queued'
+    })
+    .select('id')
+    .single()
+
+  // Another poll claimed it first
+  if (insertError) {
+    console.log(`📋 [DROP] ${file.name} already picked up: ${insertError.message}`)
+    return
+  }
+
+  const fail = async (status: 'unmatched' | 'failed', reason: string, details: string, matchDetails?: any) => {
+    await supabase
+      .from('import_drop_files')
+      .update({ status, error_message: details, match_details: matchDetails || null, updated_at: new Date().toISOString() })
+      .eq('id', dropFile.id)
+    await notifyDropFile(supabase, location, dropFile.id, file.name, reason, details)
+    if (status === 'unmatched') summary.unmatched++
+    else summary.failed++
+  }
+
+  try {
+    const raw = await readDropFile(supabase, location, file.name)
+    const agencyId = await getPortfolioAgencyId(supabase, location.portfolio_id)
+    const upload = await unpackImportUpload(raw, file.name, () => loadAgencyPrivateKey(supabase, agencyId))
+    const headers = await readFileHeaders(upload.fileName, upload.data, resolveDelimiter(location.delimiter))
+
+    let match: TemplateMatch | null
+    try {
+      match = matchDropFileTemplate(file.name, headers, templates)
+    } catch (ambiguous) {
+      await fail('unmatched', 'More than one template matches', (ambiguous as Error).message, { headers })
+      return
+    }
+
+    if (!match) {
+      await fail('unmatched', 'No template matches this file',
+        `None of the ${templates.length} ${location.import_type} template(s) match the file name and headers.`,
+        { headers })
+      return
+    }
+
+    const jobId = await createDropJob(supabase, location, file, upload, match, agencyId)
+
+    await supabase
+      .from('import_drop_files')
+      .update({
+        status: 'queued',
+        template_id: match.template.id,
+        job_id: jobId,
+        match_details: {
+          template_name: match.template.name,
+          coverage: match.coverage,
+          name_matched: match.nameMatched,
+          missing_headers: match.missingHeaders
+        },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', dropFile.id)
+
+    await archiveDropFile(supabase, location, file.name)
+    summary.jobsCreated++
+    console.log(`✅ [DROP] ${location.name}: ${file.name} -> job ${jobId} (template ${match.template.name})`)
+  } catch (error) {
+    console.error(`❌ [DROP] ${location.name}: failed to ingest ${file.name}:`, error)
+    await fail('failed', 'The file could not be imported', error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+/**
+ * Poll every active drop location once. Files already recorded for a location (same name,
+ * size and modification time) are skipped, so an unmatched file is reported only once.
+ */
+export async function pollDropLocations(supabase: any): Promise<DropPollSummary> {
+  const summary: DropPollSummary = { locations: 0, filesSeen: 0, jobsCreated: 0, unmatched: 0, failed: 0 }
+
+  const { data: locations, error } = await supabase
+    .from('import_drop_locations')
+    .select('*')
+    .eq('is_active', true)
+
+  if (error) throw new Error(`Failed to load drop locations: ${error.message}`)
+
+  for (const location of (locations || []) as ImportDropLocation[]) {
+    summary.locations++
+    try {
+      const files = (await listDropFiles(supabase, location))
+        .filter(file => isImportDataFile(file.name) || getUploadEncoding(file.name))
+
+      const { data: seen } = await supabase
+        .from('import_drop_files')
+        .select('file_fingerprint')
+        .eq('location_id', location.id)
+        .in('file_fingerprint', files.map(fileFingerprint))
+      const seenFingerprints = new Set((seen || []).map((row: any) => row.file_fingerprint))
+
+      const newFiles = files.filter(file => !seenFingerprints.has(fileFingerprint(file))).slice(0, MAX_FILES_PER_POLL)
+      summary.filesSeen += newFiles.length
+
+      if (newFiles.length > 0) {
+        const templates = await loadCandidateTemplates(supabase, location)
+        for (const file of newFiles) {
+          await ingestDropFile(supabase, location, file, templates, summary)
+        }
+      }
+    } catch (locationError) {
+      console.error(`❌ [DROP] Failed to poll ${location.name}:`, locationError)
+    } finally {
+      await supabase
+        .from('import_drop_locations')
+        .update({ last_polled_at: new Date().toISOString() })
+        .eq('id', location.id)
+    }
+  }
+
+  console.log('✅ [DROP] Poll finished:', summary)
+  return summary
+}
+
+/**
+ * Called by the worker after validating a job. Drop-folder jobs with invalid rows or warnings
+ * are flagged for review and their contacts notified; clean ones wait for the usual dry run.
+ */
+export async function recordDropJobValidation(supabase: any, job: any, validationResults: any) {
+  const { data: dropFile } = await supabase
+    .from('import_drop_files')
+    .select('id, file_name, location_id, import_drop_locations(*)')
+    .eq('job_id', job.id)
+    .maybeSingle()
+
+  if (!dropFile) return
+
+  const needsReview = validationResults.invalidRows > 0 || validationResults.warnings.length > 0
+  await supabase
+    .from('import_drop_files')
+    .update({ status: needsReview ? 'needs_review' : 'validated', updated_at: new Date().toISOString() })
+    .eq('id', dropFile.id)
+
+  if (!needsReview) return
+
+  await notifyDropFile(
+    supabase,
+    dropFile.import_drop_locations as ImportDropLocation,
+    dropFile.id,
+    dropFile.file_name,
+    'Validation needs review',
+    `${validationResults.validRows} of ${validationResults.totalRows} rows are valid; ` +
+      `${validationResults.invalidRows} invalid, ${validationResults.warnings.length} warning(s).`
+  )
+}
@@ -0,0 +1,374 @@
+// Dry run for validated imports
+// Runs the same matching the processors use against import_staging_data without writing anything,
+// so the user can see what an import will do before approving it for processing.
+// Runs as a queued 'dry_run' task: valid rows are classified a page at a time, with each page's
+// lookups batched, and the position reached is checkpointed along with the running tallies.
+
+import { ImportDryRunResults, ImportDryRunSample } from '@/types/import'
+import { AccountMatchScope, buildAccountUpdate, findAccountsByNumbers, getAccountMatchScope, normalizeImportMode } from '@/lib/import/account-changes'
+import { diffFields } from '@/lib/import/change-log'
+import { resolveImportClientId } from '@/lib/import/process-chunk'
+import { findPersonsForRows } from '@/lib/import/skip-trace-processor'
+import { findDuplicatePayments, parsePaymentRow } from '@/lib/import/payment-processor'
+import { findExistingHistoryRecords, parseCallRow, parseNoteRow } from '@/lib/import/history-processor'
+import { resolveIdentities } from '@/lib/import/identity-resolution'
+
+// Rows classified between checkpoints; each page takes a handful of queries
+const DRY_RUN_PAGE_SIZE = 200
+const SAMPLE_LIMIT = 10
+
+const DRY_RUN_IMPORT_TYPES = ['accounts', 'skip_trace', 'payments', 'notes', 'calls']
+
+type SampleKey = keyof ImportDryRunResults['samples']
+type CountKey = keyof ImportDryRunResults['counts']
+
+export interface ImportDryRunCheckpoint {
+  // Valid rows before this index have been classified
+  next_start_index?: number
+  results?: ImportDryRunResults
+  // SSNs of persons earlier pages would create (accounts imports)
+  new_ssns?: string[]
+  // Account and processor reference pairs earlier pages would post (payment imports)
+  seen_references?: string[]
+}
+
+export interface ImportDryRunHooks {
+  // Called after each page with the position to resume from; may throw to stop the run
+  onPageCommitted?: (checkpoint: ImportDryRunCheckpoint) => Promise<void>
+}
+
+function createResults(importType: string, importMode: string): ImportDryRunResults {
+  return {
+    generatedAt: new Date().toISOString(),
+    importType,
+    importMode,
+    counts: {
+      newPersons: 0,
+      matchedPersons: 0,
+      newAccounts: 0,
+      updatedAccounts: 0,
+      unchangedAccounts: 0,
+      identityReviews: 0,
+      rejectedRows: 0
+    },
+    samples: {
+      newPersons: [],
+      matchedPersons: [],
+      newAccounts: [],
+      updatedAccounts: [],
+      identityReviews: [],
+      rejectedRows: []
+    }
+  }
+}
+
+function tally(results: ImportDryRunResults, key: CountKey, sample?: ImportDryRunSample) {
+  results.counts[key]++
+  if (sample && key in results.samples) {
+    const samples = results.samples[key as SampleKey]
+    if (samples.length < SAMPLE_LIMIT) samples.push(sample)
+  }
+}
+
+function describeRow(mappedData: Record<string, any>): string {
+  const name = [mappedData.first_name, mappedData.last_name].filter(Boolean).join(' ')
+  const account = mappedData.original_account_number || mappedData.account_key
+  return [account, name].filter(Boolean).join(' - ') || 'Unnamed row'
+}
+
+async function fetchStagingRows(supabase: any, jobId: string, rowNumbers: number[]) {
+  const { data, error } = await supabase
+    .from('import_staging_data')
+    .select('row_number, mapped_data')
+    .eq('job_id', jobId)
+    .in('row_number', rowNumbers)
+    .order('row_number')
+
+  if (error) {
+    throw new Error(`Failed to fetch staging data: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Build the change set for a validated job, resuming from a checkpoint. Invalid rows count as
+ * rejected; valid rows are classified the same way the processor for the job's import type
+ * would handle them.
+ */
+export async function runImportDryRun(
+  supabase: any,
+  job: any,
+  checkpoint: ImportDryRunCheckpoint = {},
+  hooks: ImportDryRunHooks = {}
+): Promise<ImportDryRunResults> {
+  if (!DRY_RUN_IMPORT_TYPES.includes(job.import_type)) {
+    throw new Error(`Import type '${job.import_type}' is not supported yet`)
+  }
+
+  const importMode = normalizeImportMode(job.import_mode)
+  const rowDetails: any[] = job.validation_results?.rowDetails || []
+  let results = checkpoint.results
+
+  if (!results) {
+    results = createResults(job.import_type, importMode)
+    for (const row of rowDetails.filter(row => !row.isValid)) {
+      tally(results, 'rejectedRows', {
+        rowNumber: row.rowNumber,
+        label: 'Failed validation',
+        details: { errors: row.errors }
+      })
+    }
+  }
+
+  const validRowNumbers: number[] = rowDetails.filter(row => row.isValid).map(row => row.rowNumber)
+  let startIndex = checkpoint.next_start_index ?? 0
+  console.log(`🔍 [DRY RUN] Job ${job.id}: ${validRowNumbers.length} valid rows (${job.import_type}, ${importMode} mode)${startIndex > 0 ? `, resuming at ${startIndex + 1}` : ''}`)
+
+  // Accounts jobs only match a portfolio's client; see processAccountsDataChunk
+  const scope = getAccountMatchScope(job, job.portfolio_id ? await resolveImportClientId(supabase, job) : null)
+  const newSSNs = new Set<string>(checkpoint.new_ssns || [])
+  const seenReferences = new Set<string>(checkpoint.seen_references || [])
+
+  while (startIndex < validRowNumbers.length) {
+    const pageRowNumbers = validRowNumbers.slice(startIndex, startIndex + DRY_RUN_PAGE_SIZE)
+    const stagingRows = await fetchStagingRows(supabase, job.id, pageRowNumbers)
+
+    if (job.import_type === 'accounts') {
+      await classifyAccountRows(supabase, stagingRows, scope, importMode, newSSNs, results)
+    } else if (job.import_type === 'skip_trace') {
+      await classifySkipTraceRows(supabase, stagingRows, scope, results)
+    } else if (job.import_type === 'payments') {
+      await classifyPaymentRows(supabase, stagingRows, scope, seenReferences, results)
+    } else {
+      await classifyHistoryRows(supabase, stagingRows, job.import_type, scope, results)
+    }
+
+    startIndex += pageRowNumbers.length
+    await hooks.onPageCommitted?.({
+      next_start_index: startIndex,
+      results,
+      ...(newSSNs.size > 0 ? { new_ssns: Array.from(newSSNs) } : {}),
+      ...(seenReferences.size > 0 ? { seen_references: Array.from(seenReferences) } : {})
+    })
+  }
+
+  console.log(`✅ [DRY RUN] Job ${job.id} results:`, results.counts)
+  return results
+}
+
+async function classifyAccountRows(
+  supabase: any,
+  stagingRows: any[],
+  scope: AccountMatchScope,
+  importMode: string,
+  newSSNs: Set<string>,
+  results: ImportDryRunResults
+) {
+  const accountNumbers = Array.from(new Set(stagingRows
+    .map(row => String(row.mapped_data?.original_account_number || '').trim())
+    .filter(Boolean)))
+
+  const existingAccounts = new Map<string, any>()
+  if (scope.clientId && accountNumbers.length > 0) {
+    const { data, error } = await supabase
+      .from('debt_accounts')
+      .select('*')
+      .eq('client_id', scope.clientId)
+      .in('original_account_number', accountNumbers)
+      .order('created_at', { ascending: true })
+
+    if (error) throw new Error(`Failed to look up existing accounts: ${error.message}`)
+    for (const account of data || []) {
+      if (!existingAccounts.has(account.original_account_number)) {
+        existingAccounts.set(account.original_account_number, account)
+      }
+    }
+  }
+
+  // Identities for every row that would create an account, searched in one call
+  const identityRows = importMode === 'update' ? [] : stagingRows.filter(row => {
+    const mappedData = row.mapped_data || {}
+    const accountNumber = String(mappedData.original_account_number || '').trim()
+    const ssn = String(mappedData.ssn || '').trim()
+    return !(accountNumber && existingAccounts.has(accountNumber)) && !(ssn && newSSNs.has(ssn))
+  })
+  const identities = await resolveIdentities(supabase, scope, identityRows.map(row => row.mapped_data || {}))
+  const identityByRow = new Map(identityRows.map((row, index) => [row.row_number, identities[index]]))
+
+  for (const row of stagingRows) {
+    const mappedData = row.mapped_data || {}
+    const rowNumber = row.row_number
+    const label = describeRow(mappedData)
+    const accountNumber = String(mappedData.original_account_number || '').trim()
+    const existing = accountNumber ? existingAccounts.get(accountNumber) : null
+
+    if (existing) {
+      if (importMode === 'insert') {
+        tally(results, 'rejectedRows', { rowNumber, label: `Account ${accountNumber} already exists (insert mode)` })
+        continue
+      }
+
+      const changes = diffFields(existing, buildAccountUpdate(mappedData))
+      if (Object.keys(changes).length > 0) {
+        tally(results, 'updatedAccounts', { rowNumber, label, details: changes })
+      } else {
+        tally(results, 'unchangedAccounts')
+      }
+      continue
+    }
+
+    if (importMode === 'update') {
+      tally(results, 'rejectedRows', { rowNumber, label: `No existing account ${accountNumber} (update mode)` })
+      continue
+    }
+
+    // Later rows for a person introduced earlier in this file link to that person; they were
+    // left out of the identity search when the person came from an earlier page
+    const ssn = String(mappedData.ssn || '').trim()
+    const identity = identityByRow.get(rowNumber)
+    if ((ssn && newSSNs.has(ssn)) || !identity) {
+      tally(results, 'matchedPersons', { rowNumber, label })
+    } else {
+      if (identity.action === 'reject') {
+        tally(results, 'rejectedRows', { rowNumber, label: identity.reason })
+        continue
+      }
+      if (identity.action === 'review') {
+        tally(results, 'identityReviews', { rowNumber, label, details: { reason: identity.reason, candidates: identity.candidates.length } })
+        continue
+      }
+      if (identity.action === 'link') {
+        tally(results, 'matchedPersons', { rowNumber, label, details: { personId: identity.personId, score: identity.score } })
+      } else {
+        if (ssn) newSSNs.add(ssn)
+        tally(results, 'newPersons', { rowNumber, label })
+      }
+    }
+
+    tally(results, 'newAccounts', {
+      rowNumber,
+      label,
+      details: { current_balance: mappedData.current_balance, creditor: mappedData.creditor_name || null }
+    })
+  }
+}
+
+async function classifySkipTraceRows(supabase: any, stagingRows: any[], scope: AccountMatchScope, results: ImportDryRunResults) {
+  const personIds = await findPersonsForRows(supabase, scope, stagingRows.map(row => row.mapped_data || {}))
+
+  stagingRows.forEach((row, index) => {
+    const personId = personIds[index]
+    if (personId) {
+      tally(results, 'matchedPersons', { rowNumber: row.row_number, label: describeRow(row.mapped_data || {}), details: { personId } })
+    } else {
+      tally(results, 'rejectedRows', { rowNumber: row.row_number, label: 'No person found for SSN/account key' })
+    }
+  })
+}
+
+// Accounts for a page's account numbers; when the lookup itself fails every row is rejected with its message
+async function lookUpPageAccounts(supabase: any, scope: AccountMatchScope, accountNumbers: string[]): Promise<Map<string, any | Error> | Error> {
+  try {
+    return await findAccountsByNumbers(supabase, scope, accountNumbers)
+  } catch (lookupError) {
+    return lookupError instanceof Error ? lookupError : new Error('Account lookup failed')
+  }
+}
+
+async function classifyPaymentRows(
+  supabase: any,
+  stagingRows: any[],
+  scope: AccountMatchScope,
+  seenReferences: Set<string>,
+  results: ImportDryRunResults
+) {
+  const payments = stagingRows.map(row => ({ row, payment: parsePaymentRow(row.mapped_data || {}) }))
+  const parsed = payments.flatMap(({ row, payment }) => typeof payment === 'string' ? [] : [{ row, payment }])
+  const accounts = await lookUpPageAccounts(supabase, scope, parsed.map(({ payment }) => payment.accountNumber))
+
+  const accountFor = (accountNumber: string) => accounts instanceof Error ? accounts : accounts.get(accountNumber.trim()) || null
+  const referenced = parsed.flatMap(({ payment }) => {
+    const account = accountFor(payment.accountNumber)
+    return account && !(account instanceof Error) && payment.processorReference
+      ? [{ accountId: account.id, processorReference: payment.processorReference }]
+      : []
+  })
+  const duplicateFlags = await findDuplicatePayments(supabase, referenced)
+  const onFile = new Set(referenced.filter((_, index) => duplicateFlags[index]).map(entry => `${entry.accountId}:${entry.processorReference}`))
+
+  for (const { row, payment } of payments) {
+    if (typeof payment === 'string') {
+      tally(results, 'rejectedRows', { rowNumber: row.row_number, label: payment })
+      continue
+    }
+
+    const account = accountFor(payment.accountNumber)
+    if (account instanceof Error) {
+      tally(results, 'rejectedRows', { rowNumber: row.row_number, label: account.message })
+      continue
+    }
+
+    // Pairs earlier in this file are posted first, so a repeat is a duplicate too
+    const reference = payment.processorReference
+    if (account && reference) {
+      const referenceKey = `${account.id}:${reference}`
+      if (seenReferences.has(referenceKey) || onFile.has(referenceKey)) {
+        tally(results, 'rejectedRows', { rowNumber: row.row_number, label: `Duplicate processor reference ${reference}` })
+        continue
+      }
+      seenReferences.add(referenceKey)
+    }
+
+    if (account) {
+      tally(results, 'updatedAccounts', {
+        rowNumber: row.row_number,
+        label: `${payment.accountNumber} - ${payment.paymentAmount} on ${payment.paymentDate}`,
+        details: { accountId: account.id, paymentStatus: payment.paymentStatus }
+      })
+    } else {
+      tally(results, 'rejectedRows', { rowNumber: row.row_number, label: `No account found for account number ${payment.accountNumber}` })
+    }
+  }
+}
+
+async function classifyHistoryRows(
+  supabase: any,
+  stagingRows: any[],
+  importType: 'notes' | 'calls',
+  scope: AccountMatchScope,
+  results: ImportDryRunResults
+) {
+  const records = stagingRows.map(row => ({
+    row,
+    record: importType === 'notes' ? parseNoteRow(row.mapped_data || {}) : parseCallRow(row.mapped_data || {})
+  }))
+  const parsed = records.flatMap(({ row, record }) => typeof record === 'string' ? [] : [{ row, record }])
+  const accounts = await lookUpPageAccounts(supabase, scope, parsed.map(({ record }) => record.accountNumber))
+
+  const accountFor = (accountNumber: string) => accounts instanceof Error ? accounts : accounts.get(accountNumber.trim()) || null
+  const matched = parsed.flatMap(({ row, record }) => {
+    const account = accountFor(record.accountNumber)
+    return account && !(account instanceof Error) ? [{ rowNumber: row.row_number, accountId: account.id, record }] : []
+  })
+  const existingFlags = await findExistingHistoryRecords(supabase, importType, matched)
+  const existingRows = new Set(matched.filter((_, index) => existingFlags[index]).map(entry => entry.rowNumber))
+
+  for (const { row, record } of records) {
+    if (typeof record === 'string') {
+      tally(results, 'rejectedRows', { rowNumber: row.row_number, label: record })
+      continue
+    }
+
+    const account = accountFor(record.accountNumber)
+    if (account instanceof Error) {
+      tally(results, 'rejectedRows', { rowNumber: row.row_number, label: account.message })
+    } else if (!account) {
+      tally(results, 'rejectedRows', { rowNumber: row.row_number, label: `No account found for account number ${record.accountNumber}` })
+    } else if (existingRows.has(row.row_number)) {
+      tally(results, 'unchangedAccounts')
+    } else {
+      tally(results, 'updatedAccounts', { rowNumber: row.row_number, label: record.accountNumber, details: { accountId: account.id } })
+    }
+  }
+}
@@ -0,0 +1,223 @@
+// Failed-rows files and resubmission of corrected rows
+// A job's failed rows are the rows validation rejected plus the rows processing reported an error
+// for. They are written back out with the file's original columns and an error column so they
+// can be fixed and uploaded as a child job of the original.
+
+import { ImportFamilyTotals } from '@/types/import'
+
+// Appended after the original columns; the parent's mapping doesn't reference it, so it is ignored on re-upload
+export const FAILED_ROWS_ERROR_COLUMN = 'Import Errors'
+// Staging bookkeeping added to every raw row, not columns of the file
+const STAGING_META_KEYS = ['jobId', 'import_id']
+// Row numbers per staging lookup
+const ROW_LOOKUP_BATCH_SIZE = 500
+
+// Processing messages about rows that were still imported, such as a related-sheet record that
+// couldn't be attached. Listed with the job's errors, but they don't make the row a failed row.
+export function formatRowWarning(rowNumber: number, message: string): string {
+  return `Row ${rowNumber} warning: ${message}`
+}
+
+export function getFailedRowsFilePath(job: any): string {
+  return `${job.user_id || 'system'}/${job.id}/failed_rows.csv`
+}
+
+/**
+ * Failed rows of a job keyed by staged row number, with every error reported for the row.
+ * Processing errors are matched by their "Row N:" prefix (warnings are "Row N warning:" and
+ * don't count); the stored list is capped, so on very large failures only the first rows
+ * processing rejected are included.
+ */
+export function collectFailedRows(job: any, processingErrors: string[] = job.processing_errors || []): Map<number, string[]> {
+  const failed = new Map<number, string[]>()
+  const add = (rowNumber: number, message: string) => {
+    failed.set(rowNumber, [...(failed.get(rowNumber) || []), message])
+  }
+
+  for (const row of job.validation_results?.rowDetails || []) {
+    if (!row.isValid) {
+      for (const message of row.errors?.length ? row.errors : ['Failed validation']) add(row.rowNumber, message)
+    }
+  }
+
+  for (const error of processingErrors) {
+    const match = /^Row (\d+): ([\s\S]*)$/.exec(error)
+    if (match) add(Number(match[1]), match[2])
+  }
+
+  return failed
+}
+
+function csvCell(value: any): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Build the failed-rows CSV for a job: the original columns in file order plus the error column.
+ * Returns null when the job has no failed rows.
+ */
+export async function buildFailedRowsCsv(
+  supabase: any,
+  job: any,
+  processingErrors?: string[]
+): Promise<{ csv: string; rowCount: number } | null> {
+  const failed = collectFailedRows(job, processingErrors)
+  if (failed.size === 0) return null
+
+  const rowNumbers = Array.from(failed.keys()).sort((a, b) => a - b)
+  const stagedRows: any[] = []
+  for (let i = 0; i < rowNumbers.length; i += ROW_LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('import_staging_data')
+      .select('row_number, raw_data')
+      .eq('job_id', job.id)
+      .in('row_number', rowNumbers.slice(i, i + ROW_LOOKUP_BATCH_SIZE))
+      .order('row_number')
+
+    if (error) {
+      throw new Error(`Failed to fetch failed rows: ${error.message}`)
+    }
+    stagedRows.push(...(data || []))
+  }
+
+  if (stagedRows.length === 0) return null
+
+  // Jobs staged before headers were recorded fall back to the keys of the staged rows
+  const headers: string[] = job.source_headers?.length
+    ? job.source_headers
+    : Array.from(new Set(stagedRows.reduce((keys: string[], row) => keys.concat(Object.keys(row.raw_data || {})), [])))
+        .filter(key => !STAGING_META_KEYS.includes(key))
+
+  const lines = [[...headers, FAILED_ROWS_ERROR_COLUMN].map(csvCell).join(',')]
+  for (const row of stagedRows) {
+    const rawData = row.raw_data || {}
+    lines.push([
+      ...headers.map(header => csvCell(rawData[header])),
+      csvCell((failed.get(row.row_number) || []).join('; '))
+    ].join(','))
+  }
+
+  return { csv: lines.join('\r\n') + '\r\n', rowCount: stagedRows.length }
+}
+
+/**
+ * Write the failed-rows file for a finished job and record the job's success and failure counts.
+ * A failure here is logged rather than failing a job whose rows are already imported.
+ */
+export async function writeFailedRowsFile(supabase: any, job: any, processingErrors: string[]) {
+  try {
+    const totalRows = job.validation_results?.totalRows ?? job.total_rows ?? 0
+    const failedRows = collectFailedRows(job, processingErrors).size
+    let failedRowsCsvPath: string | null = null
+
+    const result = await buildFailedRowsCsv(supabase, job, processingErrors)
+    if (result) {
+      failedRowsCsvPath = getFailedRowsFilePath(job)
+      const { error: uploadError } = await supabase.storage
+        .from('import-files')
+        .upload(failedRowsCsvPath, Buffer.from(result.csv, 'utf8'), { contentType: 'text/csv', upsert: true })
+
+      if (uploadError) {
+        console.error(`❌ [FAILED ROWS] Failed to upload failed rows for job ${job.id}:`, uploadError)
+        failedRowsCsvPath = null
+      }
+    }
+
+    await supabase
+      .from('import_jobs')
+      .update({
+        successful_rows: Math.max(0, totalRows - failedRows),
+        failed_rows: failedRows,
+        failed_rows_csv_path: failedRowsCsvPath
+      })
+      .eq('id', job.id)
+
+    console.log(`📋 [FAILED ROWS] Job ${job.id}: ${failedRows} failed row(s)${failedRowsCsvPath ? ` written to ${failedRowsCsvPath}` : ''}`)
+  } catch (error) {
+    console.error(`❌ [FAILED ROWS] Failed to write failed rows for job ${job.id}:`, error)
+  }
+}
+
+/**
+ * The mapping a resubmission is staged with: what the original job was staged with, falling
+ * back to the mapping recorded on its staged rows and its template version's rules.
+ */
+export async function loadJobStagingSettings(
+  supabase: any,
+  job: any
+): Promise<{ fieldMapping: Record<string, string>; transformRules: any[] }> {
+  const { data: stageTask } = await supabase
+    .from('import_job_tasks')
+    .select('payload')
+    .eq('job_id', job.id)
+    .eq('task_type', 'stage')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (stageTask?.payload?.fieldMapping) {
+    return {
+      fieldMapping: stageTask.payload.fieldMapping,
+      transformRules: stageTask.payload.transformRules || []
+    }
+  }
+
+  const { data: stagedRow } = await supabase
+    .from('import_staging_data')
+    .select('field_mapping')
+    .eq('job_id', job.id)
+    .limit(1)
+    .maybeSingle()
+
+  let transformRules: any[] = []
+  if (job.template_version_id) {
+    const { data: templateVersion } = await supabase
+      .from('import_template_versions')
+      .select('transform_rules')
+      .eq('id', job.template_version_id)
+      .single()
+    transformRules = templateVersion?.transform_rules || []
+  }
+
+  return { fieldMapping: stagedRow?.field_mapping || {}, transformRules }
+}
+
+/**
+ * Totals across each original job and its resubmissions, for the originals among the given jobs
+ * that have any. Jobs that haven't finished yet contribute no imported rows.
+ */
+export async function getImportFamilyTotals(supabase: any, jobs: any[]): Promise<Record<string, ImportFamilyTotals>> {
+  const originals = jobs.filter(job => !job.parent_job_id)
+  if (originals.length === 0) return {}
+
+  const { data: children, error } = await supabase
+    .from('import_jobs')
+    .select('id, parent_job_id, status, successful_rows')
+    .in('parent_job_id', originals.map(job => job.id))
+
+  if (error) {
+    console.error('❌ [FAILED ROWS] Failed to fetch resubmitted jobs:', error)
+    return {}
+  }
+
+  const totals: Record<string, ImportFamilyTotals> = {}
+  for (const original of originals) {
+    const family = (children || []).filter((child: any) => child.parent_job_id === original.id)
+    if (family.length === 0) continue
+
+    const totalRows = (original.successful_rows || 0) + (original.failed_rows || 0)
+    const successfulRows = [original, ...family]
+      .filter(job => job.status === 'completed')
+      .reduce((sum, job) => sum + (job.successful_rows || 0), 0)
+
+    totals[original.id] = {
+      childJobs: family.length,
+      totalRows,
+      successfulRows: Math.min(successfulRows, totalRows),
+      outstandingRows: Math.max(0, totalRows - successfulRows)
+    }
+  }
+
+  return totals
+}
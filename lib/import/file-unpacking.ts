@@ -0,0 +1,184 @@
+// Unpack compressed and encrypted import uploads to the data file inside
+// Layers are peeled by extension until a spreadsheet or delimited file is left, so
+// accounts.csv.gz.pgp decrypts, then gunzips, then stages as accounts.csv.
+
+import { gunzip } from 'zlib'
+import { promisify } from 'util'
+import JSZip from 'jszip'
+import { decrypt, readMessage, PrivateKey } from 'openpgp'
+import { getDelimitedFileType } from '@/lib/import/delimited-reader'
+
+const gunzipAsync = promisify(gunzip)
+
+export type UploadEncoding = 'pgp' | 'gzip' | 'zip'
+
+const ENCODING_EXTENSIONS: Record<string, UploadEncoding> = {
+  pgp: 'pgp',
+  gpg: 'pgp',
+  asc: 'pgp',
+  gz: 'gzip',
+  zip: 'zip'
+}
+
+// Guards against archive bombs; far above any real placement file
+const MAX_UNPACKED_BYTES = 512 * 1024 * 1024
+const MAX_LAYERS = 3
+
+export interface UnpackedUpload {
+  fileName: string
+  data: Buffer
+  // Layers removed, outermost first; empty when the upload was already a data file
+  encodings: UploadEncoding[]
+}
+
+function getExtension(fileName: string): string {
+  return fileName.split('.').pop()?.toLowerCase() || ''
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/\.[^/.]+$/, '')
+}
+
+export function getUploadEncoding(fileName: string): UploadEncoding | null {
+  return ENCODING_EXTENSIONS[getExtension(fileName)] || null
+}
+
+export function isImportDataFile(fileName: string): boolean {
+  return !!getDelimitedFileType(fileName) || ['xlsx', 'xls'].includes(getExtension(fileName))
+}
+
+// Content type for the extracted file; the browser's type described the packed upload
+export function getDataFileMimeType(fileName: string): string {
+  const extension = getExtension(fileName)
+  if (extension === 'xlsx') return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  if (extension === 'xls') return 'application/vnd.ms-excel'
+  return getDelimitedFileType(fileName) === 'csv' ? 'text/csv' : 'text/plain'
+}
+
+async function decryptPgp(data: Buffer, privateKey: PrivateKey): Promise<Buffer> {
+  const armored = data.subarray(0, 64).toString('utf8').includes('-----BEGIN PGP MESSAGE-----')
+  const message = armored
+    ? await readMessage({ armoredMessage: data.toString('utf8') })
+    : await readMessage({ binaryMessage: new Uint8Array(data) })
+
+  try {
+    // openpgp counts bytes as it inflates a compressed payload and stops at the limit; an
+    // uncompressed payload is never larger than the upload itself
+    const { data: plaintext } = await decrypt({
+      message,
+      decryptionKeys: privateKey,
+      format: 'binary',
+      config: { maxDecompressedMessageSize: MAX_UNPACKED_BYTES }
+    })
+    return Buffer.from(plaintext as Uint8Array)
+  } catch (decryptError) {
+    throw new Error(`Could not decrypt file with the agency's import key: ${decryptError instanceof Error ? decryptError.message : 'unknown error'}`)
+  }
+}
+
+// Inflate one entry, giving up as soon as it outgrows MAX_UNPACKED_BYTES. The size declared in
+// the archive is checked first, but it can't be trusted, so the running total is what bounds memory.
+function readZipEntry(entry: JSZip.JSZipObject): Promise<Buffer> {
+  const declaredSize = (entry as any)._data?.uncompressedSize
+  if (typeof declaredSize === 'number' && declaredSize > MAX_UNPACKED_BYTES) {
+    return Promise.reject(new Error('The file inside the zip archive is too large to import'))
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let totalBytes = 0
+    let settled = false
+    const stream = entry.nodeStream('nodebuffer')
+
+    stream
+      .on('data', (chunk: Buffer) => {
+        if (settled) return
+        totalBytes += chunk.byteLength
+        if (totalBytes > MAX_UNPACKED_BYTES) {
+          settled = true
+          stream.pause()
+          chunks.length = 0
+          reject(new Error('The file inside the zip archive is too large to import'))
+          return
+        }
+        chunks.push(chunk)
+      })
+      .on('error', (streamError: Error) => {
+        if (settled) return
+        settled = true
+        reject(streamError)
+      })
+      .on('end', () => {
+        if (settled) return
+        settled = true
+        resolve(Buffer.concat(chunks, totalBytes))
+      })
+  })
+}
+
+// An archive must hold exactly one data file; OS metadata and folders are ignored
+async function extractZip(data: Buffer): Promise<{ fileName: string; data: Buffer }> {
+  const archive = await JSZip.loadAsync(data)
+  const entries = Object.values(archive.files).filter(entry =>
+    !entry.dir && !entry.name.startsWith('__MACOSX/') && !entry.name.split('/').pop()!.startsWith('.')
+  )
+  const dataEntries = entries.filter(entry => isImportDataFile(entry.name) || getUploadEncoding(entry.name))
+
+  if (dataEntries.length === 0) {
+    throw new Error('The zip archive does not contain a CSV, TSV, text or Excel file')
+  }
+  if (dataEntries.length > 1) {
+    throw new Error(`The zip archive contains more than one data file (${dataEntries.map(entry => entry.name).join(', ')}); upload one file per import`)
+  }
+
+  const entry = dataEntries[0]
+  const contents = await readZipEntry(entry)
+  return { fileName: entry.name.split('/').pop()!, data: contents }
+}
+
+/**
+ * Reduce an upload to the data file it carries. getPrivateKey is only called for PGP
+ * layers, so plain and compressed uploads don't need an agency key on file.
+ */
+export async function unpackImportUpload(
+  data: Buffer,
+  fileName: string,
+  getPrivateKey: () => Promise<PrivateKey | null>
+): Promise<UnpackedUpload> {
+  const encodings: UploadEncoding[] = []
+  let current = { fileName, data }
+
+  for (let encoding = getUploadEncoding(current.fileName); encoding; encoding = getUploadEncoding(current.fileName)) {
+    if (encodings.length >= MAX_LAYERS) {
+      throw new Error('The upload is wrapped in too many layers of compression or encryption')
+    }
+
+    if (encoding === 'pgp') {
+      const privateKey = await getPrivateKey()
+      if (!privateKey) {
+        throw new Error('This file is PGP-encrypted but no import decryption key is configured for the agency')
+      }
+      current = { fileName: stripExtension(current.fileName), data: await decryptPgp(current.data, privateKey) }
+    } else if (encoding === 'gzip') {
+      try {
+        current = {
+          fileName: stripExtension(current.fileName),
+          data: await gunzipAsync(current.data, { maxOutputLength: MAX_UNPACKED_BYTES })
+        }
+      } catch (gzipError) {
+        throw new Error(`Could not decompress gzip file: ${gzipError instanceof Error ? gzipError.message : 'unknown error'}`)
+      }
+    } else {
+      current = await extractZip(current.data)
+    }
+
+    encodings.push(encoding)
+    console.log(`📋 [UNPACK] Removed ${encoding} layer, now ${current.fileName} (${current.data.byteLength} bytes)`)
+  }
+
+  if (!isImportDataFile(current.fileName)) {
+    throw new Error(`Unsupported file inside upload: ${current.fileName}. Expected a CSV, TSV, text or Excel file.`)
+  }
+
+  return { fileName: current.fileName, data: current.data, encodings }
+}
@@ -0,0 +1,311 @@
+// Notes and call-history imports for account conversions
+// Rows load into debtor_notes / calls against the account they name, keeping the previous
+// agency's timestamps and the author or collector as text.
+
+import { ImportChangeContext, insertTracked, recordImportChanges } from '@/lib/import/change-log'
+import { AccountMatchScope, findAccountByNumber } from '@/lib/import/account-changes'
+import type { CallImportRow, NoteImportRow } from '@/types/import'
+
+export const NOTE_TYPES = ['general', 'contact', 'payment', 'promise', 'hardship', 'legal', 'skip_trace', 'other']
+export const CALL_RESULTS = [
+  'no_answer', 'left_message', 'spoke_to_debtor', 'spoke_to_relative', 'wrong_number', 'disconnected',
+  'do_not_call', 'promise_to_pay', 'payment_received', 'bankruptcy', 'deceased', 'other'
+]
+
+// Result codes other agencies commonly use for the same outcomes
+const CALL_RESULT_ALIASES: Record<string, string> = {
+  na: 'no_answer',
+  noans: 'no_answer',
+  busy: 'no_answer',
+  lm: 'left_message',
+  lmtc: 'left_message',
+  voicemail: 'left_message',
+  vm: 'left_message',
+  rpc: 'spoke_to_debtor',
+  contact: 'spoke_to_debtor',
+  tpc: 'spoke_to_relative',
+  third_party: 'spoke_to_relative',
+  wn: 'wrong_number',
+  disc: 'disconnected',
+  dnc: 'do_not_call',
+  ptp: 'promise_to_pay',
+  promise: 'promise_to_pay',
+  paid: 'payment_received',
+  bk: 'bankruptcy',
+  dec: 'deceased'
+}
+
+export interface HistoryChunkResult {
+  processedCount: number
+  loadedCount: number
+  errors: string[]
+}
+
+export interface ImportedNote {
+  accountNumber: string
+  createdAt: string
+  noteType: string
+  noteText: string
+  originalAuthor: string | null
+}
+
+export interface ImportedCall {
+  accountNumber: string
+  callDate: string
+  callDuration: number | null
+  callResult: string
+  originalResult: string | null
+  callNotes: string | null
+  originalCollector: string | null
+  phoneNumber: string | null
+}
+
+function clean(value: any): string | null {
+  if (value === null || value === undefined) return null
+  const trimmed = String(value).trim()
+  return trimmed === '' ? null : trimmed
+}
+
+function toCode(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+}
+
+// Notes and calls keep their time of day, so parse to a full timestamp
+function toTimestamp(value: any): string | null {
+  const raw = clean(value)
+  if (!raw) return null
+  const parsed = new Date(raw)
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString()
+}
+
+function rowAccountNumber(mappedData: { original_account_number?: string; account_number?: string }): string | null {
+  return clean(mappedData.original_account_number) || clean(mappedData.account_number)
+}
+
+export function mapCallResult(value: any): string {
+  const raw = clean(value)
+  if (!raw) return 'other'
+  const code = toCode(raw)
+  if (CALL_RESULTS.includes(code)) return code
+  return CALL_RESULT_ALIASES[code] || 'other'
+}
+
+// Read a staged note row; returns a message instead when the row can't be loaded
+export function parseNoteRow(mappedData: NoteImportRow): ImportedNote | string {
+  const accountNumber = rowAccountNumber(mappedData)
+  if (!accountNumber) return 'Account number is required'
+
+  const noteText = clean(mappedData.note_text)
+  if (!noteText) return 'Note text is required'
+
+  const createdAt = toTimestamp(mappedData.note_date)
+  if (!createdAt) return 'Note date is missing or invalid'
+
+  const noteType = toCode(clean(mappedData.note_type) || '')
+  return {
+    accountNumber,
+    createdAt,
+    noteType: NOTE_TYPES.includes(noteType) ? noteType : (noteType ? 'other' : 'general'),
+    noteText,
+    originalAuthor: clean(mappedData.author)
+  }
+}
+
+// Read a staged call row; returns a message instead when the row can't be loaded
+export function parseCallRow(mappedData: CallImportRow): ImportedCall | string {
+  const accountNumber = rowAccountNumber(mappedData)
+  if (!accountNumber) return 'Account number is required'
+
+  const callDate = toTimestamp(mappedData.call_date)
+  if (!callDate) return 'Call date is missing or invalid'
+
+  const duration = clean(mappedData.call_duration)
+  const callDuration = duration !== null ? parseInt(duration, 10) : null
+  if (callDuration !== null && (isNaN(callDuration) || callDuration < 0)) {
+    return 'Call duration must be a whole number of seconds'
+  }
+
+  return {
+    accountNumber,
+    callDate,
+    callDuration,
+    callResult: mapCallResult(mappedData.call_result),
+    originalResult: clean(mappedData.call_result),
+    callNotes: clean(mappedData.call_notes),
+    originalCollector: clean(mappedData.collector),
+    phoneNumber: clean(mappedData.phone_number)
+  }
+}
+
+// The same history is often sent again with the next batch of conversions
+async function noteExists(supabase: any, accountId: string, note: ImportedNote): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('debtor_notes')
+    .select('id')
+    .eq('debtor_id', accountId)
+    .eq('created_at', note.createdAt)
+    .eq('note_text', note.noteText)
+    .limit(1)
+
+  if (error) throw new Error(`Failed to check for duplicate note: ${error.message}`)
+  return !!data && data.length > 0
+}
+
+async function callExists(supabase: any, accountId: string, call: ImportedCall): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('calls')
+    .select('id')
+    .eq('debtor_id', accountId)
+    .eq('call_date', call.callDate)
+    .eq('call_result', call.callResult)
+    .limit(1)
+
+  if (error) throw new Error(`Failed to check for duplicate call: ${error.message}`)
+  return !!data && data.length > 0
+}
+
+export async function findExistingHistoryRecord(
+  supabase: any,
+  importType: 'notes' | 'calls',
+  accountId: string,
+  record: ImportedNote | ImportedCall
+): Promise<boolean> {
+  return importType === 'notes'
+    ? noteExists(supabase, accountId, record as ImportedNote)
+    : callExists(supabase, accountId, record as ImportedCall)
+}
+
+function sameInstant(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime()
+}
+
+/**
+ * findExistingHistoryRecord for a page of rows, one query per page instead of per row.
+ * Flags come back in the order of the entries.
+ */
+export async function findExistingHistoryRecords(
+  supabase: any,
+  importType: 'notes' | 'calls',
+  entries: Array<{ accountId: string; record: ImportedNote | ImportedCall }>
+): Promise<boolean[]> {
+  if (entries.length === 0) return []
+
+  const accountIds = Array.from(new Set(entries.map(entry => entry.accountId)))
+  const { data, error } = importType === 'notes'
+    ? await supabase
+      .from('debtor_notes')
+      .select('debtor_id, created_at, note_text')
+      .in('debtor_id', accountIds)
+      .in('created_at', Array.from(new Set(entries.map(entry => (entry.record as ImportedNote).createdAt))))
+    : await supabase
+      .from('calls')
+      .select('debtor_id, call_date, call_result')
+      .in('debtor_id', accountIds)
+      .in('call_date', Array.from(new Set(entries.map(entry => (entry.record as ImportedCall).callDate))))
+
+  if (error) throw new Error(`Failed to check for duplicate ${importType}: ${error.message}`)
+
+  const existingByAccount = new Map<string, any[]>()
+  for (const existing of data || []) {
+    const records = existingByAccount.get(existing.debtor_id) || []
+    records.push(existing)
+    existingByAccount.set(existing.debtor_id, records)
+  }
+
+  return entries.map(({ accountId, record }) => (existingByAccount.get(accountId) || []).some(existing => {
+    if (importType === 'notes') {
+      const note = record as ImportedNote
+      return sameInstant(existing.created_at, note.createdAt) && existing.note_text === note.noteText
+    }
+    const call = record as ImportedCall
+    return sameInstant(existing.call_date, call.callDate) && existing.call_result === call.callResult
+  }))
+}
+
+async function insertNote(supabase: any, accountId: string, note: ImportedNote, context: ImportChangeContext) {
+  await insertTracked(supabase, 'debtor_notes', {
+    debtor_id: accountId,
+    user_id: null,
+    note_type: note.noteType,
+    note_text: note.noteText,
+    original_author: note.originalAuthor,
+    source: 'import',
+    created_at: note.createdAt
+  }, context)
+}
+
+async function insertCall(supabase: any, accountId: string, call: ImportedCall, context: ImportChangeContext) {
+  await insertTracked(supabase, 'calls', {
+    debtor_id: accountId,
+    collector_id: null,
+    call_date: call.callDate,
+    call_duration: call.callDuration,
+    call_result: call.callResult,
+    original_result: call.originalResult,
+    call_notes: call.callNotes,
+    original_collector: call.originalCollector,
+    phone_number: call.phoneNumber,
+    source: 'import'
+  }, context)
+}
+
+/**
+ * Load one chunk of note or call rows. Rows already on file for the account are skipped
+ * rather than reported, so resending a history file is harmless.
+ */
+export async function processHistoryDataChunk(
+  supabase: any,
+  stagingData: any[],
+  importType: 'notes' | 'calls',
+  jobId: string,
+  scope: AccountMatchScope
+): Promise<HistoryChunkResult> {
+  let processedCount = 0
+  let loadedCount = 0
+  const errors: string[] = []
+  const label = importType === 'notes' ? 'NOTES' : 'CALLS'
+
+  console.log(`🚀 [${label}] Processing chunk: ${stagingData.length} ${importType} rows`)
+
+  for (const row of stagingData) {
+    const changeContext: ImportChangeContext = { jobId, rowNumber: row.row_number, changes: [] }
+
+    try {
+      const record = importType === 'notes'
+        ? parseNoteRow((row.mapped_data || {}) as NoteImportRow)
+        : parseCallRow((row.mapped_data || {}) as CallImportRow)
+      if (typeof record === 'string') {
+        errors.push(`Row ${row.row_number}: ${record}`)
+        continue
+      }
+
+      const account = await findAccountByNumber(supabase, scope, record.accountNumber)
+      if (!account) {
+        errors.push(`Row ${row.row_number}: No account found for account number ${record.accountNumber}`)
+        continue
+      }
+
+      if (await findExistingHistoryRecord(supabase, importType, account.id, record)) {
+        console.log(`📋 [${label}] Row ${row.row_number} already on file for account ${account.id}`)
+        continue
+      }
+
+      if (importType === 'notes') {
+        await insertNote(supabase, account.id, record as ImportedNote, changeContext)
+      } else {
+        await insertCall(supabase, account.id, record as ImportedCall, changeContext)
+      }
+      loadedCount++
+    } catch (rowError) {
+      console.error(`[${label}] Error processing row ${row.row_number}:`, rowError)
+      errors.push(`Row ${row.row_number}: ${rowError instanceof Error ? rowError.message : 'Unknown error'}`)
+    } finally {
+      await recordImportChanges(supabase, changeContext.changes)
+      processedCount++
+    }
+  }
+
+  console.log(`✅ [${label}] Chunk completed: ${loadedCount}/${processedCount} rows loaded, ${errors.length} errors`)
+
+  return { processedCount, loadedCount, errors }
+}
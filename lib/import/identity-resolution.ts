@@ -0,0 +1,250 @@
+// Identity resolution for account imports
+// Candidates come from find_identity_candidates (normalized SSN, pg_trgm name/address similarity,
+// DOB and phone); each is scored here and the row is auto-linked, created, or queued for review.
+// Only persons with accounts in the job's client or agency are candidates.
+
+import { AccountMatchScope } from '@/lib/import/account-changes'
+
+export interface IdentitySignals {
+  ssnMatch: boolean
+  ssnConflict: boolean
+  nameScore: number
+  dobMatch: boolean
+  addressScore: number
+  phoneMatch: boolean
+}
+
+export interface IdentityCandidate {
+  personId: string
+  score: number
+  signals: IdentitySignals
+}
+
+export type IdentityResolution =
+  | { action: 'link'; personId: string; score: number; candidates: IdentityCandidate[] }
+  | { action: 'create'; candidates: IdentityCandidate[] }
+  | { action: 'review'; reason: string; candidates: IdentityCandidate[] }
+  | { action: 'reject'; reason: string; candidates: IdentityCandidate[] }
+
+// Weight of each signal; a row is only scored on the signals it actually carries
+const SIGNAL_WEIGHTS = {
+  ssn: 0.5,
+  name: 0.25,
+  dob: 0.15,
+  address: 0.05,
+  phone: 0.05
+}
+
+// Without an SSN match, a candidate needs at least this score (plus DOB and a contact match) to auto-link
+export const AUTO_LINK_SCORE = 0.9
+// Candidates between this and an auto-link go to a reviewer
+export const REVIEW_SCORE = 0.6
+// Below this the SSN matched but the name looks like someone else
+const SSN_NAME_MISMATCH_SCORE = 0.3
+
+function hasValue(value: any): boolean {
+  return value !== undefined && value !== null && String(value).trim() !== ''
+}
+
+function rowAddress(mappedData: Record<string, any>): string | null {
+  const address = [mappedData.address_line1, mappedData.address_line2, mappedData.city, mappedData.state, mappedData.zip_code]
+    .filter(hasValue)
+    .join(', ')
+  return address || null
+}
+
+function scoreCandidate(mappedData: Record<string, any>, signals: IdentitySignals): number {
+  let earned = 0
+  let possible = 0
+
+  if (hasValue(mappedData.ssn)) {
+    possible += SIGNAL_WEIGHTS.ssn
+    if (signals.ssnMatch) earned += SIGNAL_WEIGHTS.ssn
+  }
+  if (hasValue(mappedData.first_name) || hasValue(mappedData.last_name)) {
+    possible += SIGNAL_WEIGHTS.name
+    earned += SIGNAL_WEIGHTS.name * signals.nameScore
+  }
+  if (hasValue(mappedData.date_of_birth)) {
+    possible += SIGNAL_WEIGHTS.dob
+    if (signals.dobMatch) earned += SIGNAL_WEIGHTS.dob
+  }
+  if (rowAddress(mappedData)) {
+    possible += SIGNAL_WEIGHTS.address
+    earned += SIGNAL_WEIGHTS.address * signals.addressScore
+  }
+  if (hasValue(mappedData.phone_primary)) {
+    possible += SIGNAL_WEIGHTS.phone
+    if (signals.phoneMatch) earned += SIGNAL_WEIGHTS.phone
+  }
+
+  return possible > 0 ? Math.round((earned / possible) * 1000) / 1000 : 0
+}
+
+function candidateSearchParams(mappedData: Record<string, any>) {
+  return {
+    ssn: hasValue(mappedData.ssn) ? String(mappedData.ssn).trim() : null,
+    first_name: hasValue(mappedData.first_name) ? String(mappedData.first_name).trim() : null,
+    last_name: hasValue(mappedData.last_name) ? String(mappedData.last_name).trim() : null,
+    dob: hasValue(mappedData.date_of_birth) ? String(mappedData.date_of_birth).trim() : null,
+    address: rowAddress(mappedData),
+    phone: hasValue(mappedData.phone_primary) ? String(mappedData.phone_primary).trim() : null
+  }
+}
+
+function toCandidate(mappedData: Record<string, any>, candidate: any): IdentityCandidate {
+  const signals: IdentitySignals = {
+    ssnMatch: !!candidate.ssn_match,
+    ssnConflict: !!candidate.ssn_conflict,
+    nameScore: Number(candidate.name_score) || 0,
+    dobMatch: !!candidate.dob_match,
+    addressScore: Number(candidate.address_score) || 0,
+    phoneMatch: !!candidate.phone_match
+  }
+  return { personId: candidate.person_id, score: scoreCandidate(mappedData, signals), signals }
+}
+
+function byScore(a: IdentityCandidate, b: IdentityCandidate) {
+  return b.score - a.score
+}
+
+export async function findIdentityCandidates(
+  supabase: any,
+  scope: AccountMatchScope,
+  mappedData: Record<string, any>
+): Promise<IdentityCandidate[]> {
+  const params = candidateSearchParams(mappedData)
+  const { data, error } = await supabase.rpc('find_identity_candidates', {
+    p_ssn: params.ssn,
+    p_first_name: params.first_name,
+    p_last_name: params.last_name,
+    p_dob: params.dob,
+    p_address: params.address,
+    p_phone: params.phone,
+    p_client_id: scope.clientId,
+    p_agency_id: scope.agencyId
+  })
+
+  if (error) {
+    throw new Error(`Identity candidate search failed: ${error.message}`)
+  }
+
+  return (data || []).map((candidate: any) => toCandidate(mappedData, candidate)).sort(byScore)
+}
+
+// Rows that can't be identified at all are rejected without a candidate search
+function unidentifiable(mappedData: Record<string, any>): boolean {
+  return !hasValue(mappedData.ssn) && !hasValue(mappedData.first_name) && !hasValue(mappedData.last_name)
+}
+
+/**
+ * Decide who an incoming account row belongs to.
+ * An SSN match links unless the name clearly belongs to someone else; without one, only a
+ * near-certain match on name, DOB and contact details links automatically. Anything in between
+ * is left to a reviewer, and a row with no usable match creates a new person.
+ */
+function decideIdentity(mappedData: Record<string, any>, candidates: IdentityCandidate[]): IdentityResolution {
+  const hasName = hasValue(mappedData.first_name) || hasValue(mappedData.last_name)
+
+  const ssnMatches = candidates.filter(candidate => candidate.signals.ssnMatch)
+  if (ssnMatches.length === 1) {
+    const match = ssnMatches[0]
+    if (!hasName || match.signals.nameScore >= SSN_NAME_MISMATCH_SCORE) {
+      return { action: 'link', personId: match.personId, score: match.score, candidates }
+    }
+    return { action: 'review', reason: 'SSN matches an existing person with a different name', candidates }
+  }
+  if (ssnMatches.length > 1) {
+    return { action: 'review', reason: 'SSN matches more than one existing person', candidates }
+  }
+
+  // A different SSN on file means a different person, however close the rest looks
+  const eligible = candidates.filter(candidate => !candidate.signals.ssnConflict)
+  const best = eligible[0]
+
+  if (best && best.score >= AUTO_LINK_SCORE && !hasValue(mappedData.ssn) && best.signals.dobMatch &&
+      (best.signals.phoneMatch || best.signals.addressScore >= REVIEW_SCORE)) {
+    const runnerUp = eligible[1]
+    if (!runnerUp || runnerUp.score < REVIEW_SCORE) {
+      return { action: 'link', personId: best.personId, score: best.score, candidates }
+    }
+  }
+
+  if (best && best.score >= REVIEW_SCORE) {
+    return { action: 'review', reason: 'Possible match with an existing person', candidates }
+  }
+
+  return { action: 'create', candidates }
+}
+
+const UNIDENTIFIABLE: IdentityResolution = { action: 'reject', reason: 'No SSN or name provided - cannot identify person', candidates: [] }
+
+export async function resolveIdentity(
+  supabase: any,
+  scope: AccountMatchScope,
+  mappedData: Record<string, any>
+): Promise<IdentityResolution> {
+  if (unidentifiable(mappedData)) return UNIDENTIFIABLE
+  return decideIdentity(mappedData, await findIdentityCandidates(supabase, scope, mappedData))
+}
+
+/**
+ * resolveIdentity for a page of rows, searching candidates for all of them in one call.
+ * Resolutions come back in the order of the rows.
+ */
+export async function resolveIdentities(
+  supabase: any,
+  scope: AccountMatchScope,
+  rows: Record<string, any>[]
+): Promise<IdentityResolution[]> {
+  const searchable = rows.map((mappedData, index) => ({ mappedData, index })).filter(row => !unidentifiable(row.mappedData))
+  const candidatesByRow = new Map<number, IdentityCandidate[]>()
+
+  if (searchable.length > 0) {
+    const { data, error } = await supabase.rpc('find_identity_candidates_batch', {
+      p_rows: searchable.map(row => candidateSearchParams(row.mappedData)),
+      p_client_id: scope.clientId,
+      p_agency_id: scope.agencyId
+    })
+
+    if (error) {
+      throw new Error(`Identity candidate search failed: ${error.message}`)
+    }
+
+    for (const candidate of data || []) {
+      const row = searchable[candidate.row_index]
+      if (!row) continue
+      const candidates = candidatesByRow.get(row.index) || []
+      candidates.push(toCandidate(row.mappedData, candidate))
+      candidatesByRow.set(row.index, candidates)
+    }
+  }
+
+  return rows.map((mappedData, index) => unidentifiable(mappedData)
+    ? UNIDENTIFIABLE
+    : decideIdentity(mappedData, (candidatesByRow.get(index) || []).sort(byScore)))
+}
+
+// Park a row for a reviewer. Re-processing the same row (e.g. after a worker restart) is a no-op.
+export async function queueIdentityReview(
+  supabase: any,
+  jobId: string,
+  rowNumber: number,
+  mappedData: Record<string, any>,
+  candidates: IdentityCandidate[],
+  reason: string
+) {
+  const { error } = await supabase
+    .from('import_identity_reviews')
+    .upsert({
+      job_id: jobId,
+      row_number: rowNumber,
+      mapped_data: mappedData,
+      reason,
+      candidates: candidates.filter(candidate => candidate.score >= REVIEW_SCORE || candidate.signals.ssnMatch)
+    }, { onConflict: 'job_id,row_number', ignoreDuplicates: true })
+
+  if (error) {
+    throw new Error(`Failed to queue identity review: ${error.message}`)
+  }
+}
@@ -0,0 +1,157 @@
+// Agency PGP keys for decrypting encrypted import uploads
+// The armored private key and its passphrase are both sealed with IMPORT_KEY_ENCRYPTION_SECRET,
+// so a key stored without a passphrase is no more usable from the table alone than one with.
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { decryptKey, readPrivateKey, PrivateKey } from 'openpgp'
+import { AuthenticatedUser } from '@/lib/auth-utils'
+
+export interface AgencyImportKeySummary {
+  agencyId: string
+  fingerprint: string
+  userIds: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+function getSealingKey(): Buffer {
+  const secret = process.env.IMPORT_KEY_ENCRYPTION_SECRET
+  if (!secret) {
+    throw new Error('IMPORT_KEY_ENCRYPTION_SECRET is not configured')
+  }
+  return createHash('sha256').update(secret).digest()
+}
+
+// AES-256-GCM, stored as iv.tag.ciphertext in base64
+function sealSecret(value: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getSealingKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.')
+}
+
+function unsealSecret(sealed: string): string {
+  const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64'))
+  const decipher = createDecipheriv('aes-256-gcm', getSealingKey(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
+
+// Keys saved before the armored key was sealed are still stored as uploaded
+function unsealArmoredKey(stored: string): string {
+  return stored.startsWith('-----BEGIN') ? stored : unsealSecret(stored)
+}
+
+async function unlockPrivateKey(armoredKey: string, passphrase: string | null): Promise<PrivateKey> {
+  const privateKey = await readPrivateKey({ armoredKey })
+  if (privateKey.isDecrypted()) return privateKey
+  if (!passphrase) {
+    throw new Error('This private key is passphrase-protected; the passphrase is required')
+  }
+  return decryptKey({ privateKey, passphrase })
+}
+
+function toSummary(row: any): AgencyImportKeySummary {
+  return {
+    agencyId: row.agency_id,
+    fingerprint: row.fingerprint,
+    userIds: row.user_ids || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export async function getAgencyImportKeySummary(supabase: any, agencyId: string): Promise<AgencyImportKeySummary | null> {
+  const { data, error } = await supabase
+    .from('agency_import_keys')
+    .select('agency_id, fingerprint, user_ids, created_at, updated_at')
+    .eq('agency_id', agencyId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load import key: ${error.message}`)
+  return data ? toSummary(data) : null
+}
+
+/**
+ * Store (or replace) an agency's import key. The key is unlocked once here so a wrong
+ * passphrase or a public key is rejected at upload time rather than on the first import.
+ */
+export async function saveAgencyImportKey(
+  supabase: any,
+  agencyId: string,
+  armoredKey: string,
+  passphrase: string | null,
+  userId: string
+): Promise<AgencyImportKeySummary> {
+  let privateKey: PrivateKey
+  try {
+    privateKey = await unlockPrivateKey(armoredKey, passphrase)
+  } catch (keyError) {
+    throw new Error(`Invalid private key: ${keyError instanceof Error ? keyError.message : 'could not be read'}`)
+  }
+
+  const { data, error } = await supabase
+    .from('agency_import_keys')
+    .upsert({
+      agency_id: agencyId,
+      fingerprint: privateKey.getFingerprint().toUpperCase(),
+      user_ids: privateKey.getUserIDs(),
+      armored_private_key: sealSecret(armoredKey.trim()),
+      passphrase_encrypted: passphrase ? sealSecret(passphrase) : null,
+      created_by: userId,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'agency_id' })
+    .select('agency_id, fingerprint, user_ids, created_at, updated_at')
+    .single()
+
+  if (error) throw new Error(`Failed to save import key: ${error.message}`)
+  return toSummary(data)
+}
+
+export async function deleteAgencyImportKey(supabase: any, agencyId: string): Promise<void> {
+  const { error } = await supabase
+    .from('agency_import_keys')
+    .delete()
+    .eq('agency_id', agencyId)
+
+  if (error) throw new Error(`Failed to delete import key: ${error.message}`)
+}
+
+// Unlocked key for decrypting an upload, or null when the agency hasn't stored one
+export async function loadAgencyPrivateKey(supabase: any, agencyId: string | null): Promise<PrivateKey | null> {
+  if (!agencyId) return null
+
+  const { data, error } = await supabase
+    .from('agency_import_keys')
+    .select('armored_private_key, passphrase_encrypted')
+    .eq('agency_id', agencyId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load import key: ${error.message}`)
+  if (!data) return null
+
+  const passphrase = data.passphrase_encrypted ? unsealSecret(data.passphrase_encrypted) : null
+  return unlockPrivateKey(unsealArmoredKey(data.armored_private_key), passphrase)
+}
+
+/**
+ * The agency whose key decrypts an upload: the uploader's own. Platform admins have no agency of
+ * their own and use the one owning the portfolio - which resolveImportScope has already checked
+ * is theirs to import to. Client and buyer uploads have no agency key.
+ */
+export function resolveImportAgencyId(user: AuthenticatedUser, portfolioAgencyId: string | null): string | null {
+  const { roleType, organizationId } = user.activeRole
+  if (roleType === 'platform_admin') return portfolioAgencyId
+  return ['agency_admin', 'agency_user'].includes(roleType) ? organizationId || null : null
+}
+
+// Drop-folder files are decrypted with the key of the agency owning the location's portfolio
+export async function getPortfolioAgencyId(supabase: any, portfolioId: string | null): Promise<string | null> {
+  if (!portfolioId) return null
+  const { data: portfolio } = await supabase
+    .from('master_portfolios')
+    .select('agency_id')
+    .eq('id', portfolioId)
+    .maybeSingle()
+  return portfolio?.agency_id || null
+}
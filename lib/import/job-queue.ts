@@ -0,0 +1,234 @@
+// Database-backed queue for import work (see import_job_tasks)
+// Tasks are leased by a worker, kept alive with heartbeats and retried with backoff
+
+export type ImportTaskType = 'stage' | 'validate' | 'dry_run' | 'process' | 'rollback'
+
+export interface ImportJobTask {
+  id: string
+  job_id: string
+  task_type: ImportTaskType
+  payload: Record<string, any>
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'dead'
+  attempts: number
+  max_attempts: number
+  run_at: string
+  locked_by: string | null
+  locked_until: string | null
+  heartbeat_at: string | null
+  checkpoint: Record<string, any>
+  last_error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export const TASK_LEASE_SECONDS = 120
+const RETRY_BASE_DELAY_SECONDS = 30
+const RETRY_MAX_DELAY_SECONDS = 30 * 60
+
+// Raised when a heartbeat finds another worker has taken over the task
+export class LeaseLostError extends Error {
+  constructor(taskId: string) {
+    super(`Lease lost for import task ${taskId}`)
+    this.name = 'LeaseLostError'
+  }
+}
+
+/**
+ * Queue a task for a job. If a live task of the same type already exists it is returned instead,
+ * so repeated clicks or retries from the UI never double-process a job.
+ */
+export async function enqueueImportTask(
+  supabase: any,
+  jobId: string,
+  taskType: ImportTaskType,
+  payload: Record<string, any> = {},
+  checkpoint: Record<string, any> = {}
+): Promise<ImportJobTask> {
+  const { data: existing, error: existingError } = await supabase
+    .from('import_job_tasks')
+    .select('*')
+    .eq('job_id', jobId)
+    .eq('task_type', taskType)
+    .in('status', ['queued', 'running'])
+    .limit(1)
+    .maybeSingle()
+
+  if (existingError) {
+    throw new Error(`Failed to check import task queue: ${existingError.message}`)
+  }
+
+  if (existing) {
+    console.log(`📋 [QUEUE] Job ${jobId} already has a ${existing.status} ${taskType} task: ${existing.id}`)
+    return existing
+  }
+
+  const { data: task, error } = await supabase
+    .from('import_job_tasks')
+    .insert({
+      job_id: jobId,
+      task_type: taskType,
+      payload,
+      checkpoint,
+      status: 'queued',
+      run_at: new Date().toISOString()
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to enqueue ${taskType} task: ${error.message}`)
+  }
+
+  console.log(`📋 [QUEUE] Enqueued ${taskType} task ${task.id} for job ${jobId}`)
+  return task
+}
+
+export async function claimNextImportTask(supabase: any, workerId: string): Promise<ImportJobTask | null> {
+  const { data, error } = await supabase.rpc('claim_import_job_task', {
+    p_worker_id: workerId,
+    p_lease_seconds: TASK_LEASE_SECONDS
+  })
+
+  if (error) {
+    throw new Error(`Failed to claim import task: ${error.message}`)
+  }
+
+  return Array.isArray(data) ? data[0] || null : data || null
+}
+
+/**
+ * Extend the lease and optionally persist a new checkpoint.
+ * Throws LeaseLostError if the task was reclaimed by another worker.
+ */
+export async function heartbeatImportTask(
+  supabase: any,
+  task: ImportJobTask,
+  workerId: string,
+  checkpoint?: Record<string, any>
+) {
+  const { data: stillOwned, error } = await supabase.rpc('heartbeat_import_job_task', {
+    p_task_id: task.id,
+    p_worker_id: workerId,
+    p_lease_seconds: TASK_LEASE_SECONDS,
+    p_checkpoint: checkpoint || null
+  })
+
+  if (error) {
+    throw new Error(`Failed to heartbeat import task: ${error.message}`)
+  }
+
+  if (!stillOwned) {
+    throw new LeaseLostError(task.id)
+  }
+
+  if (checkpoint) {
+    task.checkpoint = checkpoint
+  }
+}
+
+export async function completeImportTask(supabase: any, task: ImportJobTask, workerId: string) {
+  const { error } = await supabase
+    .from('import_job_tasks')
+    .update({
+      status: 'completed',
+      locked_by: null,
+      locked_until: null,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', task.id)
+    .eq('locked_by', workerId)
+
+  if (error) {
+    throw new Error(`Failed to complete import task: ${error.message}`)
+  }
+}
+
+/**
+ * Hand a task back to the queue without counting the attempt, e.g. when a worker
+ * runs out of its time budget. The next claim resumes from the saved checkpoint.
+ */
+export async function releaseImportTask(supabase: any, task: ImportJobTask, workerId: string) {
+  const { error } = await supabase
+    .from('import_job_tasks')
+    .update({
+      status: 'queued',
+      attempts: Math.max(0, task.attempts - 1),
+      run_at: new Date().toISOString(),
+      locked_by: null,
+      locked_until: null
+    })
+    .eq('id', task.id)
+    .eq('locked_by', workerId)
+
+  if (error) {
+    throw new Error(`Failed to release import task: ${error.message}`)
+  }
+}
+
+// Exponential backoff capped at 30 minutes: 30s, 60s, 120s, ...
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_SECONDS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_SECONDS)
+}
+
+/**
+ * Record a failed attempt. The task is re-queued with backoff until it runs out of attempts,
+ * at which point it is marked dead and the caller should fail the import job.
+ * Returns true when the task will be retried.
+ */
+export async function failImportTask(
+  supabase: any,
+  task: ImportJobTask,
+  workerId: string,
+  errorMessage: string
+): Promise<boolean> {
+  const willRetry = task.attempts < task.max_attempts
+  const update: Record<string, any> = {
+    status: willRetry ? 'queued' : 'dead',
+    last_error: errorMessage,
+    locked_by: null,
+    locked_until: null
+  }
+
+  if (willRetry) {
+    const delaySeconds = getRetryDelaySeconds(task.attempts)
+    update.run_at = new Date(Date.now() + delaySeconds * 1000).toISOString()
+    console.warn(`⚠️ [QUEUE] Task ${task.id} attempt ${task.attempts}/${task.max_attempts} failed, retrying in ${delaySeconds}s`)
+  } else {
+    update.completed_at = new Date().toISOString()
+    console.error(`❌ [QUEUE] Task ${task.id} exhausted ${task.max_attempts} attempts, marking dead`)
+  }
+
+  const { error } = await supabase
+    .from('import_job_tasks')
+    .update(update)
+    .eq('id', task.id)
+    .eq('locked_by', workerId)
+
+  if (error) {
+    console.error(`❌ [QUEUE] Failed to record task failure for ${task.id}:`, error)
+  }
+
+  return willRetry
+}
+
+// Cancel any live tasks for a job (used when a job is cancelled or deleted), or only those of one type
+export async function cancelImportTasks(supabase: any, jobId: string, taskType?: ImportTaskType) {
+  let query = supabase
+    .from('import_job_tasks')
+    .update({
+      status: 'failed',
+      last_error: 'Cancelled',
+      locked_by: null,
+      locked_until: null,
+      completed_at: new Date().toISOString()
+    })
+    .eq('job_id', jobId)
+    .in('status', ['queued', 'running'])
+  if (taskType) query = query.eq('task_type', taskType)
+
+  const { error } = await query
+  if (error) {
+    console.error(`❌ [QUEUE] Failed to cancel tasks for job ${jobId}:`, error)
+  }
+}
@@ -0,0 +1,433 @@
+import { randomUUID } from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import {
+  ImportJobTask,
+  LeaseLostError,
+  TASK_LEASE_SECONDS,
+  claimNextImportTask,
+  completeImportTask,
+  enqueueImportTask,
+  failImportTask,
+  heartbeatImportTask,
+  releaseImportTask
+} from '@/lib/import/job-queue'
+import { stageImportFile } from '@/lib/import/staging'
+import { validateImportJob } from '@/lib/import/job-validation'
+import { recordDropJobValidation } from '@/lib/import/drop-folders'
+import { loadImportAssignmentState, processImportChunk, resolveImportClientId } from '@/lib/import/process-chunk'
+import { writeFailedRowsFile } from '@/lib/import/failed-rows'
+import { rollbackImportJob } from '@/lib/import/rollback'
+import { runImportDryRun } from '@/lib/import/dry-run'
+import { getImportModeError } from '@/lib/import/account-changes'
+import { logImportEvent, AUDIT_ACTIONS } from '@/lib/audit-log'
+
+export const DEFAULT_PROCESS_CHUNK_SIZE = 100
+// Leave headroom under the 60s serverless limit for the final checkpoint write
+const DEFAULT_TIME_BUDGET_MS = 50 * 1000
+// Keep accumulated row errors bounded on the job record
+const MAX_STORED_PROCESSING_ERRORS = 1000
+
+export interface ImportWorkerOptions {
+  timeBudgetMs?: number
+  maxTasks?: number
+}
+
+export interface ImportWorkerSummary {
+  workerId: string
+  completed: number
+  released: number
+  failed: number
+  recovered: number
+}
+
+type TaskOutcome = 'completed' | 'released'
+
+// Raised from inside a handler when the time budget is spent; the task is released, not failed
+class TimeBudgetExceeded extends Error {
+  constructor() {
+    super('Worker time budget exhausted')
+    this.name = 'TimeBudgetExceeded'
+  }
+}
+
+const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase admin environment variables not configured')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+/**
+ * Claim and run queued import tasks until the queue is empty or the time budget runs out.
+ * Safe to run concurrently - each task is leased to a single worker.
+ */
+export async function runImportWorker(options: ImportWorkerOptions = {}): Promise<ImportWorkerSummary> {
+  const supabase = createAdminSupabaseClient()
+  const workerId = `import-worker-${randomUUID()}`
+  const deadline = Date.now() + (options.timeBudgetMs || DEFAULT_TIME_BUDGET_MS)
+  const summary: ImportWorkerSummary = { workerId, completed: 0, released: 0, failed: 0, recovered: 0 }
+
+  console.log(`🚀 [WORKER] ${workerId} starting`)
+
+  summary.recovered = await recoverOrphanedImportJobs(supabase)
+
+  while (Date.now() < deadline) {
+    if (options.maxTasks && summary.completed + summary.released + summary.failed >= options.maxTasks) break
+
+    const task = await claimNextImportTask(supabase, workerId)
+    if (!task) break
+
+    console.log(`📋 [WORKER] Claimed ${task.task_type} task ${task.id} for job ${task.job_id} (attempt ${task.attempts}/${task.max_attempts})`)
+
+    try {
+      const outcome = await runTask(supabase, task, workerId, deadline)
+      if (outcome === 'completed') {
+        await completeImportTask(supabase, task, workerId)
+        summary.completed++
+      } else {
+        await releaseImportTask(supabase, task, workerId)
+        summary.released++
+      }
+    } catch (error) {
+      if (error instanceof LeaseLostError) {
+        // Another worker owns it now - leave the task alone
+        console.warn(`⚠️ [WORKER] ${error.message}`)
+        continue
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`❌ [WORKER] Task ${task.id} failed:`, message)
+      summary.failed++
+
+      const willRetry = await failImportTask(supabase, task, workerId, message)
+      await supabase
+        .from('import_jobs')
+        .update(willRetry
+          ? { error_message: `Attempt ${task.attempts} failed, retrying: ${message}` }
+          : task.task_type === 'dry_run'
+            // A dry run that gave up leaves the job validated so it can be run again
+            ? { error_message: `Dry run failed: ${message}`, dry_run_started_at: null }
+            : { status: 'failed', error_message: message, completed_at: new Date().toISOString() })
+        .eq('id', task.job_id)
+
+      if (!willRetry && task.task_type === 'rollback') {
+        await logImportEvent(
+          task.payload.requestedBy || null,
+          AUDIT_ACTIONS.IMPORT_ROLLBACK,
+          task.job_id,
+          { task_id: task.id, attempts: task.attempts, checkpoint: task.checkpoint || null },
+          false,
+          message
+        )
+      }
+    }
+  }
+
+  console.log(`✅ [WORKER] ${workerId} finished:`, summary)
+  return summary
+}
+
+/**
+ * Start a worker in the background of the current request so queued work begins immediately.
+ * If the runtime is frozen mid-task the lease expires and the scheduled worker resumes it.
+ */
+export function kickImportWorker() {
+  runImportWorker().catch(error => {
+    console.error('❌ [WORKER] Background worker failed:', error)
+  })
+}
+
+async function runTask(supabase: any, task: ImportJobTask, workerId: string, deadline: number): Promise<TaskOutcome> {
+  const { data: job, error: jobError } = await supabase
+    .from('import_jobs')
+    .select('*')
+    .eq('id', task.job_id)
+    .single()
+
+  if (jobError || !job) {
+    throw new Error(`Import job not found: ${jobError?.message || task.job_id}`)
+  }
+
+  if (job.status === 'cancelled') {
+    console.log(`⚠️ [WORKER] Job ${job.id} was cancelled, dropping ${task.task_type} task`)
+    return 'completed'
+  }
+
+  try {
+    if (task.task_type === 'stage') {
+      await runStageTask(supabase, task, workerId, deadline)
+    } else if (task.task_type === 'validate') {
+      await runValidateTask(supabase, job)
+    } else if (task.task_type === 'dry_run') {
+      await runDryRunTask(supabase, task, workerId, deadline, job)
+    } else if (task.task_type === 'rollback') {
+      await runRollbackTask(supabase, task, workerId, deadline, job)
+    } else {
+      await runProcessTask(supabase, task, workerId, deadline, job)
+    }
+    return 'completed'
+  } catch (error) {
+    if (error instanceof TimeBudgetExceeded) {
+      console.log(`📋 [WORKER] Time budget spent, releasing task ${task.id} at checkpoint`, task.checkpoint)
+      return 'released'
+    }
+    throw error
+  }
+}
+
+async function runStageTask(supabase: any, task: ImportJobTask, workerId: string, deadline: number) {
+  const { filePath, fieldMapping, transformRules, delimiter, sheetConfig, deleteFileAfterStaging, autoValidate } = task.payload
+
+  await stageImportFile(supabase, {
+    jobId: task.job_id,
+    filePath,
+    fieldMapping: fieldMapping || {},
+    transformRules: transformRules || [],
+    delimiter,
+    sheetConfig,
+    deleteFileAfterStaging,
+    resumeFromRow: task.checkpoint?.staged_rows || 0
+  }, {
+    onBatchCommitted: async (stagedRows) => {
+      await heartbeatImportTask(supabase, task, workerId, { staged_rows: stagedRows })
+      if (Date.now() >= deadline) throw new TimeBudgetExceeded()
+    },
+    onRelatedBatchCommitted: async () => {
+      await heartbeatImportTask(supabase, task, workerId)
+    }
+  })
+
+  // Jobs nobody uploaded by hand (drop folders) go straight on to validation
+  if (autoValidate) {
+    await enqueueImportTask(supabase, task.job_id, 'validate')
+  }
+}
+
+async function runValidateTask(supabase: any, job: any) {
+  await supabase
+    .from('import_jobs')
+    .update({ status: 'validating', progress: 10, started_at: new Date().toISOString() })
+    .eq('id', job.id)
+
+  const validationResults = await validateImportJob(supabase, job)
+  await recordDropJobValidation(supabase, job, validationResults)
+}
+
+async function runDryRunTask(supabase: any, task: ImportJobTask, workerId: string, deadline: number, job: any) {
+  // Re-validating the job, or starting another dry run, replaces the one this task was queued for
+  const startedAt = job.dry_run_started_at ? new Date(job.dry_run_started_at).getTime() : null
+  if (job.status !== 'validated' || startedAt === null || startedAt !== new Date(task.payload.startedAt).getTime()) {
+    console.log(`⚠️ [WORKER] Dry run task ${task.id} is stale for job ${job.id}, dropping it`)
+    return
+  }
+
+  const results = await runImportDryRun(supabase, job, task.checkpoint || {}, {
+    onPageCommitted: async (checkpoint) => {
+      await heartbeatImportTask(supabase, task, workerId, checkpoint)
+      if (Date.now() >= deadline) throw new TimeBudgetExceeded()
+    }
+  })
+
+  // Only saved while the dry run is still the job's current one
+  const { error } = await supabase
+    .from('import_jobs')
+    .update({
+      dry_run_results: results,
+      dry_run_completed_at: new Date().toISOString(),
+      error_message: null
+    })
+    .eq('id', job.id)
+    .eq('status', 'validated')
+    .eq('dry_run_started_at', job.dry_run_started_at)
+
+  if (error) {
+    throw new Error(`Failed to save dry run results: ${error.message}`)
+  }
+}
+
+async function runProcessTask(supabase: any, task: ImportJobTask, workerId: string, deadline: number, job: any) {
+  const chunkSize = task.payload.chunk_size || DEFAULT_PROCESS_CHUNK_SIZE
+  const validationResults = job.validation_results
+  if (!validationResults?.rowDetails) {
+    throw new Error('No validation results found. Please run validation first.')
+  }
+  // Checked here too: re-validating clears the approval, and tasks can be queued outside the route
+  if (!job.dry_run_approved_at) {
+    throw new Error('Run and approve a dry run before processing this import')
+  }
+  const modeError = getImportModeError(job)
+  if (modeError) throw new Error(modeError)
+
+  const validRowNumbers: number[] = validationResults.rowDetails
+    .filter((row: any) => row.isValid)
+    .map((row: any) => row.rowNumber)
+
+  const clientId = await resolveImportClientId(supabase, job)
+  // Loaded once for every chunk this run processes
+  const assignmentState = await loadImportAssignmentState(supabase, job)
+  let startIndex: number = task.checkpoint?.next_start_index ?? 0
+  let errors: string[] = startIndex > 0 ? (job.processing_errors || []) : []
+
+  if (startIndex === 0) {
+    await supabase
+      .from('import_jobs')
+      .update({
+        status: 'processing',
+        started_at: new Date().toISOString(),
+        progress: 0,
+        processed_rows: 0,
+        total_rows: validRowNumbers.length,
+        processing_errors: null,
+        error_message: null
+      })
+      .eq('id', job.id)
+  } else {
+    console.log(`📋 [WORKER] Resuming job ${job.id} at valid row ${startIndex + 1}/${validRowNumbers.length}`)
+  }
+
+  while (startIndex < validRowNumbers.length) {
+    if (Date.now() >= deadline) throw new TimeBudgetExceeded()
+
+    // Stop promptly if the job was cancelled between chunks
+    const { data: current } = await supabase
+      .from('import_jobs')
+      .select('status')
+      .eq('id', job.id)
+      .single()
+    if (current?.status === 'cancelled') {
+      console.log(`⚠️ [WORKER] Job ${job.id} cancelled at valid row ${startIndex}`)
+      return
+    }
+
+    const chunkRowNumbers = validRowNumbers.slice(startIndex, startIndex + chunkSize)
+    const { data: chunkStagingData, error: chunkError } = await supabase
+      .from('import_staging_data')
+      .select('*')
+      .eq('job_id', job.id)
+      .in('row_number', chunkRowNumbers)
+      .order('row_number')
+
+    if (chunkError) {
+      throw new Error(`Failed to fetch chunk staging data: ${chunkError.message}`)
+    }
+
+    const result = await processImportChunk(supabase, job, clientId, chunkStagingData || [], assignmentState)
+    errors = errors.concat(result.errors).slice(0, MAX_STORED_PROCESSING_ERRORS)
+    startIndex += chunkRowNumbers.length
+
+    const progress = Math.round((startIndex / validRowNumbers.length) * 100)
+    await supabase
+      .from('import_jobs')
+      .update({
+        processed_rows: startIndex,
+        progress: Math.min(progress, 99),
+        processing_errors: errors.length > 0 ? errors : null
+      })
+      .eq('id', job.id)
+
+    // The chunk is committed once the checkpoint moves past it
+    await heartbeatImportTask(supabase, task, workerId, { next_start_index: startIndex })
+    console.log(`📊 [WORKER] Job ${job.id}: ${startIndex}/${validRowNumbers.length} rows processed (${progress}%)`)
+  }
+
+  // Rows validation or processing rejected, ready to be corrected and resubmitted; written
+  // before completion so the finished job already carries its counts
+  await writeFailedRowsFile(supabase, job, errors)
+
+  await supabase
+    .from('import_jobs')
+    .update({
+      status: 'completed',
+      processing_completed_at: new Date().toISOString(),
+      completed_at: new Date().toISOString(),
+      progress: 100
+    })
+    .eq('id', job.id)
+
+  console.log(`✅ [WORKER] Processing completed for job ${job.id}: ${startIndex} rows, ${errors.length} errors`)
+}
+
+async function runRollbackTask(supabase: any, task: ImportJobTask, workerId: string, deadline: number, job: any) {
+  const summary = await rollbackImportJob(supabase, job, task.checkpoint || {}, {
+    onPageCommitted: async (checkpoint) => {
+      await heartbeatImportTask(supabase, task, workerId, checkpoint)
+      if (Date.now() >= deadline) throw new TimeBudgetExceeded()
+    }
+  })
+
+  const { error } = await supabase
+    .from('import_jobs')
+    .update({
+      status: 'rolled_back',
+      rolled_back_at: new Date().toISOString(),
+      rolled_back_by: task.payload.requestedBy || null,
+      rollback_summary: summary,
+      error_message: null
+    })
+    .eq('id', job.id)
+
+  if (error) {
+    throw new Error(`Failed to mark job rolled back: ${error.message}`)
+  }
+
+  await logImportEvent(
+    task.payload.requestedBy || null,
+    AUDIT_ACTIONS.IMPORT_ROLLBACK,
+    job.id,
+    {
+      file_name: job.file_name,
+      task_id: task.id,
+      deleted: summary.deleted,
+      reverted: summary.reverted,
+      kept: summary.keptCount,
+      legacy_accounts_deleted: summary.legacyAccountsDeleted
+    }
+  )
+}
+
+/**
+ * Jobs left in 'processing' by the old client-driven loop (or a lost task row) have nothing
+ * to resume them. Re-queue them from the last recorded position.
+ */
+async function recoverOrphanedImportJobs(supabase: any): Promise<number> {
+  const staleBefore = new Date(Date.now() - TASK_LEASE_SECONDS * 1000).toISOString()
+
+  const { data: staleJobs, error } = await supabase
+    .from('import_jobs')
+    .select('id, processed_rows, validation_results')
+    .eq('status', 'processing')
+    .lt('updated_at', staleBefore)
+    .limit(20)
+
+  if (error || !staleJobs || staleJobs.length === 0) return 0
+
+  let recovered = 0
+  for (const job of staleJobs) {
+    const { count } = await supabase
+      .from('import_job_tasks')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', job.id)
+      .in('status', ['queued', 'running'])
+
+    if (count && count > 0) continue
+
+    if (!job.validation_results) {
+      // Staging never finished and the original upload payload is gone - surface it instead of hanging
+      await supabase
+        .from('import_jobs')
+        .update({ status: 'failed', error_message: 'Upload was interrupted before staging completed. Please re-upload the file.' })
+        .eq('id', job.id)
+      continue
+    }
+
+    await enqueueImportTask(supabase, job.id, 'process', {}, { next_start_index: job.processed_rows || 0 })
+    recovered++
+    console.log(`📋 [WORKER] Re-queued orphaned job ${job.id} from row ${job.processed_rows || 0}`)
+  }
+
+  return recovered
+}
@@ -0,0 +1,239 @@
+// Validation of a staged import job
+// Shared by the validate endpoint and the worker, which validates drop-folder jobs on its own
+
+import { createRowValidator, resolveValidationRules } from '@/lib/import/validation-rules'
+import { ValidationRule } from '@/types/import'
+
+// Rows per page when reading a job's staging data
+const STAGING_PAGE_SIZE = 1000
+
+/**
+ * Validate every staged row of a job and store the results on it, marking the job 'validated'.
+ * onProgress receives the job progress (0-100) as staging data is read and checked.
+ */
+export async function validateImportJob(
+  supabase: any,
+  job: any,
+  onProgress: (progress: number) => Promise<void> = async () => {}
+) {
+  const jobId = job.id
+  await onProgress(20)
+
+  // Get staging data for this job (handle pagination to get ALL rows)
+  let allStagingData: any[] = []
+  let offset = 0
+
+  while (true) {
+    const { data: batchData, error: batchError } = await supabase
+      .from('import_staging_data')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('row_number')
+      .range(offset, offset + STAGING_PAGE_SIZE - 1)
+
+    if (batchError) {
+      console.error('[VALIDATION] Error fetching batch:', batchError)
+      throw new Error('Failed to fetch staging data')
+    }
+
+    if (!batchData || batchData.length === 0) {
+      break
+    }
+
+    allStagingData = allStagingData.concat(batchData)
+    console.log(`📥 [VALIDATION] Fetched batch ${Math.floor(offset / STAGING_PAGE_SIZE) + 1}: ${batchData.length} rows`)
+
+    // Update progress based on data fetching
+    const fetchProgress = Math.min(40, 20 + (allStagingData.length / (job.total_rows || allStagingData.length)) * 20)
+    await onProgress(Math.round(fetchProgress))
+
+    if (batchData.length < STAGING_PAGE_SIZE) {
+      break // Last batch
+    }
+
+    offset += STAGING_PAGE_SIZE
+  }
+
+  const stagingData = allStagingData
+
+  if (!stagingData || stagingData.length === 0) {
+    throw new Error('No staging data found')
+  }
+
+  console.log(`🔍 [VALIDATION] Validating ${stagingData.length} rows...`)
+  await onProgress(50)
+
+  // Run validation on the data
+  const templateRules = await loadTemplateValidationRules(supabase, job)
+  const validationResults = await validateImportData(stagingData, job.import_type, job.import_mode, templateRules)
+
+  await onProgress(90)
+
+  // Update job with validation results and status
+  await supabase
+    .from('import_jobs')
+    .update({
+      status: 'validated',
+      validation_results: validationResults,
+      validation_completed_at: new Date().toISOString(),
+      progress: 100, // Validation complete
+      // New validation results invalidate any earlier dry run
+      dry_run_results: null,
+      dry_run_started_at: null,
+      dry_run_completed_at: null,
+      dry_run_approved_at: null,
+      dry_run_approved_by: null
+    })
+    .eq('id', jobId)
+
+  console.log(`✅ [VALIDATION] Validation completed for job ${jobId}`)
+  console.log(`📊 [VALIDATION] Results: ${validationResults.validRows} valid, ${validationResults.invalidRows} invalid`)
+
+  return validationResults
+}
+
+// Rules of the template version the job was created with, falling back to the template itself
+async function loadTemplateValidationRules(supabase: any, job: any): Promise<ValidationRule[]> {
+  if (job.template_version_id) {
+    const { data: version } = await supabase
+      .from('import_template_versions')
+      .select('validation_rules')
+      .eq('id', job.template_version_id)
+      .single()
+    return version?.validation_rules || []
+  }
+
+  if (job.template_id) {
+    const { data: template } = await supabase
+      .from('import_templates')
+      .select('validation_rules')
+      .eq('id', job.template_id)
+      .single()
+    return template?.validation_rules || []
+  }
+
+  return []
+}
+
+async function validateImportData(
+  stagingData: any[],
+  importType: string,
+  importMode: string = 'insert',
+  templateRules: ValidationRule[] = []
+) {
+  const validationResults = {
+    totalRows: stagingData.length,
+    validRows: 0,
+    invalidRows: 0,
+    errors: [] as any[],
+    warnings: [] as any[],
+    rowDetails: [] as any[]
+  }
+  
+  console.log(`🔍 [VALIDATION] Starting validation for ${importType} import...`)
+
+  const rules = resolveValidationRules(importType, templateRules)
+  console.log(`🔍 [VALIDATION] Applying ${rules.length} rules (${templateRules.length} from template)`)
+  const validateRules = createRowValidator(rules)
+  
+  for (const row of stagingData) {
+    const rowValidation = validateRow(row, importType, importMode)
+    const ruleValidation = validateRules(row.mapped_data || {}, row.row_number)
+    
+    // Errors block the row; warnings are reported but the row still imports
+    const errors = [...rowValidation.errors, ...ruleValidation.errors]
+    const warnings = [...rowValidation.warnings, ...ruleValidation.warnings]
+    const isValid = errors.length === 0
+    
+    if (isValid) {
+      validationResults.validRows++
+    } else {
+      validationResults.invalidRows++
+      validationResults.errors.push(...errors)
+    }
+    
+    if (warnings.length > 0) {
+      validationResults.warnings.push(...warnings)
+    }
+    
+    validationResults.rowDetails.push({
+      rowNumber: row.row_number,
+      isValid,
+      errors,
+      warnings
+    })
+  }
+  
+  return validationResults
+}
+
+// Checks the processor depends on regardless of template; format checks come from the rules
+function validateRow(row: any, importType: string, importMode: string = 'insert') {
+  const errors: string[] = []
+  const warnings: string[] = []
+  
+  // Get the mapped data (this is what will be processed)
+  const mappedData = row.mapped_data || {}
+  
+  if (importType === 'accounts') {
+    // REQUIRED fields for account imports (only these two are truly required)
+    if (!mappedData.original_account_number || mappedData.original_account_number.trim() === '') {
+      errors.push('Original account number is required')
+    }
+    
+    // Update-only files may carry just the fields that changed
+    if ((!mappedData.current_balance || mappedData.current_balance === '') && importMode !== 'update') {
+      errors.push('Current balance is required')
+    }
+  }
+  
+  if (importType === 'skip_trace') {
+    // Skip trace rows must be matchable back to a person
+    const hasSSN = mappedData.ssn && String(mappedData.ssn).trim() !== ''
+    const hasAccountKey = mappedData.account_key && String(mappedData.account_key).trim() !== ''
+    
+    if (!hasSSN && !hasAccountKey) {
+      errors.push('SSN or account key is required to match a person')
+    }
+  }
+  
+  if (importType === 'payments') {
+    // Payments are matched to an account and need an amount and date to post
+    const hasAccountNumber = ['original_account_number', 'account_number']
+      .some(field => mappedData[field] && String(mappedData[field]).trim() !== '')
+    if (!hasAccountNumber) {
+      errors.push('Account number is required to match the payment to an account')
+    }
+    if (!mappedData.payment_amount || String(mappedData.payment_amount).trim() === '') {
+      errors.push('Payment amount is required')
+    }
+    if (!mappedData.payment_date || String(mappedData.payment_date).trim() === '') {
+      errors.push('Payment date is required')
+    }
+  }
+  
+  if (importType === 'notes' || importType === 'calls') {
+    const hasAccountNumber = ['original_account_number', 'account_number']
+      .some(field => mappedData[field] && String(mappedData[field]).trim() !== '')
+    if (!hasAccountNumber) {
+      errors.push('Account number is required to match the record to an account')
+    }
+
+    const required = importType === 'notes'
+      ? [['note_text', 'Note text'], ['note_date', 'Note date']]
+      : [['call_date', 'Call date']]
+    for (const [field, label] of required) {
+      if (!mappedData[field] || String(mappedData[field]).trim() === '') {
+        errors.push(`${label} is required`)
+      }
+    }
+  }
+  
+  // Add more import type validations here as needed
+  
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  }
+}
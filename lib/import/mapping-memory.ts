@@ -0,0 +1,88 @@
+// Per-client mapping memory (see client_field_mappings)
+// The last mapping confirmed for a client's file is saved when the job is created and
+// offered back the next time the same client's file is mapped
+
+export interface ClientFieldMapping {
+  id: string
+  client_id: string
+  import_type: string
+  field_mappings: Record<string, string>
+  template_version_id: string | null
+  last_job_id: string | null
+  confirmed_by: string | null
+  updated_at: string
+}
+
+export async function getClientIdForPortfolio(supabase: any, portfolioId: string): Promise<string | null> {
+  const { data: portfolio } = await supabase
+    .from('master_portfolios')
+    .select('client_id')
+    .eq('id', portfolioId)
+    .maybeSingle()
+
+  return portfolio?.client_id || null
+}
+
+export async function getClientFieldMapping(
+  supabase: any,
+  clientId: string,
+  importType: string
+): Promise<ClientFieldMapping | null> {
+  const { data, error } = await supabase
+    .from('client_field_mappings')
+    .select('*')
+    .eq('client_id', clientId)
+    .eq('import_type', importType)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[MAPPING MEMORY] Failed to load client mapping:', error)
+    return null
+  }
+
+  return data
+}
+
+export async function rememberClientFieldMapping(
+  supabase: any,
+  memory: {
+    clientId: string
+    importType: string
+    fieldMappings: Record<string, string>
+    templateVersionId: string | null
+    jobId: string
+    confirmedBy: string
+  }
+): Promise<void> {
+  // Unmapped fields come through as empty strings; don't remember them
+  const fieldMappings = Object.fromEntries(
+    Object.entries(memory.fieldMappings).filter(([, header]) => header && String(header).trim() !== '')
+  )
+  if (Object.keys(fieldMappings).length === 0) return
+
+  const { error } = await supabase
+    .from('client_field_mappings')
+    .upsert({
+      client_id: memory.clientId,
+      import_type: memory.importType,
+      field_mappings: fieldMappings,
+      template_version_id: memory.templateVersionId,
+      last_job_id: memory.jobId,
+      confirmed_by: memory.confirmedBy,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'client_id,import_type' })
+
+  if (error) {
+    throw new Error(`Failed to remember client mapping: ${error.message}`)
+  }
+}
+
+// Keep only the remembered fields whose header is present in the new file
+export function applyRememberedMapping(
+  remembered: Record<string, string>,
+  headers: string[]
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(remembered).filter(([, header]) => headers.includes(header))
+  )
+}
@@ -0,0 +1,231 @@
+// Payment-history and transaction file imports
+// Each row posts one debtor_payments record against the account it names and rolls the
+// amount into the account's payment totals and balance.
+
+import { ImportChangeContext, recordImportChanges, trackInsert, updateTracked } from '@/lib/import/change-log'
+import { AccountMatchScope, findAccountByNumber } from '@/lib/import/account-changes'
+import { toIsoDate } from '@/lib/import/skip-trace-processor'
+import { refreshAccountSol } from '@/lib/sol'
+import type { PaymentImportRow } from '@/types/import'
+
+export const PAYMENT_METHODS = ['check', 'money_order', 'bank_transfer', 'credit_card', 'debit_card', 'cash', 'ach', 'wire_transfer', 'other']
+export const PAYMENT_STATUSES = ['pending', 'processing', 'cleared', 'returned', 'cancelled', 'failed', 'refunded']
+
+// Only money that actually arrived moves the account totals; failed or reversed
+// transactions are still posted so the history is complete
+const SETTLED_STATUSES = ['cleared']
+
+export interface PaymentChunkResult {
+  processedCount: number
+  postedCount: number
+  errors: string[]
+}
+
+export interface ImportedPayment {
+  accountNumber: string
+  paymentDate: string
+  paymentAmount: number
+  paymentMethod: string
+  paymentStatus: string
+  processorReference: string | null
+  paymentReference: string | null
+  paymentNotes: string | null
+}
+
+function clean(value: any): string | null {
+  if (value === null || value === undefined) return null
+  const trimmed = String(value).trim()
+  return trimmed === '' ? null : trimmed
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Read a staged payment row; returns a message instead when the row can't be posted
+export function parsePaymentRow(mappedData: PaymentImportRow): ImportedPayment | string {
+  const accountNumber = clean(mappedData.original_account_number) || clean(mappedData.account_number)
+  if (!accountNumber) return 'Account number is required'
+
+  const paymentDate = toIsoDate(mappedData.payment_date)
+  if (!paymentDate) return 'Payment date is missing or invalid'
+
+  const paymentAmount = parseFloat(String(mappedData.payment_amount ?? '').replace(/[$,\s]/g, ''))
+  if (isNaN(paymentAmount) || paymentAmount <= 0) return 'Payment amount must be a positive number'
+
+  const method = clean(mappedData.payment_method)?.toLowerCase().replace(/[\s-]+/g, '_') || ''
+  const status = clean(mappedData.payment_status)?.toLowerCase() || ''
+
+  return {
+    accountNumber,
+    paymentDate,
+    paymentAmount: roundCurrency(paymentAmount),
+    paymentMethod: PAYMENT_METHODS.includes(method) ? method : 'other',
+    // Remittance files report money already received
+    paymentStatus: PAYMENT_STATUSES.includes(status) ? status : 'cleared',
+    processorReference: clean(mappedData.processor_reference),
+    paymentReference: clean(mappedData.payment_reference),
+    paymentNotes: clean(mappedData.payment_notes)
+  }
+}
+
+// References are unique per processor, not across them, so a duplicate is one already on this account
+export async function findDuplicatePayment(
+  supabase: any,
+  accountId: string,
+  processorReference: string | null
+): Promise<string | null> {
+  if (!processorReference) return null
+
+  const { data, error } = await supabase
+    .from('debtor_payments')
+    .select('id')
+    .eq('debtor_id', accountId)
+    .eq('processor_reference', processorReference)
+    .limit(1)
+
+  if (error) {
+    throw new Error(`Failed to check for duplicate payment: ${error.message}`)
+  }
+
+  return data && data.length > 0 ? data[0].id : null
+}
+
+// findDuplicatePayment for a page of rows in one query; flags come back in the order of the entries
+export async function findDuplicatePayments(
+  supabase: any,
+  entries: Array<{ accountId: string; processorReference: string | null }>
+): Promise<boolean[]> {
+  const referenced = entries.filter(entry => entry.processorReference)
+  if (referenced.length === 0) return entries.map(() => false)
+
+  const { data, error } = await supabase
+    .from('debtor_payments')
+    .select('debtor_id, processor_reference')
+    .in('debtor_id', Array.from(new Set(referenced.map(entry => entry.accountId))))
+    .in('processor_reference', Array.from(new Set(referenced.map(entry => entry.processorReference))))
+
+  if (error) {
+    throw new Error(`Failed to check for duplicate payments: ${error.message}`)
+  }
+
+  const existing = new Set((data || []).map((payment: any) => `${payment.debtor_id}:${payment.processor_reference}`))
+  return entries.map(entry => !!entry.processorReference && existing.has(`${entry.accountId}:${entry.processorReference}`))
+}
+
+// Raised when the processor reference is already posted to the account
+export class DuplicatePaymentError extends Error {
+  constructor(processorReference: string | null) {
+    super(`Duplicate payment - processor reference ${processorReference} is already posted to this account`)
+    this.name = 'DuplicatePaymentError'
+  }
+}
+
+// Post the payment and roll it into the account's totals
+export async function postPayment(
+  supabase: any,
+  account: any,
+  payment: ImportedPayment,
+  context: ImportChangeContext
+): Promise<string> {
+  const record = {
+    debtor_id: account.id,
+    payment_date: payment.paymentDate,
+    payment_amount: payment.paymentAmount,
+    payment_method: payment.paymentMethod,
+    payment_status: payment.paymentStatus,
+    processor_reference: payment.processorReference,
+    payment_reference: payment.paymentReference,
+    payment_notes: payment.paymentNotes
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('debtor_payments')
+    .insert(record)
+    .select('id')
+    .single()
+
+  if (insertError) {
+    // The unique index on (debtor_id, processor_reference) catches a duplicate posted since findDuplicatePayment looked
+    if (insertError.code === '23505') throw new DuplicatePaymentError(payment.processorReference)
+    throw new Error(`debtor_payments insert failed - ${insertError.message}`)
+  }
+
+  const paymentId: string = inserted.id
+  trackInsert(context, 'debtor_payments', paymentId, record)
+
+  if (!SETTLED_STATUSES.includes(payment.paymentStatus)) return paymentId
+
+  const update: Record<string, any> = {
+    total_payments: roundCurrency((Number(account.total_payments) || 0) + payment.paymentAmount),
+    payment_count: (Number(account.payment_count) || 0) + 1,
+    current_balance: roundCurrency((Number(account.current_balance) || 0) - payment.paymentAmount),
+    updated_at: new Date().toISOString()
+  }
+
+  // Files aren't always in date order - an older payment doesn't replace the latest one
+  if (!account.last_payment_date || payment.paymentDate >= account.last_payment_date) {
+    update.last_payment_date = payment.paymentDate
+    update.last_payment_amount = payment.paymentAmount
+  }
+
+  await updateTracked(supabase, 'debt_accounts', account.id, update, context)
+
+  // A later payment can restart the limitations period
+  if (update.last_payment_date) {
+    await refreshAccountSol(supabase, { ...account, ...update }, context)
+  }
+
+  return paymentId
+}
+
+export async function processPaymentDataChunk(
+  supabase: any,
+  stagingData: any[],
+  jobId: string,
+  scope: AccountMatchScope
+): Promise<PaymentChunkResult> {
+  let processedCount = 0
+  let postedCount = 0
+  const errors: string[] = []
+
+  console.log(`🚀 [PAYMENTS] Processing chunk: ${stagingData.length} payment rows`)
+
+  for (const row of stagingData) {
+    const changeContext: ImportChangeContext = { jobId, rowNumber: row.row_number, changes: [] }
+
+    try {
+      const payment = parsePaymentRow((row.mapped_data || {}) as PaymentImportRow)
+      if (typeof payment === 'string') {
+        errors.push(`Row ${row.row_number}: ${payment}`)
+        continue
+      }
+
+      // Re-read per row so several payments to one account in a chunk all count
+      const account = await findAccountByNumber(supabase, scope, payment.accountNumber)
+      if (!account) {
+        errors.push(`Row ${row.row_number}: No account found for account number ${payment.accountNumber}`)
+        continue
+      }
+
+      if (await findDuplicatePayment(supabase, account.id, payment.processorReference)) {
+        errors.push(`Row ${row.row_number}: ${new DuplicatePaymentError(payment.processorReference).message}`)
+        continue
+      }
+
+      await postPayment(supabase, account, payment, changeContext)
+      postedCount++
+      console.log(`✅ [PAYMENTS] Row ${row.row_number}: posted ${payment.paymentAmount} to account ${account.id}`)
+    } catch (rowError) {
+      console.error(`[PAYMENTS] Error processing row ${row.row_number}:`, rowError)
+      errors.push(`Row ${row.row_number}: ${rowError instanceof Error ? rowError.message : 'Unknown error'}`)
+    } finally {
+      await recordImportChanges(supabase, changeContext.changes)
+      processedCount++
+    }
+  }
+
+  console.log(`✅ [PAYMENTS] Chunk completed: ${postedCount}/${processedCount} payments posted, ${errors.length} errors`)
+
+  return { processedCount, postedCount, errors }
+}
@@ -0,0 +1,357 @@
+import { processSkipTraceDataChunk } from '@/lib/import/skip-trace-processor'
+import { processPaymentDataChunk } from '@/lib/import/payment-processor'
+import { processHistoryDataChunk } from '@/lib/import/history-processor'
+import { findExistingAccount, getAccountMatchScope, normalizeImportMode, updateExistingAccount, updatePersonContactData } from '@/lib/import/account-changes'
+import { ChangeLogWriteError, ImportChangeContext, insertTracked, loadRecordedRowNumbers, recordImportChanges } from '@/lib/import/change-log'
+import { attachRelatedRecords } from '@/lib/import/related-sheets'
+import { formatRowWarning } from '@/lib/import/failed-rows'
+import { queueIdentityReview, resolveIdentity } from '@/lib/import/identity-resolution'
+import { computeAccountSol } from '@/lib/sol'
+import { AssignmentChoice, AssignmentState, chooseImportCollector, loadAssignmentState, recordNewAccountAssignment } from '@/lib/assignment'
+
+// Import types that have a processor wired up below
+const PROCESSABLE_IMPORT_TYPES = ['accounts', 'skip_trace', 'payments', 'notes', 'calls']
+
+export interface ImportChunkResult {
+  processedCount: number
+  errors: string[]
+}
+
+export function isProcessableImportType(importType: string): boolean {
+  return PROCESSABLE_IMPORT_TYPES.includes(importType)
+}
+
+/**
+ * Resolve the client that processed rows belong to: the job's portfolio client,
+ * otherwise the first client on file, otherwise a default import client. The fallbacks only
+ * receive new accounts; existing accounts are never matched against them.
+ */
+export async function resolveImportClientId(supabase: any, job: any): Promise<string> {
+  if (job.portfolio_id) {
+    const { data: portfolioData, error: portfolioError } = await supabase
+      .from('master_portfolios')
+      .select('*, master_clients!inner(*)')
+      .eq('id', job.portfolio_id)
+      .single()
+
+    if (portfolioError) {
+      console.error('[PROCESS] Error fetching portfolio:', portfolioError)
+      throw new Error('Portfolio not found')
+    }
+
+    console.log(`📊 [PROCESS] Found portfolio: ${portfolioData.name}, client: ${portfolioData.master_clients.name}`)
+    return portfolioData.master_clients.id
+  }
+
+  console.warn('[PROCESS] No portfolio_id found in job, will use default client')
+  // Create a default client if none exists
+  const { data: existingClient } = await supabase
+    .from('master_clients')
+    .select('id')
+    .limit(1)
+    .single()
+
+  if (existingClient) {
+    console.log(`📊 [PROCESS] Using existing client: ${existingClient.id}`)
+    return existingClient.id
+  }
+
+  // Create a default client
+  const { data: newClient, error: clientError } = await supabase
+    .from('master_clients')
+    .insert({
+      name: 'Default Import Client',
+      code: 'DEFAULT_IMPORT',
+      client_type: 'debt_buyer',
+      status: 'active'
+    })
+    .select('id')
+    .single()
+
+  if (clientError) {
+    console.error('[PROCESS] Error creating default client:', clientError)
+    throw new Error('Failed to create default client')
+  }
+
+  console.log(`📊 [PROCESS] Created default client: ${newClient.id}`)
+  return newClient.id
+}
+
+/**
+ * Process one chunk of staged rows with the processor for the job's import type. Rows that
+ * already logged changes for this job were written by an earlier attempt at the chunk and are
+ * counted without being processed again.
+ */
+export async function processImportChunk(
+  supabase: any,
+  job: any,
+  clientId: string,
+  chunkData: any[],
+  assignment?: AssignmentState
+): Promise<ImportChunkResult> {
+  const recordedRows = await loadRecordedRowNumbers(supabase, job.id, chunkData.map(row => row.row_number))
+  if (recordedRows.size === 0) {
+    return processChunkRows(supabase, job, clientId, chunkData, assignment)
+  }
+
+  console.log(`📋 [PROCESS] Skipping ${recordedRows.size} row(s) already processed for job ${job.id}`)
+  const result = await processChunkRows(supabase, job, clientId, chunkData.filter(row => !recordedRows.has(row.row_number)), assignment)
+  return { processedCount: result.processedCount + recordedRows.size, errors: result.errors }
+}
+
+/**
+ * Load the job's agency's assignment rules for placing new accounts, or undefined when the job
+ * creates none or the rules can't be loaded. Load it once per process task and pass it to every
+ * chunk: collector loads are then kept current in memory as accounts are assigned.
+ */
+export async function loadImportAssignmentState(supabase: any, job: any): Promise<AssignmentState | undefined> {
+  if (job.import_type !== 'accounts' || normalizeImportMode(job.import_mode) === 'update') return undefined
+  try {
+    return await loadAssignmentState(supabase, job.agency_id ? [job.agency_id] : [])
+  } catch (assignmentError) {
+    console.error('❌ [PROCESS] Failed to load assignment rules:', assignmentError)
+    return undefined
+  }
+}
+
+async function processChunkRows(
+  supabase: any,
+  job: any,
+  clientId: string,
+  stagingData: any[],
+  assignment?: AssignmentState
+): Promise<ImportChunkResult> {
+  if (stagingData.length === 0) return { processedCount: 0, errors: [] }
+
+  if (job.import_type === 'accounts') {
+    return processAccountsDataChunk(supabase, stagingData, job, clientId, assignment)
+  }
+
+  if (job.import_type === 'skip_trace') {
+    const { processedCount, errors } = await processSkipTraceDataChunk(supabase, stagingData, getAccountMatchScope(job, clientId), job.id)
+    return { processedCount, errors }
+  }
+
+  if (job.import_type === 'payments') {
+    const { processedCount, errors } = await processPaymentDataChunk(supabase, stagingData, job.id, getAccountMatchScope(job, clientId))
+    return { processedCount, errors }
+  }
+
+  if (job.import_type === 'notes' || job.import_type === 'calls') {
+    const { processedCount, errors } = await processHistoryDataChunk(
+      supabase, stagingData, job.import_type, job.id, getAccountMatchScope(job, clientId)
+    )
+    return { processedCount, errors }
+  }
+
+  throw new Error(`Import type '${job.import_type}' is not supported yet`)
+}
+
+/**
+ * Create a debt account for a staged row. With no personId a new person is created from the row;
+ * either way the row's address, phone and email are added to the person if they aren't on file.
+ * Rows from the job's related sheets are attached too; relatedErrors lists any that couldn't be.
+ * The account is assigned to a collector by the job's agency's assignment rules; pass the
+ * task's loaded assignment state to avoid reloading it for every row.
+ */
+export async function createAccountFromRow(
+  supabase: any,
+  job: any,
+  clientId: string,
+  row: any,
+  personId: string | null,
+  changeContext: ImportChangeContext,
+  assignment?: AssignmentState
+): Promise<{ accountId: string; personId: string; relatedErrors: string[] }> {
+  const mappedData = row.mapped_data || {}
+  const today = new Date().toISOString().split('T')[0]
+  const preferredLanguage = typeof mappedData.preferred_language === 'string' && mappedData.preferred_language.trim()
+    ? mappedData.preferred_language.trim().toLowerCase()
+    : null
+
+  if (!personId) {
+    personId = await insertTracked(supabase, 'persons', {
+      ssn: mappedData.ssn && mappedData.ssn.trim() !== '' ? mappedData.ssn.trim() : null,
+      first_name: mappedData.first_name || null,
+      last_name: mappedData.last_name || null,
+      middle_name: mappedData.middle_name || null,
+      dob: mappedData.date_of_birth || null,
+      preferred_language: preferredLanguage,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }, changeContext)
+    console.log(`✅ [PROCESS] New person created: ${personId}`)
+  }
+
+  await updatePersonContactData(supabase, row, personId, today, changeContext)
+
+  const account: Record<string, any> = {
+    person_id: personId,
+    portfolio_id: job.portfolio_id,
+    client_id: clientId,
+    account_number: mappedData.account_number || null,
+    original_account_number: mappedData.original_account_number,
+    current_balance: parseFloat(mappedData.current_balance) || 0,
+    original_balance: mappedData.original_balance && mappedData.original_balance.trim() !== '' ? parseFloat(mappedData.original_balance) : 0,
+    charge_off_date: mappedData.charge_off_date && mappedData.charge_off_date.trim() !== '' ? mappedData.charge_off_date : null,
+    date_opened: mappedData.date_opened && mappedData.date_opened.trim() !== '' ? mappedData.date_opened : null,
+    last_payment_date: mappedData.last_payment_date && mappedData.last_payment_date.trim() !== '' ? mappedData.last_payment_date : null,
+    last_payment_amount: mappedData.last_payment_amount ? parseFloat(mappedData.last_payment_amount) : null,
+    original_creditor: mappedData.creditor_name || null,
+    account_type: mappedData.account_type && ['credit_card', 'medical', 'personal_loan', 'auto_loan', 'mortgage', 'utility', 'student_loan', 'business_loan', 'other'].includes(mappedData.account_type) ? mappedData.account_type : 'other',
+    account_status: mappedData.status && ['active', 'inactive', 'resolved', 'returned', 'bankruptcy', 'deceased', 'settled', 'paid_in_full'].includes(mappedData.status) ? mappedData.status : 'active',
+    data_source: 'import',
+    import_batch_id: job.id,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  }
+
+  // Limitations period from the dates above and the address state just recorded for the person
+  const solFields = await computeAccountSol(supabase, account)
+
+  // An account the rules can't place is left unassigned rather than failing the row
+  let assignmentState = assignment
+  let collectorChoice: AssignmentChoice | null = null
+  try {
+    assignmentState = assignmentState || await loadAssignmentState(supabase, job.agency_id ? [job.agency_id] : [])
+    collectorChoice = await chooseImportCollector(supabase, assignmentState, job.agency_id || null, mappedData, {
+      portfolio_id: account.portfolio_id,
+      current_balance: account.current_balance,
+      sol_state: solFields.sol_state,
+      preferred_language: preferredLanguage || await getPersonLanguage(supabase, personId)
+    })
+  } catch (assignmentError) {
+    console.error(`❌ [PROCESS] Could not assign a collector for row ${row.row_number}:`, assignmentError)
+  }
+
+  const accountId = await insertTracked(supabase, 'debt_accounts', {
+    ...account,
+    ...solFields,
+    ...(collectorChoice ? { assigned_collector_id: collectorChoice.collectorId, assigned_date: new Date().toISOString() } : {})
+  }, changeContext)
+
+  if (collectorChoice && assignmentState) {
+    await recordNewAccountAssignment(supabase, assignmentState, accountId, collectorChoice, { source: 'import', importJobId: job.id })
+  }
+
+  const relatedErrors = await attachRelatedRecords(
+    supabase, job, accountId, personId, mappedData.original_account_number, changeContext
+  )
+
+  return { accountId, personId, relatedErrors }
+}
+
+async function getPersonLanguage(supabase: any, personId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('persons')
+    .select('preferred_language')
+    .eq('id', personId)
+    .maybeSingle()
+  return data?.preferred_language || null
+}
+
+async function processAccountsDataChunk(supabase: any, stagingData: any[], job: any, clientId: string, assignmentState?: AssignmentState) {
+  let processedCount = 0
+  const errors: string[] = []
+  
+  try {
+    const importMode = normalizeImportMode(job.import_mode)
+    console.log(`🚀 [PROCESS] Processing chunk: ${stagingData.length} account rows (${importMode} mode)`)
+    // Identity candidates come from the portfolio's client, or the agency without one
+    const identityScope = getAccountMatchScope(job, job.portfolio_id ? clientId : null)
+
+    // Loaded once per process task by the caller; rows load it themselves without it
+    assignmentState = assignmentState || await loadImportAssignmentState(supabase, job)
+    
+    for (const row of stagingData) {
+      // Everything this row inserts or updates is logged so the job can be rolled back
+      const changeContext: ImportChangeContext = { jobId: job.id, rowNumber: row.row_number, changes: [] }
+      
+      try {
+        const mappedData = row.mapped_data
+        console.log(`🚀 [PROCESS] Processing row ${row.row_number}: ${mappedData.original_account_number}`)
+        
+        // Match against accounts already on file for the portfolio's client. Without a portfolio
+        // clientId is only a fallback for new accounts and nothing is matched against it.
+        const existingAccount = job.portfolio_id && mappedData.original_account_number
+          ? await findExistingAccount(supabase, clientId, String(mappedData.original_account_number))
+          : null
+        
+        if (existingAccount) {
+          if (importMode === 'insert') {
+            errors.push(`Row ${row.row_number}: Account ${mappedData.original_account_number} already exists for this client (use update or upsert mode)`)
+            processedCount++
+            continue
+          }
+          
+          await updateExistingAccount(supabase, row, existingAccount, changeContext)
+          if (existingAccount.person_id) {
+            const relatedErrors = await attachRelatedRecords(
+              supabase, job, existingAccount.id, existingAccount.person_id, mappedData.original_account_number, changeContext
+            )
+            errors.push(...relatedErrors.map(message => formatRowWarning(row.row_number, message)))
+          }
+          console.log(`✅ [PROCESS] Account ${existingAccount.id} updated for row ${row.row_number}: ${changeContext.changes.length} record(s) changed`)
+          processedCount++
+          continue
+        }
+        
+        if (importMode === 'update') {
+          errors.push(`Row ${row.row_number}: No existing account ${mappedData.original_account_number} for this client (update mode does not create accounts)`)
+          processedCount++
+          continue
+        }
+        
+        const identity = await resolveIdentity(supabase, identityScope, mappedData)
+        
+        if (identity.action === 'reject') {
+          errors.push(`Row ${row.row_number}: ${identity.reason}`)
+          processedCount++
+          continue
+        }
+        
+        if (identity.action === 'review') {
+          // The account is created once a reviewer picks the person
+          await queueIdentityReview(supabase, job.id, row.row_number, mappedData, identity.candidates, identity.reason)
+          console.log(`🔎 [PROCESS] Row ${row.row_number} queued for identity review: ${identity.reason}`)
+          processedCount++
+          continue
+        }
+        
+        let personId: string | null = null
+        if (identity.action === 'link') {
+          personId = identity.personId
+          console.log(`✅ [PROCESS] Linked row ${row.row_number} to existing person ${personId} (score ${identity.score})`)
+        }
+        
+        try {
+          const { relatedErrors } = await createAccountFromRow(supabase, job, clientId, row, personId, changeContext, assignmentState)
+          errors.push(...relatedErrors.map(message => formatRowWarning(row.row_number, message)))
+          console.log(`✅ [PROCESS] Account inserted for row ${row.row_number}`)
+        } catch (insertError) {
+          console.error(`[PROCESS] Account creation error for row ${row.row_number}:`, insertError)
+          errors.push(`Row ${row.row_number}: ${insertError instanceof Error ? insertError.message : 'Unknown error'}`)
+        }
+        processedCount++
+        
+      } catch (rowError) {
+        console.error(`[PROCESS] Unexpected error processing row ${row.row_number}:`, rowError)
+        errors.push(`Row ${row.row_number}: Unexpected error - ${rowError instanceof Error ? rowError.message : 'Unknown error'}`)
+        continue
+      } finally {
+        await recordImportChanges(supabase, changeContext.changes)
+      }
+    }
+    
+    console.log(`✅ [PROCESS] Chunk completed: ${processedCount} rows processed, ${errors.length} errors`)
+    
+    return { processedCount, errors }
+    
+  } catch (error) {
+    // The chunk has to be retried, not reported as processed
+    if (error instanceof ChangeLogWriteError) throw error
+    console.error('[PROCESS] Error processing accounts data chunk:', error)
+    errors.push(`Processing error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    return { processedCount: 0, errors }
+  }
+}
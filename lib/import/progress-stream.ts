@@ -0,0 +1,271 @@
+// Server-sent progress events for a set of import jobs
+// One stream covers every job a page is watching: it reads the job rows and their live queue
+// tasks on an interval and emits only what changed per job: status transitions, row counts with
+// throughput and ETA, and processing errors added since the last read.
+// Event names and payloads are shared with the client hook (lib/hooks/useImportJobsProgress).
+
+export const PROGRESS_POLL_INTERVAL_MS = 1000
+// Serverless functions are cut off at 60s; end cleanly before that and let the client reconnect
+export const PROGRESS_STREAM_MAX_MS = 55 * 1000
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+// Throughput is averaged over this much recent history so it follows the current rate
+const THROUGHPUT_WINDOW_MS = 30 * 1000
+
+// A page only has a handful of jobs running; this bounds the queries one stream makes
+export const MAX_PROGRESS_STREAM_JOBS = 100
+
+// No further progress will happen on these; the stream sends 'done' for the job and stops reading it
+export const FINISHED_IMPORT_STATUSES = ['completed', 'failed', 'cancelled', 'rolled_back']
+
+export type ImportProgressPhase = 'staging' | 'validating' | 'processing' | 'rolling_back' | 'waiting' | 'finished'
+
+export interface ImportStatusEvent {
+  jobId: string
+  status: string
+  previousStatus: string | null
+  errorMessage: string | null
+  at: string
+}
+
+export interface ImportProgressEvent {
+  jobId: string
+  phase: ImportProgressPhase
+  progress: number
+  rowsDone: number
+  totalRows: number | null
+  // Rows per second over the recent window; null until there are two samples
+  rowsPerSecond: number | null
+  etaSeconds: number | null
+}
+
+export interface ImportErrorsEvent {
+  jobId: string
+  // Index of the first error in this batch within the job's processing_errors
+  offset: number
+  errors: string[]
+}
+
+export interface ImportStreamOptions {
+  // Processing errors the client already has per job (sent back on reconnect)
+  errorsFrom?: Record<string, number>
+  signal?: AbortSignal
+}
+
+const JOB_PROGRESS_COLUMNS = 'id, status, progress, total_rows, rows_processed, processed_rows, processing_errors, error_message'
+
+// What the worker is doing for the job, from its live queue task. Staging and processing both
+// mark the job 'processing', so the status alone can't tell them apart.
+const TASK_PHASES: Record<string, ImportProgressPhase> = {
+  stage: 'staging',
+  validate: 'validating',
+  process: 'processing',
+  rollback: 'rolling_back'
+}
+
+interface LiveTask {
+  task_type: string
+  checkpoint: Record<string, any> | null
+}
+
+// Newest live task per job; a job has at most a couple queued at once
+async function loadLiveTasks(supabase: any, jobIds: string[]): Promise<Record<string, LiveTask>> {
+  if (jobIds.length === 0) return {}
+
+  const { data, error } = await supabase
+    .from('import_job_tasks')
+    .select('job_id, task_type, checkpoint')
+    .in('job_id', jobIds)
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+
+  if (error) throw new Error(`Failed to read import tasks: ${error.message}`)
+
+  const tasks: Record<string, LiveTask> = {}
+  for (const task of data || []) {
+    if (!tasks[task.job_id]) tasks[task.job_id] = task
+  }
+  return tasks
+}
+
+function phaseFor(status: string, taskType: string | null): ImportProgressPhase {
+  if (FINISHED_IMPORT_STATUSES.includes(status)) return 'finished'
+  if (taskType && TASK_PHASES[taskType]) return TASK_PHASES[taskType]
+  if (status === 'pending') return 'staging'
+  if (status === 'validating') return 'validating'
+  if (status === 'processing') return 'processing'
+  if (status === 'rolling_back') return 'rolling_back'
+  return 'waiting'
+}
+
+// Staging counts rows as it reads them (total unknown until the end); processing counts against valid rows.
+// A rollback counts the changes its checkpoint has handled so far; the total isn't known up front.
+function rowCounts(job: any, phase: ImportProgressPhase, task: LiveTask | null): { rowsDone: number; totalRows: number | null } {
+  if (phase === 'staging') return { rowsDone: job.rows_processed || 0, totalRows: null }
+  if (phase === 'rolling_back') {
+    const summary = task?.checkpoint?.summary
+    const handled = summary
+      ? sumCounts(summary.deleted) + sumCounts(summary.reverted) + (summary.keptCount || 0)
+      : 0
+    return { rowsDone: handled, totalRows: null }
+  }
+  return { rowsDone: job.processed_rows || 0, totalRows: job.total_rows ?? null }
+}
+
+function sumCounts(counts: Record<string, number> | undefined): number {
+  return Object.values(counts || {}).reduce((total, count) => total + count, 0)
+}
+
+function formatEvent(event: string, data: any): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+interface JobStreamState {
+  lastStatus: string | null
+  lastProgressKey: string | null
+  errorsSent: number
+  samples: { at: number; rows: number; phase: ImportProgressPhase }[]
+}
+
+/**
+ * Open an event stream for a set of jobs. Sends each job's full current state first, then
+ * changes as they happen, with 'done' as each job finishes. The stream ends once every job is
+ * done, or with 'reconnect' when the time limit is hit.
+ */
+export function createImportProgressStream(supabase: any, jobIds: string[], options: ImportStreamOptions = {}) {
+  const encoder = new TextEncoder()
+  let closed = false
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: any) => {
+        if (!closed) controller.enqueue(encoder.encode(formatEvent(event, data)))
+      }
+      const close = () => {
+        if (closed) return
+        closed = true
+        controller.close()
+      }
+      options.signal?.addEventListener('abort', close)
+
+      const startedAt = Date.now()
+      let lastHeartbeat = startedAt
+      const states: Record<string, JobStreamState> = {}
+      jobIds.forEach(jobId => {
+        states[jobId] = { lastStatus: null, lastProgressKey: null, errorsSent: options.errorsFrom?.[jobId] || 0, samples: [] }
+      })
+      let activeIds = jobIds.slice()
+
+      try {
+        while (!closed && activeIds.length > 0) {
+          const { data: jobs, error } = await supabase
+            .from('import_jobs')
+            .select(JOB_PROGRESS_COLUMNS)
+            .in('id', activeIds)
+
+          if (error) {
+            send('error', { message: error.message })
+            break
+          }
+
+          const jobsById: Record<string, any> = {}
+          for (const job of jobs || []) jobsById[job.id] = job
+
+          const runningIds = activeIds.filter(jobId => jobsById[jobId] && !FINISHED_IMPORT_STATUSES.includes(jobsById[jobId].status))
+          const tasks = await loadLiveTasks(supabase, runningIds)
+          const now = Date.now()
+          const finishedIds: string[] = []
+
+          for (const jobId of activeIds) {
+            const job = jobsById[jobId]
+            const state = states[jobId]
+
+            if (!job) {
+              send('error', { jobId, message: 'Import job not found' })
+              finishedIds.push(jobId)
+              continue
+            }
+
+            if (job.status !== state.lastStatus) {
+              send('status', {
+                jobId,
+                status: job.status,
+                previousStatus: state.lastStatus,
+                errorMessage: job.error_message || null,
+                at: new Date().toISOString()
+              } as ImportStatusEvent)
+              state.lastStatus = job.status
+            }
+
+            const task = tasks[jobId] || null
+            const phase = phaseFor(job.status, task?.task_type || null)
+            const { rowsDone, totalRows } = rowCounts(job, phase, task)
+
+            // A new phase counts a different set of rows; start the rate over
+            state.samples = state.samples.filter(sample => sample.phase === phase && now - sample.at <= THROUGHPUT_WINDOW_MS)
+            state.samples.push({ at: now, rows: rowsDone, phase })
+            const oldest = state.samples[0]
+            const elapsedSeconds = (now - oldest.at) / 1000
+            const rowsPerSecond = state.samples.length > 1 && elapsedSeconds > 0
+              ? Math.max(0, (rowsDone - oldest.rows) / elapsedSeconds)
+              : null
+            const etaSeconds = rowsPerSecond && totalRows !== null
+              ? Math.round(Math.max(0, totalRows - rowsDone) / rowsPerSecond)
+              : null
+
+            const progressKey = `${phase}:${job.progress}:${rowsDone}:${totalRows}`
+            if (progressKey !== state.lastProgressKey) {
+              send('progress', {
+                jobId,
+                phase,
+                progress: job.progress || 0,
+                rowsDone,
+                totalRows,
+                rowsPerSecond: rowsPerSecond !== null ? Math.round(rowsPerSecond * 10) / 10 : null,
+                etaSeconds
+              } as ImportProgressEvent)
+              state.lastProgressKey = progressKey
+            }
+
+            // Processing restarts from scratch clear the list; send it again from the top
+            const errors: string[] = job.processing_errors || []
+            if (errors.length < state.errorsSent) state.errorsSent = 0
+            if (errors.length > state.errorsSent) {
+              send('errors', { jobId, offset: state.errorsSent, errors: errors.slice(state.errorsSent) } as ImportErrorsEvent)
+              state.errorsSent = errors.length
+            }
+
+            if (phase === 'finished') {
+              send('done', { jobId, status: job.status })
+              finishedIds.push(jobId)
+            }
+          }
+
+          activeIds = activeIds.filter(jobId => !finishedIds.includes(jobId))
+          if (activeIds.length === 0) break
+
+          if (now - startedAt >= PROGRESS_STREAM_MAX_MS) {
+            const errorsFrom: Record<string, number> = {}
+            activeIds.forEach(jobId => { errorsFrom[jobId] = states[jobId].errorsSent })
+            send('reconnect', { jobIds: activeIds, errorsFrom })
+            break
+          }
+
+          if (now - lastHeartbeat >= HEARTBEAT_INTERVAL_MS && !closed) {
+            controller.enqueue(encoder.encode(': heartbeat\n\n'))
+            lastHeartbeat = now
+          }
+
+          await new Promise(resolve => setTimeout(resolve, PROGRESS_POLL_INTERVAL_MS))
+        }
+      } catch (streamError) {
+        console.error(`❌ [PROGRESS] Stream for ${jobIds.length} job(s) failed:`, streamError)
+        send('error', { message: streamError instanceof Error ? streamError.message : 'Unknown error' })
+      } finally {
+        close()
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+}
@@ -0,0 +1,225 @@
+// Related sheets of a multi-sheet workbook import (see import_related_rows)
+// Child rows (phones, addresses, payment history) are staged keyed by account number and
+// attached to the account created or updated from the matching primary-sheet row.
+
+import { PaymentImportRow, RelatedSheetMapping } from '@/types/import'
+import { ImportChangeContext, insertTracked } from '@/lib/import/change-log'
+import { addContactIfMissing } from '@/lib/import/account-changes'
+import { readWorkbookRecords } from '@/lib/import/workbook-reader'
+import { findDuplicatePayment, parsePaymentRow, postPayment } from '@/lib/import/payment-processor'
+
+export const RELATED_SHEET_BATCH_SIZE = 1000
+
+const PHONE_TYPES = ['mobile', 'home', 'work', 'other']
+const ADDRESS_TYPES = ['residential', 'mailing', 'business']
+
+function hasValue(value: any): boolean {
+  return value !== undefined && value !== null && String(value).trim() !== ''
+}
+
+export function normalizeAccountKey(value: any): string | null {
+  return hasValue(value) ? String(value).trim() : null
+}
+
+/**
+ * Stage every related sheet into import_related_rows. Each run replaces what an earlier attempt
+ * staged, so a resumed staging task can call it again safely. onBatchCommitted runs after each
+ * batch so the caller can keep its task lease alive.
+ */
+export async function stageRelatedSheets(
+  supabase: any,
+  jobId: string,
+  related: RelatedSheetMapping[],
+  openStream: () => Promise<ReadableStream<Uint8Array>>,
+  onBatchCommitted?: () => Promise<void>
+): Promise<Record<string, number>> {
+  const { error: clearError } = await supabase
+    .from('import_related_rows')
+    .delete()
+    .eq('job_id', jobId)
+
+  if (clearError) {
+    throw new Error(`Failed to clear related sheet rows: ${clearError.message}`)
+  }
+
+  const stagedBySheet: Record<string, number> = {}
+
+  for (const mapping of related) {
+    // Each sheet is its own pass over the workbook so memory stays flat
+    const records = readWorkbookRecords(await openStream(), mapping.sheet)
+    let headers: string[] | null = null
+    let batch: any[] = []
+    let rowNumber = 0
+
+    const flush = async () => {
+      if (batch.length === 0) return
+      const { error } = await supabase.from('import_related_rows').insert(batch)
+      if (error) throw new Error(`Failed to stage sheet "${mapping.sheet}": ${error.message}`)
+      batch = []
+      if (onBatchCommitted) await onBatchCommitted()
+    }
+
+    for await (const record of records) {
+      if (!headers) {
+        headers = record.map(h => String(h || '').trim())
+        continue
+      }
+
+      rowNumber++
+      const raw: Record<string, string> = {}
+      headers.forEach((header, index) => {
+        if (header && record[index] !== undefined) raw[header] = record[index]
+      })
+
+      const mappedData: Record<string, string> = {}
+      Object.entries(mapping.fieldMapping || {}).forEach(([field, header]) => {
+        if (header && raw[header] !== undefined) mappedData[field] = String(raw[header] ?? '')
+      })
+
+      batch.push({
+        job_id: jobId,
+        sheet_name: mapping.sheet,
+        record_type: mapping.type,
+        row_number: rowNumber,
+        account_key: normalizeAccountKey(raw[mapping.joinColumn]),
+        mapped_data: mappedData,
+        raw_data: raw
+      })
+
+      if (batch.length >= RELATED_SHEET_BATCH_SIZE) await flush()
+    }
+
+    await flush()
+    stagedBySheet[mapping.sheet] = rowNumber
+    console.log(`📊 [STAGING] Staged ${rowNumber} rows from related sheet "${mapping.sheet}" (${mapping.type})`)
+  }
+
+  return stagedBySheet
+}
+
+async function attachPhone(supabase: any, row: any, personId: string, today: string, context: ImportChangeContext) {
+  const data = row.mapped_data || {}
+  if (!hasValue(data.phone_number)) return
+
+  const phoneType = String(data.phone_type || '').trim().toLowerCase()
+  await addContactIfMissing(supabase, row, 'person_phones', 'number', String(data.phone_number).trim(), {
+    person_id: personId,
+    phone_type: PHONE_TYPES.includes(phoneType) ? phoneType : 'other',
+    is_current: true,
+    first_seen: today,
+    last_seen: today,
+    source: 'import'
+  }, context)
+}
+
+async function attachAddress(supabase: any, row: any, personId: string, today: string, context: ImportChangeContext) {
+  const data = row.mapped_data || {}
+  if (!hasValue(data.address_line1)) return
+
+  const address = {
+    address_line1: String(data.address_line1).trim(),
+    address_line2: hasValue(data.address_line2) ? String(data.address_line2).trim() : null,
+    city: hasValue(data.city) ? String(data.city).trim() : null,
+    state: hasValue(data.state) ? String(data.state).trim() : null,
+    zipcode: hasValue(data.zip_code) ? String(data.zip_code).trim() : null
+  }
+
+  // Case-insensitive equality: escape LIKE wildcards so '%' or '_' in the address match literally
+  let existingQuery = supabase
+    .from('person_addresses')
+    .select('id')
+    .eq('person_id', personId)
+    .ilike('address_line1', address.address_line1.replace(/[%_\\]/g, '\\$&'))
+  if (address.zipcode) existingQuery = existingQuery.eq('zipcode', address.zipcode)
+  const { data: existing } = await existingQuery.limit(1)
+  if (existing && existing.length > 0) return
+
+  // The primary sheet's address stays current; addresses from a related sheet are history
+  const addressType = String(data.address_type || '').trim().toLowerCase()
+  await insertTracked(supabase, 'person_addresses', {
+    person_id: personId,
+    ...address,
+    full_address: [address.address_line1, address.address_line2, address.city, address.state, address.zipcode]
+      .filter(Boolean).join(', '),
+    address_type: ADDRESS_TYPES.includes(addressType) ? addressType : 'residential',
+    is_current: false,
+    first_seen: today,
+    last_seen: today,
+    source: 'import'
+  }, context)
+}
+
+// Posted the way a payments import posts it, so the account's totals, last payment and SOL follow
+async function attachPayment(supabase: any, row: any, accountId: string, accountKey: string, context: ImportChangeContext) {
+  const payment = parsePaymentRow({ ...(row.mapped_data || {}), original_account_number: accountKey } as PaymentImportRow)
+  if (typeof payment === 'string') throw new Error(payment)
+
+  // The same history is often re-sent in the next month's file
+  if (await findDuplicatePayment(supabase, accountId, payment.processorReference)) return
+  if (!payment.processorReference) {
+    const { data: existing } = await supabase
+      .from('debtor_payments')
+      .select('id')
+      .eq('debtor_id', accountId)
+      .eq('payment_date', payment.paymentDate)
+      .eq('payment_amount', payment.paymentAmount)
+      .limit(1)
+    if (existing && existing.length > 0) return
+  }
+
+  // Re-read so each payment adds to the totals the previous one left
+  const { data: account, error } = await supabase
+    .from('debt_accounts')
+    .select('*')
+    .eq('id', accountId)
+    .single()
+  if (error || !account) throw new Error(`account ${accountId} not found`)
+
+  await postPayment(supabase, account, payment, context)
+}
+
+/**
+ * Attach the related-sheet rows for one account. Returns a message per child row that couldn't be
+ * attached; the account itself is unaffected.
+ */
+export async function attachRelatedRecords(
+  supabase: any,
+  job: any,
+  accountId: string,
+  personId: string,
+  accountNumber: any,
+  context: ImportChangeContext
+): Promise<string[]> {
+  const accountKey = normalizeAccountKey(accountNumber)
+  if (!job.sheet_config?.related?.length || !accountKey) return []
+
+  const { data: rows, error } = await supabase
+    .from('import_related_rows')
+    .select('*')
+    .eq('job_id', job.id)
+    .eq('account_key', accountKey)
+    .order('row_number')
+
+  if (error) {
+    return [`Failed to load related sheet rows for account ${accountKey}: ${error.message}`]
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+  const problems: string[] = []
+
+  for (const row of rows || []) {
+    try {
+      if (row.record_type === 'phones') await attachPhone(supabase, row, personId, today, context)
+      else if (row.record_type === 'addresses') await attachAddress(supabase, row, personId, today, context)
+      else if (row.record_type === 'payments') await attachPayment(supabase, row, accountId, accountKey, context)
+    } catch (attachError) {
+      problems.push(`Sheet "${row.sheet_name}" row ${row.row_number}: ${attachError instanceof Error ? attachError.message : 'Unknown error'}`)
+    }
+  }
+
+  if (rows && rows.length > 0) {
+    console.log(`✅ [PROCESS] Attached ${rows.length - problems.length}/${rows.length} related sheet rows to account ${accountId}`)
+  }
+
+  return problems
+}
@@ -0,0 +1,305 @@
+// Roll back a single import job using its import_job_changes log
+// Inserted records are deleted and updated fields are restored, newest change first.
+// Anything that has since picked up other activity is kept and reported instead, and rows still
+// waiting on an identity review are dismissed.
+// Runs as a queued 'rollback' task: the change log is walked a page at a time and the position
+// reached is checkpointed, so a rollback cut off by the time budget or a lost lease resumes.
+
+import { sameValue } from '@/lib/import/change-log'
+
+// Changes reverted between checkpoints; each takes a few queries
+const ROLLBACK_PAGE_SIZE = 200
+// Kept records listed on the summary; the count covers the rest
+const MAX_KEPT_RECORDS = 1000
+
+// Tables an import can write to - rollback never touches anything else
+const ROLLBACK_TABLES = [
+  'debt_accounts',
+  'debtor_payments',
+  'debtor_notes',
+  'calls',
+  'persons',
+  'person_addresses',
+  'person_phones',
+  'person_emails',
+  'person_bankruptcies',
+  'person_relatives',
+  'person_employments'
+]
+
+export interface RollbackKeptRecord {
+  table: string
+  recordId: string
+  reason: string
+}
+
+export interface ImportRollbackSummary {
+  deleted: Record<string, number>
+  reverted: Record<string, number>
+  kept: RollbackKeptRecord[]
+  keptCount: number
+  legacyAccountsDeleted: number
+}
+
+export interface ImportRollbackCheckpoint {
+  // Changes from this change_seq up have been reverted (the log is walked newest first)
+  before_change_seq?: number
+  // Set once the change log is done: legacy accounts up to this id have been handled
+  legacy_after_id?: string
+  summary?: ImportRollbackSummary
+}
+
+export interface ImportRollbackHooks {
+  // Called after each page with the position to resume from; may throw to stop the run
+  onPageCommitted?: (checkpoint: ImportRollbackCheckpoint) => Promise<void>
+}
+
+function increment(counts: Record<string, number>, table: string) {
+  counts[table] = (counts[table] || 0) + 1
+}
+
+function keep(summary: ImportRollbackSummary, record: RollbackKeptRecord) {
+  summary.keptCount++
+  if (summary.kept.length < MAX_KEPT_RECORDS) summary.kept.push(record)
+}
+
+// The next page of the job's change log, newest first, below the given change_seq
+async function loadChangePage(supabase: any, jobId: string, beforeChangeSeq: number | undefined) {
+  let query = supabase
+    .from('import_job_changes')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('change_seq', { ascending: false })
+    .limit(ROLLBACK_PAGE_SIZE)
+
+  if (beforeChangeSeq !== undefined) {
+    query = query.lt('change_seq', beforeChangeSeq)
+  }
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to load import changes: ${error.message}`)
+  return data || []
+}
+
+/**
+ * Why a record can't be deleted, or null when it's safe to remove. Calls, queue events and
+ * assignment history cascade with an account, so an account that has been worked is kept.
+ */
+async function getDeleteBlocker(supabase: any, jobId: string, table: string, recordId: string): Promise<string | null> {
+  if (table === 'debt_accounts') {
+    const { count: paymentCount } = await supabase
+      .from('debtor_payments')
+      .select('id', { count: 'exact', head: true })
+      .eq('debtor_id', recordId)
+    if (paymentCount && paymentCount > 0) return 'Account has payments'
+
+    const { count: noteCount } = await supabase
+      .from('debtor_notes')
+      .select('id', { count: 'exact', head: true })
+      .eq('debtor_id', recordId)
+    if (noteCount && noteCount > 0) return 'Account has collector notes'
+
+    const { count: callCount } = await supabase
+      .from('calls')
+      .select('id', { count: 'exact', head: true })
+      .eq('debtor_id', recordId)
+    if (callCount && callCount > 0) return 'Account has calls'
+
+    const { count: queueEventCount } = await supabase
+      .from('collector_queue_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('account_id', recordId)
+    if (queueEventCount && queueEventCount > 0) return 'Account has been worked from the queue'
+
+    // The import's own assignment of the account doesn't count
+    const { count: assignmentCount } = await supabase
+      .from('account_assignment_log')
+      .select('id', { count: 'exact', head: true })
+      .eq('account_id', recordId)
+      .or(`import_job_id.is.null,import_job_id.neq.${jobId}`)
+    if (assignmentCount && assignmentCount > 0) return 'Account has been reassigned since the import'
+  }
+
+  if (table === 'persons') {
+    const { count } = await supabase
+      .from('debt_accounts')
+      .select('id', { count: 'exact', head: true })
+      .eq('person_id', recordId)
+    if (count && count > 0) return 'Person is linked to other accounts'
+  }
+
+  return null
+}
+
+async function revertInsert(supabase: any, change: any, summary: ImportRollbackSummary) {
+  const blocker = await getDeleteBlocker(supabase, change.job_id, change.table_name, change.record_id)
+  if (blocker) {
+    keep(summary, { table: change.table_name, recordId: change.record_id, reason: blocker })
+    return
+  }
+
+  const { error } = await supabase
+    .from(change.table_name)
+    .delete()
+    .eq('id', change.record_id)
+
+  if (error) {
+    // Usually a foreign key from data added after the import
+    keep(summary, { table: change.table_name, recordId: change.record_id, reason: error.message })
+    return
+  }
+
+  increment(summary.deleted, change.table_name)
+}
+
+async function revertUpdate(supabase: any, change: any, summary: ImportRollbackSummary) {
+  const { data: current, error: findError } = await supabase
+    .from(change.table_name)
+    .select('*')
+    .eq('id', change.record_id)
+    .maybeSingle()
+
+  if (findError || !current) {
+    keep(summary, { table: change.table_name, recordId: change.record_id, reason: 'Record no longer exists' })
+    return
+  }
+
+  // Only restore fields that still hold the value this import wrote. A field already back at its
+  // old value was restored by an earlier attempt at this page.
+  const restore: Record<string, any> = {}
+  const changedSince: string[] = []
+  for (const [field, fieldChange] of Object.entries<any>(change.changes || {})) {
+    if (sameValue(field, current[field], fieldChange.after)) {
+      restore[field] = fieldChange.before
+    } else if (!sameValue(field, current[field], fieldChange.before)) {
+      changedSince.push(field)
+    }
+  }
+
+  if (changedSince.length > 0) {
+    keep(summary, {
+      table: change.table_name,
+      recordId: change.record_id,
+      reason: `Changed after import: ${changedSince.join(', ')}`
+    })
+  }
+
+  if (Object.keys(restore).length === 0) return
+
+  const { error } = await supabase
+    .from(change.table_name)
+    .update(restore)
+    .eq('id', change.record_id)
+
+  if (error) {
+    keep(summary, { table: change.table_name, recordId: change.record_id, reason: error.message })
+    return
+  }
+
+  increment(summary.reverted, change.table_name)
+}
+
+// Rows still waiting on a reviewer would otherwise create accounts for the rolled back job
+async function dismissPendingReviews(supabase: any, jobId: string) {
+  const { error } = await supabase
+    .from('import_identity_reviews')
+    .update({ status: 'dismissed', resolved_at: new Date().toISOString() })
+    .eq('job_id', jobId)
+    .eq('status', 'pending')
+
+  if (error) throw new Error(`Failed to dismiss identity reviews: ${error.message}`)
+}
+
+/**
+ * Undo everything a job wrote, resuming from a checkpoint. Jobs processed before change tracking
+ * only have debt_accounts.import_batch_id to go on, so those accounts are removed directly.
+ */
+export async function rollbackImportJob(
+  supabase: any,
+  job: any,
+  checkpoint: ImportRollbackCheckpoint = {},
+  hooks: ImportRollbackHooks = {}
+): Promise<ImportRollbackSummary> {
+  const summary: ImportRollbackSummary = checkpoint.summary
+    || { deleted: {}, reverted: {}, kept: [], keptCount: 0, legacyAccountsDeleted: 0 }
+  let beforeChangeSeq = checkpoint.before_change_seq
+  let legacyAfterId = checkpoint.legacy_after_id
+
+  await dismissPendingReviews(supabase, job.id)
+
+  if (legacyAfterId === undefined) {
+    console.log(`🔄 [ROLLBACK] Job ${job.id}: reverting logged changes${beforeChangeSeq !== undefined ? ` below change ${beforeChangeSeq}` : ''}`)
+
+    while (true) {
+      const changes = await loadChangePage(supabase, job.id, beforeChangeSeq)
+      if (changes.length === 0) break
+
+      for (const change of changes) {
+        if (!ROLLBACK_TABLES.includes(change.table_name)) {
+          keep(summary, { table: change.table_name, recordId: change.record_id, reason: 'Table not eligible for rollback' })
+        } else if (change.action === 'insert') {
+          await revertInsert(supabase, change, summary)
+        } else {
+          await revertUpdate(supabase, change, summary)
+        }
+      }
+
+      beforeChangeSeq = changes[changes.length - 1].change_seq
+      await hooks.onPageCommitted?.({ before_change_seq: beforeChangeSeq, summary })
+      if (changes.length < ROLLBACK_PAGE_SIZE) break
+    }
+
+    legacyAfterId = ''
+  }
+
+  // Accounts stamped with this job but missing from the change log
+  while (true) {
+    let batchQuery = supabase
+      .from('debt_accounts')
+      .select('id')
+      .eq('import_batch_id', job.id)
+      .order('id')
+      .limit(ROLLBACK_PAGE_SIZE)
+    if (legacyAfterId) batchQuery = batchQuery.gt('id', legacyAfterId)
+
+    const { data: batchAccounts, error: batchError } = await batchQuery
+
+    if (batchError) {
+      console.error('❌ [ROLLBACK] Failed to look up accounts by import batch:', batchError)
+      break
+    }
+    if (!batchAccounts || batchAccounts.length === 0) break
+
+    const accountIds = batchAccounts.map((account: any) => account.id)
+    const { data: tracked, error: trackedError } = await supabase
+      .from('import_job_changes')
+      .select('record_id')
+      .eq('job_id', job.id)
+      .eq('table_name', 'debt_accounts')
+      .in('record_id', accountIds)
+
+    if (trackedError) throw new Error(`Failed to check tracked accounts: ${trackedError.message}`)
+    const trackedIds = new Set<string>((tracked || []).map((change: any) => change.record_id))
+
+    for (const accountId of accountIds) {
+      if (trackedIds.has(accountId)) continue
+
+      const before = summary.deleted.debt_accounts || 0
+      await revertInsert(supabase, { job_id: job.id, table_name: 'debt_accounts', record_id: accountId }, summary)
+      if ((summary.deleted.debt_accounts || 0) > before) summary.legacyAccountsDeleted++
+    }
+
+    legacyAfterId = accountIds[accountIds.length - 1] as string
+    await hooks.onPageCommitted?.({ before_change_seq: beforeChangeSeq, legacy_after_id: legacyAfterId, summary })
+    if (batchAccounts.length < ROLLBACK_PAGE_SIZE) break
+  }
+
+  console.log(`✅ [ROLLBACK] Job ${job.id} rolled back:`, {
+    deleted: summary.deleted,
+    reverted: summary.reverted,
+    kept: summary.keptCount,
+    legacyAccountsDeleted: summary.legacyAccountsDeleted
+  })
+
+  return summary
+}
@@ -0,0 +1,44 @@
+// Sheet selection for multi-sheet workbook imports
+// Shared by the import wizard and the import API, so nothing here touches the database.
+
+import { RelatedSheetType } from '@/types/import'
+
+// Fields each related sheet type can map
+export const RELATED_SHEET_FIELDS: Record<RelatedSheetType, { label: string; fields: string[]; required: string[] }> = {
+  phones: {
+    label: 'Phones',
+    fields: ['phone_number', 'phone_type'],
+    required: ['phone_number']
+  },
+  addresses: {
+    label: 'Addresses',
+    fields: ['address_line1', 'address_line2', 'city', 'state', 'zip_code', 'address_type'],
+    required: ['address_line1']
+  },
+  payments: {
+    label: 'Payment history',
+    fields: ['payment_amount', 'payment_date', 'payment_method', 'payment_reference', 'payment_notes'],
+    required: ['payment_amount', 'payment_date']
+  }
+}
+
+// Returns one message per problem with a submitted sheet configuration
+export function validateRelatedSheets(related: any, primarySheet: string): string[] {
+  if (!Array.isArray(related)) return ['Related sheets must be a list']
+
+  const errors: string[] = []
+  related.forEach((mapping: any, index: number) => {
+    const label = mapping?.sheet ? `Sheet "${mapping.sheet}"` : `Related sheet ${index + 1}`
+    if (!mapping?.sheet) errors.push(`${label}: sheet name is required`)
+    if (mapping?.sheet === primarySheet) errors.push(`${label}: is already the primary sheet`)
+    if (!RELATED_SHEET_FIELDS[mapping?.type as RelatedSheetType]) {
+      errors.push(`${label}: type must be one of ${Object.keys(RELATED_SHEET_FIELDS).join(', ')}`)
+      return
+    }
+    if (!mapping.joinColumn) errors.push(`${label}: an account number column is required`)
+    RELATED_SHEET_FIELDS[mapping.type as RelatedSheetType].required.forEach(field => {
+      if (!mapping.fieldMapping?.[field]) errors.push(`${label}: ${field} must be mapped`)
+    })
+  })
+  return errors
+}
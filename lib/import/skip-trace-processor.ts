@@ -0,0 +1,454 @@
+import type { SkipTraceImportRow } from '@/types/import'
+import { ImportChangeContext, insertTracked, recordImportChanges, updateTracked } from '@/lib/import/change-log'
+import { AccountMatchScope, selectScopedAccounts } from '@/lib/import/account-changes'
+
+const SKIP_TRACE_SOURCE = 'skip_trace'
+
+export interface SkipTraceChunkResult {
+  processedCount: number
+  matchedCount: number
+  errors: string[]
+}
+
+// Trim a vendor value and treat blanks as missing
+function clean(value: any): string | null {
+  if (value === null || value === undefined) return null
+  const trimmed = String(value).trim()
+  return trimmed === '' ? null : trimmed
+}
+
+// Vendor hit flags are Y/N/U - only an explicit Y counts
+function isYes(value: any): boolean {
+  return clean(value)?.toUpperCase() === 'Y'
+}
+
+// Vendor dates come as MM/DD/YYYY, YYYYMMDD or ISO - store as YYYY-MM-DD
+export function toIsoDate(value: any): string | null {
+  const raw = clean(value)
+  if (!raw) return null
+
+  const us = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (us) {
+    return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`
+  }
+
+  const compact = raw.match(/^(\d{4})(\d{2})(\d{2})$/)
+  if (compact) {
+    return `${compact[1]}-${compact[2]}-${compact[3]}`
+  }
+
+  const parsed = new Date(raw)
+  if (isNaN(parsed.getTime())) return null
+  return parsed.toISOString().split('T')[0]
+}
+
+export function normalizeSSN(value: any): string | null {
+  const raw = clean(value)
+  if (!raw) return null
+  const digits = raw.replace(/[^0-9]/g, '')
+  return digits.length === 9 ? digits : null
+}
+
+function normalizePhone(value: any): string | null {
+  const raw = clean(value)
+  if (!raw) return null
+  const digits = raw.replace(/[^0-9]/g, '')
+  return digits.length >= 10 ? digits : null
+}
+
+function joinParts(...parts: Array<string | null | undefined>): string | null {
+  const joined = parts.map(clean).filter(Boolean).join(' ')
+  return joined === '' ? null : joined
+}
+
+function mapPhoneType(value: any): string {
+  const type = clean(value)?.toLowerCase() || ''
+  if (type.includes('mobile') || type.includes('cell') || type.includes('wireless')) return 'mobile'
+  if (type.includes('work') || type.includes('business')) return 'work'
+  if (type.includes('home') || type.includes('land') || type.includes('residential')) return 'home'
+  return 'other'
+}
+
+function mapBankruptcyChapter(value: any): string | null {
+  const chapter = clean(value)?.replace(/[^0-9]/g, '')
+  if (chapter === '7') return 'chapter_7'
+  if (chapter === '11') return 'chapter_11'
+  if (chapter === '13') return 'chapter_13'
+  return null
+}
+
+function earliest(a: string | null, b: string | null): string | null {
+  if (!a) return b
+  if (!b) return a
+  return a < b ? a : b
+}
+
+function latest(a: string | null, b: string | null): string | null {
+  if (!a) return b
+  if (!b) return a
+  return a > b ? a : b
+}
+
+/**
+ * Find the person a skip-trace row belongs to, among persons with an account in the job's scope.
+ * SSN wins; otherwise the vendor's account key is looked up against the scope's accounts.
+ */
+export async function findPersonForRow(supabase: any, scope: AccountMatchScope, row: SkipTraceImportRow): Promise<string | null> {
+  const ssn = normalizeSSN(row.ssn)
+  if (ssn) {
+    const formatted = `${ssn.slice(0, 3)}-${ssn.slice(3, 5)}-${ssn.slice(5)}`
+    const { data: persons, error } = await supabase
+      .from('persons')
+      .select('id')
+      .in('ssn', [ssn, formatted])
+      .is('merged_into', null)
+      .limit(10)
+
+    if (error) throw new Error(`Error finding person by SSN - ${error.message}`)
+
+    if (persons && persons.length > 0) {
+      const { data: accounts, error: accountError } = await selectScopedAccounts(supabase, scope, 'person_id')
+        .in('person_id', persons.map((person: any) => person.id))
+        .limit(1)
+
+      if (accountError) throw new Error(`Error finding account for SSN - ${accountError.message}`)
+      if (accounts && accounts.length > 0) return accounts[0].person_id
+    }
+  }
+
+  const accountKey = clean(row.account_key)
+  if (accountKey) {
+    for (const column of ['original_account_number', 'account_number']) {
+      const { data: accounts, error } = await selectScopedAccounts(supabase, scope, 'person_id')
+        .eq(column, accountKey)
+        .not('person_id', 'is', null)
+        .limit(1)
+
+      if (error) throw new Error(`Error finding account by key - ${error.message}`)
+      if (accounts && accounts.length > 0) return accounts[0].person_id
+    }
+  }
+
+  return null
+}
+
+/**
+ * findPersonForRow for a page of rows, a few queries per page instead of per row.
+ * Person IDs (or null) come back in the order of the rows.
+ */
+export async function findPersonsForRows(supabase: any, scope: AccountMatchScope, rows: SkipTraceImportRow[]): Promise<Array<string | null>> {
+  const matches: Array<string | null> = rows.map(() => null)
+
+  const ssns = Array.from(new Set(rows.map(row => normalizeSSN(row.ssn)).filter((ssn): ssn is string => !!ssn)))
+  if (ssns.length > 0) {
+    const formatted = ssns.map(ssn => `${ssn.slice(0, 3)}-${ssn.slice(3, 5)}-${ssn.slice(5)}`)
+    const { data: persons, error } = await supabase
+      .from('persons')
+      .select('id, ssn')
+      .in('ssn', [...ssns, ...formatted])
+      .is('merged_into', null)
+
+    if (error) throw new Error(`Error finding persons by SSN - ${error.message}`)
+
+    if (persons && persons.length > 0) {
+      const { data: accounts, error: accountError } = await selectScopedAccounts(supabase, scope, 'person_id')
+        .in('person_id', persons.map((person: any) => person.id))
+
+      if (accountError) throw new Error(`Error finding accounts for SSNs - ${accountError.message}`)
+
+      const scopedPersonIds = new Set((accounts || []).map((account: any) => account.person_id))
+      const personBySSN = new Map<string, string>()
+      for (const person of persons) {
+        const ssn = normalizeSSN(person.ssn)
+        if (ssn && scopedPersonIds.has(person.id) && !personBySSN.has(ssn)) personBySSN.set(ssn, person.id)
+      }
+
+      rows.forEach((row, index) => {
+        const ssn = normalizeSSN(row.ssn)
+        if (ssn) matches[index] = personBySSN.get(ssn) || null
+      })
+    }
+  }
+
+  for (const column of ['original_account_number', 'account_number']) {
+    const keys = Array.from(new Set(rows
+      .filter((row, index) => !matches[index])
+      .map(row => clean(row.account_key))
+      .filter((key): key is string => !!key)))
+    if (keys.length === 0) break
+
+    const { data: accounts, error } = await selectScopedAccounts(supabase, scope, `person_id, ${column}`)
+      .in(column, keys)
+      .not('person_id', 'is', null)
+
+    if (error) throw new Error(`Error finding accounts by key - ${error.message}`)
+
+    const personByKey = new Map<string, string>()
+    for (const account of accounts || []) {
+      if (!personByKey.has(account[column])) personByKey.set(account[column], account.person_id)
+    }
+
+    rows.forEach((row, index) => {
+      const key = clean(row.account_key)
+      if (!matches[index] && key) matches[index] = personByKey.get(key) || null
+    })
+  }
+
+  return matches
+}
+
+/**
+ * Insert a satellite record, or widen first_seen/last_seen on the one we already have.
+ * Records are matched per person on their identifying column (number, address, name...), or on
+ * several columns when no single one identifies them; a null value matches a null.
+ */
+async function upsertWithProvenance(
+  supabase: any,
+  table: string,
+  personId: string,
+  matchColumn: string | string[],
+  record: Record<string, any>,
+  context?: ImportChangeContext
+) {
+  const matchColumns = Array.isArray(matchColumn) ? matchColumn : [matchColumn]
+  const firstSeen: string | null = record.first_seen || null
+  const lastSeen: string | null = record.last_seen || null
+
+  let query = supabase
+    .from(table)
+    .select('*')
+    .eq('person_id', personId)
+  for (const column of matchColumns) {
+    query = record[column] == null ? query.is(column, null) : query.eq(column, record[column])
+  }
+  const { data: existing, error: findError } = await query.limit(1).maybeSingle()
+
+  if (findError) throw new Error(`${table} lookup failed - ${findError.message}`)
+
+  if (existing) {
+    const updates: Record<string, any> = { ...record }
+    for (const column of matchColumns) delete updates[column]
+    // A number a collector marked wrong stays out of use however often the scrub reports it
+    if (existing.is_wrong_number) delete updates.is_current
+    updates.first_seen = earliest(existing.first_seen, firstSeen)
+    updates.last_seen = latest(existing.last_seen, lastSeen)
+
+    await updateTracked(supabase, table, existing.id, updates, context)
+    return
+  }
+
+  await insertTracked(supabase, table, {
+    person_id: personId,
+    ...record,
+    source: SKIP_TRACE_SOURCE,
+    created_at: new Date().toISOString()
+  }, context)
+}
+
+async function applyDeceased(supabase: any, personId: string, row: SkipTraceImportRow, context?: ImportChangeContext) {
+  if (!isYes(row.deceased)) return
+
+  await updateTracked(supabase, 'persons', personId, {
+    is_deceased: true,
+    deceased_date: toIsoDate(row.ssdi_date_of_dec) || toIsoDate(row.obit_date_of_dec),
+    deceased_verified: isYes(row.verified_proof),
+    updated_at: new Date().toISOString()
+  }, context)
+}
+
+async function applyBankruptcy(supabase: any, personId: string, row: SkipTraceImportRow, scrubDate: string, context?: ImportChangeContext) {
+  if (!isYes(row.bankrupt)) return
+
+  const caseNumber = clean(row.case_number)
+  const filingDate = toIsoDate(row.filing_date)
+  const dischargeDate = toIsoDate(row.discharged_date)
+  const dismissedDate = toIsoDate(row.dismissed_date)
+
+  const record: Record<string, any> = {
+    case_number: caseNumber,
+    filing_date: filingDate,
+    discharge_date: dischargeDate,
+    dismissed_date: dismissedDate,
+    closed_date: toIsoDate(row.closed_date),
+    bankruptcy_type: mapBankruptcyChapter(row.chapter),
+    status: dismissedDate ? 'dismissed' : dischargeDate ? 'discharged' : 'active',
+    court: joinParts(row.court_venue, row.court_city, row.court_state),
+    court_district: clean(row.court_district),
+    disposition_status: clean(row.disposition_status),
+    codebtor_name: joinParts(row.codebtor_first_name, row.codebtor_middle_name, row.codebtor_last_name, row.codebtor_generation),
+    codebtor_address: joinParts(row.codebtor_address, row.codebtor_city, row.codebtor_state, row.codebtor_zip),
+    trustee_name: clean(row.trustee_name),
+    trustee_phone: normalizePhone(row.trustee_phone),
+    attorney_name: joinParts(row.attorney_name, row.attorney_firm_name ? `(${row.attorney_firm_name})` : null),
+    attorney_phone: normalizePhone(row.attorney_phone),
+    hearing_date: toIsoDate(row.hearing_date),
+    first_seen: filingDate || scrubDate,
+    last_seen: scrubDate
+  }
+
+  if (caseNumber) {
+    await upsertWithProvenance(supabase, 'person_bankruptcies', personId, 'case_number', record, context)
+  } else {
+    // Without a case number the filing is recognised by its chapter and filing date; a matching
+    // record keeps the case number it already has
+    delete record.case_number
+    await upsertWithProvenance(supabase, 'person_bankruptcies', personId, ['bankruptcy_type', 'filing_date'], record, context)
+  }
+
+  await updateTracked(supabase, 'persons', personId, { bankruptcy_filed: true, updated_at: new Date().toISOString() }, context)
+}
+
+async function applyAddress(supabase: any, personId: string, row: SkipTraceImportRow, scrubDate: string, context?: ImportChangeContext) {
+  const line1 = clean(row.address1)
+  if (!line1) return
+
+  await upsertWithProvenance(supabase, 'person_addresses', personId, 'full_address', {
+    full_address: [line1, clean(row.address1_city), clean(row.address1_state), clean(row.address1_zip)].filter(Boolean).join(', '),
+    address_line1: line1,
+    city: clean(row.address1_city),
+    state: clean(row.address1_state),
+    zipcode: clean(row.address1_zip),
+    county: clean(row.address1_county),
+    address_type: 'residential',
+    is_current: true,
+    first_seen: toIsoDate(row.address1_first_seen) || scrubDate,
+    last_seen: toIsoDate(row.address1_last_seen) || scrubDate
+  }, context)
+}
+
+async function applyPhones(supabase: any, personId: string, row: SkipTraceImportRow, scrubDate: string, context?: ImportChangeContext) {
+  const phones = [
+    { number: row.phone1, type: row.phone1_type, firstSeen: row.phone1_first_seen, lastSeen: row.phone1_last_seen },
+    { number: row.phone2, type: row.phone2_type, firstSeen: row.phone2_first_seen, lastSeen: row.phone2_last_seen },
+    { number: row.phone3, type: row.phone3_type, firstSeen: row.phone3_first_seen, lastSeen: row.phone3_last_seen }
+  ]
+
+  for (const phone of phones) {
+    const number = normalizePhone(phone.number)
+    if (!number) continue
+
+    await upsertWithProvenance(supabase, 'person_phones', personId, 'number', {
+      number,
+      phone_type: mapPhoneType(phone.type),
+      is_current: true,
+      first_seen: toIsoDate(phone.firstSeen) || scrubDate,
+      last_seen: toIsoDate(phone.lastSeen) || scrubDate
+    }, context)
+  }
+}
+
+async function applyRelatives(supabase: any, personId: string, row: SkipTraceImportRow, scrubDate: string, context?: ImportChangeContext) {
+  const data = row as Record<string, any>
+
+  for (let i = 1; i <= 5; i++) {
+    const prefix = `rel${i}_`
+    const name = clean(data[`${prefix}full_name`]) ||
+      joinParts(data[`${prefix}first_name`], data[`${prefix}middle_name`], data[`${prefix}last_name`], data[`${prefix}suffix`])
+    if (!name) continue
+
+    await upsertWithProvenance(supabase, 'person_relatives', personId, 'relative_name', {
+      relative_name: name,
+      relationship: clean(data[`${prefix}likely_relationship`])?.toLowerCase() || null,
+      phone_number: normalizePhone(data[`${prefix}phone_1`]),
+      relative_phone: normalizePhone(data[`${prefix}phone_2`]) || normalizePhone(data[`${prefix}phone_3`]),
+      relative_email: clean(data[`${prefix}email_1`])?.toLowerCase() || null,
+      address: clean(data[`${prefix}address`]),
+      city: clean(data[`${prefix}city`]),
+      state: clean(data[`${prefix}state`]),
+      zipcode: clean(data[`${prefix}zip`]),
+      first_seen: scrubDate,
+      last_seen: scrubDate
+    }, context)
+  }
+}
+
+async function applyEmployment(supabase: any, personId: string, row: SkipTraceImportRow, scrubDate: string, context?: ImportChangeContext) {
+  const employerName = clean(row.poe_employer_name)
+  if (!employerName) return
+
+  const lastSeen = toIsoDate(row.poe_last_seen_date) || scrubDate
+
+  await upsertWithProvenance(supabase, 'person_employments', personId, 'employer_name', {
+    employer_name: employerName,
+    job_title: clean(row.poe_job_title),
+    address: clean(row.poe_employer_address),
+    city: clean(row.poe_employer_city),
+    state: clean(row.poe_employer_state),
+    zipcode: clean(row.poe_employer_zip),
+    phone_number: normalizePhone(row.poe_employer_phone) || normalizePhone(row.poe_phone),
+    first_seen: lastSeen,
+    last_seen: lastSeen
+  }, context)
+}
+
+/**
+ * Apply one validated skip-trace staging row to the person it matches.
+ * Returns false when the row does not match any person we know about.
+ */
+export async function applySkipTraceRow(
+  supabase: any,
+  scope: AccountMatchScope,
+  row: SkipTraceImportRow,
+  context?: ImportChangeContext
+): Promise<boolean> {
+  const personId = await findPersonForRow(supabase, scope, row)
+  if (!personId) return false
+
+  const scrubDate = toIsoDate(row.scrub_date) || new Date().toISOString().split('T')[0]
+
+  await applyDeceased(supabase, personId, row, context)
+  await applyBankruptcy(supabase, personId, row, scrubDate, context)
+  await applyAddress(supabase, personId, row, scrubDate, context)
+  await applyPhones(supabase, personId, row, scrubDate, context)
+  await applyRelatives(supabase, personId, row, scrubDate, context)
+  await applyEmployment(supabase, personId, row, scrubDate, context)
+
+  await updateTracked(supabase, 'persons', personId, { last_skip_trace_date: scrubDate, updated_at: new Date().toISOString() }, context)
+
+  return true
+}
+
+export async function processSkipTraceDataChunk(
+  supabase: any,
+  stagingData: any[],
+  scope: AccountMatchScope,
+  jobId?: string
+): Promise<SkipTraceChunkResult> {
+  let processedCount = 0
+  let matchedCount = 0
+  const errors: string[] = []
+
+  console.log(`🚀 [SKIP TRACE] Processing chunk: ${stagingData.length} skip trace rows`)
+
+  for (const row of stagingData) {
+    const mappedData = (row.mapped_data || {}) as SkipTraceImportRow
+    const changeContext: ImportChangeContext | undefined = jobId
+      ? { jobId, rowNumber: row.row_number, changes: [] }
+      : undefined
+
+    try {
+      const matched = await applySkipTraceRow(supabase, scope, mappedData, changeContext)
+
+      if (matched) {
+        matchedCount++
+        console.log(`✅ [SKIP TRACE] Row ${row.row_number} applied`)
+      } else {
+        console.warn(`⚠️ [SKIP TRACE] Row ${row.row_number} did not match any person`)
+        errors.push(`Row ${row.row_number}: No person found for SSN/account key`)
+      }
+    } catch (rowError) {
+      console.error(`[SKIP TRACE] Error processing row ${row.row_number}:`, rowError)
+      errors.push(`Row ${row.row_number}: ${rowError instanceof Error ? rowError.message : 'Unknown error'}`)
+    }
+
+    if (changeContext) {
+      await recordImportChanges(supabase, changeContext.changes)
+    }
+
+    processedCount++
+  }
+
+  console.log(`✅ [SKIP TRACE] Chunk completed: ${matchedCount}/${processedCount} rows matched, ${errors.length} errors`)
+
+  return { processedCount, matchedCount, errors }
+}
@@ -0,0 +1,357 @@
+import { isDelimitedFile, readDelimitedRecords } from '@/lib/import/delimited-reader'
+import { readWorkbookRecords } from '@/lib/import/workbook-reader'
+import { applyTransformRules } from '@/lib/import/transform-rules'
+import { stageRelatedSheets } from '@/lib/import/related-sheets'
+import { ImportSheetConfig, TransformRule } from '@/types/import'
+
+// Rows per insert into import_staging_data while streaming a file
+export const STAGING_BATCH_SIZE = 1000
+
+export interface StageImportParams {
+  jobId: string
+  filePath: string
+  fieldMapping: Record<string, string>
+  // Template transformation rules, applied after the column mapping
+  transformRules?: TransformRule[]
+  delimiter?: string
+  // Workbooks: which sheet holds the accounts and which sheets hold their child records
+  sheetConfig?: ImportSheetConfig | null
+  // Data rows already committed to staging by a previous attempt
+  resumeFromRow?: number
+  // Remove the file from storage once staged - set for plaintext unpacked from an encrypted or compressed upload
+  deleteFileAfterStaging?: boolean
+}
+
+export interface StageImportHooks {
+  // Called after each batch is committed - used by the job runner to heartbeat and checkpoint
+  onBatchCommitted?: (stagedRows: number) => Promise<void>
+  // Called after each related-sheet batch. Related sheets are restaged from scratch on a retry, so
+  // this only keeps the task's lease alive - it doesn't checkpoint or stop at the time budget
+  onRelatedBatchCommitted?: () => Promise<void>
+}
+
+// Open a streaming read of an uploaded file, counting bytes so staging can report progress
+export async function openImportFileStream(supabase: any, filePath: string) {
+  const { data: signedUrl, error: signedUrlError } = await supabase.storage
+    .from('import-files')
+    .createSignedUrl(filePath, 60 * 60)
+
+  if (signedUrlError || !signedUrl?.signedUrl) {
+    throw new Error(`Failed to download file: ${signedUrlError?.message || 'No signed URL returned'}`)
+  }
+
+  const response = await fetch(signedUrl.signedUrl)
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download file: ${response.status} ${response.statusText}`)
+  }
+
+  let bytesRead = 0
+  const stream = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesRead += chunk.byteLength
+      controller.enqueue(chunk)
+    }
+  }))
+
+  return {
+    stream,
+    totalBytes: Number(response.headers.get('content-length')) || null,
+    getBytesRead: () => bytesRead
+  }
+}
+
+/**
+ * Stream an uploaded file into import_staging_data and mark the job 'uploaded'.
+ * When resumeFromRow is set, rows up to that point are assumed committed and skipped;
+ * anything staged past it by a half-finished batch is removed first.
+ */
+export async function stageImportFile(supabase: any, params: StageImportParams, hooks: StageImportHooks = {}) {
+  const { jobId, filePath, fieldMapping, transformRules, delimiter, sheetConfig, deleteFileAfterStaging } = params
+  const resumeFromRow = params.resumeFromRow || 0
+  const startTime = Date.now()
+
+  console.log(`🚀 [STAGING] Staging job ${jobId}`, { filePath, delimiter, resumeFromRow })
+
+  // Update job status to processing
+  await supabase
+    .from('import_jobs')
+    .update({
+      status: 'processing',
+      started_at: new Date().toISOString(),
+      ...(resumeFromRow === 0 ? { progress: 0 } : {})
+    })
+    .eq('id', jobId)
+
+  // Clear rows from any attempt that didn't reach its checkpoint
+  const { error: clearError } = await supabase
+    .from('import_staging_data')
+    .delete()
+    .eq('job_id', jobId)
+    .gt('row_number', resumeFromRow)
+
+  if (clearError) {
+    throw new Error(`Failed to clear partial staging data: ${clearError.message}`)
+  }
+
+  // Stream the file from storage rather than downloading it into memory
+  const { stream: fileStream, totalBytes, getBytesRead } = await openImportFileStream(supabase, filePath)
+  console.log(`📊 [STAGING] File stream opened:`, { filePath, totalBytes })
+
+  if (totalBytes === 0) {
+    throw new Error('Downloaded file is empty or corrupted')
+  }
+
+  // Flat files go through the delimited reader, workbooks through the ExcelJS streaming reader
+  const records = isDelimitedFile(filePath)
+    ? readDelimitedRecords(fileStream, { delimiter })
+    : readWorkbookRecords(fileStream, sheetConfig?.primarySheet)
+
+  const tempTableName = await createTempImportTable(supabase, jobId)
+
+  // Rows are staged in bounded batches so memory stays flat regardless of file size
+  let headers: string[] | null = null
+  let batch: any[] = []
+  let rowsSeen = 0
+  let stagedRows = resumeFromRow
+  let lastProgress = 0
+
+  const flushBatch = async () => {
+    if (batch.length === 0) return
+
+    // Add a timeout to prevent hanging; cleared once the insert settles so it can't fire later
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined
+    const timeoutPromise = new Promise((_, reject) => {
+      timeoutHandle = setTimeout(() => reject(new Error('bulkInsertToTempTable timed out after 60 seconds')), 60000)
+    })
+
+    const insertPromise = bulkInsertToTempTable(supabase, tempTableName, batch, fieldMapping, jobId, stagedRows, transformRules)
+    try {
+      await Promise.race([insertPromise, timeoutPromise])
+    } finally {
+      clearTimeout(timeoutHandle)
+    }
+
+    stagedRows += batch.length
+    batch = []
+
+    // Staging is the first half of the upload - progress tracks bytes read from the file
+    const progress = totalBytes ? Math.min(99, Math.round((getBytesRead() / totalBytes) * 100)) : 0
+    if (progress !== lastProgress) {
+      lastProgress = progress
+      await supabase
+        .from('import_jobs')
+        .update({ progress, rows_processed: stagedRows })
+        .eq('id', jobId)
+    }
+
+    if (hooks.onBatchCommitted) {
+      await hooks.onBatchCommitted(stagedRows)
+    }
+
+    console.log(`📊 [STAGING] Staged ${stagedRows} rows (${progress}% of file read)`)
+  }
+
+  for await (const record of records) {
+    if (!headers) {
+      headers = record.map(h => String(h || '').trim())
+      console.log(`📊 [STAGING] File headers: ${headers.length} columns`)
+      continue
+    }
+
+    rowsSeen++
+    if (rowsSeen <= resumeFromRow) continue
+
+    const obj: any = { jobId, import_id: jobId }
+    headers.forEach((header, colIndex) => {
+      if (header && record[colIndex] !== undefined) {
+        obj[header] = record[colIndex]
+      }
+    })
+    batch.push(obj)
+
+    if (batch.length >= STAGING_BATCH_SIZE) {
+      await flushBatch()
+    }
+  }
+
+  await flushBatch()
+
+  if (!headers || stagedRows === 0) {
+    console.error(`❌ [STAGING] File parsing failed: headers = ${headers?.length || 0}, rows = ${stagedRows}`)
+    throw new Error('File must have at least a header row and one data row')
+  }
+
+  if (sheetConfig?.related?.length && !isDelimitedFile(filePath)) {
+    await stageRelatedSheets(supabase, jobId, sheetConfig.related, async () =>
+      (await openImportFileStream(supabase, filePath)).stream,
+      hooks.onRelatedBatchCommitted
+    )
+  }
+
+  // Update job status to uploaded (ready for validation)
+  const { error: updateError } = await supabase
+    .from('import_jobs')
+    .update({
+      status: 'uploaded',
+      uploaded_at: new Date().toISOString(),
+      progress: 0, // No progress yet - waiting for validation
+      rows_processed: 0, // No rows processed yet
+      total_rows: stagedRows,
+      // Kept in file order for the failed-rows file; raw_data doesn't preserve column order
+      source_headers: headers.filter(Boolean),
+      error_message: null
+    })
+    .eq('id', jobId)
+
+  if (updateError) {
+    console.error(`❌ [STAGING] Failed to update job status:`, updateError)
+    throw updateError
+  }
+
+  await cleanupStagingTable(supabase, tempTableName)
+
+  if (deleteFileAfterStaging) {
+    await deleteStagedFile(supabase, jobId, filePath)
+  }
+
+  console.log(`✅ [STAGING] Job ${jobId} staged ${stagedRows} rows (${headers.length} columns) in ${Date.now() - startTime}ms. Ready for validation.`)
+
+  return { headers, stagedRows }
+}
+
+// The rows now live in import_staging_data, so the plaintext copy is no longer needed.
+// A failed removal is logged rather than failing a job whose rows are already staged.
+async function deleteStagedFile(supabase: any, jobId: string, filePath: string) {
+  const { error: removeError } = await supabase.storage
+    .from('import-files')
+    .remove([filePath])
+
+  if (removeError) {
+    console.error(`❌ [STAGING] Failed to delete plaintext file ${filePath}:`, removeError)
+    return
+  }
+
+  await supabase
+    .from('import_jobs')
+    .update({ plaintext_deleted_at: new Date().toISOString() })
+    .eq('id', jobId)
+
+  console.log(`✅ [STAGING] Deleted plaintext file ${filePath} after staging`)
+}
+
+// Staging rows are grouped under a name derived from the job's file: temp_YYYYMMDD_filename
+async function createTempImportTable(supabase: any, jobId: string) {
+  const { data: job, error: jobError } = await supabase
+    .from('import_jobs')
+    .select('file_name, created_at')
+    .eq('id', jobId)
+    .single()
+
+  if (jobError) {
+    console.error('[TEMP TABLE] Error getting job details:', jobError)
+    throw new Error(`Failed to setup staging: ${jobError.message}`)
+  }
+
+  const date = new Date(job.created_at)
+  const dateStr = date.toISOString().split('T')[0].replace(/-/g, '') // YYYYMMDD format
+  const filename = job.file_name.replace(/\.[^/.]+$/, '') // Remove file extension
+  const cleanFilename = filename.replace(/[^a-zA-Z0-9]/g, '_') // Replace special chars with underscores
+
+  const tempTableName = `temp_${dateStr}_${cleanFilename}`
+  console.log(`[TEMP TABLE] Using staging table: ${tempTableName} (JSONB storage in import_staging_data)`)
+  return tempTableName
+}
+
+export async function bulkInsertToTempTable(
+  supabase: any,
+  tempTableName: string,
+  rows: any[],
+  fieldMapping: any,
+  jobId: string,
+  rowOffset: number = 0,
+  transformRules: TransformRule[] = []
+) {
+  // Detailed logging only for the first batch of a streamed file
+  const isFirstBatch = rowOffset === 0
+  console.log(`🚀 [BULK INSERT] Inserting ${rows.length} rows starting at row ${rowOffset + 1} into ${tempTableName}`)
+
+  if (rows.length === 0) {
+    console.log(`⚠️ [BULK INSERT] No rows to process, returning early`)
+    return
+  }
+
+  if (isFirstBatch) {
+    console.log(`🚀 [BULK INSERT] fieldMapping:`, JSON.stringify(fieldMapping, null, 2))
+    console.log(`🚀 [BULK INSERT] transformRules: ${transformRules.length}`)
+    console.log(`📊 [BULK INSERT] Sample row object:`, JSON.stringify(rows[0], null, 2))
+  }
+
+  // Prepare the data for bulk insert into the staging table
+  const insertData = rows.map((row: any, index) => {
+    // Create the mapped data object
+    const mappedData: any = {}
+
+    Object.entries(fieldMapping || {}).forEach(([targetField, sourceField]) => {
+      const sourceValue = row[sourceField as string]
+
+      if (sourceValue !== undefined) {
+        mappedData[targetField as string] = sourceValue?.toString() || ''
+      }
+    })
+
+    // Rules that can't apply leave the value as mapped; validation reports it from there
+    const transformed = transformRules.length > 0
+      ? applyTransformRules(mappedData, row, transformRules).data
+      : mappedData
+
+    return {
+      job_id: jobId,
+      table_name: tempTableName,
+      row_number: rowOffset + index + 1,
+      field_mapping: fieldMapping,
+      mapped_data: transformed,
+      raw_data: row
+    }
+  })
+
+  if (isFirstBatch) {
+    console.log(`📊 [BULK INSERT] First row mapped_data:`, JSON.stringify(insertData[0]?.mapped_data, null, 2))
+  }
+
+  // Insert this batch into the staging table
+  const { data, error } = await supabase
+    .from('import_staging_data')
+    .insert(insertData)
+
+  if (error) {
+    console.error('❌ [BULK INSERT] Error inserting data:', {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint
+    })
+    throw error
+  }
+
+  console.log(`✅ [BULK INSERT] Successfully inserted ${rows.length} rows into staging table`)
+  return data
+}
+
+// Cleanup function - we keep staging data for inspection
+async function cleanupStagingTable(supabase: any, tempTableName: string) {
+  try {
+    const { count, error: countError } = await supabase
+      .from('import_staging_data')
+      .select('*', { count: 'exact', head: true })
+      .eq('table_name', tempTableName)
+
+    if (countError) {
+      console.error('[CLEANUP] Error getting staging data count:', countError)
+    } else {
+      console.log(`[CLEANUP] Keeping ${count} rows in import_staging_data for ${tempTableName}`)
+    }
+  } catch (error) {
+    console.error('[CLEANUP] Failed to check staging data:', error)
+    // Don't throw here - cleanup failure shouldn't fail the import
+  }
+}
@@ -0,0 +1,98 @@
+// Import template versions (see import_template_versions)
+// A template edit that changes how rows are mapped or validated adds a new immutable version;
+// jobs are stamped with the version they were created with
+
+export interface ImportTemplateVersion {
+  id: string
+  template_id: string | null
+  version_number: number
+  name: string
+  import_type: string
+  field_mappings: Record<string, any>
+  validation_rules: any
+  transform_rules: any
+  required_columns: string[]
+  optional_columns: string[]
+  created_by: string | null
+  created_at: string
+}
+
+// Fields that change what a job does with a file; name/description edits don't need a version
+const VERSIONED_FIELDS = [
+  'import_type', 'field_mappings', 'validation_rules', 'transform_rules', 'required_columns', 'optional_columns'
+]
+
+function normalize(value: any): string {
+  return JSON.stringify(value ?? null)
+}
+
+export function templateChangeNeedsVersion(current: any, updates: Record<string, any>): boolean {
+  return VERSIONED_FIELDS.some(field =>
+    updates[field] !== undefined && normalize(updates[field]) !== normalize(current[field])
+  )
+}
+
+// Snapshot a template row as its next version and point the template at it
+export async function createTemplateVersion(
+  supabase: any,
+  template: any,
+  createdBy: string | null
+): Promise<ImportTemplateVersion> {
+  const { data: latest } = await supabase
+    .from('import_template_versions')
+    .select('version_number')
+    .eq('template_id', template.id)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: version, error } = await supabase
+    .from('import_template_versions')
+    .insert({
+      template_id: template.id,
+      version_number: (latest?.version_number || 0) + 1,
+      name: template.name,
+      import_type: template.import_type,
+      field_mappings: template.field_mappings || {},
+      validation_rules: template.validation_rules || [],
+      transform_rules: template.transform_rules || [],
+      required_columns: template.required_columns || [],
+      optional_columns: template.optional_columns || [],
+      created_by: createdBy
+    })
+    .select()
+    .single()
+
+  if (error || !version) {
+    throw new Error(`Failed to create template version: ${error?.message || 'no version returned'}`)
+  }
+
+  const { error: updateError } = await supabase
+    .from('import_templates')
+    .update({
+      current_version_id: version.id,
+      current_version: version.version_number
+    })
+    .eq('id', template.id)
+
+  if (updateError) {
+    throw new Error(`Failed to set current template version: ${updateError.message}`)
+  }
+
+  return version
+}
+
+// The version a new job should be stamped with; templates saved before versioning get one on first use
+export async function resolveTemplateVersionId(supabase: any, templateId: string): Promise<string | null> {
+  const { data: template } = await supabase
+    .from('import_templates')
+    .select('*')
+    .eq('id', templateId)
+    .maybeSingle()
+
+  if (!template) return null
+  if (template.current_version_id) return template.current_version_id
+
+  const version = await createTemplateVersion(supabase, template, template.created_by || null)
+  return version.id
+}
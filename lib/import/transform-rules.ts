@@ -0,0 +1,255 @@
+// Declarative transformation rules for import templates (see import_templates.transform_rules)
+// Rules run in order on each staged row after the column mapping, so a rule sees the output of
+// the rules before it. A `source` names a mapped field first, then a column in the file.
+
+import { TransformCondition, TransformRule } from '@/types/import'
+
+export const TRANSFORM_RULE_TYPES = [
+  'split', 'concat', 'regex_extract', 'regex_replace', 'date_format', 'lookup', 'default', 'conditional'
+]
+
+const CONDITION_OPERATORS = ['equals', 'not_equals', 'contains', 'matches', 'empty', 'not_empty']
+
+export interface TransformResult {
+  data: Record<string, string>
+  // Rules that couldn't be applied to this row; the value is left as it was
+  warnings: string[]
+}
+
+function isBlank(value: any): boolean {
+  return value === undefined || value === null || String(value).trim() === ''
+}
+
+function readSource(data: Record<string, string>, raw: Record<string, any>, source: string): string {
+  if (data[source] !== undefined) return data[source]
+  const value = raw[source]
+  return value === undefined || value === null ? '' : String(value)
+}
+
+/**
+ * Parse a date written in `format` (tokens YYYY, YY, MM, M, DD, D) and return YYYY-MM-DD.
+ * Two-digit years later than the current year are read as 19xx.
+ */
+export function parseDateWithFormat(value: string, format: string): string | null {
+  const tokenPattern = /YYYY|YY|MM|M|DD|D/g
+  const tokens: string[] = []
+  const pattern = format
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(tokenPattern, token => {
+      tokens.push(token)
+      return token === 'YYYY' ? '(\\d{4})' : token === 'YY' ? '(\\d{2})' : '(\\d{1,2})'
+    })
+
+  const match = new RegExp(`^${pattern}$`).exec(value.trim())
+  if (!match) return null
+
+  let year = 0
+  let month = 0
+  let day = 0
+  tokens.forEach((token, index) => {
+    const part = parseInt(match[index + 1], 10)
+    if (token === 'YYYY') year = part
+    else if (token === 'YY') {
+      const currentTwoDigit = new Date().getFullYear() % 100
+      year = part > currentTwoDigit ? 1900 + part : 2000 + part
+    } else if (token.startsWith('M')) month = part
+    else day = part
+  })
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (!year || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+function conditionHolds(condition: TransformCondition, data: Record<string, string>, raw: Record<string, any>): boolean {
+  const value = readSource(data, raw, condition.source)
+  const expected = condition.value ?? ''
+
+  switch (condition.operator) {
+    case 'equals':
+      return value.trim().toLowerCase() === expected.trim().toLowerCase()
+    case 'not_equals':
+      return value.trim().toLowerCase() !== expected.trim().toLowerCase()
+    case 'contains':
+      return value.toLowerCase().includes(expected.toLowerCase())
+    case 'matches':
+      return new RegExp(expected, 'i').test(value)
+    case 'empty':
+      return isBlank(value)
+    case 'not_empty':
+      return !isBlank(value)
+    default:
+      return false
+  }
+}
+
+function applyRule(rule: TransformRule, data: Record<string, string>, raw: Record<string, any>, warnings: string[]) {
+  switch (rule.type) {
+    case 'split': {
+      const value = readSource(data, raw, rule.source)
+      if (isBlank(value)) return
+      const parts = value.split(rule.separator).map(part => part.trim())
+      rule.targets.forEach((target, index) => {
+        // The last target takes whatever is left, so "LAST, FIRST MIDDLE" keeps the middle name
+        const part = index === rule.targets.length - 1
+          ? parts.slice(index).join(rule.separator)
+          : parts[index]
+        if (target && !isBlank(part)) data[target] = part
+      })
+      return
+    }
+    case 'concat': {
+      const values = rule.sources.map(source => readSource(data, raw, source).trim()).filter(value => value !== '')
+      if (values.length > 0) data[rule.target] = values.join(rule.separator ?? ' ')
+      return
+    }
+    case 'regex_extract': {
+      const value = readSource(data, raw, rule.source)
+      if (isBlank(value)) return
+      const match = new RegExp(rule.pattern).exec(value)
+      const extracted = match ? match[rule.group ?? (match.length > 1 ? 1 : 0)] : undefined
+      if (extracted === undefined) {
+        warnings.push(`${rule.target}: "${value}" does not match /${rule.pattern}/`)
+        return
+      }
+      data[rule.target] = extracted
+      return
+    }
+    case 'regex_replace': {
+      const value = readSource(data, raw, rule.source)
+      if (isBlank(value)) return
+      data[rule.target] = value.replace(new RegExp(rule.pattern, 'g'), rule.replacement)
+      return
+    }
+    case 'date_format': {
+      const value = readSource(data, raw, rule.source)
+      if (isBlank(value)) return
+      const parsed = parseDateWithFormat(value, rule.format)
+      if (!parsed) {
+        warnings.push(`${rule.target}: "${value}" is not a ${rule.format} date`)
+        return
+      }
+      data[rule.target] = parsed
+      return
+    }
+    case 'lookup': {
+      const value = readSource(data, raw, rule.source).trim()
+      const key = Object.keys(rule.table).find(candidate => candidate.trim().toLowerCase() === value.toLowerCase())
+      if (key !== undefined) {
+        data[rule.target] = rule.table[key]
+      } else if (rule.fallback !== undefined) {
+        data[rule.target] = rule.fallback
+      } else if (!isBlank(value)) {
+        warnings.push(`${rule.target}: no lookup entry for "${value}"`)
+      }
+      return
+    }
+    case 'default': {
+      if (isBlank(data[rule.target])) data[rule.target] = rule.value
+      return
+    }
+    case 'conditional': {
+      const branch = conditionHolds(rule.when, data, raw) ? rule.then : rule.otherwise || []
+      branch.forEach(nested => applyRule(nested, data, raw, warnings))
+      return
+    }
+  }
+}
+
+export function applyTransformRules(
+  mappedData: Record<string, string>,
+  rawRow: Record<string, any>,
+  rules: TransformRule[] | null | undefined
+): TransformResult {
+  const data = { ...mappedData }
+  const warnings: string[] = []
+
+  for (const rule of rules || []) {
+    try {
+      applyRule(rule, data, rawRow, warnings)
+    } catch (error) {
+      warnings.push(`${rule.type}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  return { data, warnings }
+}
+
+function validateRule(rule: any, path: string, errors: string[]) {
+  if (!rule || typeof rule !== 'object' || !TRANSFORM_RULE_TYPES.includes(rule.type)) {
+    errors.push(`${path}: type must be one of ${TRANSFORM_RULE_TYPES.join(', ')}`)
+    return
+  }
+
+  const requireString = (key: string) => {
+    if (typeof rule[key] !== 'string' || rule[key] === '') errors.push(`${path}: ${rule.type} requires "${key}"`)
+  }
+  const requirePattern = () => {
+    requireString('pattern')
+    try {
+      new RegExp(rule.pattern)
+    } catch {
+      errors.push(`${path}: invalid pattern /${rule.pattern}/`)
+    }
+  }
+
+  switch (rule.type) {
+    case 'split':
+      requireString('source')
+      if (typeof rule.separator !== 'string' || rule.separator === '') errors.push(`${path}: split requires "separator"`)
+      if (!Array.isArray(rule.targets) || rule.targets.length === 0) errors.push(`${path}: split requires "targets"`)
+      break
+    case 'concat':
+      requireString('target')
+      if (!Array.isArray(rule.sources) || rule.sources.length === 0) errors.push(`${path}: concat requires "sources"`)
+      break
+    case 'regex_extract':
+      requireString('source')
+      requireString('target')
+      requirePattern()
+      break
+    case 'regex_replace':
+      requireString('source')
+      requireString('target')
+      requirePattern()
+      if (typeof rule.replacement !== 'string') errors.push(`${path}: regex_replace requires "replacement"`)
+      break
+    case 'date_format':
+      requireString('source')
+      requireString('target')
+      requireString('format')
+      break
+    case 'lookup':
+      requireString('source')
+      requireString('target')
+      if (!rule.table || typeof rule.table !== 'object' || Array.isArray(rule.table)) {
+        errors.push(`${path}: lookup requires a "table" object`)
+      }
+      break
+    case 'default':
+      requireString('target')
+      if (rule.value === undefined) errors.push(`${path}: default requires "value"`)
+      break
+    case 'conditional':
+      if (!rule.when || typeof rule.when.source !== 'string' || !CONDITION_OPERATORS.includes(rule.when.operator)) {
+        errors.push(`${path}: conditional requires "when" with a source and an operator (${CONDITION_OPERATORS.join(', ')})`)
+      }
+      if (!Array.isArray(rule.then)) errors.push(`${path}: conditional requires a "then" rule list`)
+      ;(rule.then || []).forEach((nested: any, index: number) => validateRule(nested, `${path}.then[${index}]`, errors))
+      ;(rule.otherwise || []).forEach((nested: any, index: number) => validateRule(nested, `${path}.otherwise[${index}]`, errors))
+      break
+  }
+}
+
+// Returns one message per problem; an empty list means the rule set can be saved
+export function validateTransformRules(rules: any): string[] {
+  if (rules === undefined || rules === null) return []
+  if (!Array.isArray(rules)) return ['Transformation rules must be a list']
+
+  const errors: string[] = []
+  rules.forEach((rule, index) => validateRule(rule, `Rule ${index + 1}`, errors))
+  return errors
+}
@@ -0,0 +1,287 @@
+// Template-driven row validation for imports (see import_templates.validation_rules)
+// Each import type has default format checks; a template rule for the same field and rule kind
+// replaces the default, and any other template rules are added on top.
+
+import { ValidationRule } from '@/types/import'
+
+export const VALIDATION_RULE_KINDS: ValidationRule['rule'][] = [
+  'required', 'email', 'phone', 'ssn', 'currency', 'date', 'enum', 'range', 'regex', 'compare', 'unique'
+]
+
+const COMPARE_OPERATORS = ['before', 'after', 'lt', 'lte', 'gt', 'gte', 'eq', 'ne']
+
+const DEFAULT_RULES: Record<string, ValidationRule[]> = {
+  accounts: [
+    { field: 'current_balance', rule: 'currency', severity: 'error', message: 'Current balance should be a number' },
+    { field: 'ssn', rule: 'ssn', severity: 'warning', message: 'SSN format may be invalid' },
+    { field: 'charge_off_date', rule: 'date', severity: 'warning', message: 'Charge off date format may be invalid' },
+    { field: 'date_opened', rule: 'date', severity: 'warning', message: 'Date opened format may be invalid' },
+    { field: 'account_number', rule: 'required', severity: 'warning', message: 'Account number is missing (optional)' },
+    { field: 'phone_primary', rule: 'phone', severity: 'warning', message: 'Primary phone number format may be invalid' },
+    { field: 'email_primary', rule: 'email', severity: 'warning', message: 'Primary email format may be invalid' }
+  ],
+  skip_trace: [
+    { field: 'ssn', rule: 'ssn', severity: 'warning', message: 'SSN format may be invalid' },
+    ...['phone1', 'phone2', 'phone3'].map(field => (
+      { field, rule: 'phone', severity: 'warning', message: `${field} format may be invalid` } as ValidationRule
+    )),
+    ...['scrub_date', 'filing_date', 'discharged_date', 'ssdi_date_of_dec', 'obit_date_of_dec'].map(field => (
+      { field, rule: 'date', severity: 'warning', message: `${field} format may be invalid` } as ValidationRule
+    ))
+  ],
+  payments: [
+    // Remittance files often format amounts as $1,234.56, which the payment processor accepts
+    { field: 'payment_amount', rule: 'regex', pattern: '^\\$?\\s*[0-9,]*\\.?[0-9]+$', severity: 'error', message: 'Payment amount should be a number' },
+    { field: 'payment_amount', rule: 'range', min: 0.01, severity: 'error', message: 'Payment amount must be positive' },
+    { field: 'payment_date', rule: 'date', severity: 'error', message: 'Payment date format is invalid' },
+    { field: 'processor_reference', rule: 'unique', severity: 'error', message: 'Processor reference is repeated in the file' }
+  ],
+  notes: [
+    { field: 'note_date', rule: 'date', severity: 'error', message: 'Note date format is invalid' }
+  ],
+  calls: [
+    { field: 'call_date', rule: 'date', severity: 'error', message: 'Call date format is invalid' },
+    { field: 'call_duration', rule: 'range', min: 0, severity: 'warning', message: 'Call duration should be a number of seconds' },
+    { field: 'phone_number', rule: 'phone', severity: 'warning', message: 'Phone number format may be invalid' }
+  ]
+}
+
+export function isValidSSN(ssn: string): boolean {
+  if (!ssn) return false
+  const cleanSSN = ssn.replace(/[^0-9]/g, '')
+  return cleanSSN.length === 9
+}
+
+export function isValidPhone(phone: string): boolean {
+  if (!phone) return false
+  const cleanPhone = phone.replace(/[^0-9]/g, '')
+  return cleanPhone.length >= 10 && cleanPhone.length <= 15
+}
+
+export function isValidEmail(email: string): boolean {
+  if (!email) return false
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+  return emailRegex.test(email)
+}
+
+export function isValidDate(date: string): boolean {
+  if (!date) return false
+  const parsedDate = new Date(date)
+  return !isNaN(parsedDate.getTime())
+}
+
+function isBlank(value: any): boolean {
+  return value === undefined || value === null || String(value).trim() === ''
+}
+
+function toNumber(value: any): number | null {
+  const cleaned = String(value).replace(/[$,\s]/g, '')
+  if (cleaned === '' || isNaN(Number(cleaned))) return null
+  return Number(cleaned)
+}
+
+// Numbers compare as numbers, anything else that parses as a date compares as a date
+function toComparable(value: any): number | null {
+  const number = toNumber(value)
+  if (number !== null) return number
+  return isValidDate(String(value)) ? new Date(String(value)).getTime() : null
+}
+
+function compare(left: number, right: number, operator: NonNullable<ValidationRule['operator']>): boolean {
+  switch (operator) {
+    case 'before':
+    case 'lt':
+      return left < right
+    case 'lte':
+      return left <= right
+    case 'after':
+    case 'gt':
+      return left > right
+    case 'gte':
+      return left >= right
+    case 'eq':
+      return left === right
+    case 'ne':
+      return left !== right
+  }
+}
+
+function defaultMessage(rule: ValidationRule): string {
+  switch (rule.rule) {
+    case 'required':
+      return `${rule.field} is required`
+    case 'enum':
+      return `${rule.field} must be one of: ${(rule.options || []).join(', ')}`
+    case 'range': {
+      const bounds = [
+        rule.min !== undefined ? `at least ${rule.min}` : null,
+        rule.max !== undefined ? `at most ${rule.max}` : null
+      ].filter(Boolean)
+      return `${rule.field} must be ${bounds.join(' and ')}`
+    }
+    case 'regex':
+      return `${rule.field} does not match the expected format`
+    case 'compare':
+      return `${rule.field} must be ${rule.operator} ${rule.compareTo}`
+    case 'unique':
+      return `${rule.field} is repeated in the file`
+    case 'currency':
+      return `${rule.field} should be a number`
+    default:
+      return `${rule.field} format may be invalid`
+  }
+}
+
+export function resolveValidationRules(importType: string, templateRules: ValidationRule[] | null | undefined): ValidationRule[] {
+  const overrides = templateRules || []
+  const defaults = (DEFAULT_RULES[importType] || []).filter(rule =>
+    !overrides.some(override => override.field === rule.field && override.rule === rule.rule)
+  )
+  return [...defaults, ...overrides]
+}
+
+export interface RowRuleResult {
+  errors: string[]
+  warnings: string[]
+}
+
+/**
+ * Returns a validator for the rows of one file. Uniqueness is checked across every row the
+ * validator sees, so rows must go through the same validator in file order.
+ */
+export function createRowValidator(rules: ValidationRule[]) {
+  const seenValues = new Map<string, Map<string, number>>()
+
+  return (mappedData: Record<string, any>, rowNumber: number): RowRuleResult => {
+    const result: RowRuleResult = { errors: [], warnings: [] }
+
+    for (const rule of rules) {
+      const value = mappedData[rule.field]
+      const failed = checkRule(rule, value, mappedData, rowNumber, seenValues)
+      if (failed === null) continue
+
+      const message = failed || rule.message || defaultMessage(rule)
+      if (rule.severity === 'warning') {
+        result.warnings.push(message)
+      } else {
+        result.errors.push(message)
+      }
+    }
+
+    return result
+  }
+}
+
+// null when the rule passes, otherwise '' for the rule's message or a more specific one
+function checkRule(
+  rule: ValidationRule,
+  value: any,
+  mappedData: Record<string, any>,
+  rowNumber: number,
+  seenValues: Map<string, Map<string, number>>
+): string | null {
+  if (rule.rule === 'required') return isBlank(value) ? '' : null
+
+  // Every other rule only applies to values that are present
+  if (isBlank(value)) return null
+  const text = String(value).trim()
+
+  switch (rule.rule) {
+    case 'email':
+      return isValidEmail(text) ? null : ''
+    case 'phone':
+      return isValidPhone(text) ? null : ''
+    case 'ssn':
+      return isValidSSN(text) ? null : ''
+    case 'currency':
+      // Same reading the processor uses when it stores the amount
+      return isNaN(parseFloat(text)) ? '' : null
+    case 'date':
+      return isValidDate(text) ? null : ''
+    case 'enum':
+      return (rule.options || []).some(option => option.toLowerCase() === text.toLowerCase()) ? null : ''
+    case 'regex':
+      return new RegExp(rule.pattern || '').test(text) ? null : ''
+    case 'range': {
+      const comparable = toComparable(text)
+      if (comparable === null) return `${rule.field} is not a number or date`
+      const min = rule.min !== undefined ? toComparable(rule.min) : null
+      const max = rule.max !== undefined ? toComparable(rule.max) : null
+      if (min !== null && comparable < min) return ''
+      if (max !== null && comparable > max) return ''
+      return null
+    }
+    case 'compare': {
+      const other = rule.compareTo ? mappedData[rule.compareTo] : undefined
+      if (isBlank(other)) return null
+      const left = toComparable(text)
+      const right = toComparable(other)
+      if (left === null || right === null) return null
+      return compare(left, right, rule.operator || 'eq') ? null : ''
+    }
+    case 'unique': {
+      const key = text.toLowerCase()
+      let seen = seenValues.get(rule.field)
+      if (!seen) {
+        seen = new Map()
+        seenValues.set(rule.field, seen)
+      }
+      const firstRow = seen.get(key)
+      if (firstRow !== undefined) {
+        return `${rule.message || defaultMessage(rule)} (first seen on row ${firstRow})`
+      }
+      seen.set(key, rowNumber)
+      return null
+    }
+    default:
+      return null
+  }
+}
+
+// Returns one message per problem; an empty list means the rules can be saved
+export function validateValidationRules(rules: any): string[] {
+  if (rules === undefined || rules === null) return []
+  if (!Array.isArray(rules)) return ['Validation rules must be a list']
+
+  const errors: string[] = []
+  rules.forEach((rule: any, index: number) => {
+    const path = `Rule ${index + 1}`
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${path}: must be an object`)
+      return
+    }
+    if (typeof rule.field !== 'string' || rule.field === '') errors.push(`${path}: "field" is required`)
+    if (!VALIDATION_RULE_KINDS.includes(rule.rule)) {
+      errors.push(`${path}: rule must be one of ${VALIDATION_RULE_KINDS.join(', ')}`)
+    }
+    if (rule.severity !== undefined && rule.severity !== 'error' && rule.severity !== 'warning') {
+      errors.push(`${path}: severity must be "error" or "warning"`)
+    }
+    if (rule.rule === 'enum' && (!Array.isArray(rule.options) || rule.options.length === 0)) {
+      errors.push(`${path}: enum requires "options"`)
+    }
+    if (rule.rule === 'range') {
+      if (rule.min === undefined && rule.max === undefined) errors.push(`${path}: range requires "min" or "max"`)
+      if (rule.min !== undefined && toComparable(rule.min) === null) errors.push(`${path}: "min" is not a number or date`)
+      if (rule.max !== undefined && toComparable(rule.max) === null) errors.push(`${path}: "max" is not a number or date`)
+    }
+    if (rule.rule === 'regex') {
+      if (typeof rule.pattern !== 'string' || rule.pattern === '') {
+        errors.push(`${path}: regex requires "pattern"`)
+      } else {
+        try {
+          new RegExp(rule.pattern)
+        } catch {
+          errors.push(`${path}: invalid pattern /${rule.pattern}/`)
+        }
+      }
+    }
+    if (rule.rule === 'compare') {
+      if (typeof rule.compareTo !== 'string' || rule.compareTo === '') errors.push(`${path}: compare requires "compareTo"`)
+      if (!COMPARE_OPERATORS.includes(rule.operator)) {
+        errors.push(`${path}: compare requires an operator (${COMPARE_OPERATORS.join(', ')})`)
+      }
+    }
+  })
+  return errors
+}
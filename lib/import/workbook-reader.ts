@@ -0,0 +1,84 @@
+import ExcelJS from 'exceljs'
+import { Readable } from 'stream'
+
+// Same stringification the in-memory worksheet path used, so staged values don't change
+function cellToString(value: any): string {
+  return value?.toString() || ''
+}
+
+/**
+ * Stream records out of one worksheet of an .xlsx workbook without loading it into memory -
+ * the named sheet, or the first one when no name is given.
+ * The first record yielded is the header row; fully empty data rows are skipped.
+ * Columns are bounded by the first and last non-empty header cell.
+ */
+export async function* readWorkbookRecords(
+  stream: ReadableStream<Uint8Array>,
+  sheetName?: string
+): AsyncGenerator<string[]> {
+  const input = Readable.fromWeb(stream as any)
+  const workbookReader = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    // Styles are needed so date cells come through as dates rather than serial numbers
+    styles: 'cache',
+    hyperlinks: 'ignore',
+    entries: 'ignore'
+  })
+
+  let sheetFound = false
+
+  try {
+    for await (const worksheetReader of workbookReader) {
+      if (sheetName && (worksheetReader as any).name !== sheetName) {
+        // Sheets have to be read through for the zip stream to move on to the next one
+        for await (const _row of worksheetReader) { /* skipped */ }
+        continue
+      }
+      sheetFound = true
+
+      let left = 0
+      let right = -1
+
+      for await (const row of worksheetReader) {
+        const values = Array.isArray(row.values) ? row.values : []
+
+        if (right < left) {
+          // ExcelJS row values are 1-indexed
+          for (let col = 1; col < values.length; col++) {
+            if (cellToString(values[col]).trim() === '') continue
+            if (left === 0) left = col
+            right = col
+          }
+          if (right < left) continue
+
+          const headers: string[] = []
+          for (let col = left; col <= right; col++) {
+            headers.push(cellToString(values[col]))
+          }
+          yield headers
+          continue
+        }
+
+        const record: string[] = []
+        let hasData = false
+        for (let col = left; col <= right; col++) {
+          const cellValue = cellToString(values[col])
+          record.push(cellValue)
+          if (cellValue.trim() !== '') hasData = true
+        }
+
+        if (hasData) yield record
+      }
+
+      // Only one worksheet is read per pass
+      break
+    }
+  } finally {
+    input.destroy()
+  }
+
+  if (sheetName && !sheetFound) {
+    throw new Error(`Worksheet "${sheetName}" not found in workbook`)
+  }
+}
@@ -0,0 +1,258 @@
+// Account notes
+// debtor_notes is append-only: a note is edited by saving a new version in the same note group,
+// which marks the previous version superseded. Timelines show the current version of each note;
+// a note's history lists every version. Every version keeps the note's author in user_id, with
+// whoever saved it in edited_by. Private notes are only shown to their author and admins.
+
+import { AuthenticatedUser } from '@/lib/auth-utils'
+import { NOTE_TYPES } from '@/lib/import/history-processor'
+
+export { NOTE_TYPES }
+
+// Longest note that can be saved
+const MAX_NOTE_LENGTH = 10000
+// Notes returned per timeline page
+export const DEFAULT_NOTE_LIMIT = 100
+
+export const NOTE_SELECT = `
+  id, debtor_id, note_type, note_text, is_private, is_pinned, source, original_author, created_at,
+  note_group_id, version, supersedes_id, superseded_at, call_id, payment_id, user_id, edited_by,
+  platform_users!debtor_notes_user_id_fkey(id, full_name),
+  editor:platform_users!debtor_notes_edited_by_fkey(id, full_name),
+  calls(id, call_date, call_result, disposition_code),
+  debtor_payments(id, payment_date, payment_amount, payment_status)
+`
+
+export interface NoteInput {
+  noteType?: string | null
+  noteText?: string | null
+  isPrivate?: boolean
+  isPinned?: boolean
+  callId?: string | null
+  paymentId?: string | null
+}
+
+export interface NoteListOptions {
+  search?: string | null
+  noteType?: string | null
+  pinnedOnly?: boolean
+  limit?: number
+}
+
+// Admins can read every private note in their scope; collectors only their own
+function canSeePrivateNotes(user: AuthenticatedUser) {
+  return ['platform_admin', 'agency_admin'].includes(user.activeRole.roleType)
+}
+
+export function canSeeNote(user: AuthenticatedUser, note: any): boolean {
+  return !note.is_private || canSeePrivateNotes(user) || note.user_id === user.id
+}
+
+// Escape the characters PostgREST treats specially inside an ilike pattern in an or() filter
+function toSearchPattern(search: string): string {
+  return `%${search.replace(/[%_\\]/g, '\\$&').replace(/[,()]/g, ' ')}%`
+}
+
+/**
+ * Load a debt account the user can read notes on. Returns the error and status to respond with
+ * when the account doesn't exist or belongs to another agency.
+ */
+export async function loadNoteAccount(
+  supabase: any,
+  user: AuthenticatedUser,
+  accountId: string
+): Promise<{ account: any; error: string | null; status: number }> {
+  if (!['platform_admin', 'agency_admin', 'agency_user'].includes(user.activeRole.roleType)) {
+    return { account: null, error: 'Insufficient permissions', status: 403 }
+  }
+
+  const { data: account, error } = await supabase
+    .from('debt_accounts')
+    .select('id, account_number, master_portfolios!debt_accounts_portfolio_id_fkey(agency_id)')
+    .eq('id', accountId)
+    .maybeSingle()
+
+  if (error || !account) {
+    return { account: null, error: 'Account not found', status: 404 }
+  }
+
+  const agencyId = account.master_portfolios?.agency_id
+  if (user.activeRole.roleType !== 'platform_admin' && agencyId !== user.activeRole.organizationId) {
+    return { account: null, error: 'Access denied', status: 403 }
+  }
+
+  return { account, error: null, status: 200 }
+}
+
+// Returns the validation errors for a new note or a new version of one
+export function validateNoteInput(input: NoteInput): string[] {
+  const errors: string[] = []
+  const text = input.noteText?.trim() || ''
+  if (!text) {
+    errors.push('noteText is required')
+  } else if (text.length > MAX_NOTE_LENGTH) {
+    errors.push(`noteText must be at most ${MAX_NOTE_LENGTH} characters`)
+  }
+  if (input.noteType && !NOTE_TYPES.includes(input.noteType)) {
+    errors.push(`noteType must be one of: ${NOTE_TYPES.join(', ')}`)
+  }
+  return errors
+}
+
+// Check a linked call and payment are on the same account; returns the errors found
+export async function validateNoteLinks(supabase: any, accountId: string, input: NoteInput): Promise<string[]> {
+  const errors: string[] = []
+  const links: { table: string; id: string | null | undefined; field: string }[] = [
+    { table: 'calls', id: input.callId, field: 'callId' },
+    { table: 'debtor_payments', id: input.paymentId, field: 'paymentId' }
+  ]
+
+  for (const link of links) {
+    if (!link.id) continue
+    const { data, error } = await supabase
+      .from(link.table)
+      .select('id, debtor_id')
+      .eq('id', link.id)
+      .maybeSingle()
+    if (error) throw new Error(`Failed to look up ${link.table}: ${error.message}`)
+    if (!data || data.debtor_id !== accountId) {
+      errors.push(`${link.field} is not on this account`)
+    }
+  }
+
+  return errors
+}
+
+// Current versions of an account's notes the user can see, newest first
+export async function listAccountNotes(
+  supabase: any,
+  user: AuthenticatedUser,
+  accountId: string,
+  options: NoteListOptions = {}
+) {
+  let query = supabase
+    .from('debtor_notes')
+    .select(NOTE_SELECT)
+    .eq('debtor_id', accountId)
+    .is('superseded_at', null)
+    .order('created_at', { ascending: false })
+    .limit(options.limit || DEFAULT_NOTE_LIMIT)
+
+  if (options.noteType) query = query.eq('note_type', options.noteType)
+  if (options.pinnedOnly) query = query.eq('is_pinned', true)
+  if (options.search?.trim()) {
+    const pattern = toSearchPattern(options.search.trim())
+    query = query.or(`note_text.ilike.${pattern},original_author.ilike.${pattern}`)
+  }
+  if (!canSeePrivateNotes(user)) {
+    query = query.or(`is_private.is.null,is_private.eq.false,user_id.eq.${user.id}`)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to fetch notes: ${error.message}`)
+  }
+  return data || []
+}
+
+// Every version of a note the user can see, oldest first; a version may have been made private
+export async function getNoteVersions(supabase: any, user: AuthenticatedUser, noteGroupId: string) {
+  const { data, error } = await supabase
+    .from('debtor_notes')
+    .select(NOTE_SELECT)
+    .eq('note_group_id', noteGroupId)
+    .order('version', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch note versions: ${error.message}`)
+  }
+  return (data || []).filter((version: any) => canSeeNote(user, version))
+}
+
+export async function createNote(supabase: any, accountId: string, input: NoteInput, userId: string) {
+  const { data, error } = await supabase
+    .from('debtor_notes')
+    .insert({
+      debtor_id: accountId,
+      user_id: userId,
+      note_type: input.noteType || 'general',
+      note_text: input.noteText?.trim(),
+      is_private: !!input.isPrivate,
+      is_pinned: !!input.isPinned,
+      call_id: input.callId || null,
+      payment_id: input.paymentId || null,
+      source: 'manual'
+    })
+    .select(NOTE_SELECT)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save note: ${error.message}`)
+  }
+  return data
+}
+
+/**
+ * Save an edit as a new version of the note. Fields left out of the input carry over from the
+ * version being replaced; the author stays the same and userId is recorded as the editor.
+ * The new version is inserted and the old one superseded in one transaction. Returns null when
+ * that version has already been superseded.
+ */
+export async function reviseNote(supabase: any, current: any, input: NoteInput, userId: string) {
+  const { data: revisionId, error } = await supabase.rpc('revise_debtor_note', {
+    p_note_id: current.id,
+    p_edited_by: userId,
+    p_note_type: input.noteType || current.note_type,
+    p_note_text: input.noteText?.trim() || current.note_text,
+    p_is_private: input.isPrivate ?? current.is_private,
+    p_is_pinned: input.isPinned ?? current.is_pinned,
+    p_call_id: input.callId !== undefined ? input.callId : current.call_id,
+    p_payment_id: input.paymentId !== undefined ? input.paymentId : current.payment_id
+  })
+
+  if (error) {
+    // The unique index on supersedes_id rejects a second edit of the same version
+    if (error.code === '23505') return null
+    throw new Error(`Failed to save note version: ${error.message}`)
+  }
+  if (!revisionId) return null
+
+  const { data: revision, error: fetchError } = await supabase
+    .from('debtor_notes')
+    .select(NOTE_SELECT)
+    .eq('id', revisionId)
+    .single()
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch note version ${revisionId}: ${fetchError.message}`)
+  }
+  return revision
+}
+
+// Pin or unpin the current version of a note
+export async function setNotePinned(supabase: any, noteId: string, isPinned: boolean) {
+  const { data, error } = await supabase
+    .from('debtor_notes')
+    .update({ is_pinned: isPinned })
+    .eq('id', noteId)
+    .is('superseded_at', null)
+    .select(NOTE_SELECT)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update note: ${error.message}`)
+  }
+  return data
+}
+
+// Read a note input from a request body; fields that aren't in the body stay undefined
+export function toNoteInput(body: Record<string, any>): NoteInput {
+  return {
+    noteType: 'noteType' in body ? body.noteType || null : undefined,
+    noteText: typeof body.noteText === 'string' ? body.noteText : undefined,
+    isPrivate: 'isPrivate' in body ? !!body.isPrivate : undefined,
+    isPinned: 'isPinned' in body ? !!body.isPinned : undefined,
+    callId: 'callId' in body ? body.callId || null : undefined,
+    paymentId: 'paymentId' in body ? body.paymentId || null : undefined
+  }
+}
@@ -0,0 +1,64 @@
+// Person merges (see merge_persons / unmerge_persons)
+// Persons aren't owned by an agency directly; an agency admin can merge a person only when it
+// has an account in one of the agency's portfolios. Platform admins can merge anyone.
+
+import { AuthenticatedUser } from '@/lib/auth-utils'
+
+export const MERGE_ROLES = ['platform_admin', 'agency_admin']
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function isUuid(value: any): value is string {
+  return typeof value === 'string' && UUID_REGEX.test(value)
+}
+
+/**
+ * The persons among personIds the caller can't merge: those with no account in the caller's
+ * agency's portfolios. Empty means the caller may merge them all.
+ */
+export async function findPersonsOutsideScope(supabase: any, user: AuthenticatedUser, personIds: string[]): Promise<string[]> {
+  if (user.activeRole.roleType === 'platform_admin') return []
+
+  const agencyId = user.activeRole.organizationId
+  if (!agencyId || personIds.length === 0) return personIds
+
+  const { data, error } = await supabase
+    .from('debt_accounts')
+    .select('person_id, master_portfolios!debt_accounts_portfolio_id_fkey!inner(agency_id)')
+    .in('person_id', personIds)
+    .eq('master_portfolios.agency_id', agencyId)
+
+  if (error) throw new Error(`Failed to check person access: ${error.message}`)
+
+  const inAgency = new Set<string>((data || []).map((account: any) => account.person_id))
+  return personIds.filter(personId => !inAgency.has(personId))
+}
+
+/**
+ * Same check for undoing a merge. The merged persons' accounts now belong to the survivor, so
+ * each merged person is checked against the accounts the merge moved away from it.
+ */
+export async function findUnmergePersonsOutsideScope(supabase: any, user: AuthenticatedUser, merge: any): Promise<string[]> {
+  if (user.activeRole.roleType === 'platform_admin') return []
+
+  const mergedIds: string[] = merge.merged_person_ids || []
+  const outside = await findPersonsOutsideScope(supabase, user, [merge.survivor_id])
+
+  const movedAccounts: { id: string; person_id: string }[] = merge.moved_records?.debt_accounts || []
+  const agencyId = user.activeRole.organizationId
+  if (!agencyId || movedAccounts.length === 0) return outside.concat(mergedIds)
+
+  const { data, error } = await supabase
+    .from('debt_accounts')
+    .select('id, master_portfolios!debt_accounts_portfolio_id_fkey!inner(agency_id)')
+    .in('id', movedAccounts.map(account => account.id))
+    .eq('master_portfolios.agency_id', agencyId)
+
+  if (error) throw new Error(`Failed to check person access: ${error.message}`)
+
+  const agencyAccounts = new Set<string>((data || []).map((account: any) => account.id))
+  const inAgency = new Set<string>(
+    movedAccounts.filter(account => agencyAccounts.has(account.id)).map(account => account.person_id)
+  )
+  return outside.concat(mergedIds.filter(personId => !inAgency.has(personId)))
+}
@@ -0,0 +1,430 @@
+// Statute of limitations (SOL) and debt age for debt accounts
+// The limitations period comes from sol_rules by the consumer's state and the account type. The
+// computed expiry and time-barred flag are stored on debt_accounts so lists can filter on them;
+// they are recomputed on import and payment posting and refreshed hourly as expiry dates pass.
+
+import { ImportChangeContext, updateTracked } from '@/lib/import/change-log'
+
+// Actions that can't be taken on a time-barred account
+export const SOL_RESTRICTED_ACTIONS = ['litigation', 'credit_reporting'] as const
+export type SolRestrictedAction = typeof SOL_RESTRICTED_ACTIONS[number]
+
+// debt_accounts columns stamped when an action starts (see prevent_time_barred_actions)
+const ACTION_COLUMNS: Record<SolRestrictedAction, { startedAt: string; startedBy: string }> = {
+  litigation: { startedAt: 'litigation_started_at', startedBy: 'litigation_started_by' },
+  credit_reporting: { startedAt: 'credit_reporting_started_at', startedBy: 'credit_reporting_started_by' }
+}
+
+// Account columns the SOL is computed from and stored in
+const SOL_ACCOUNT_COLUMNS = 'id, person_id, account_type, charge_off_date, last_payment_date, sol_state, sol_rule_id, sol_accrual_date, sol_expiration_date, is_time_barred, sol_computed_at'
+
+// Account columns the action guard reads; the SOL columns let it compute an account never computed
+export const ACCOUNT_ACTION_SELECT = `${SOL_ACCOUNT_COLUMNS}, litigation_started_at, credit_reporting_started_at`
+
+// Rules change rarely; imports look them up once per row, so keep them for a minute
+const RULES_CACHE_MS = 60 * 1000
+// Accounts recomputed per page of a refresh run after a rule change or for accounts never computed
+const DEFAULT_REFRESH_BATCH_SIZE = 500
+// A refresh keeps paging until this much time has passed, under the 60s serverless limit
+const DEFAULT_REFRESH_TIME_BUDGET_MS = 50 * 1000
+
+const STATE_CODES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA',
+  hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY',
+  louisiana: 'LA', maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+  'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+  ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY'
+}
+
+// Debt age filter buckets, in whole years since charge-off (or opening; see getDebtAgeDays)
+export const DEBT_AGE_BUCKETS: Record<string, { label: string; minYears: number; maxYears: number | null }> = {
+  under_1: { label: 'Under 1 year', minYears: 0, maxYears: 1 },
+  '1_3': { label: '1-3 years', minYears: 1, maxYears: 3 },
+  '3_5': { label: '3-5 years', minYears: 3, maxYears: 5 },
+  '5_7': { label: '5-7 years', minYears: 5, maxYears: 7 },
+  over_7: { label: 'Over 7 years', minYears: 7, maxYears: null }
+}
+
+export interface SolRule {
+  id: string
+  state_code: string | null
+  debt_type: string | null
+  years: number
+  accrual_basis: 'last_activity' | 'charge_off'
+  payment_restarts_clock: boolean
+  notes: string | null
+  is_active: boolean
+  updated_at: string | null
+}
+
+export interface AccountSolFields {
+  sol_state: string | null
+  sol_rule_id: string | null
+  sol_accrual_date: string | null
+  sol_expiration_date: string | null
+  is_time_barred: boolean
+  sol_computed_at: string
+}
+
+export interface SolRefreshSummary {
+  expired: number
+  recomputed: number
+}
+
+export class TimeBarredAccountError extends Error {
+  constructor(action: SolRestrictedAction, expirationDate: string) {
+    super(`Account is time-barred (statute of limitations expired ${expirationDate}); ${action.replace('_', ' ')} is not allowed`)
+    this.name = 'TimeBarredAccountError'
+  }
+}
+
+// Fields a rule can be created or updated with
+const SOL_RULE_FIELDS = ['state_code', 'debt_type', 'years', 'accrual_basis', 'payment_restarts_clock', 'notes', 'is_active']
+// debt_accounts.account_type values a rule can target
+export const SOL_DEBT_TYPES = ['credit_card', 'medical', 'personal_loan', 'auto_loan', 'mortgage', 'utility', 'student_loan', 'business_loan', 'other']
+
+let rulesCache: { rules: SolRule[]; loadedAt: number } | null = null
+
+function todayIso(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+function toDateOnly(value: any): string | null {
+  if (!value) return null
+  const text = String(value).slice(0, 10)
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null
+}
+
+// Add a period in years (tenths allowed) to a YYYY-MM-DD date
+function addYears(date: string, years: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  const totalMonths = Math.round(years * 12)
+  const result = new Date(Date.UTC(year, month - 1 + totalMonths, day))
+  return result.toISOString().split('T')[0]
+}
+
+// Accepts codes or full names ('tx', 'Texas'); anything else is unknown
+export function normalizeStateCode(value: any): string | null {
+  if (!value) return null
+  const text = String(value).trim()
+  if (/^[a-zA-Z]{2}$/.test(text)) return text.toUpperCase()
+  return STATE_CODES[text.toLowerCase()] || null
+}
+
+export async function loadSolRules(supabase: any, options: { fresh?: boolean } = {}): Promise<SolRule[]> {
+  if (!options.fresh && rulesCache && Date.now() - rulesCache.loadedAt < RULES_CACHE_MS) {
+    return rulesCache.rules
+  }
+
+  const { data, error } = await supabase
+    .from('sol_rules')
+    .select('*')
+    .eq('is_active', true)
+
+  if (error) {
+    throw new Error(`Failed to load statute of limitations rules: ${error.message}`)
+  }
+
+  rulesCache = { rules: data || [], loadedAt: Date.now() }
+  return rulesCache.rules
+}
+
+export function clearSolRulesCache() {
+  rulesCache = null
+}
+
+export function pickSolRuleFields(body: Record<string, any>): Record<string, any> {
+  const fields = Object.fromEntries(Object.entries(body).filter(([key]) => SOL_RULE_FIELDS.includes(key)))
+  if ('state_code' in fields) fields.state_code = fields.state_code ? String(fields.state_code).trim().toUpperCase() : null
+  if ('debt_type' in fields) fields.debt_type = fields.debt_type || null
+  return fields
+}
+
+// Checks a complete rule (the stored row merged with any updates)
+export function validateSolRule(rule: Record<string, any>): string[] {
+  const errors: string[] = []
+
+  if (rule.state_code !== null && rule.state_code !== undefined && !/^[A-Z]{2}$/.test(rule.state_code)) {
+    errors.push('State must be a two-letter code, or empty for the fallback rule')
+  }
+  if (rule.debt_type && !SOL_DEBT_TYPES.includes(rule.debt_type)) {
+    errors.push(`Debt type must be one of: ${SOL_DEBT_TYPES.join(', ')}`)
+  }
+  const years = Number(rule.years)
+  if (!isFinite(years) || years <= 0 || years >= 100) errors.push('Years must be a positive number')
+  if (rule.accrual_basis && !['last_activity', 'charge_off'].includes(rule.accrual_basis)) {
+    errors.push('Accrual basis must be last_activity or charge_off')
+  }
+
+  return errors
+}
+
+// Most specific rule wins: state and type, then state, then type, then the fallback
+export function findSolRule(rules: SolRule[], stateCode: string | null, debtType: string | null): SolRule | null {
+  const candidates: [string | null, string | null][] = [
+    [stateCode, debtType],
+    [stateCode, null],
+    [null, debtType],
+    [null, null]
+  ]
+
+  for (const [state, type] of candidates) {
+    const rule = rules.find(candidate => candidate.state_code === state && candidate.debt_type === type)
+    if (rule) return rule
+  }
+
+  return null
+}
+
+/**
+ * When the limitations period starts. With last_activity the clock runs from the later of
+ * charge-off and last payment (if payments restart it here); without a charge-off date the last
+ * payment stands in. No dates means the expiry can't be determined.
+ */
+export function getSolAccrualDate(account: any, rule: SolRule): string | null {
+  const chargeOff = toDateOnly(account.charge_off_date)
+  const lastPayment = toDateOnly(account.last_payment_date)
+
+  if (!chargeOff) return lastPayment
+  if (rule.accrual_basis === 'last_activity' && rule.payment_restarts_clock && lastPayment && lastPayment > chargeOff) {
+    return lastPayment
+  }
+  return chargeOff
+}
+
+export function computeSolFields(
+  account: any,
+  stateCode: string | null,
+  rules: SolRule[],
+  today: string = todayIso()
+): AccountSolFields {
+  const rule = findSolRule(rules, stateCode, account.account_type || null)
+  const accrualDate = rule ? getSolAccrualDate(account, rule) : null
+  const expirationDate = rule && accrualDate ? addYears(accrualDate, Number(rule.years)) : null
+
+  return {
+    sol_state: stateCode,
+    sol_rule_id: rule?.id || null,
+    sol_accrual_date: accrualDate,
+    sol_expiration_date: expirationDate,
+    is_time_barred: !!expirationDate && expirationDate <= today,
+    sol_computed_at: new Date().toISOString()
+  }
+}
+
+// The consumer's current address state, otherwise the most recently seen address with one
+export async function resolveAccountState(supabase: any, personId: string | null): Promise<string | null> {
+  if (!personId) return null
+
+  const { data: addresses, error } = await supabase
+    .from('person_addresses')
+    .select('state, is_current, last_seen, created_at')
+    .eq('person_id', personId)
+    .not('state', 'is', null)
+    .order('is_current', { ascending: false })
+    .order('last_seen', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false })
+    .limit(5)
+
+  if (error) {
+    throw new Error(`Failed to look up address state: ${error.message}`)
+  }
+
+  for (const address of addresses || []) {
+    const code = normalizeStateCode(address.state)
+    if (code) return code
+  }
+  return null
+}
+
+export async function computeAccountSol(supabase: any, account: any): Promise<AccountSolFields> {
+  const [stateCode, rules] = await Promise.all([
+    resolveAccountState(supabase, account.person_id),
+    loadSolRules(supabase)
+  ])
+  return computeSolFields(account, stateCode, rules)
+}
+
+/**
+ * Recompute an account's SOL from its current dates and write it if anything changed.
+ * Pass the import change context so a rollback restores the previous values too.
+ */
+export async function refreshAccountSol(supabase: any, account: any, context?: ImportChangeContext): Promise<AccountSolFields> {
+  const fields = await computeAccountSol(supabase, account)
+  const changed = (['sol_state', 'sol_rule_id', 'sol_accrual_date', 'sol_expiration_date', 'is_time_barred'] as const)
+    .some(field => String(account[field] ?? '').slice(0, 10) !== String(fields[field] ?? '').slice(0, 10))
+
+  if (changed || !account.sol_computed_at) {
+    await updateTracked(supabase, 'debt_accounts', account.id, fields, context)
+  }
+  return fields
+}
+
+export function isTimeBarred(account: any, today: string = todayIso()): boolean {
+  const expirationDate = toDateOnly(account.sol_expiration_date)
+  return expirationDate ? expirationDate <= today : !!account.is_time_barred
+}
+
+// Days since charge-off, or since the account was opened when there's no charge-off date
+export function getDebtAgeDays(account: any, today: string = todayIso()): number | null {
+  const start = toDateOnly(account.charge_off_date) || toDateOnly(account.date_opened)
+  if (!start) return null
+  return Math.max(0, Math.floor((Date.parse(today) - Date.parse(start)) / (24 * 60 * 60 * 1000)))
+}
+
+// Debt age start dates for a bucket: after `from` (open-ended when null) and on or before `to`
+export function getDebtAgeDateRange(bucket: string, today: string = todayIso()): { from: string | null; to: string } | null {
+  const definition = DEBT_AGE_BUCKETS[bucket]
+  if (!definition) return null
+  return {
+    from: definition.maxYears !== null ? addYears(today, -definition.maxYears) : null,
+    to: addYears(today, -definition.minYears)
+  }
+}
+
+/**
+ * PostgREST or() filter for a debt age bucket, dating accounts the way getDebtAgeDays does:
+ * by charge-off, or by the opening date for accounts without one.
+ */
+export function getDebtAgeFilter(bucket: string, today: string = todayIso()): string | null {
+  const range = getDebtAgeDateRange(bucket, today)
+  if (!range) return null
+
+  const bounds = (column: string) => [`${column}.lte.${range.to}`].concat(range.from ? [`${column}.gt.${range.from}`] : [])
+  const byChargeOff = bounds('charge_off_date')
+  const byOpened = ['charge_off_date.is.null'].concat(bounds('date_opened'))
+  return `and(${byChargeOff.join(',')}),and(${byOpened.join(',')})`
+}
+
+// Throws TimeBarredAccountError when the action is restricted and the account's SOL has passed
+export function assertAccountActionAllowed(account: any, action: SolRestrictedAction) {
+  if (SOL_RESTRICTED_ACTIONS.includes(action) && isTimeBarred(account)) {
+    throw new TimeBarredAccountError(action, toDateOnly(account.sol_expiration_date) || 'previously')
+  }
+}
+
+/**
+ * Start litigation or credit reporting on an account. Throws TimeBarredAccountError when the
+ * account's SOL has passed - whether found here or by the database trigger on a stale read.
+ */
+export async function startAccountAction(supabase: any, account: any, action: SolRestrictedAction, userId: string) {
+  // Accounts the refresh hasn't reached yet are computed now; the trigger refuses them otherwise
+  if (!account.sol_computed_at) {
+    account = { ...account, ...(await refreshAccountSol(supabase, account)) }
+  }
+  assertAccountActionAllowed(account, action)
+
+  const columns = ACTION_COLUMNS[action]
+  const { data, error } = await supabase
+    .from('debt_accounts')
+    .update({ [columns.startedAt]: new Date().toISOString(), [columns.startedBy]: userId })
+    .eq('id', account.id)
+    .select(ACCOUNT_ACTION_SELECT)
+    .single()
+
+  if (error) {
+    if (error.code === '23514') {
+      throw new TimeBarredAccountError(action, toDateOnly(account.sol_expiration_date) || 'previously')
+    }
+    throw new Error(`Failed to start ${action.replace('_', ' ')}: ${error.message}`)
+  }
+  return data
+}
+
+// Stopping is always allowed, time-barred or not
+export async function stopAccountAction(supabase: any, accountId: string, action: SolRestrictedAction) {
+  const columns = ACTION_COLUMNS[action]
+  const { data, error } = await supabase
+    .from('debt_accounts')
+    .update({ [columns.startedAt]: null, [columns.startedBy]: null })
+    .eq('id', accountId)
+    .select(ACCOUNT_ACTION_SELECT)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to stop ${action.replace('_', ' ')}: ${error.message}`)
+  }
+  return data
+}
+
+/**
+ * Scheduled upkeep: flag accounts whose expiry date has now passed, then recompute accounts that
+ * were never computed or were computed before the latest rule change, a page at a time until
+ * none are left or the time budget is spent. The next run carries on from there.
+ */
+export async function refreshSolStatuses(
+  supabase: any,
+  options: { batchSize?: number; timeBudgetMs?: number } = {}
+): Promise<SolRefreshSummary> {
+  const today = todayIso()
+  const deadline = Date.now() + (options.timeBudgetMs || DEFAULT_REFRESH_TIME_BUDGET_MS)
+  const batchSize = options.batchSize || DEFAULT_REFRESH_BATCH_SIZE
+
+  const { data: expired, error: expireError } = await supabase
+    .from('debt_accounts')
+    .update({ is_time_barred: true, updated_at: new Date().toISOString() })
+    .eq('is_time_barred', false)
+    .lte('sol_expiration_date', today)
+    .select('id')
+
+  if (expireError) {
+    throw new Error(`Failed to flag expired accounts: ${expireError.message}`)
+  }
+
+  const rules = await loadSolRules(supabase, { fresh: true })
+  // Includes deactivated rules - turning one off changes which rule accounts fall under
+  const { data: latestRule } = await supabase
+    .from('sol_rules')
+    .select('updated_at')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  const latestRuleChange: string | null = latestRule?.updated_at || null
+
+  let recomputed = 0
+  // Paged by id so an account that fails to update isn't fetched again in the same run
+  let afterId: string | null = null
+  while (Date.now() < deadline) {
+    let query = supabase
+      .from('debt_accounts')
+      .select(SOL_ACCOUNT_COLUMNS)
+      .order('id')
+      .limit(batchSize)
+
+    query = latestRuleChange
+      ? query.or(`sol_computed_at.is.null,sol_computed_at.lt."${latestRuleChange}"`)
+      : query.is('sol_computed_at', null)
+    if (afterId) query = query.gt('id', afterId)
+
+    const { data: stale, error: staleError } = await query
+    if (staleError) {
+      throw new Error(`Failed to fetch accounts to recompute: ${staleError.message}`)
+    }
+    if (!stale || stale.length === 0) break
+
+    for (const account of stale) {
+      const stateCode = await resolveAccountState(supabase, account.person_id)
+      const fields = computeSolFields(account, stateCode, rules, today)
+      const { error } = await supabase
+        .from('debt_accounts')
+        .update(fields)
+        .eq('id', account.id)
+
+      if (error) {
+        console.error(`❌ [SOL] Failed to update account ${account.id}:`, error)
+        continue
+      }
+      recomputed++
+    }
+
+    afterId = stale[stale.length - 1].id
+    if (stale.length < batchSize) break
+  }
+
+  console.log(`✅ [SOL] Refresh: ${expired?.length || 0} account(s) newly time-barred, ${recomputed} recomputed`)
+  return { expired: expired?.length || 0, recomputed }
+}
@@ -0,0 +1,532 @@
+// Collector work queue
+// Each collector's queue is built from the open accounts assigned to them: accounts that can't be
+// called right now (do-not-call, callback or promise not yet due, outside the consumer's calling
+// hours, recently served, skipped or deferred) are left out, and the rest are ranked by priority,
+// due promises and callbacks, balance and contact history. Serving, skipping and deferring are
+// recorded in collector_queue_events, which also feed the supervisor metrics.
+
+import { AuthenticatedUser } from '@/lib/auth-utils'
+import { isTimeBarred } from '@/lib/sol'
+
+// How long an account handed out by "next account" stays with the collector before it can be served again
+const SERVED_HOLD_MINUTES = 30
+// How long a skipped account stays out of the queue
+const SKIP_HOLD_HOURS = 4
+// Deferrals further out than this are rejected - schedule a callback instead
+const MAX_DEFER_DAYS = 30
+// Accounts read per page while assembling a queue
+const QUEUE_PAGE_SIZE = 1000
+
+// Calling hours in the consumer's local time (FDCPA: 8am to 9pm)
+const CONTACT_WINDOW = { startHour: 8, endHour: 21 }
+// When the consumer's state is unknown, only call when it's within hours in both of these
+const FALLBACK_TIME_ZONES = ['America/New_York', 'America/Los_Angeles']
+
+// Primary time zone by state; states split across zones use the zone most of the state is in
+const STATE_TIME_ZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DE: 'America/New_York',
+  DC: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+  WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver'
+}
+
+const PRIORITY_SCORES: Record<string, number> = { urgent: 40, high: 30, medium: 20, normal: 15, low: 5 }
+
+// Accounts in these states aren't worked from the queue or counted toward a collector's load
+export const CLOSED_COLLECTION_STATUSES = ['resolved', 'paid_in_full', 'settled', 'returned', 'bankruptcy', 'deceased', 'do_not_call']
+export const CLOSED_ACCOUNT_STATUSES = ['inactive', 'resolved', 'returned', 'bankruptcy', 'deceased', 'settled', 'paid_in_full']
+
+// Why a collector skipped or deferred an account
+export const QUEUE_EVENT_REASONS: Record<string, string> = {
+  callback_requested: 'Consumer asked to be called later',
+  no_valid_phone: 'No valid phone number',
+  needs_research: 'Needs research before contact',
+  dispute_pending: 'Dispute pending',
+  attorney_represented: 'Consumer represented by an attorney',
+  supervisor_review: 'Needs supervisor review',
+  other: 'Other'
+}
+
+// Why an assigned account isn't in the queue right now
+export const QUEUE_EXCLUSION_REASONS: Record<string, string> = {
+  closed: 'Closed or returned',
+  zero_balance: 'No balance',
+  do_not_call: 'Do not call',
+  callback_scheduled: 'Callback scheduled later',
+  promise_pending: 'Promise to pay not yet due',
+  held: 'Served, skipped or deferred',
+  outside_contact_hours: 'Outside consumer calling hours'
+}
+
+export type QueueEventAction = 'served' | 'skipped' | 'deferred'
+
+export const QUEUE_ACCOUNT_SELECT = `
+  *,
+  persons!debt_accounts_person_id_fkey(
+    id,
+    full_name,
+    first_name,
+    last_name,
+    ssn,
+    do_not_call,
+    person_phones!person_phones_person_id_fkey(
+      id,
+      number,
+      phone_type,
+      is_current,
+      is_verified,
+      is_wrong_number
+    )
+  ),
+  master_portfolios!debt_accounts_portfolio_id_fkey(
+    id,
+    name,
+    description
+  ),
+  master_clients!debt_accounts_client_id_fkey(
+    id,
+    name,
+    code
+  ),
+  platform_users!debt_accounts_assigned_collector_id_fkey(
+    id,
+    full_name,
+    email
+  )
+`
+
+export interface QueueEntry {
+  account: any
+  score: number
+  // Why the account ranks where it does, for display next to it
+  factors: string[]
+  timeBarred: boolean
+  // Consumer's local time zone, or null when their state is unknown
+  timeZone: string | null
+}
+
+export interface CollectorQueue {
+  collectorId: string
+  assignedAccounts: number
+  entries: QueueEntry[]
+  excluded: Record<string, number>
+}
+
+export interface CollectorQueueMetrics {
+  collectorId: string
+  collectorName: string | null
+  assignedAccounts: number
+  readyAccounts: number
+  readyBalance: number
+  callbacksDue: number
+  promisesDue: number
+  timeBarred: number
+  excluded: Record<string, number>
+  servedToday: number
+  skippedToday: number
+  deferredToday: number
+  skipReasons: Record<string, number>
+}
+
+export interface QueueEventInput {
+  accountId: string
+  collectorId: string
+  action: QueueEventAction
+  reason?: string | null
+  notes?: string | null
+  deferUntil?: string | null
+}
+
+function toDateOnly(value: any): string | null {
+  if (!value) return null
+  const text = String(value).slice(0, 10)
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null
+}
+
+function getLocalHour(now: Date, timeZone: string): number {
+  const hour = Number(new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hour12: false }).format(now))
+  // Some runtimes format midnight as 24
+  return hour % 24
+}
+
+export function getAccountTimeZone(account: any): string | null {
+  return account.sol_state ? STATE_TIME_ZONES[account.sol_state] || null : null
+}
+
+// Whether it's within calling hours for the account's consumer
+export function isWithinContactWindow(account: any, now: Date = new Date()): boolean {
+  const accountTimeZone = getAccountTimeZone(account)
+  const timeZones = accountTimeZone ? [accountTimeZone] : FALLBACK_TIME_ZONES
+  return timeZones.every(timeZone => {
+    const hour = getLocalHour(now, timeZone)
+    return hour >= CONTACT_WINDOW.startHour && hour < CONTACT_WINDOW.endHour
+  })
+}
+
+function isPromiseDue(account: any, today: string): boolean {
+  const promiseDate = toDateOnly(account.promise_to_pay_date)
+  if (!promiseDate || promiseDate > today) return false
+  // A payment on or after the promise date kept it
+  const lastPayment = toDateOnly(account.last_payment_date)
+  return !lastPayment || lastPayment < promiseDate
+}
+
+/**
+ * Why an account can't be worked right now, or null when it belongs in the queue.
+ * heldAccountIds are the accounts with a served, skipped or deferred event still in effect.
+ */
+export function getQueueExclusion(account: any, heldAccountIds: Set<string>, now: Date = new Date()): string | null {
+  const today = now.toISOString().split('T')[0]
+
+  if (CLOSED_COLLECTION_STATUSES.includes(account.collection_status) || CLOSED_ACCOUNT_STATUSES.includes(account.account_status)) {
+    return 'closed'
+  }
+  if (Number(account.current_balance || 0) <= 0) return 'zero_balance'
+  if (account.do_not_call || account.persons?.do_not_call || account.status === 'do_not_call') return 'do_not_call'
+  if (heldAccountIds.has(account.id)) return 'held'
+  if (account.next_contact_date && new Date(account.next_contact_date).getTime() > now.getTime()) {
+    return 'callback_scheduled'
+  }
+  const promiseDate = toDateOnly(account.promise_to_pay_date)
+  if (promiseDate && promiseDate > today) return 'promise_pending'
+  if (!isWithinContactWindow(account, now)) return 'outside_contact_hours'
+  return null
+}
+
+// Rank an account that's in the queue; higher is called first
+export function scoreQueueAccount(account: any, now: Date = new Date()): { score: number; factors: string[]; timeBarred: boolean } {
+  const today = now.toISOString().split('T')[0]
+  const factors: string[] = []
+  const priority = account.collection_priority || 'normal'
+  let score = PRIORITY_SCORES[priority] ?? PRIORITY_SCORES.normal
+  if (priority === 'urgent' || priority === 'high') factors.push(`${priority} priority`)
+
+  if (isPromiseDue(account, today)) {
+    score += 35
+    factors.push(toDateOnly(account.promise_to_pay_date) === today ? 'Promise to pay due today' : 'Promise to pay missed')
+  }
+
+  const callbackDue = !!account.next_contact_date
+  if (callbackDue) {
+    const daysOverdue = Math.floor((now.getTime() - new Date(account.next_contact_date).getTime()) / (24 * 60 * 60 * 1000))
+    score += 25 + Math.min(10, Math.max(0, daysOverdue))
+    factors.push(daysOverdue > 0 ? `Callback ${daysOverdue} day(s) overdue` : 'Callback due')
+  }
+
+  const balance = Number(account.current_balance || 0)
+  score += Math.min(20, Math.round(Math.log10(balance + 1) * 4))
+
+  if (!account.last_contact_date) {
+    score += 10
+    factors.push('Never contacted')
+  } else if (!callbackDue && now.getTime() - new Date(account.last_contact_date).getTime() < 24 * 60 * 60 * 1000) {
+    score -= 20
+    factors.push('Contacted in the last day')
+  }
+
+  if (account.hardship_declared) {
+    score -= 10
+    factors.push('Hardship declared')
+  }
+
+  // Time-barred accounts can still be called, but need the time-barred disclosure and pay less often
+  const timeBarred = isTimeBarred(account, today)
+  if (timeBarred) {
+    score -= 25
+    factors.push('Time-barred')
+  }
+
+  return { score, factors, timeBarred }
+}
+
+async function fetchAssignedAccounts(supabase: any, collectorId: string): Promise<any[]> {
+  const accounts: any[] = []
+  for (let from = 0; ; from += QUEUE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('debt_accounts')
+      .select(QUEUE_ACCOUNT_SELECT)
+      .eq('assigned_collector_id', collectorId)
+      .order('id')
+      .range(from, from + QUEUE_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch assigned accounts: ${error.message}`)
+    }
+    accounts.push(...(data || []))
+    if (!data || data.length < QUEUE_PAGE_SIZE) return accounts
+  }
+}
+
+async function fetchHeldAccountIds(supabase: any, collectorId: string, now: Date): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('collector_queue_events')
+    .select('account_id')
+    .eq('collector_id', collectorId)
+    .gt('available_at', now.toISOString())
+
+  if (error) {
+    throw new Error(`Failed to fetch queue events: ${error.message}`)
+  }
+  return new Set((data || []).map((event: any) => event.account_id))
+}
+
+// Build a collector's queue: every workable account, best first, and counts of those left out by reason
+export async function buildCollectorQueue(supabase: any, collectorId: string, now: Date = new Date()): Promise<CollectorQueue> {
+  const [accounts, heldAccountIds] = await Promise.all([
+    fetchAssignedAccounts(supabase, collectorId),
+    fetchHeldAccountIds(supabase, collectorId, now)
+  ])
+
+  const entries: QueueEntry[] = []
+  const excluded: Record<string, number> = {}
+  for (const account of accounts) {
+    const exclusion = getQueueExclusion(account, heldAccountIds, now)
+    if (exclusion) {
+      excluded[exclusion] = (excluded[exclusion] || 0) + 1
+      continue
+    }
+    entries.push({ account, ...scoreQueueAccount(account, now), timeZone: getAccountTimeZone(account) })
+  }
+
+  // Ties go to the larger balance, then the account contacted longest ago
+  entries.sort((a, b) =>
+    b.score - a.score ||
+    Number(b.account.current_balance || 0) - Number(a.account.current_balance || 0) ||
+    String(a.account.last_contact_date || '').localeCompare(String(b.account.last_contact_date || ''))
+  )
+
+  return { collectorId, assignedAccounts: accounts.length, entries, excluded }
+}
+
+// Returns the validation errors for a skip or deferral
+export function validateQueueEvent(input: QueueEventInput, now: Date = new Date()): string[] {
+  const errors: string[] = []
+  if (input.action === 'served') return errors
+
+  if (!input.reason || !QUEUE_EVENT_REASONS[input.reason]) {
+    errors.push(`reason must be one of: ${Object.keys(QUEUE_EVENT_REASONS).join(', ')}`)
+  } else if (input.reason === 'other' && !input.notes?.trim()) {
+    errors.push('notes are required when the reason is other')
+  }
+
+  if (input.action === 'deferred') {
+    const deferUntil = input.deferUntil ? new Date(input.deferUntil) : null
+    if (!deferUntil || isNaN(deferUntil.getTime())) {
+      errors.push('deferUntil must be a valid date and time')
+    } else if (deferUntil.getTime() <= now.getTime()) {
+      errors.push('deferUntil must be in the future')
+    } else if (deferUntil.getTime() > now.getTime() + MAX_DEFER_DAYS * 24 * 60 * 60 * 1000) {
+      errors.push(`Accounts can be deferred for at most ${MAX_DEFER_DAYS} days`)
+    }
+  }
+
+  return errors
+}
+
+export async function recordQueueEvent(supabase: any, input: QueueEventInput, now: Date = new Date()) {
+  const availableAt = input.action === 'served'
+    ? new Date(now.getTime() + SERVED_HOLD_MINUTES * 60 * 1000)
+    : input.action === 'skipped'
+      ? new Date(now.getTime() + SKIP_HOLD_HOURS * 60 * 60 * 1000)
+      : new Date(input.deferUntil as string)
+
+  const { data, error } = await supabase
+    .from('collector_queue_events')
+    .insert({
+      account_id: input.accountId,
+      collector_id: input.collectorId,
+      action: input.action,
+      reason: input.action === 'served' ? null : input.reason,
+      notes: input.notes?.trim() || null,
+      available_at: availableAt.toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to record queue event: ${error.message}`)
+  }
+  return data
+}
+
+/**
+ * Hand the collector their best account. It is held out of their queue for a short while, so
+ * asking for the next account again moves on rather than repeating it.
+ */
+export async function getNextAccount(supabase: any, collectorId: string, now: Date = new Date()): Promise<QueueEntry | null> {
+  const queue = await buildCollectorQueue(supabase, collectorId, now)
+  const next = queue.entries[0]
+  if (!next) return null
+
+  await recordQueueEvent(supabase, { accountId: next.account.id, collectorId, action: 'served' }, now)
+  console.log(`📞 [QUEUE] Served account ${next.account.id} to collector ${collectorId} (score ${next.score})`)
+  return next
+}
+
+// Release an account held by a skip or deferral so it's back in the queue straight away
+export async function releaseQueueHolds(supabase: any, collectorId: string, accountId: string, now: Date = new Date()) {
+  const { error } = await supabase
+    .from('collector_queue_events')
+    .update({ available_at: now.toISOString() })
+    .eq('collector_id', collectorId)
+    .eq('account_id', accountId)
+    .gt('available_at', now.toISOString())
+
+  if (error) {
+    throw new Error(`Failed to release queue holds: ${error.message}`)
+  }
+}
+
+// Collectors of an agency: its active agency users and admins
+export async function listAgencyCollectors(
+  supabase: any,
+  agencyId: string
+): Promise<{ id: string; full_name: string | null; email: string | null }[]> {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('user_id, platform_users!inner(id, full_name, email)')
+    .eq('organization_type', 'agency')
+    .eq('organization_id', agencyId)
+    .in('role_type', ['agency_user', 'agency_admin'])
+    .eq('is_active', true)
+
+  if (error) {
+    throw new Error(`Failed to fetch agency collectors: ${error.message}`)
+  }
+
+  const collectors = new Map<string, { id: string; full_name: string | null; email: string | null }>()
+  for (const role of data || []) {
+    if (role.platform_users) {
+      collectors.set(role.user_id, { id: role.user_id, full_name: role.platform_users.full_name, email: role.platform_users.email })
+    }
+  }
+  return Array.from(collectors.values())
+}
+
+/**
+ * Queue metrics per collector for supervisors, counting today's events from midnight UTC.
+ * Accounts are counted by the database, grouped by collector, exclusion reason and state, so the
+ * cost doesn't grow with the size of each queue; calling hours are then checked once per state.
+ */
+export async function getQueueMetrics(
+  supabase: any,
+  collectors: { id: string; full_name: string | null }[],
+  now: Date = new Date()
+): Promise<CollectorQueueMetrics[]> {
+  if (collectors.length === 0) return []
+
+  const today = now.toISOString().split('T')[0]
+  const collectorIds = collectors.map(collector => collector.id)
+  const [{ data: counts, error: countsError }, { data: events, error }] = await Promise.all([
+    supabase.rpc('collector_queue_counts', {
+      p_collector_ids: collectorIds,
+      p_now: now.toISOString(),
+      p_closed_collection_statuses: CLOSED_COLLECTION_STATUSES,
+      p_closed_account_statuses: CLOSED_ACCOUNT_STATUSES
+    }),
+    supabase
+      .from('collector_queue_events')
+      .select('collector_id, action, reason')
+      .in('collector_id', collectorIds)
+      .gte('created_at', `${today}T00:00:00.000Z`)
+  ])
+
+  if (countsError) {
+    throw new Error(`Failed to count queue accounts: ${countsError.message}`)
+  }
+  if (error) {
+    throw new Error(`Failed to fetch queue events: ${error.message}`)
+  }
+
+  const metricsByCollector = new Map<string, CollectorQueueMetrics>()
+  for (const collector of collectors) {
+    metricsByCollector.set(collector.id, {
+      collectorId: collector.id,
+      collectorName: collector.full_name,
+      assignedAccounts: 0,
+      readyAccounts: 0,
+      readyBalance: 0,
+      callbacksDue: 0,
+      promisesDue: 0,
+      timeBarred: 0,
+      excluded: {},
+      servedToday: 0,
+      skippedToday: 0,
+      deferredToday: 0,
+      skipReasons: {}
+    })
+  }
+
+  const withinWindowByState = new Map<string | null, boolean>()
+  for (const group of counts || []) {
+    const metrics = metricsByCollector.get(group.collector_id)
+    if (!metrics) continue
+    const accountCount = Number(group.account_count || 0)
+    metrics.assignedAccounts += accountCount
+
+    let exclusion: string | null = group.exclusion
+    if (!exclusion) {
+      const state = group.sol_state || null
+      if (!withinWindowByState.has(state)) withinWindowByState.set(state, isWithinContactWindow({ sol_state: state }, now))
+      if (!withinWindowByState.get(state)) exclusion = 'outside_contact_hours'
+    }
+    if (exclusion) {
+      metrics.excluded[exclusion] = (metrics.excluded[exclusion] || 0) + accountCount
+      continue
+    }
+
+    metrics.readyAccounts += accountCount
+    metrics.readyBalance += Number(group.balance || 0)
+    if (group.callback_due) metrics.callbacksDue += accountCount
+    if (group.promise_due) metrics.promisesDue += accountCount
+    if (group.time_barred) metrics.timeBarred += accountCount
+  }
+
+  for (const event of events || []) {
+    const metrics = metricsByCollector.get(event.collector_id)
+    if (!metrics) continue
+    if (event.action === 'served') metrics.servedToday++
+    else if (event.action === 'skipped') metrics.skippedToday++
+    else if (event.action === 'deferred') metrics.deferredToday++
+    if (event.reason) metrics.skipReasons[event.reason] = (metrics.skipReasons[event.reason] || 0) + 1
+  }
+
+  return Array.from(metricsByCollector.values())
+}
+
+/**
+ * The collector whose queue a request works on: the caller's own unless a supervisor names
+ * another. Agency admins can only supervise collectors of their own agency.
+ */
+export async function resolveQueueCollector(
+  supabase: any,
+  user: AuthenticatedUser,
+  requestedCollectorId: string | null
+): Promise<{ collectorId: string | null; error: string | null }> {
+  if (!['platform_admin', 'agency_admin', 'agency_user'].includes(user.activeRole.roleType)) {
+    return { collectorId: null, error: 'Insufficient permissions' }
+  }
+  if (!requestedCollectorId || requestedCollectorId === user.id) {
+    return { collectorId: user.id, error: null }
+  }
+
+  if (user.activeRole.roleType === 'platform_admin') {
+    return { collectorId: requestedCollectorId, error: null }
+  }
+  if (user.activeRole.roleType === 'agency_admin' && user.activeRole.organizationId) {
+    const collectors = await listAgencyCollectors(supabase, user.activeRole.organizationId)
+    if (collectors.some(collector => collector.id === requestedCollectorId)) {
+      return { collectorId: requestedCollectorId, error: null }
+    }
+  }
+  return { collectorId: null, error: 'Only supervisors can work another collector\'s queue' }
+}
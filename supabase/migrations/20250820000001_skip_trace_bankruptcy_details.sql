@@ -0,0 +1,43 @@
+-- Add skip-trace bankruptcy detail columns to person_bankruptcies
+-- Scrub vendor return files carry codebtor, trustee, attorney and hearing data
+-- that previously had nowhere to land
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS dismissed_date DATE;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS closed_date DATE;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS court_district TEXT;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS disposition_status TEXT;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS codebtor_name TEXT;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS codebtor_address TEXT;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS trustee_name TEXT;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS trustee_phone TEXT;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS attorney_name TEXT;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS attorney_phone TEXT;
+
+ALTER TABLE public.person_bankruptcies
+ADD COLUMN IF NOT EXISTS hearing_date DATE;
+
+-- Skip-trace rows are matched back to an existing case by case number
+CREATE INDEX IF NOT EXISTS idx_person_bankruptcies_case_number
+ON public.person_bankruptcies(person_id, case_number);
+
+COMMENT ON COLUMN public.person_bankruptcies.codebtor_name IS 'Codebtor name as reported by skip-trace vendor';
+COMMENT ON COLUMN public.person_bankruptcies.trustee_name IS 'Trustee name as reported by skip-trace vendor';
@@ -0,0 +1,7 @@
+-- Allow flat-file imports beyond CSV
+-- TSV and pipe-delimited files are now parsed natively by the import pipeline
+
+ALTER TABLE import_jobs DROP CONSTRAINT IF EXISTS import_jobs_file_type_check;
+
+ALTER TABLE import_jobs ADD CONSTRAINT import_jobs_file_type_check
+  CHECK (file_type IN ('csv', 'tsv', 'txt', 'xlsx', 'xls'));
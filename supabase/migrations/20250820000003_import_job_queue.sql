@@ -0,0 +1,117 @@
+-- Migration: Durable import job queue
+-- Created: 2025-08-20
+-- Replaces fire-and-forget staging and client-driven chunk loops with leased,
+-- heartbeated tasks that retry with backoff and resume from their checkpoint
+
+-- ============================================================================
+-- IMPORT JOB TASKS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS import_job_tasks (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id uuid NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+
+    -- What to run
+    task_type text NOT NULL CHECK (task_type IN ('stage', 'process')),
+    payload jsonb NOT NULL DEFAULT '{}',
+
+    -- Queue state
+    status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'dead')),
+    attempts integer NOT NULL DEFAULT 0,
+    max_attempts integer NOT NULL DEFAULT 5,
+    run_at timestamptz NOT NULL DEFAULT now(),
+
+    -- Leasing
+    locked_by text,
+    locked_until timestamptz,
+    heartbeat_at timestamptz,
+
+    -- Resume point, written after every committed chunk
+    checkpoint jsonb NOT NULL DEFAULT '{}',
+    last_error text,
+
+    -- Timestamps
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_job_tasks_job_id ON import_job_tasks(job_id);
+CREATE INDEX IF NOT EXISTS idx_import_job_tasks_ready ON import_job_tasks(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_import_job_tasks_lease ON import_job_tasks(status, locked_until);
+
+-- Only one live task of each type per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_import_job_tasks_active
+    ON import_job_tasks(job_id, task_type)
+    WHERE status IN ('queued', 'running');
+
+CREATE TRIGGER update_import_job_tasks_updated_at BEFORE UPDATE ON import_job_tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE import_job_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Allow service role full access
+CREATE POLICY "Allow service role full access to import job tasks" ON import_job_tasks
+    FOR ALL TO service_role
+    USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE import_job_tasks IS 'Durable queue of import staging/processing work with leases and checkpoints';
+COMMENT ON COLUMN import_job_tasks.checkpoint IS 'Last committed position, e.g. {"staged_rows": 5000} or {"next_start_index": 1200}';
+
+-- ============================================================================
+-- CLAIM FUNCTION
+-- ============================================================================
+
+-- Atomically lease the next runnable task. Tasks whose lease has expired
+-- (worker died mid-run) are picked up again and resume from their checkpoint.
+CREATE OR REPLACE FUNCTION claim_import_job_task(
+    p_worker_id text,
+    p_lease_seconds integer DEFAULT 120
+)
+RETURNS SETOF import_job_tasks AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE import_job_tasks t
+    SET status = 'running',
+        attempts = t.attempts + 1,
+        locked_by = p_worker_id,
+        locked_until = now() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = now()
+    WHERE t.id = (
+        SELECT id FROM import_job_tasks
+        WHERE (status = 'queued' AND run_at <= now())
+           OR (status = 'running' AND locked_until < now())
+        ORDER BY run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING t.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Extend a lease and record progress. Returns false if the lease was lost.
+CREATE OR REPLACE FUNCTION heartbeat_import_job_task(
+    p_task_id uuid,
+    p_worker_id text,
+    p_lease_seconds integer DEFAULT 120,
+    p_checkpoint jsonb DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+    v_updated integer;
+BEGIN
+    UPDATE import_job_tasks
+    SET locked_until = now() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = now(),
+        checkpoint = COALESCE(p_checkpoint, checkpoint)
+    WHERE id = p_task_id
+      AND locked_by = p_worker_id
+      AND status = 'running';
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION claim_import_job_task(text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION heartbeat_import_job_task(uuid, text, integer, jsonb) TO service_role;
@@ -0,0 +1,53 @@
+-- Migration: Import modes and per-field change tracking
+-- Created: 2025-08-20
+-- Lets account imports update existing debt_accounts (matched on client_id +
+-- original_account_number) and records before/after values for every change
+
+-- ============================================================================
+-- IMPORT MODE
+-- ============================================================================
+
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS import_mode text NOT NULL DEFAULT 'insert';
+
+ALTER TABLE import_jobs DROP CONSTRAINT IF EXISTS import_jobs_import_mode_check;
+ALTER TABLE import_jobs ADD CONSTRAINT import_jobs_import_mode_check
+    CHECK (import_mode IN ('insert', 'update', 'upsert'));
+
+COMMENT ON COLUMN import_jobs.import_mode IS 'insert = new accounts only, update = existing accounts only, upsert = both';
+
+-- Account lookup key for update/upsert imports
+CREATE INDEX IF NOT EXISTS idx_debt_accounts_client_original_account
+    ON debt_accounts(client_id, original_account_number)
+    WHERE original_account_number IS NOT NULL;
+
+-- ============================================================================
+-- IMPORT JOB CHANGES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS import_job_changes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id uuid NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+    row_number integer,
+
+    -- Record that was touched
+    table_name text NOT NULL,
+    record_id uuid NOT NULL,
+    action text NOT NULL CHECK (action IN ('insert', 'update')),
+
+    -- {"field": {"before": ..., "after": ...}} for updates, inserted values for inserts
+    changes jsonb NOT NULL DEFAULT '{}',
+
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_job_changes_job_id ON import_job_changes(job_id);
+CREATE INDEX IF NOT EXISTS idx_import_job_changes_record ON import_job_changes(table_name, record_id);
+
+ALTER TABLE import_job_changes ENABLE ROW LEVEL SECURITY;
+
+-- Allow service role full access
+CREATE POLICY "Allow service role full access to import job changes" ON import_job_changes
+    FOR ALL TO service_role
+    USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE import_job_changes IS 'Per-record, per-field before/after values written by import processing';
@@ -0,0 +1,12 @@
+-- Migration: Import dry runs
+-- Created: 2025-08-20
+-- Stores the change-set preview for a validated import and who approved it.
+-- Processing is only allowed once the dry run has been approved.
+
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS dry_run_results jsonb;
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS dry_run_completed_at timestamptz;
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS dry_run_approved_at timestamptz;
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS dry_run_approved_by uuid;
+
+COMMENT ON COLUMN import_jobs.dry_run_results IS 'Counts and sample rows of new/matched persons, new/updated accounts and rejected rows';
+COMMENT ON COLUMN import_jobs.dry_run_approved_at IS 'Set when a user approves the dry run; required before processing';
@@ -0,0 +1,22 @@
+-- Migration: Roll back a single import job
+-- Created: 2025-08-20
+-- Adds the rolled_back job status, rollback bookkeeping and an ordering column on
+-- import_job_changes so changes can be undone in reverse order
+
+-- Drop the existing constraint
+ALTER TABLE import_jobs DROP CONSTRAINT IF EXISTS import_jobs_status_check;
+
+-- Re-add the constraint with 'rolled_back' status
+ALTER TABLE import_jobs ADD CONSTRAINT import_jobs_status_check
+  CHECK (status IN ('pending', 'uploaded', 'validating', 'validated', 'processing', 'completed', 'failed', 'cancelled', 'rolled_back'));
+
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS rolled_back_at timestamptz;
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS rolled_back_by uuid;
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS rollback_summary jsonb;
+
+COMMENT ON COLUMN import_jobs.rollback_summary IS 'Records deleted/reverted by the rollback and any that were kept, with the reason';
+
+-- Changes within a row share a created_at, so keep an explicit write order
+ALTER TABLE import_job_changes ADD COLUMN IF NOT EXISTS change_seq bigserial;
+
+CREATE INDEX IF NOT EXISTS idx_import_job_changes_job_seq ON import_job_changes(job_id, change_seq);
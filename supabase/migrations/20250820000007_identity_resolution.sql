@@ -0,0 +1,122 @@
+-- Migration: Identity resolution for account imports
+-- Created: 2025-08-20
+-- Scores existing persons against an incoming row on normalized SSN, name, DOB, address and phone
+-- so imports can auto-link, create, or queue an ambiguous match for human review
+
+-- ============================================================================
+-- INDEXES FOR CANDIDATE LOOKUP
+-- ============================================================================
+
+-- SSNs are stored both with and without dashes
+CREATE INDEX IF NOT EXISTS idx_persons_normalized_ssn ON persons (normalize_ssn(ssn));
+
+CREATE INDEX IF NOT EXISTS idx_persons_last_name_trgm ON persons USING gin(last_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_persons_dob ON persons(dob);
+
+CREATE INDEX IF NOT EXISTS idx_person_phones_digits ON person_phones (regexp_replace(number, '[^0-9]', '', 'g'));
+
+-- ============================================================================
+-- CANDIDATE SEARCH
+-- ============================================================================
+
+-- Returns the persons that could be the subject of an incoming row along with the raw match signals.
+-- Candidates come from an exact normalized SSN, a similar last name, or an exact phone number;
+-- weighting the signals into a decision is left to the import processor.
+CREATE OR REPLACE FUNCTION find_identity_candidates(
+    p_ssn text,
+    p_first_name text,
+    p_last_name text,
+    p_dob date,
+    p_address text,
+    p_phone text,
+    p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+    person_id uuid,
+    ssn_match boolean,
+    ssn_conflict boolean,
+    name_score real,
+    dob_match boolean,
+    address_score real,
+    phone_match boolean
+) AS $$
+    WITH input AS (
+        SELECT
+            NULLIF(normalize_ssn(COALESCE(p_ssn, '')), '') AS ssn,
+            NULLIF(trim(concat_ws(' ', p_first_name, p_last_name)), '') AS full_name,
+            NULLIF(trim(COALESCE(p_last_name, '')), '') AS last_name,
+            NULLIF(trim(COALESCE(p_address, '')), '') AS address,
+            NULLIF(regexp_replace(COALESCE(p_phone, ''), '[^0-9]', '', 'g'), '') AS phone
+    ),
+    candidates AS (
+        SELECT p.id FROM persons p, input i
+        WHERE i.ssn IS NOT NULL AND normalize_ssn(p.ssn) = i.ssn
+        UNION
+        SELECT p.id FROM persons p, input i
+        WHERE i.last_name IS NOT NULL AND p.last_name % i.last_name
+        UNION
+        SELECT ph.person_id FROM person_phones ph, input i
+        WHERE i.phone IS NOT NULL AND regexp_replace(ph.number, '[^0-9]', '', 'g') = i.phone
+    ),
+    scored AS (
+        SELECT
+            p.id AS person_id,
+            (i.ssn IS NOT NULL AND normalize_ssn(p.ssn) = i.ssn) AS ssn_match,
+            (i.ssn IS NOT NULL AND NULLIF(normalize_ssn(COALESCE(p.ssn, '')), '') IS NOT NULL
+                AND normalize_ssn(p.ssn) <> i.ssn) AS ssn_conflict,
+            CASE WHEN i.full_name IS NULL THEN 0
+                ELSE similarity(lower(COALESCE(NULLIF(concat_ws(' ', p.first_name, p.last_name), ''), p.full_name, '')), lower(i.full_name))
+            END AS name_score,
+            (p_dob IS NOT NULL AND p.dob = p_dob) AS dob_match,
+            CASE WHEN i.address IS NULL THEN 0
+                ELSE COALESCE((
+                    SELECT max(similarity(lower(a.full_address), lower(i.address)))
+                    FROM person_addresses a
+                    WHERE a.person_id = p.id
+                ), 0)
+            END AS address_score,
+            (i.phone IS NOT NULL AND EXISTS (
+                SELECT 1 FROM person_phones ph
+                WHERE ph.person_id = p.id
+                  AND regexp_replace(ph.number, '[^0-9]', '', 'g') = i.phone
+            )) AS phone_match
+        FROM persons p
+        JOIN candidates c ON c.id = p.id
+        CROSS JOIN input i
+    )
+    SELECT * FROM scored
+    ORDER BY ssn_match DESC, dob_match DESC, name_score DESC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION find_identity_candidates(text, text, text, date, text, text, integer) TO service_role;
+
+-- ============================================================================
+-- REVIEW QUEUE
+-- ============================================================================
+
+-- Rows whose identity couldn't be decided automatically. The account is created once a reviewer
+-- links the row to a person or confirms it's someone new.
+CREATE TABLE IF NOT EXISTS import_identity_reviews (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id uuid NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+    row_number integer NOT NULL,
+    mapped_data jsonb NOT NULL,
+    candidates jsonb NOT NULL DEFAULT '[]'::jsonb,
+    reason text,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'linked', 'created', 'dismissed')),
+    resolved_person_id uuid REFERENCES persons(id) ON DELETE SET NULL,
+    resolved_account_id uuid REFERENCES debt_accounts(id) ON DELETE SET NULL,
+    resolved_by uuid,
+    resolved_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    UNIQUE (job_id, row_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_identity_reviews_status ON import_identity_reviews(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_import_identity_reviews_job_id ON import_identity_reviews(job_id);
+
+ALTER TABLE import_identity_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to import identity reviews" ON import_identity_reviews
+  FOR ALL USING (auth.role() = 'service_role');
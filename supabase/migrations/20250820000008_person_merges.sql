@@ -0,0 +1,285 @@
+-- Migration: Person merge and unmerge
+-- Created: 2025-08-20
+-- Combines duplicate persons into a survivor by re-pointing every person_id reference.
+-- Merged persons are kept (pointing at the survivor) and each merge records exactly which
+-- rows it moved, so an unmerge can restore the original graph.
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+ALTER TABLE persons ADD COLUMN IF NOT EXISTS merged_into uuid REFERENCES persons(id);
+ALTER TABLE persons ADD COLUMN IF NOT EXISTS merged_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_persons_merged_into ON persons(merged_into) WHERE merged_into IS NOT NULL;
+
+COMMENT ON COLUMN persons.merged_into IS 'Survivor this person was merged into; merged persons are hidden from search and matching';
+
+CREATE TABLE IF NOT EXISTS person_merges (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    survivor_id uuid NOT NULL REFERENCES persons(id),
+    merged_person_ids uuid[] NOT NULL,
+    -- { "<table>": [ { "id": <row id>, "person_id": <original person id> } ] }
+    moved_records jsonb NOT NULL DEFAULT '{}'::jsonb,
+    -- Survivor fields that were blank and filled from a merged person, with the value filled in
+    filled_fields jsonb NOT NULL DEFAULT '{}'::jsonb,
+    reason text,
+    status text NOT NULL DEFAULT 'merged' CHECK (status IN ('merged', 'unmerged')),
+    merged_by uuid,
+    merged_at timestamptz DEFAULT now(),
+    unmerged_by uuid,
+    unmerged_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_person_merges_survivor_id ON person_merges(survivor_id);
+CREATE INDEX IF NOT EXISTS idx_person_merges_merged_person_ids ON person_merges USING gin(merged_person_ids);
+
+ALTER TABLE person_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to person merges" ON person_merges
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- MERGE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION merge_persons(
+    p_survivor_id uuid,
+    p_merged_ids uuid[],
+    p_merged_by uuid,
+    p_reason text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+    v_tables text[] := ARRAY[
+        'debt_accounts', 'person_addresses', 'person_phones', 'person_emails', 'person_relatives',
+        'person_properties', 'person_vehicles', 'person_employments', 'person_bankruptcies'
+    ];
+    v_table text;
+    v_moved jsonb := '{}'::jsonb;
+    v_rows jsonb;
+    v_filled jsonb := '{}'::jsonb;
+    v_field text;
+    v_survivor jsonb;
+    v_value text;
+    v_merge_id uuid;
+BEGIN
+    IF p_merged_ids IS NULL OR array_length(p_merged_ids, 1) IS NULL THEN
+        RAISE EXCEPTION 'No persons to merge';
+    END IF;
+
+    IF p_survivor_id = ANY(p_merged_ids) THEN
+        RAISE EXCEPTION 'Survivor cannot also be merged';
+    END IF;
+
+    -- Lock every person involved so two merges can't interleave
+    PERFORM 1 FROM persons WHERE id = p_survivor_id OR id = ANY(p_merged_ids) FOR UPDATE;
+
+    IF NOT EXISTS (SELECT 1 FROM persons WHERE id = p_survivor_id AND merged_into IS NULL) THEN
+        RAISE EXCEPTION 'Survivor % not found or already merged', p_survivor_id;
+    END IF;
+
+    IF (SELECT count(*) FROM persons WHERE id = ANY(p_merged_ids) AND merged_into IS NULL)
+        <> array_length(p_merged_ids, 1) THEN
+        RAISE EXCEPTION 'One or more persons not found or already merged';
+    END IF;
+
+    -- Re-point every reference, remembering where each row came from
+    FOREACH v_table IN ARRAY v_tables LOOP
+        EXECUTE format(
+            'WITH moved AS (
+                UPDATE %I t SET person_id = $1
+                FROM (SELECT id, person_id FROM %I WHERE person_id = ANY($2)) original
+                WHERE t.id = original.id
+                RETURNING original.id, original.person_id
+            )
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(''id'', id, ''person_id'', person_id)), ''[]''::jsonb) FROM moved',
+            v_table, v_table
+        )
+        INTO v_rows
+        USING p_survivor_id, p_merged_ids;
+
+        IF jsonb_array_length(v_rows) > 0 THEN
+            v_moved := v_moved || jsonb_build_object(v_table, v_rows);
+        END IF;
+    END LOOP;
+
+    -- Fill blank identity fields on the survivor from the merged persons (SSN is unique, so it stays put)
+    SELECT to_jsonb(p.*) INTO v_survivor FROM persons p WHERE id = p_survivor_id;
+
+    FOREACH v_field IN ARRAY ARRAY['first_name', 'middle_name', 'last_name', 'full_name', 'dob'] LOOP
+        IF v_survivor ->> v_field IS NULL THEN
+            EXECUTE format(
+                'SELECT %I::text FROM persons WHERE id = ANY($1) AND %I IS NOT NULL ORDER BY created_at LIMIT 1',
+                v_field, v_field
+            )
+            INTO v_value
+            USING p_merged_ids;
+
+            IF v_value IS NOT NULL THEN
+                EXECUTE format('UPDATE persons SET %I = $1::%s WHERE id = $2',
+                    v_field, CASE WHEN v_field = 'dob' THEN 'date' ELSE 'text' END)
+                USING v_value, p_survivor_id;
+                v_filled := v_filled || jsonb_build_object(v_field, v_value);
+            END IF;
+        END IF;
+    END LOOP;
+
+    UPDATE persons
+    SET merged_into = p_survivor_id,
+        merged_at = now(),
+        updated_at = now()
+    WHERE id = ANY(p_merged_ids);
+
+    INSERT INTO person_merges (survivor_id, merged_person_ids, moved_records, filled_fields, reason, merged_by)
+    VALUES (p_survivor_id, p_merged_ids, v_moved, v_filled, p_reason, p_merged_by)
+    RETURNING id INTO v_merge_id;
+
+    RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- UNMERGE
+-- ============================================================================
+
+-- Moves each recorded row back to its original person. Rows added to the survivor after the
+-- merge stay with the survivor; rows that have since moved elsewhere are left alone.
+CREATE OR REPLACE FUNCTION unmerge_persons(
+    p_merge_id uuid,
+    p_unmerged_by uuid
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_merge person_merges%ROWTYPE;
+    v_table text;
+    v_restored integer;
+    v_summary jsonb := '{}'::jsonb;
+    v_field text;
+BEGIN
+    SELECT * INTO v_merge FROM person_merges WHERE id = p_merge_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Merge % not found', p_merge_id;
+    END IF;
+
+    IF v_merge.status <> 'merged' THEN
+        RAISE EXCEPTION 'Merge % has already been undone', p_merge_id;
+    END IF;
+
+    -- A later merge of the survivor has to be undone first or its moved rows would be lost
+    IF EXISTS (SELECT 1 FROM persons WHERE id = v_merge.survivor_id AND merged_into IS NOT NULL) THEN
+        RAISE EXCEPTION 'Survivor has since been merged into another person - undo that merge first';
+    END IF;
+
+    FOR v_table IN SELECT jsonb_object_keys(v_merge.moved_records) LOOP
+        EXECUTE format(
+            'UPDATE %I t SET person_id = (original ->> ''person_id'')::uuid
+             FROM jsonb_array_elements($1) original
+             WHERE t.id = (original ->> ''id'')::uuid AND t.person_id = $2',
+            v_table
+        )
+        USING v_merge.moved_records -> v_table, v_merge.survivor_id;
+
+        GET DIAGNOSTICS v_restored = ROW_COUNT;
+        v_summary := v_summary || jsonb_build_object(v_table, v_restored);
+    END LOOP;
+
+    -- Blank the filled fields again unless they've been edited since
+    FOR v_field IN SELECT jsonb_object_keys(v_merge.filled_fields) LOOP
+        EXECUTE format('UPDATE persons SET %I = NULL WHERE id = $1 AND %I::text = $2', v_field, v_field)
+        USING v_merge.survivor_id, v_merge.filled_fields ->> v_field;
+    END LOOP;
+
+    UPDATE persons
+    SET merged_into = NULL,
+        merged_at = NULL,
+        updated_at = now()
+    WHERE id = ANY(v_merge.merged_person_ids)
+      AND merged_into = v_merge.survivor_id;
+
+    UPDATE person_merges
+    SET status = 'unmerged',
+        unmerged_by = p_unmerged_by,
+        unmerged_at = now()
+    WHERE id = p_merge_id;
+
+    RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION merge_persons(uuid, uuid[], uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION unmerge_persons(uuid, uuid) TO service_role;
+
+-- ============================================================================
+-- IDENTITY MATCHING
+-- ============================================================================
+
+-- Same as 20250820000007, but merged persons are never offered as candidates
+CREATE OR REPLACE FUNCTION find_identity_candidates(
+    p_ssn text,
+    p_first_name text,
+    p_last_name text,
+    p_dob date,
+    p_address text,
+    p_phone text,
+    p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+    person_id uuid,
+    ssn_match boolean,
+    ssn_conflict boolean,
+    name_score real,
+    dob_match boolean,
+    address_score real,
+    phone_match boolean
+) AS $$
+    WITH input AS (
+        SELECT
+            NULLIF(normalize_ssn(COALESCE(p_ssn, '')), '') AS ssn,
+            NULLIF(trim(concat_ws(' ', p_first_name, p_last_name)), '') AS full_name,
+            NULLIF(trim(COALESCE(p_last_name, '')), '') AS last_name,
+            NULLIF(trim(COALESCE(p_address, '')), '') AS address,
+            NULLIF(regexp_replace(COALESCE(p_phone, ''), '[^0-9]', '', 'g'), '') AS phone
+    ),
+    candidates AS (
+        SELECT p.id FROM persons p, input i
+        WHERE i.ssn IS NOT NULL AND normalize_ssn(p.ssn) = i.ssn
+        UNION
+        SELECT p.id FROM persons p, input i
+        WHERE i.last_name IS NOT NULL AND p.last_name % i.last_name
+        UNION
+        SELECT ph.person_id FROM person_phones ph, input i
+        WHERE i.phone IS NOT NULL AND regexp_replace(ph.number, '[^0-9]', '', 'g') = i.phone
+    ),
+    scored AS (
+        SELECT
+            p.id AS person_id,
+            (i.ssn IS NOT NULL AND normalize_ssn(p.ssn) = i.ssn) AS ssn_match,
+            (i.ssn IS NOT NULL AND NULLIF(normalize_ssn(COALESCE(p.ssn, '')), '') IS NOT NULL
+                AND normalize_ssn(p.ssn) <> i.ssn) AS ssn_conflict,
+            CASE WHEN i.full_name IS NULL THEN 0
+                ELSE similarity(lower(COALESCE(NULLIF(concat_ws(' ', p.first_name, p.last_name), ''), p.full_name, '')), lower(i.full_name))
+            END AS name_score,
+            (p_dob IS NOT NULL AND p.dob = p_dob) AS dob_match,
+            CASE WHEN i.address IS NULL THEN 0
+                ELSE COALESCE((
+                    SELECT max(similarity(lower(a.full_address), lower(i.address)))
+                    FROM person_addresses a
+                    WHERE a.person_id = p.id
+                ), 0)
+            END AS address_score,
+            (i.phone IS NOT NULL AND EXISTS (
+                SELECT 1 FROM person_phones ph
+                WHERE ph.person_id = p.id
+                  AND regexp_replace(ph.number, '[^0-9]', '', 'g') = i.phone
+            )) AS phone_match
+        FROM persons p
+        JOIN candidates c ON c.id = p.id
+        CROSS JOIN input i
+        WHERE p.merged_into IS NULL
+    )
+    SELECT * FROM scored
+    ORDER BY ssn_match DESC, dob_match DESC, name_score DESC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,120 @@
+-- Migration: Immutable import template versions and per-client mapping memory
+-- Created: 2025-08-20
+-- Template edits create a new version instead of overwriting the mapping a past job ran with,
+-- and the last confirmed header mapping is remembered per client so the next file maps itself
+
+-- ============================================================================
+-- TEMPLATE VERSIONS
+-- ============================================================================
+
+-- Versions outlive their template so jobs keep a record of the mapping they used
+CREATE TABLE IF NOT EXISTS import_template_versions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id uuid REFERENCES import_templates(id) ON DELETE SET NULL,
+    version_number integer NOT NULL,
+    name text NOT NULL,
+    import_type text NOT NULL,
+    field_mappings jsonb NOT NULL DEFAULT '{}'::jsonb,
+    validation_rules jsonb DEFAULT '[]'::jsonb,
+    required_columns text[] DEFAULT '{}',
+    optional_columns text[] DEFAULT '{}',
+    created_by uuid,
+    created_at timestamptz DEFAULT now(),
+    UNIQUE (template_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_template_versions_template_id ON import_template_versions(template_id, version_number DESC);
+
+-- Only the template_id may change (to NULL when the template is deleted)
+CREATE OR REPLACE FUNCTION prevent_import_template_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.template_id IS NULL
+       AND NEW.version_number = OLD.version_number
+       AND NEW.name = OLD.name
+       AND NEW.import_type = OLD.import_type
+       AND NEW.field_mappings = OLD.field_mappings
+       AND NEW.validation_rules IS NOT DISTINCT FROM OLD.validation_rules
+       AND NEW.required_columns IS NOT DISTINCT FROM OLD.required_columns
+       AND NEW.optional_columns IS NOT DISTINCT FROM OLD.optional_columns THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Import template versions are immutable; create a new version instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_import_template_versions_immutable ON import_template_versions;
+CREATE TRIGGER trg_import_template_versions_immutable
+    BEFORE UPDATE ON import_template_versions
+    FOR EACH ROW EXECUTE FUNCTION prevent_import_template_version_update();
+
+ALTER TABLE import_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to import template versions" ON import_template_versions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- The template row holds the current version; field_mappings stays as a copy for existing readers
+ALTER TABLE import_templates
+ADD COLUMN IF NOT EXISTS current_version_id uuid REFERENCES import_template_versions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS current_version integer DEFAULT 1;
+
+-- Existing templates become version 1
+INSERT INTO import_template_versions (
+    template_id, version_number, name, import_type, field_mappings, validation_rules,
+    required_columns, optional_columns, created_by, created_at
+)
+SELECT
+    t.id, 1, t.name, t.import_type, COALESCE(t.field_mappings, '{}'::jsonb), COALESCE(t.validation_rules, '[]'::jsonb),
+    COALESCE(t.required_columns, '{}'), COALESCE(t.optional_columns, '{}'), t.created_by, COALESCE(t.updated_at, t.created_at, now())
+FROM import_templates t
+WHERE NOT EXISTS (
+    SELECT 1 FROM import_template_versions v WHERE v.template_id = t.id
+);
+
+UPDATE import_templates t
+SET current_version_id = v.id,
+    current_version = v.version_number
+FROM import_template_versions v
+WHERE v.template_id = t.id
+  AND v.version_number = 1
+  AND t.current_version_id IS NULL;
+
+-- ============================================================================
+-- JOB VERSION STAMP
+-- ============================================================================
+
+ALTER TABLE import_jobs
+ADD COLUMN IF NOT EXISTS template_version_id uuid REFERENCES import_template_versions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN import_jobs.template_version_id IS 'The exact template version whose mappings the job was created with';
+
+-- Jobs created before versioning get the closest record available: the backfilled version 1
+UPDATE import_jobs j
+SET template_version_id = t.current_version_id
+FROM import_templates t
+WHERE j.template_id = t.id
+  AND j.template_version_id IS NULL;
+
+-- ============================================================================
+-- CLIENT MAPPING MEMORY
+-- ============================================================================
+
+-- The last header mapping confirmed for a client's files, keyed by target field like field_mappings
+CREATE TABLE IF NOT EXISTS client_field_mappings (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id uuid NOT NULL REFERENCES master_clients(id) ON DELETE CASCADE,
+    import_type text NOT NULL,
+    field_mappings jsonb NOT NULL DEFAULT '{}'::jsonb,
+    template_version_id uuid REFERENCES import_template_versions(id) ON DELETE SET NULL,
+    last_job_id uuid REFERENCES import_jobs(id) ON DELETE SET NULL,
+    confirmed_by uuid,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE (client_id, import_type)
+);
+
+ALTER TABLE client_field_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to client field mappings" ON client_field_mappings
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,32 @@
+-- Migration: Transformation rules on import templates
+-- Created: 2025-08-20
+-- Ordered rules (split, concat, regex, date format, lookup, default, conditional) applied to each
+-- row during staging after the column mapping
+
+ALTER TABLE import_templates
+ADD COLUMN IF NOT EXISTS transform_rules jsonb DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN import_templates.transform_rules IS 'Ordered transformation rules applied to each mapped row during staging';
+
+ALTER TABLE import_template_versions
+ADD COLUMN IF NOT EXISTS transform_rules jsonb DEFAULT '[]'::jsonb;
+
+-- Rules are part of a version, so they're covered by the immutability check too
+CREATE OR REPLACE FUNCTION prevent_import_template_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.template_id IS NULL
+       AND NEW.version_number = OLD.version_number
+       AND NEW.name = OLD.name
+       AND NEW.import_type = OLD.import_type
+       AND NEW.field_mappings = OLD.field_mappings
+       AND NEW.validation_rules IS NOT DISTINCT FROM OLD.validation_rules
+       AND NEW.transform_rules IS NOT DISTINCT FROM OLD.transform_rules
+       AND NEW.required_columns IS NOT DISTINCT FROM OLD.required_columns
+       AND NEW.optional_columns IS NOT DISTINCT FROM OLD.optional_columns THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Import template versions are immutable; create a new version instead';
+END;
+$$ LANGUAGE plpgsql;
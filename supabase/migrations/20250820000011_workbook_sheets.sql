@@ -0,0 +1,33 @@
+-- Migration: Multi-sheet workbook imports
+-- Created: 2025-08-20
+-- A workbook's primary sheet is staged as usual; related sheets (phones, addresses, payment history)
+-- are staged alongside it keyed by account number and attached to the accounts during processing
+
+ALTER TABLE import_jobs
+ADD COLUMN IF NOT EXISTS sheet_config jsonb;
+
+COMMENT ON COLUMN import_jobs.sheet_config IS 'Primary sheet name and related sheet mappings for multi-sheet workbook imports';
+
+-- ============================================================================
+-- RELATED SHEET ROWS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS import_related_rows (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id uuid NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+    sheet_name text NOT NULL,
+    record_type text NOT NULL CHECK (record_type IN ('phones', 'addresses', 'payments')),
+    row_number integer NOT NULL,
+    -- Account number from the join column, matched against original_account_number on the primary sheet
+    account_key text,
+    mapped_data jsonb NOT NULL DEFAULT '{}'::jsonb,
+    raw_data jsonb,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_related_rows_job_account ON import_related_rows(job_id, account_key);
+
+ALTER TABLE import_related_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to import related rows" ON import_related_rows
+  FOR ALL USING (auth.role() = 'service_role');
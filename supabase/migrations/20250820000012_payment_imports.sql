@@ -0,0 +1,16 @@
+-- Migration: Payment-history and transaction file imports
+-- Created: 2025-08-20
+-- Remittance and transaction files post rows into debtor_payments matched on account number;
+-- a processor reference that is already on file rejects the row as a duplicate
+-- (looked up through idx_payments_processor_reference, which kept its name when the table was renamed)
+
+ALTER TABLE import_jobs DROP CONSTRAINT IF EXISTS import_jobs_import_type_check;
+
+ALTER TABLE import_jobs ADD CONSTRAINT import_jobs_import_type_check
+  CHECK (import_type IN ('portfolios', 'accounts', 'debtors', 'clients', 'agencies', 'skip_trace', 'payments'));
+
+ALTER TABLE import_templates DROP CONSTRAINT IF EXISTS import_templates_import_type_check;
+
+ALTER TABLE import_templates ADD CONSTRAINT import_templates_import_type_check
+  CHECK (import_type IN ('portfolios', 'accounts', 'debtors', 'clients', 'agencies', 'skip_trace', 'payments'));
+
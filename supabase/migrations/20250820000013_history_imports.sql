@@ -0,0 +1,50 @@
+-- Migration: Notes and call-history imports
+-- Created: 2025-08-20
+-- Accounts converted from another agency arrive with that agency's collection notes and dial history.
+-- Imported records keep their original timestamps; the original author or collector is kept as text
+-- because they aren't users of this platform.
+
+ALTER TABLE import_jobs DROP CONSTRAINT IF EXISTS import_jobs_import_type_check;
+
+ALTER TABLE import_jobs ADD CONSTRAINT import_jobs_import_type_check
+  CHECK (import_type IN ('portfolios', 'accounts', 'debtors', 'clients', 'agencies', 'skip_trace', 'payments', 'notes', 'calls'));
+
+ALTER TABLE import_templates DROP CONSTRAINT IF EXISTS import_templates_import_type_check;
+
+ALTER TABLE import_templates ADD CONSTRAINT import_templates_import_type_check
+  CHECK (import_type IN ('portfolios', 'accounts', 'debtors', 'clients', 'agencies', 'skip_trace', 'payments', 'notes', 'calls'));
+
+-- ============================================================================
+-- DEBTOR NOTES
+-- ============================================================================
+
+ALTER TABLE debtor_notes ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE debtor_notes
+ADD COLUMN IF NOT EXISTS original_author text,
+ADD COLUMN IF NOT EXISTS source text DEFAULT 'manual' CHECK (source IN ('manual', 'import'));
+
+COMMENT ON COLUMN debtor_notes.original_author IS 'Author name from the previous agency for imported notes (user_id is null)';
+
+-- ============================================================================
+-- CALLS
+-- ============================================================================
+
+ALTER TABLE calls ALTER COLUMN collector_id DROP NOT NULL;
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS original_collector text,
+ADD COLUMN IF NOT EXISTS original_result text,
+ADD COLUMN IF NOT EXISTS phone_number text,
+ADD COLUMN IF NOT EXISTS source text DEFAULT 'manual' CHECK (source IN ('manual', 'import'));
+
+COMMENT ON COLUMN calls.original_collector IS 'Collector name from the previous agency for imported calls (collector_id is null)';
+COMMENT ON COLUMN calls.original_result IS 'Result code as it appeared in the imported file, before mapping to call_result';
+
+-- Calls were created against the old debtors table; point them at debt_accounts like the other history tables
+ALTER TABLE calls DROP CONSTRAINT IF EXISTS calls_debtor_id_fkey;
+ALTER TABLE calls ADD CONSTRAINT calls_debtor_id_fkey
+    FOREIGN KEY (debtor_id) REFERENCES debt_accounts(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_calls_debtor_id_call_date ON calls(debtor_id, call_date);
+CREATE INDEX IF NOT EXISTS idx_debtor_notes_debtor_id_created_at ON debtor_notes(debtor_id, created_at);
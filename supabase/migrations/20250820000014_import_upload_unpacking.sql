@@ -0,0 +1,36 @@
+-- Migration: Encrypted and compressed import uploads
+-- Created: 2025-08-20
+-- Clients send placement files zipped, gzipped or PGP-encrypted. The upload is unpacked on the server,
+-- only the extracted data file is written to storage, and that plaintext copy is removed once staged.
+
+ALTER TABLE import_jobs
+ADD COLUMN IF NOT EXISTS data_file_name text,
+ADD COLUMN IF NOT EXISTS upload_encodings text[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS plaintext_deleted_at timestamptz;
+
+COMMENT ON COLUMN import_jobs.data_file_name IS 'Name of the data file extracted from a packed upload (file_name keeps the uploaded name)';
+COMMENT ON COLUMN import_jobs.upload_encodings IS 'Layers removed from the upload, outermost first: pgp, gzip, zip';
+COMMENT ON COLUMN import_jobs.plaintext_deleted_at IS 'When the extracted plaintext was removed from the import-files bucket after staging';
+
+-- ============================================================================
+-- AGENCY IMPORT KEYS
+-- ============================================================================
+
+-- One PGP private key per agency. The armored key stays protected by its own passphrase;
+-- the passphrase is stored encrypted with the server's IMPORT_KEY_ENCRYPTION_SECRET.
+CREATE TABLE IF NOT EXISTS agency_import_keys (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id uuid NOT NULL UNIQUE REFERENCES master_agencies(id) ON DELETE CASCADE,
+    fingerprint text NOT NULL,
+    user_ids text[] DEFAULT '{}',
+    armored_private_key text NOT NULL,
+    passphrase_encrypted text,
+    created_by uuid REFERENCES platform_users(id),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE agency_import_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to agency import keys" ON agency_import_keys
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,97 @@
+-- Migration: Watched drop-folder ingestion
+-- Created: 2025-08-20
+-- Clients send the same placement file on a schedule. Each client gets inbound drop locations
+-- (a storage prefix or a server directory standing in for SFTP) that are polled; new files are
+-- matched to a saved template by file name pattern and header signature and become import jobs.
+
+-- Templates can claim files by name, e.g. 'ACME_placement_*.csv'
+ALTER TABLE import_templates
+ADD COLUMN IF NOT EXISTS file_name_pattern text;
+
+COMMENT ON COLUMN import_templates.file_name_pattern IS 'Glob (* and ?) matched case-insensitively against drop-folder file names';
+
+-- Drop-folder jobs are validated by the worker instead of waiting for someone to click Validate
+ALTER TABLE import_job_tasks DROP CONSTRAINT IF EXISTS import_job_tasks_task_type_check;
+
+ALTER TABLE import_job_tasks ADD CONSTRAINT import_job_tasks_task_type_check
+  CHECK (task_type IN ('stage', 'validate', 'process'));
+
+-- ============================================================================
+-- DROP LOCATIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS import_drop_locations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id uuid NOT NULL REFERENCES master_clients(id) ON DELETE CASCADE,
+    name text NOT NULL,
+
+    -- Where files arrive: a prefix in the import-drops bucket or a directory on the server
+    source_type text NOT NULL DEFAULT 'storage' CHECK (source_type IN ('storage', 'local')),
+    location text NOT NULL,
+
+    -- What the files become
+    import_type text NOT NULL,
+    portfolio_id uuid REFERENCES master_portfolios(id) ON DELETE SET NULL,
+    import_mode text NOT NULL DEFAULT 'insert',
+    delimiter text,
+    -- Only these templates are considered; empty means every template of the import type
+    template_ids uuid[] DEFAULT '{}',
+
+    -- Who hears about files that need a person
+    notify_emails text[] DEFAULT '{}',
+
+    is_active boolean NOT NULL DEFAULT true,
+    last_polled_at timestamptz,
+    created_by uuid REFERENCES platform_users(id),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_drop_locations_client_id ON import_drop_locations(client_id);
+
+ALTER TABLE import_drop_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to import drop locations" ON import_drop_locations
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- DROP FILES
+-- ============================================================================
+
+-- Every file seen in a drop location, so a file is only picked up once
+CREATE TABLE IF NOT EXISTS import_drop_files (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    location_id uuid NOT NULL REFERENCES import_drop_locations(id) ON DELETE CASCADE,
+    file_name text NOT NULL,
+    file_size bigint,
+    file_modified_at timestamptz,
+    -- name, size and modification time; a file re-sent with new contents is picked up again
+    file_fingerprint text NOT NULL,
+
+    status text NOT NULL CHECK (status IN ('queued', 'unmatched', 'failed', 'validated', 'needs_review')),
+    template_id uuid REFERENCES import_templates(id) ON DELETE SET NULL,
+    job_id uuid REFERENCES import_jobs(id) ON DELETE SET NULL,
+    match_details jsonb,
+    error_message text,
+    notified_at timestamptz,
+
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+
+    UNIQUE (location_id, file_fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_drop_files_job_id ON import_drop_files(job_id);
+
+ALTER TABLE import_drop_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to import drop files" ON import_drop_files
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- STORAGE
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('import-drops', 'import-drops', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,20 @@
+-- Migration: Correctable failed-row files and resubmission
+-- Created: 2025-08-20
+-- A finished job writes its failed rows (original columns plus an error column) to a file the
+-- user can fix and upload again. The corrected file becomes a child job of the original that
+-- reuses its template, portfolio and mapping; the original reports totals across its children.
+
+-- Column order of the uploaded file, kept so the failed-rows file matches it
+ALTER TABLE import_jobs
+ADD COLUMN IF NOT EXISTS source_headers text[];
+
+-- Resubmitted failed rows point at the job they came from (always the original, not another child)
+ALTER TABLE import_jobs
+ADD COLUMN IF NOT EXISTS parent_job_id uuid REFERENCES import_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_parent_job_id
+ON import_jobs(parent_job_id)
+WHERE parent_job_id IS NOT NULL;
+
+COMMENT ON COLUMN import_jobs.source_headers IS 'Header row of the staged file (primary sheet for workbooks), in file order';
+COMMENT ON COLUMN import_jobs.parent_job_id IS 'Original job whose failed rows this job resubmits';
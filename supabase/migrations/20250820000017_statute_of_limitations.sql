@@ -0,0 +1,79 @@
+-- Migration: Statute-of-limitations rules and time-barred accounts
+-- Created: 2025-08-20
+-- Each account's SOL expiry is derived from the consumer's state and the account type using a
+-- rules table, and stored on the account with a time-barred flag. It is computed when accounts
+-- are imported and again when payments are posted, and kept current by a scheduled refresh.
+
+-- ============================================================================
+-- SOL RULES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sol_rules (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Two-letter state code; NULL applies to any state without its own rule
+    state_code text CHECK (state_code IS NULL OR state_code ~ '^[A-Z]{2}$'),
+    -- debt_accounts.account_type; NULL applies to any type without its own rule
+    debt_type text,
+    years numeric(4,1) NOT NULL CHECK (years > 0),
+    -- What starts the clock: the later of charge-off and last payment, or charge-off alone
+    accrual_basis text NOT NULL DEFAULT 'last_activity' CHECK (accrual_basis IN ('last_activity', 'charge_off')),
+    -- Whether a payment restarts the clock in this state (only used with last_activity)
+    payment_restarts_clock boolean NOT NULL DEFAULT true,
+    notes text,
+    is_active boolean NOT NULL DEFAULT true,
+    created_by uuid REFERENCES platform_users(id),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+-- One rule per state/type pair, counting NULL as its own value
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sol_rules_state_type
+ON sol_rules (COALESCE(state_code, ''), COALESCE(debt_type, ''));
+
+ALTER TABLE sol_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to sol rules" ON sol_rules
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- ACCOUNT SOL STATE
+-- ============================================================================
+
+ALTER TABLE debt_accounts
+ADD COLUMN IF NOT EXISTS sol_state text,
+ADD COLUMN IF NOT EXISTS sol_rule_id uuid REFERENCES sol_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS sol_accrual_date date,
+ADD COLUMN IF NOT EXISTS sol_expiration_date date,
+ADD COLUMN IF NOT EXISTS is_time_barred boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS sol_computed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_debt_accounts_sol_expiration_date ON debt_accounts(sol_expiration_date);
+CREATE INDEX IF NOT EXISTS idx_debt_accounts_is_time_barred ON debt_accounts(is_time_barred) WHERE is_time_barred;
+
+COMMENT ON COLUMN debt_accounts.sol_state IS 'State whose statute of limitations applies (consumer''s current address when computed)';
+COMMENT ON COLUMN debt_accounts.sol_accrual_date IS 'Date the limitations period runs from';
+COMMENT ON COLUMN debt_accounts.sol_expiration_date IS 'Date the limitations period ends; NULL when it could not be determined';
+COMMENT ON COLUMN debt_accounts.is_time_barred IS 'Limitations period has passed - no litigation or credit reporting';
+
+-- ============================================================================
+-- SEED: open-account (credit card) periods by state
+-- ============================================================================
+-- Starting values only; compliance should confirm them and add debt-type rows where a state
+-- treats written contracts or promissory notes differently.
+
+INSERT INTO sol_rules (state_code, debt_type, years, notes) VALUES
+  (NULL, NULL, 6, 'Fallback when no state rule applies'),
+  ('AL', NULL, 3, NULL), ('AK', NULL, 3, NULL), ('AZ', NULL, 3, NULL), ('AR', NULL, 3, NULL),
+  ('CA', NULL, 4, NULL), ('CO', NULL, 6, NULL), ('CT', NULL, 6, NULL), ('DE', NULL, 3, NULL),
+  ('DC', NULL, 3, NULL), ('FL', NULL, 4, NULL), ('GA', NULL, 4, NULL), ('HI', NULL, 6, NULL),
+  ('ID', NULL, 4, NULL), ('IL', NULL, 5, NULL), ('IN', NULL, 6, NULL), ('IA', NULL, 5, NULL),
+  ('KS', NULL, 3, NULL), ('KY', NULL, 5, NULL), ('LA', NULL, 3, NULL), ('ME', NULL, 6, NULL),
+  ('MD', NULL, 3, NULL), ('MA', NULL, 6, NULL), ('MI', NULL, 6, NULL), ('MN', NULL, 6, NULL),
+  ('MS', NULL, 3, NULL), ('MO', NULL, 5, NULL), ('MT', NULL, 5, NULL), ('NE', NULL, 4, NULL),
+  ('NV', NULL, 4, NULL), ('NH', NULL, 3, NULL), ('NJ', NULL, 6, NULL), ('NM', NULL, 4, NULL),
+  ('NY', NULL, 3, 'Consumer Credit Fairness Act'), ('NC', NULL, 3, NULL), ('ND', NULL, 6, NULL),
+  ('OH', NULL, 6, NULL), ('OK', NULL, 3, NULL), ('OR', NULL, 6, NULL), ('PA', NULL, 4, NULL),
+  ('RI', NULL, 10, NULL), ('SC', NULL, 3, NULL), ('SD', NULL, 6, NULL), ('TN', NULL, 6, NULL),
+  ('TX', NULL, 4, NULL), ('UT', NULL, 4, NULL), ('VT', NULL, 6, NULL), ('VA', NULL, 3, NULL),
+  ('WA', NULL, 6, NULL), ('WV', NULL, 5, NULL), ('WI', NULL, 6, NULL), ('WY', NULL, 8, NULL)
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,36 @@
+-- Migration: Collector work queue events
+-- Created: 2025-08-20
+-- Collectors work their assigned accounts from a server-built queue. Each account the queue
+-- hands out, and each skip or deferral with its reason, is recorded here; an event keeps the
+-- account out of the collector's queue until its available_at time passes.
+
+-- ============================================================================
+-- QUEUE EVENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS collector_queue_events (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id uuid NOT NULL REFERENCES debt_accounts(id) ON DELETE CASCADE,
+    collector_id uuid NOT NULL REFERENCES platform_users(id) ON DELETE CASCADE,
+    action text NOT NULL CHECK (action IN ('served', 'skipped', 'deferred')),
+    -- One of the queue's skip/defer reason codes; NULL for served
+    reason text,
+    notes text,
+    -- The account returns to the queue at this time
+    available_at timestamptz NOT NULL DEFAULT now(),
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_collector_queue_events_collector_available
+ON collector_queue_events(collector_id, available_at);
+CREATE INDEX IF NOT EXISTS idx_collector_queue_events_account_id ON collector_queue_events(account_id);
+CREATE INDEX IF NOT EXISTS idx_collector_queue_events_created_at ON collector_queue_events(created_at);
+
+ALTER TABLE collector_queue_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to collector queue events" ON collector_queue_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Queue assembly reads every open account of a collector
+CREATE INDEX IF NOT EXISTS idx_debt_accounts_collector_next_contact
+ON debt_accounts(assigned_collector_id, next_contact_date);
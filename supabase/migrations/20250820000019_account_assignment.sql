@@ -0,0 +1,101 @@
+-- Migration: Rules-based account assignment
+-- Created: 2025-08-20
+-- Agencies configure ordered assignment rules that pick a collector for an account by portfolio,
+-- balance band, consumer state and language. Collector profiles record the states a collector is
+-- licensed in, the languages they speak and how many accounts they can carry. Newly imported
+-- accounts are assigned through the rules, and every change of assigned collector is logged.
+
+-- ============================================================================
+-- ASSIGNMENT RULES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS assignment_rules (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    agency_id uuid NOT NULL REFERENCES master_agencies(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    -- Rules are tried lowest first; the first one with an eligible collector wins
+    priority integer NOT NULL DEFAULT 100,
+    is_active boolean NOT NULL DEFAULT true,
+    -- Conditions; NULL matches any account
+    portfolio_id uuid REFERENCES master_portfolios(id) ON DELETE CASCADE,
+    min_balance numeric(15,2),
+    max_balance numeric(15,2),
+    states text[],
+    language text,
+    -- Collectors the rule assigns to; empty means every collector of the agency
+    collector_ids uuid[] NOT NULL DEFAULT '{}',
+    strategy text NOT NULL DEFAULT 'round_robin' CHECK (strategy IN ('round_robin', 'least_loaded')),
+    -- Round-robin position
+    last_assigned_collector_id uuid REFERENCES platform_users(id) ON DELETE SET NULL,
+    created_by uuid REFERENCES platform_users(id),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+
+    CHECK (min_balance IS NULL OR max_balance IS NULL OR min_balance <= max_balance)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_rules_agency_priority ON assignment_rules(agency_id, priority);
+
+ALTER TABLE assignment_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to assignment rules" ON assignment_rules
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- COLLECTOR ASSIGNMENT PROFILES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS collector_assignment_profiles (
+    collector_id uuid PRIMARY KEY REFERENCES platform_users(id) ON DELETE CASCADE,
+    -- Two-letter state codes; NULL means licensed for every state
+    licensed_states text[],
+    -- Lowercase language names besides English
+    languages text[] NOT NULL DEFAULT '{}',
+    -- Most open accounts the collector should carry; NULL means no limit
+    max_accounts integer CHECK (max_accounts IS NULL OR max_accounts > 0),
+    -- Turned off when a collector is leaving or on leave
+    is_accepting boolean NOT NULL DEFAULT true,
+    updated_by uuid REFERENCES platform_users(id),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE collector_assignment_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to collector assignment profiles" ON collector_assignment_profiles
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- CONSUMER LANGUAGE
+-- ============================================================================
+
+ALTER TABLE persons ADD COLUMN IF NOT EXISTS preferred_language text;
+
+COMMENT ON COLUMN persons.preferred_language IS 'Language the consumer prefers to be contacted in, lowercase (e.g. spanish)';
+
+-- ============================================================================
+-- ASSIGNMENT LOG
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS account_assignment_log (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id uuid NOT NULL REFERENCES debt_accounts(id) ON DELETE CASCADE,
+    previous_collector_id uuid REFERENCES platform_users(id) ON DELETE SET NULL,
+    new_collector_id uuid REFERENCES platform_users(id) ON DELETE SET NULL,
+    rule_id uuid REFERENCES assignment_rules(id) ON DELETE SET NULL,
+    source text NOT NULL CHECK (source IN ('import', 'rule', 'bulk_reassignment', 'rebalance', 'manual')),
+    reason text,
+    -- NULL when the change was made by an import or scheduled run
+    changed_by uuid REFERENCES platform_users(id) ON DELETE SET NULL,
+    import_job_id uuid REFERENCES import_jobs(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_assignment_log_account_id ON account_assignment_log(account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_account_assignment_log_previous_collector ON account_assignment_log(previous_collector_id);
+CREATE INDEX IF NOT EXISTS idx_account_assignment_log_new_collector ON account_assignment_log(new_collector_id);
+
+ALTER TABLE account_assignment_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to account assignment log" ON account_assignment_log
+  FOR ALL USING (auth.role() = 'service_role');
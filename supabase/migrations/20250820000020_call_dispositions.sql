@@ -0,0 +1,74 @@
+-- Migration: Call logging with disposition codes
+-- Created: 2025-08-20
+-- Collectors wrap up each call with a disposition code. Codes map onto calls.call_result and can
+-- trigger follow-up actions on the account: record a promise to pay, schedule a callback, mark the
+-- dialled number wrong or flag the account do-not-call. Platform defaults apply to every agency;
+-- an agency can add its own codes or override a default by reusing its code.
+
+-- ============================================================================
+-- DISPOSITION CODES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS call_disposition_codes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- NULL for the platform defaults
+    agency_id uuid REFERENCES master_agencies(id) ON DELETE CASCADE,
+    code text NOT NULL CHECK (code ~ '^[a-z0-9_]+$'),
+    label text NOT NULL,
+    call_result text NOT NULL CHECK (call_result IN ('no_answer', 'left_message', 'spoke_to_debtor', 'spoke_to_relative', 'wrong_number', 'disconnected', 'do_not_call', 'promise_to_pay', 'payment_received', 'bankruptcy', 'deceased', 'other')),
+    actions text[] NOT NULL DEFAULT '{}'
+        CHECK (actions <@ ARRAY['set_promise', 'schedule_callback', 'mark_wrong_number', 'flag_do_not_call']::text[]),
+    -- Whether the collector reached the consumer (moves a new account to contacted)
+    is_right_party_contact boolean NOT NULL DEFAULT false,
+    sort_order integer NOT NULL DEFAULT 100,
+    is_active boolean NOT NULL DEFAULT true,
+    created_by uuid REFERENCES platform_users(id),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_call_disposition_codes_agency_code
+ON call_disposition_codes (COALESCE(agency_id, '00000000-0000-0000-0000-000000000000'::uuid), code);
+
+ALTER TABLE call_disposition_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to call disposition codes" ON call_disposition_codes
+  FOR ALL USING (auth.role() = 'service_role');
+
+INSERT INTO call_disposition_codes (agency_id, code, label, call_result, actions, is_right_party_contact, sort_order) VALUES
+  (NULL, 'promise_to_pay', 'Promise to pay', 'promise_to_pay', ARRAY['set_promise'], true, 10),
+  (NULL, 'callback_requested', 'Callback requested', 'spoke_to_debtor', ARRAY['schedule_callback'], true, 20),
+  (NULL, 'right_party_contact', 'Spoke to consumer', 'spoke_to_debtor', '{}', true, 30),
+  (NULL, 'payment_taken', 'Payment taken', 'payment_received', '{}', true, 40),
+  (NULL, 'third_party', 'Spoke to third party', 'spoke_to_relative', '{}', false, 50),
+  (NULL, 'left_message', 'Left message', 'left_message', '{}', false, 60),
+  (NULL, 'no_answer', 'No answer', 'no_answer', '{}', false, 70),
+  (NULL, 'wrong_number', 'Wrong number', 'wrong_number', ARRAY['mark_wrong_number'], false, 80),
+  (NULL, 'disconnected', 'Disconnected', 'disconnected', ARRAY['mark_wrong_number'], false, 90),
+  (NULL, 'cease_communication', 'Requested no further calls', 'do_not_call', ARRAY['flag_do_not_call'], true, 100),
+  (NULL, 'bankruptcy', 'Bankruptcy reported', 'bankruptcy', '{}', false, 110),
+  (NULL, 'deceased', 'Deceased reported', 'deceased', '{}', false, 120)
+ON CONFLICT DO NOTHING;
+
+-- ============================================================================
+-- CALLS
+-- ============================================================================
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS disposition_code text,
+ADD COLUMN IF NOT EXISTS phone_id uuid REFERENCES person_phones(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS callback_at timestamptz;
+
+COMMENT ON COLUMN calls.disposition_code IS 'Disposition code the collector wrapped the call up with';
+COMMENT ON COLUMN calls.callback_at IS 'Callback time scheduled on the call; next_call_date holds its date';
+
+CREATE INDEX IF NOT EXISTS idx_calls_collector_id_call_date ON calls(collector_id, call_date);
+
+-- ============================================================================
+-- WRONG NUMBERS
+-- ============================================================================
+
+ALTER TABLE person_phones
+ADD COLUMN IF NOT EXISTS is_wrong_number boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS wrong_number_reported_at timestamptz,
+ADD COLUMN IF NOT EXISTS wrong_number_reported_by uuid REFERENCES platform_users(id) ON DELETE SET NULL;
@@ -0,0 +1,81 @@
+-- Migration: Append-only account notes with versions, pinning and linked calls/payments
+-- Created: 2025-08-20
+-- Notes are never edited in place. Editing a note inserts a new version in the same note group and
+-- marks the previous version superseded, so the full wording history of every note is kept.
+-- Only pinning and the superseded markers can change on an existing row.
+
+-- ============================================================================
+-- DEBTOR NOTES
+-- ============================================================================
+
+ALTER TABLE debtor_notes
+ADD COLUMN IF NOT EXISTS is_pinned boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS call_id uuid REFERENCES calls(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS payment_id uuid REFERENCES debtor_payments(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS note_group_id uuid,
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS supersedes_id uuid REFERENCES debtor_notes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS superseded_at timestamptz,
+ADD COLUMN IF NOT EXISTS superseded_by uuid REFERENCES platform_users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN debtor_notes.note_group_id IS 'Id of the first version of the note; shared by all its versions';
+COMMENT ON COLUMN debtor_notes.supersedes_id IS 'The version this version replaced';
+COMMENT ON COLUMN debtor_notes.superseded_at IS 'When a newer version replaced this one; NULL for the current version';
+
+UPDATE debtor_notes SET note_group_id = id WHERE note_group_id IS NULL;
+
+-- A version can only be replaced once, so concurrent edits can't fork a note
+CREATE UNIQUE INDEX IF NOT EXISTS idx_debtor_notes_supersedes_id ON debtor_notes(supersedes_id) WHERE supersedes_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_debtor_notes_note_group_id ON debtor_notes(note_group_id, version);
+CREATE INDEX IF NOT EXISTS idx_debtor_notes_current ON debtor_notes(debtor_id, created_at) WHERE superseded_at IS NULL;
+
+-- ============================================================================
+-- APPEND-ONLY GUARD
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_debtor_note_group()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.note_group_id := COALESCE(NEW.note_group_id, NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_debtor_notes_group ON debtor_notes;
+CREATE TRIGGER trg_debtor_notes_group
+    BEFORE INSERT ON debtor_notes
+    FOR EACH ROW EXECUTE FUNCTION set_debtor_note_group();
+
+CREATE OR REPLACE FUNCTION prevent_debtor_note_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Links may still be cleared by ON DELETE SET NULL when the call, payment or version is deleted
+    IF NEW.note_text IS DISTINCT FROM OLD.note_text
+        OR NEW.note_type IS DISTINCT FROM OLD.note_type
+        OR NEW.is_private IS DISTINCT FROM OLD.is_private
+        OR NEW.debtor_id IS DISTINCT FROM OLD.debtor_id
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.original_author IS DISTINCT FROM OLD.original_author
+        OR NEW.source IS DISTINCT FROM OLD.source
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at
+        OR NEW.call_id IS DISTINCT FROM OLD.call_id AND NEW.call_id IS NOT NULL
+        OR NEW.payment_id IS DISTINCT FROM OLD.payment_id AND NEW.payment_id IS NOT NULL
+        OR NEW.note_group_id IS DISTINCT FROM OLD.note_group_id
+        OR NEW.version IS DISTINCT FROM OLD.version
+        OR NEW.supersedes_id IS DISTINCT FROM OLD.supersedes_id AND NEW.supersedes_id IS NOT NULL
+    THEN
+        RAISE EXCEPTION 'debtor_notes are append-only; save a new version instead of editing note %', OLD.id;
+    END IF;
+
+    IF OLD.superseded_at IS NOT NULL AND NEW.superseded_at IS DISTINCT FROM OLD.superseded_at THEN
+        RAISE EXCEPTION 'Note % has already been superseded', OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_debtor_notes_append_only ON debtor_notes;
+CREATE TRIGGER trg_debtor_notes_append_only
+    BEFORE UPDATE ON debtor_notes
+    FOR EACH ROW EXECUTE FUNCTION prevent_debtor_note_edits();
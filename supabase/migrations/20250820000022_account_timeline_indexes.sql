@@ -0,0 +1,11 @@
+-- Migration: Indexes for the account activity timeline
+-- Created: 2025-08-20
+-- The timeline reads audit entries by the account they concern: either the entry's resource_id,
+-- or the accountId in the details of entries about an account's calls and notes.
+
+-- ============================================================================
+-- AUDIT LOGS
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_resource_id ON audit_logs(resource_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_details_account_id ON audit_logs((details->>'accountId'), created_at);
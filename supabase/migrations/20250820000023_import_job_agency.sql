@@ -0,0 +1,20 @@
+-- Migration: Agency scope for import jobs
+-- Created: 2025-08-20
+-- Payment, note and call imports without a portfolio match accounts by number. The agency the
+-- job was uploaded for bounds that match, so a file can only touch its own agency's accounts.
+
+-- ============================================================================
+-- IMPORT JOBS
+-- ============================================================================
+
+ALTER TABLE import_jobs
+  ADD COLUMN IF NOT EXISTS agency_id uuid REFERENCES master_agencies(id) ON DELETE SET NULL;
+
+-- Jobs already naming a portfolio take its agency
+UPDATE import_jobs
+SET agency_id = master_portfolios.agency_id
+FROM master_portfolios
+WHERE import_jobs.portfolio_id = master_portfolios.id
+  AND import_jobs.agency_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_agency ON import_jobs(agency_id);
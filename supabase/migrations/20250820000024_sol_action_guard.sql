@@ -0,0 +1,54 @@
+-- Migration: Litigation and credit reporting on debt accounts, refused once time-barred
+-- Created: 2025-08-20
+-- Starting either action stamps the account. The API checks the account's SOL first; the trigger
+-- refuses the same change from any other writer, judging expiry by date as the API does.
+
+-- ============================================================================
+-- ACCOUNT ACTIONS
+-- ============================================================================
+
+ALTER TABLE debt_accounts
+ADD COLUMN IF NOT EXISTS litigation_started_at timestamptz,
+ADD COLUMN IF NOT EXISTS litigation_started_by uuid REFERENCES platform_users(id),
+ADD COLUMN IF NOT EXISTS credit_reporting_started_at timestamptz,
+ADD COLUMN IF NOT EXISTS credit_reporting_started_by uuid REFERENCES platform_users(id);
+
+COMMENT ON COLUMN debt_accounts.litigation_started_at IS 'When litigation was started; NULL when not in litigation';
+COMMENT ON COLUMN debt_accounts.credit_reporting_started_at IS 'When the account started being reported to the credit bureaus; NULL when not reported';
+
+-- ============================================================================
+-- TIME-BARRED GUARD
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prevent_time_barred_actions()
+RETURNS TRIGGER AS $$
+DECLARE
+    time_barred boolean := NEW.is_time_barred OR COALESCE(NEW.sol_expiration_date <= CURRENT_DATE, false);
+BEGIN
+    IF NOT time_barred THEN
+        RETURN NEW;
+    END IF;
+
+    -- Stopping an action (clearing the timestamp) is always allowed
+    IF NEW.litigation_started_at IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.litigation_started_at IS DISTINCT FROM OLD.litigation_started_at)
+    THEN
+        RAISE EXCEPTION 'Account % is time-barred; litigation is not allowed', NEW.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.credit_reporting_started_at IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.credit_reporting_started_at IS DISTINCT FROM OLD.credit_reporting_started_at)
+    THEN
+        RAISE EXCEPTION 'Account % is time-barred; credit reporting is not allowed', NEW.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_debt_accounts_time_barred_actions ON debt_accounts;
+CREATE TRIGGER trg_debt_accounts_time_barred_actions
+    BEFORE INSERT OR UPDATE OF litigation_started_at, credit_reporting_started_at ON debt_accounts
+    FOR EACH ROW EXECUTE FUNCTION prevent_time_barred_actions();
@@ -0,0 +1,24 @@
+-- Migration: Run import rollbacks on the import job queue
+-- Created: 2025-08-20
+-- A rollback walks the job's whole change log, so it runs as a leased, checkpointed 'rollback'
+-- task like staging and processing do. The job shows 'rolling_back' until the task finishes.
+
+-- ============================================================================
+-- IMPORT JOBS
+-- ============================================================================
+
+ALTER TABLE import_jobs DROP CONSTRAINT IF EXISTS import_jobs_status_check;
+
+ALTER TABLE import_jobs ADD CONSTRAINT import_jobs_status_check
+  CHECK (status IN ('pending', 'uploaded', 'validating', 'validated', 'processing', 'completed', 'failed', 'cancelled', 'rolling_back', 'rolled_back'));
+
+-- ============================================================================
+-- IMPORT JOB TASKS
+-- ============================================================================
+
+ALTER TABLE import_job_tasks DROP CONSTRAINT IF EXISTS import_job_tasks_task_type_check;
+
+ALTER TABLE import_job_tasks ADD CONSTRAINT import_job_tasks_task_type_check
+  CHECK (task_type IN ('stage', 'validate', 'process', 'rollback'));
+
+COMMENT ON COLUMN import_job_tasks.checkpoint IS 'Last committed position, e.g. {"staged_rows": 5000}, {"next_start_index": 1200} or {"before_change_seq": 8812}';
@@ -0,0 +1,20 @@
+-- Migration: One payment per processor reference, and idempotent import chunk replays
+-- Created: 2025-08-20
+-- The import checks for an existing processor reference before posting, which two workers can
+-- both pass; the unique index makes the second insert fail instead. Payments without a reference
+-- are not constrained. Any duplicate references already on file must be resolved first.
+
+-- ============================================================================
+-- DEBTOR PAYMENTS
+-- ============================================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_debtor_payments_processor_reference_unique
+  ON debtor_payments(processor_reference)
+  WHERE processor_reference IS NOT NULL;
+
+-- ============================================================================
+-- IMPORT JOB CHANGES
+-- ============================================================================
+
+-- A retried chunk looks up which of its rows already logged changes and skips them
+CREATE INDEX IF NOT EXISTS idx_import_job_changes_job_row ON import_job_changes(job_id, row_number);
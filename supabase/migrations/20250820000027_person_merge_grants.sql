@@ -0,0 +1,19 @@
+-- Migration: Keep person merge functions behind the API
+-- Created: 2025-08-20
+-- merge_persons and unmerge_persons run as SECURITY DEFINER. Functions are executable by PUBLIC
+-- by default, so PostgREST exposed them to anon and authenticated callers, skipping the merge
+-- routes' role and agency checks. Only the service role may call them now, and both resolve
+-- names against public alone.
+
+-- ============================================================================
+-- MERGE FUNCTIONS
+-- ============================================================================
+
+ALTER FUNCTION merge_persons(uuid, uuid[], uuid, text) SET search_path = public;
+ALTER FUNCTION unmerge_persons(uuid, uuid) SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_persons(uuid, uuid[], uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION unmerge_persons(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION merge_persons(uuid, uuid[], uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION unmerge_persons(uuid, uuid) TO service_role;
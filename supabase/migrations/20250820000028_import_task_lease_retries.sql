@@ -0,0 +1,67 @@
+-- Migration: Count expired leases against a task's attempts
+-- Created: 2025-08-20
+-- A task whose worker was killed (timeout, out of memory) used to be claimed again straight away
+-- with no limit, so a chunk that kills the function was retried on every worker run forever.
+-- Expired leases now go through the same rules as caught failures: re-queued with backoff while
+-- attempts remain, otherwise marked dead and the import job failed.
+
+-- ============================================================================
+-- CLAIM FUNCTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION claim_import_job_task(
+    p_worker_id text,
+    p_lease_seconds integer DEFAULT 120
+)
+RETURNS SETOF import_job_tasks AS $$
+BEGIN
+    -- Out of attempts: the task is dead and its job failed, or the stale-job recovery would
+    -- queue it straight back up
+    WITH dead AS (
+        UPDATE import_job_tasks
+        SET status = 'dead',
+            last_error = 'Lease expired: the worker stopped without finishing (timeout or crash)',
+            locked_by = NULL,
+            locked_until = NULL,
+            completed_at = now()
+        WHERE status = 'running'
+          AND locked_until < now()
+          AND attempts >= max_attempts
+        RETURNING job_id, max_attempts
+    )
+    UPDATE import_jobs j
+    SET status = 'failed',
+        error_message = format('Import task stopped without finishing %s times', dead.max_attempts),
+        completed_at = now()
+    FROM dead
+    WHERE j.id = dead.job_id;
+
+    -- Same backoff as failImportTask in lib/import/job-queue.ts: 30s doubling, capped at 30 minutes
+    UPDATE import_job_tasks
+    SET status = 'queued',
+        last_error = 'Lease expired: the worker stopped without finishing (timeout or crash)',
+        locked_by = NULL,
+        locked_until = NULL,
+        run_at = now() + make_interval(secs => LEAST(30 * power(2, GREATEST(attempts - 1, 0)), 1800))
+    WHERE status = 'running'
+      AND locked_until < now();
+
+    RETURN QUERY
+    UPDATE import_job_tasks t
+    SET status = 'running',
+        attempts = t.attempts + 1,
+        locked_by = p_worker_id,
+        locked_until = now() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = now()
+    WHERE t.id = (
+        SELECT id FROM import_job_tasks
+        WHERE status = 'queued' AND run_at <= now()
+        ORDER BY run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING t.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION claim_import_job_task(text, integer) TO service_role;
@@ -0,0 +1,41 @@
+-- Migration: Refuse litigation and credit reporting on accounts whose SOL was never computed
+-- Created: 2025-08-20
+-- is_time_barred and sol_expiration_date are empty on existing accounts until the scheduled
+-- refresh reaches them, which left those accounts unguarded. The API computes an account's SOL
+-- before starting an action; any other writer is refused until the SOL has been computed.
+
+-- ============================================================================
+-- TIME-BARRED GUARD
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prevent_time_barred_actions()
+RETURNS TRIGGER AS $$
+DECLARE
+    time_barred boolean := NEW.is_time_barred OR COALESCE(NEW.sol_expiration_date <= CURRENT_DATE, false);
+    starting_litigation boolean := NEW.litigation_started_at IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.litigation_started_at IS DISTINCT FROM OLD.litigation_started_at);
+    starting_credit_reporting boolean := NEW.credit_reporting_started_at IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.credit_reporting_started_at IS DISTINCT FROM OLD.credit_reporting_started_at);
+BEGIN
+    -- Stopping an action (clearing the timestamp) is always allowed
+    IF NOT (starting_litigation OR starting_credit_reporting) THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.sol_computed_at IS NULL THEN
+        RAISE EXCEPTION 'Account % has no statute of limitations computed yet; compute it before starting litigation or credit reporting', NEW.id;
+    END IF;
+
+    IF time_barred AND starting_litigation THEN
+        RAISE EXCEPTION 'Account % is time-barred; litigation is not allowed', NEW.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF time_barred AND starting_credit_reporting THEN
+        RAISE EXCEPTION 'Account % is time-barred; credit reporting is not allowed', NEW.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
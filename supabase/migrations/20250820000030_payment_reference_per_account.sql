@@ -0,0 +1,15 @@
+-- Migration: Scope processor reference uniqueness to the account
+-- Created: 2025-08-20
+-- References are only unique within one processor, and agencies take remittances from several,
+-- so the global index refused legitimate payments whose reference another processor had used.
+-- A reference now only needs to be unique on the account it was posted to.
+
+-- ============================================================================
+-- DEBTOR PAYMENTS
+-- ============================================================================
+
+DROP INDEX IF EXISTS idx_debtor_payments_processor_reference_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_debtor_payments_account_processor_reference_unique
+  ON debtor_payments(debtor_id, processor_reference)
+  WHERE processor_reference IS NOT NULL;
@@ -0,0 +1,19 @@
+-- Migration: Keep import task queue functions behind the worker
+-- Created: 2025-08-20
+-- claim_import_job_task and heartbeat_import_job_task run as SECURITY DEFINER. Functions are
+-- executable by PUBLIC by default, so PostgREST let anon and authenticated callers lease tasks,
+-- stalling imports, and read their payloads. Only the service role may call them now, and both
+-- resolve names against public alone.
+
+-- ============================================================================
+-- QUEUE FUNCTIONS
+-- ============================================================================
+
+ALTER FUNCTION claim_import_job_task(text, integer) SET search_path = public;
+ALTER FUNCTION heartbeat_import_job_task(uuid, text, integer, jsonb) SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_import_job_task(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION heartbeat_import_job_task(uuid, text, integer, jsonb) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION claim_import_job_task(text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION heartbeat_import_job_task(uuid, text, integer, jsonb) TO service_role;
@@ -0,0 +1,95 @@
+-- Migration: Scope identity candidates to the importing client or agency
+-- Created: 2025-08-20
+-- find_identity_candidates searched every agency's persons, so reviewers saw other agencies'
+-- people and rows could be linked to them. Candidates now need an account with the job's
+-- client (portfolio jobs) or in one of its agency's portfolios; with neither there are none.
+
+-- ============================================================================
+-- CANDIDATE SEARCH
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS find_identity_candidates(text, text, text, date, text, text, integer);
+
+CREATE OR REPLACE FUNCTION find_identity_candidates(
+    p_ssn text,
+    p_first_name text,
+    p_last_name text,
+    p_dob date,
+    p_address text,
+    p_phone text,
+    p_client_id uuid DEFAULT NULL,
+    p_agency_id uuid DEFAULT NULL,
+    p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+    person_id uuid,
+    ssn_match boolean,
+    ssn_conflict boolean,
+    name_score real,
+    dob_match boolean,
+    address_score real,
+    phone_match boolean
+) AS $$
+    WITH input AS (
+        SELECT
+            NULLIF(normalize_ssn(COALESCE(p_ssn, '')), '') AS ssn,
+            NULLIF(trim(concat_ws(' ', p_first_name, p_last_name)), '') AS full_name,
+            NULLIF(trim(COALESCE(p_last_name, '')), '') AS last_name,
+            NULLIF(trim(COALESCE(p_address, '')), '') AS address,
+            NULLIF(regexp_replace(COALESCE(p_phone, ''), '[^0-9]', '', 'g'), '') AS phone
+    ),
+    candidates AS (
+        SELECT p.id FROM persons p, input i
+        WHERE i.ssn IS NOT NULL AND normalize_ssn(p.ssn) = i.ssn
+        UNION
+        SELECT p.id FROM persons p, input i
+        WHERE i.last_name IS NOT NULL AND p.last_name % i.last_name
+        UNION
+        SELECT ph.person_id FROM person_phones ph, input i
+        WHERE i.phone IS NOT NULL AND regexp_replace(ph.number, '[^0-9]', '', 'g') = i.phone
+    ),
+    scoped AS (
+        SELECT c.id FROM candidates c
+        WHERE EXISTS (
+            SELECT 1 FROM debt_accounts da
+            LEFT JOIN master_portfolios mp ON mp.id = da.portfolio_id
+            WHERE da.person_id = c.id
+              AND (
+                  (p_client_id IS NOT NULL AND da.client_id = p_client_id)
+                  OR (p_client_id IS NULL AND p_agency_id IS NOT NULL AND mp.agency_id = p_agency_id)
+              )
+        )
+    ),
+    scored AS (
+        SELECT
+            p.id AS person_id,
+            (i.ssn IS NOT NULL AND normalize_ssn(p.ssn) = i.ssn) AS ssn_match,
+            (i.ssn IS NOT NULL AND NULLIF(normalize_ssn(COALESCE(p.ssn, '')), '') IS NOT NULL
+                AND normalize_ssn(p.ssn) <> i.ssn) AS ssn_conflict,
+            CASE WHEN i.full_name IS NULL THEN 0
+                ELSE similarity(lower(COALESCE(NULLIF(concat_ws(' ', p.first_name, p.last_name), ''), p.full_name, '')), lower(i.full_name))
+            END AS name_score,
+            (p_dob IS NOT NULL AND p.dob = p_dob) AS dob_match,
+            CASE WHEN i.address IS NULL THEN 0
+                ELSE COALESCE((
+                    SELECT max(similarity(lower(a.full_address), lower(i.address)))
+                    FROM person_addresses a
+                    WHERE a.person_id = p.id
+                ), 0)
+            END AS address_score,
+            (i.phone IS NOT NULL AND EXISTS (
+                SELECT 1 FROM person_phones ph
+                WHERE ph.person_id = p.id
+                  AND regexp_replace(ph.number, '[^0-9]', '', 'g') = i.phone
+            )) AS phone_match
+        FROM persons p
+        JOIN scoped s ON s.id = p.id
+        CROSS JOIN input i
+    )
+    SELECT * FROM scored
+    ORDER BY ssn_match DESC, dob_match DESC, name_score DESC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION find_identity_candidates(text, text, text, date, text, text, uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_identity_candidates(text, text, text, date, text, text, uuid, uuid, integer) TO service_role;
@@ -0,0 +1,62 @@
+-- Migration: Run import dry runs on the import job queue
+-- Created: 2025-08-20
+-- A dry run classifies every valid row, which outgrew the request timeout on large files. It now
+-- runs as a leased, checkpointed 'dry_run' task and looks rows up a page at a time; the job shows
+-- a dry run in progress from dry_run_started_at until dry_run_completed_at is set.
+
+-- ============================================================================
+-- IMPORT JOBS
+-- ============================================================================
+
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS dry_run_started_at timestamptz;
+
+COMMENT ON COLUMN import_jobs.dry_run_started_at IS 'When the current dry run was queued; its task only saves results while this still matches';
+
+-- ============================================================================
+-- IMPORT JOB TASKS
+-- ============================================================================
+
+ALTER TABLE import_job_tasks DROP CONSTRAINT IF EXISTS import_job_tasks_task_type_check;
+
+ALTER TABLE import_job_tasks ADD CONSTRAINT import_job_tasks_task_type_check
+  CHECK (task_type IN ('stage', 'validate', 'dry_run', 'process', 'rollback'));
+
+-- ============================================================================
+-- BATCHED CANDIDATE SEARCH
+-- ============================================================================
+
+-- find_identity_candidates for a page of rows in one call. p_rows is a JSON array of objects with
+-- ssn, first_name, last_name, dob, address and phone; row_index is the 0-based position in it.
+CREATE OR REPLACE FUNCTION find_identity_candidates_batch(
+    p_rows jsonb,
+    p_client_id uuid DEFAULT NULL,
+    p_agency_id uuid DEFAULT NULL,
+    p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+    row_index integer,
+    person_id uuid,
+    ssn_match boolean,
+    ssn_conflict boolean,
+    name_score real,
+    dob_match boolean,
+    address_score real,
+    phone_match boolean
+) AS $$
+    SELECT (r.ordinality - 1)::integer, c.*
+    FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(item, ordinality)
+    CROSS JOIN LATERAL find_identity_candidates(
+        r.item->>'ssn',
+        r.item->>'first_name',
+        r.item->>'last_name',
+        NULLIF(r.item->>'dob', '')::date,
+        r.item->>'address',
+        r.item->>'phone',
+        p_client_id,
+        p_agency_id,
+        p_limit
+    ) AS c;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION find_identity_candidates_batch(jsonb, uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_identity_candidates_batch(jsonb, uuid, uuid, integer) TO service_role;
@@ -0,0 +1,31 @@
+-- Migration: Keep collector assignment profiles per agency
+-- Created: 2025-08-20
+-- A profile was global per collector, so one agency stopping assignments to a collector (or
+-- changing their licensing or capacity) changed it for every agency they work for. Profiles are
+-- now kept per agency; existing ones are copied to each agency the collector is active in.
+
+-- ============================================================================
+-- COLLECTOR ASSIGNMENT PROFILES
+-- ============================================================================
+
+ALTER TABLE collector_assignment_profiles ADD COLUMN IF NOT EXISTS agency_id uuid REFERENCES master_agencies(id) ON DELETE CASCADE;
+
+ALTER TABLE collector_assignment_profiles DROP CONSTRAINT IF EXISTS collector_assignment_profiles_pkey;
+
+INSERT INTO collector_assignment_profiles (collector_id, agency_id, licensed_states, languages, max_accounts, is_accepting, updated_by, created_at, updated_at)
+SELECT DISTINCT ON (p.collector_id, r.organization_id)
+    p.collector_id, r.organization_id, p.licensed_states, p.languages, p.max_accounts, p.is_accepting, p.updated_by, p.created_at, p.updated_at
+FROM collector_assignment_profiles p
+JOIN user_roles r ON r.user_id = p.collector_id
+    AND r.organization_type = 'agency'
+    AND r.role_type IN ('agency_user', 'agency_admin')
+    AND r.is_active = true
+WHERE p.agency_id IS NULL;
+
+DELETE FROM collector_assignment_profiles WHERE agency_id IS NULL;
+
+ALTER TABLE collector_assignment_profiles ALTER COLUMN agency_id SET NOT NULL;
+
+ALTER TABLE collector_assignment_profiles ADD PRIMARY KEY (collector_id, agency_id);
+
+CREATE INDEX IF NOT EXISTS idx_collector_assignment_profiles_agency ON collector_assignment_profiles(agency_id);
@@ -0,0 +1,84 @@
+-- Migration: Aggregate collector queue counts for supervisor metrics
+-- Created: 2025-08-20
+-- The supervisor metrics page built each collector's full ranked queue in turn, reading every
+-- assigned account with its joins. collector_queue_counts classifies the accounts of all the
+-- requested collectors in one pass and returns counts and balances per collector, exclusion
+-- reason and state; the consumer calling-hours check stays in the app, which applies it per state.
+
+-- ============================================================================
+-- QUEUE COUNTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION collector_queue_counts(
+    p_collector_ids uuid[],
+    p_now timestamptz,
+    p_closed_collection_statuses text[],
+    p_closed_account_statuses text[]
+)
+RETURNS TABLE (
+    collector_id uuid,
+    -- NULL when the account is workable apart from calling hours
+    exclusion text,
+    sol_state text,
+    callback_due boolean,
+    promise_due boolean,
+    time_barred boolean,
+    account_count bigint,
+    balance numeric
+) AS $$
+    WITH input AS (
+        SELECT (p_now AT TIME ZONE 'UTC')::date AS today
+    ),
+    held AS (
+        SELECT DISTINCT e.collector_id, e.account_id
+        FROM collector_queue_events e
+        WHERE e.collector_id = ANY(p_collector_ids)
+          AND e.available_at > p_now
+    ),
+    classified AS (
+        SELECT
+            da.assigned_collector_id AS collector_id,
+            CASE
+                WHEN da.collection_status = ANY(p_closed_collection_statuses)
+                  OR da.account_status = ANY(p_closed_account_statuses) THEN 'closed'
+                WHEN COALESCE(da.current_balance, 0) <= 0 THEN 'zero_balance'
+                WHEN COALESCE(da.do_not_call, false) OR COALESCE(p.do_not_call, false)
+                  OR da.status = 'do_not_call' THEN 'do_not_call'
+                WHEN h.account_id IS NOT NULL THEN 'held'
+                WHEN da.next_contact_date > p_now THEN 'callback_scheduled'
+                WHEN da.promise_to_pay_date::date > i.today THEN 'promise_pending'
+            END AS exclusion,
+            da.sol_state,
+            da.next_contact_date IS NOT NULL AS callback_due,
+            -- A payment on or after the promise date kept it
+            COALESCE(
+                da.promise_to_pay_date::date <= i.today
+                AND (da.last_payment_date IS NULL OR da.last_payment_date::date < da.promise_to_pay_date::date),
+                false
+            ) AS promise_due,
+            CASE
+                WHEN da.sol_expiration_date IS NOT NULL THEN da.sol_expiration_date <= i.today
+                ELSE COALESCE(da.is_time_barred, false)
+            END AS time_barred,
+            COALESCE(da.current_balance, 0) AS balance
+        FROM debt_accounts da
+        CROSS JOIN input i
+        LEFT JOIN persons p ON p.id = da.person_id
+        LEFT JOIN held h ON h.collector_id = da.assigned_collector_id AND h.account_id = da.id
+        WHERE da.assigned_collector_id = ANY(p_collector_ids)
+    )
+    SELECT
+        c.collector_id,
+        c.exclusion,
+        c.sol_state,
+        c.callback_due,
+        c.promise_due,
+        c.time_barred,
+        count(*) AS account_count,
+        sum(c.balance) AS balance
+    FROM classified c
+    GROUP BY c.collector_id, c.exclusion, c.sol_state, c.callback_due, c.promise_due, c.time_barred;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION collector_queue_counts(uuid[], timestamptz, text[], text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION collector_queue_counts(uuid[], timestamptz, text[], text[]) TO service_role;
@@ -0,0 +1,62 @@
+-- Migration: Keep a note's author on every version and record who edited it
+-- Created: 2025-08-20
+-- Each new version of a note took the editor as its user_id, so an admin's edit made them the
+-- author: the original author could no longer edit the note or see it when private. user_id now
+-- stays the note's author on every version and edited_by records who saved the version.
+
+-- ============================================================================
+-- DEBTOR NOTES
+-- ============================================================================
+
+ALTER TABLE debtor_notes
+ADD COLUMN IF NOT EXISTS edited_by uuid REFERENCES platform_users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN debtor_notes.edited_by IS 'Who saved this version; NULL for the first version, which its author wrote';
+
+-- Versions saved so far carry the editor as user_id: move it to edited_by and restore the author
+-- from the note's first version. The append-only guard is lifted for this repair only.
+ALTER TABLE debtor_notes DISABLE TRIGGER trg_debtor_notes_append_only;
+
+UPDATE debtor_notes n
+SET edited_by = n.user_id,
+    user_id = first_version.user_id
+FROM debtor_notes first_version
+WHERE first_version.id = n.note_group_id
+  AND n.version > 1
+  AND n.edited_by IS NULL;
+
+ALTER TABLE debtor_notes ENABLE TRIGGER trg_debtor_notes_append_only;
+
+-- ============================================================================
+-- APPEND-ONLY GUARD
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prevent_debtor_note_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Links may still be cleared by ON DELETE SET NULL when the call, payment or version is deleted
+    IF NEW.note_text IS DISTINCT FROM OLD.note_text
+        OR NEW.note_type IS DISTINCT FROM OLD.note_type
+        OR NEW.is_private IS DISTINCT FROM OLD.is_private
+        OR NEW.debtor_id IS DISTINCT FROM OLD.debtor_id
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.edited_by IS DISTINCT FROM OLD.edited_by AND NEW.edited_by IS NOT NULL
+        OR NEW.original_author IS DISTINCT FROM OLD.original_author
+        OR NEW.source IS DISTINCT FROM OLD.source
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at
+        OR NEW.call_id IS DISTINCT FROM OLD.call_id AND NEW.call_id IS NOT NULL
+        OR NEW.payment_id IS DISTINCT FROM OLD.payment_id AND NEW.payment_id IS NOT NULL
+        OR NEW.note_group_id IS DISTINCT FROM OLD.note_group_id
+        OR NEW.version IS DISTINCT FROM OLD.version
+        OR NEW.supersedes_id IS DISTINCT FROM OLD.supersedes_id AND NEW.supersedes_id IS NOT NULL
+    THEN
+        RAISE EXCEPTION 'debtor_notes are append-only; save a new version instead of editing note %', OLD.id;
+    END IF;
+
+    IF OLD.superseded_at IS NOT NULL AND NEW.superseded_at IS DISTINCT FROM OLD.superseded_at THEN
+        RAISE EXCEPTION 'Note % has already been superseded', OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
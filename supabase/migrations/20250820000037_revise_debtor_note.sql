@@ -0,0 +1,57 @@
+-- Migration: Save note versions in one transaction
+-- Created: 2025-08-20
+-- Editing a note inserted the new version and then marked the old one superseded in a second
+-- request; when the second step failed the note had two current versions. revise_debtor_note
+-- does both in one transaction, superseding first so a concurrent edit of the same version finds
+-- it already replaced.
+
+-- ============================================================================
+-- NOTE REVISIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION revise_debtor_note(
+    p_note_id uuid,
+    p_edited_by uuid,
+    p_note_type text,
+    p_note_text text,
+    p_is_private boolean,
+    p_is_pinned boolean,
+    p_call_id uuid,
+    p_payment_id uuid
+)
+RETURNS uuid AS $$
+DECLARE
+    v_current debtor_notes%ROWTYPE;
+    v_revision_id uuid;
+BEGIN
+    UPDATE debtor_notes
+    SET superseded_at = now(),
+        superseded_by = p_edited_by
+    WHERE id = p_note_id
+      AND superseded_at IS NULL
+    RETURNING * INTO v_current;
+
+    -- Already replaced by another edit
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Author and source carry over, so an imported note keeps the previous agency's author;
+    -- the editor is recorded in edited_by
+    INSERT INTO debtor_notes (
+        debtor_id, user_id, original_author, source, edited_by, note_type, note_text, is_private, is_pinned,
+        call_id, payment_id, note_group_id, version, supersedes_id
+    )
+    VALUES (
+        v_current.debtor_id, v_current.user_id, v_current.original_author, v_current.source, p_edited_by,
+        p_note_type, p_note_text, p_is_private, p_is_pinned, p_call_id, p_payment_id,
+        COALESCE(v_current.note_group_id, v_current.id), v_current.version + 1, v_current.id
+    )
+    RETURNING id INTO v_revision_id;
+
+    RETURN v_revision_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION revise_debtor_note(uuid, uuid, text, text, boolean, boolean, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION revise_debtor_note(uuid, uuid, text, text, boolean, boolean, uuid, uuid) TO service_role;
@@ -0,0 +1,69 @@
+-- Migration: Keep a job validated when its dry run's lease runs out
+-- Created: 2025-08-20
+-- A task whose lease expired on its last attempt failed its job whatever the task was. A dry run
+-- that gives up in the worker leaves the job validated so it can be run again; an expired dry run
+-- now does the same, recording the error and clearing dry_run_started_at.
+
+-- ============================================================================
+-- CLAIM FUNCTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION claim_import_job_task(
+    p_worker_id text,
+    p_lease_seconds integer DEFAULT 120
+)
+RETURNS SETOF import_job_tasks AS $$
+BEGIN
+    -- Out of attempts: the task is dead and its job failed, or the stale-job recovery would
+    -- queue it straight back up. A dry run only reports the error.
+    WITH dead AS (
+        UPDATE import_job_tasks
+        SET status = 'dead',
+            last_error = 'Lease expired: the worker stopped without finishing (timeout or crash)',
+            locked_by = NULL,
+            locked_until = NULL,
+            completed_at = now()
+        WHERE status = 'running'
+          AND locked_until < now()
+          AND attempts >= max_attempts
+        RETURNING job_id, task_type, max_attempts
+    )
+    UPDATE import_jobs j
+    SET status = CASE WHEN dead.task_type = 'dry_run' THEN j.status ELSE 'failed' END,
+        error_message = CASE
+            WHEN dead.task_type = 'dry_run'
+                THEN format('Dry run failed: it stopped without finishing %s times', dead.max_attempts)
+            ELSE format('Import task stopped without finishing %s times', dead.max_attempts)
+        END,
+        completed_at = CASE WHEN dead.task_type = 'dry_run' THEN j.completed_at ELSE now() END,
+        dry_run_started_at = CASE WHEN dead.task_type = 'dry_run' THEN NULL ELSE j.dry_run_started_at END
+    FROM dead
+    WHERE j.id = dead.job_id;
+
+    -- Same backoff as failImportTask in lib/import/job-queue.ts: 30s doubling, capped at 30 minutes
+    UPDATE import_job_tasks
+    SET status = 'queued',
+        last_error = 'Lease expired: the worker stopped without finishing (timeout or crash)',
+        locked_by = NULL,
+        locked_until = NULL,
+        run_at = now() + make_interval(secs => LEAST(30 * power(2, GREATEST(attempts - 1, 0)), 1800))
+    WHERE status = 'running'
+      AND locked_until < now();
+
+    RETURN QUERY
+    UPDATE import_job_tasks t
+    SET status = 'running',
+        attempts = t.attempts + 1,
+        locked_by = p_worker_id,
+        locked_until = now() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = now()
+    WHERE t.id = (
+        SELECT id FROM import_job_tasks
+        WHERE status = 'queued' AND run_at <= now()
+        ORDER BY run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING t.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
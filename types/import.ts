@@ -6,11 +6,12 @@ export interface ImportJob {
   file_path: string | null
   file_size: number
   file_type: string
-  import_type: 'portfolios' | 'accounts' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace'
+  import_type: 'portfolios' | 'accounts' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace' | 'payments' | 'notes' | 'calls'
   portfolio_id: string | null
   template_id: string | null
+  template_version_id?: string | null
   user_id: string | null
-  status: 'pending' | 'uploaded' | 'validating' | 'validated' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  status: 'pending' | 'uploaded' | 'validating' | 'validated' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'rolling_back' | 'rolled_back'
   progress: number | null
   total_rows: number | null
   processed_rows: number | null
@@ -27,6 +28,78 @@ export interface ImportJob {
   created_at: string | null
   updated_at: string | null
   completed_at: string | null
+  import_mode?: 'insert' | 'update' | 'upsert'
+  dry_run_results?: ImportDryRunResults | null
+  dry_run_started_at?: string | null
+  dry_run_completed_at?: string | null
+  dry_run_approved_at?: string | null
+  dry_run_approved_by?: string | null
+  rolled_back_at?: string | null
+  rolled_back_by?: string | null
+  rollback_summary?: Record<string, any> | null
+  sheet_config?: ImportSheetConfig | null
+  source_headers?: string[] | null
+  // Set on jobs that resubmit another job's corrected failed rows
+  parent_job_id?: string | null
+  // Originals only, once failed rows have been resubmitted
+  combined_totals?: ImportFamilyTotals | null
+}
+
+// Totals across an original job and the jobs resubmitting its corrected failed rows
+export interface ImportFamilyTotals {
+  // Resubmissions made from the original job
+  childJobs: number
+  // Data rows in the original file
+  totalRows: number
+  // Rows imported by the original and its resubmissions together
+  successfulRows: number
+  // Rows from the original file not yet imported by any of them
+  outstandingRows: number
+}
+
+// Multi-sheet workbooks: child sheets joined to the primary sheet by account number
+export type RelatedSheetType = 'phones' | 'addresses' | 'payments'
+
+export interface RelatedSheetMapping {
+  sheet: string
+  type: RelatedSheetType
+  // Column holding the account number that matches original_account_number on the primary sheet
+  joinColumn: string
+  fieldMapping: Record<string, string>
+}
+
+export interface ImportSheetConfig {
+  primarySheet: string
+  related: RelatedSheetMapping[]
+}
+
+export interface ImportDryRunSample {
+  rowNumber: number
+  label: string
+  details?: Record<string, any>
+}
+
+export interface ImportDryRunResults {
+  generatedAt: string
+  importType: string
+  importMode: string
+  counts: {
+    newPersons: number
+    matchedPersons: number
+    newAccounts: number
+    updatedAccounts: number
+    unchangedAccounts: number
+    identityReviews: number
+    rejectedRows: number
+  }
+  samples: {
+    newPersons: ImportDryRunSample[]
+    matchedPersons: ImportDryRunSample[]
+    newAccounts: ImportDryRunSample[]
+    updatedAccounts: ImportDryRunSample[]
+    identityReviews: ImportDryRunSample[]
+    rejectedRows: ImportDryRunSample[]
+  }
 }
 
 export interface ImportJobCreate {
@@ -34,7 +107,7 @@ export interface ImportJobCreate {
   file_path: string | null
   file_size: number
   file_type: string
-  import_type: 'portfolios' | 'accounts' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace'
+  import_type: 'portfolios' | 'accounts' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace' | 'payments' | 'notes' | 'calls'
   portfolio_id?: string | null
   template_id?: string | null
   user_id?: string | null
@@ -62,12 +135,16 @@ export interface ImportTemplate {
   id: string
   name: string
   description: string | null
-  import_type: 'persons' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace'
+  import_type: 'persons' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace' | 'payments' | 'notes' | 'calls'
   required_columns: string[]
   optional_columns: string[] | null
   field_mappings: any | null
   validation_rules: any | null
+  transform_rules?: TransformRule[] | null
+  file_name_pattern?: string | null
   sample_data: any | null
+  current_version_id?: string | null
+  current_version?: number | null
   created_by: string | null
   created_at: string | null
   updated_at: string | null
@@ -76,11 +153,13 @@ export interface ImportTemplate {
 export interface ImportTemplateCreate {
   name: string
   description?: string | null
-  import_type: 'persons' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace'
+  import_type: 'persons' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace' | 'payments' | 'notes' | 'calls'
   required_columns: string[]
   optional_columns?: string[] | null
   field_mappings?: any | null
   validation_rules?: any | null
+  transform_rules?: TransformRule[] | null
+  file_name_pattern?: string | null
   sample_data?: any | null
   created_by?: string | null
 }
@@ -88,14 +167,38 @@ export interface ImportTemplateCreate {
 export interface ImportTemplateUpdate {
   name?: string
   description?: string | null
-  import_type?: 'persons' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace'
+  import_type?: 'persons' | 'debt_accounts' | 'clients' | 'agencies' | 'skip_trace' | 'payments' | 'notes' | 'calls'
   required_columns?: string[]
   optional_columns?: string[] | null
   field_mappings?: any | null
   validation_rules?: any | null
+  transform_rules?: TransformRule[] | null
+  file_name_pattern?: string | null
   sample_data?: any | null
 }
 
+// Template transformation rules, applied in order to each mapped row during staging
+export type TransformRule =
+  | { type: 'split'; source: string; separator: string; targets: string[] }
+  | { type: 'concat'; sources: string[]; target: string; separator?: string }
+  | { type: 'regex_extract'; source: string; pattern: string; target: string; group?: number }
+  | { type: 'regex_replace'; source: string; pattern: string; replacement: string; target: string }
+  | { type: 'date_format'; source: string; format: string; target: string }
+  | { type: 'lookup'; source: string; table: Record<string, string>; target: string; fallback?: string }
+  | { type: 'default'; target: string; value: string }
+  | {
+      type: 'conditional'
+      when: TransformCondition
+      then: TransformRule[]
+      otherwise?: TransformRule[]
+    }
+
+export interface TransformCondition {
+  source: string
+  operator: 'equals' | 'not_equals' | 'contains' | 'matches' | 'empty' | 'not_empty'
+  value?: string
+}
+
 export interface ImportError {
   row_number: number
   field: string
@@ -105,9 +208,24 @@ export interface ImportError {
 
 export interface ValidationRule {
   field: string
-  rule: 'required' | 'email' | 'phone' | 'ssn' | 'currency' | 'date' | 'enum'
-  message: string
+  rule: 'required' | 'email' | 'phone' | 'ssn' | 'currency' | 'date' | 'enum' | 'range' | 'regex' | 'compare' | 'unique'
+  // Generated from the rule when omitted
+  message?: string
+  // Errors reject the row; warnings are reported but the row still imports. Defaults to error.
+  severity?: 'error' | 'warning'
   options?: string[] // for enum validation
+  min?: number | string // for range validation; dates for date fields
+  max?: number | string
+  pattern?: string // for regex validation
+  compareTo?: string // for compare validation, the other field
+  operator?: 'before' | 'after' | 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'ne'
+}
+
+export interface ImportSheetPreview {
+  name: string
+  headers: string[]
+  total_rows: number
+  sample_rows: any[]
 }
 
 export interface ImportPreview {
@@ -117,10 +235,12 @@ export interface ImportPreview {
   file_type: string
   file_size: number
   validation_errors?: string[]
+  // Every worksheet of a workbook; headers/sample_rows above are for the first one
+  sheets?: ImportSheetPreview[]
 }
 
 export interface ImportConfig {
-  import_type: 'persons' | 'debtors' | 'clients' | 'agencies' | 'skip_trace'
+  import_type: 'persons' | 'debtors' | 'clients' | 'agencies' | 'skip_trace' | 'payments' | 'notes' | 'calls'
   template_id?: string
   column_mapping: Record<string, string>
   validation_rules: ValidationRule[]
@@ -172,6 +292,7 @@ export interface DebtorImportRow {
   ssn?: string
   first_name?: string
   last_name?: string
+  preferred_language?: string
   // Account information
   account_number?: string
   original_creditor?: string
@@ -682,6 +803,41 @@ export interface AgencyImportRow {
   subscription_plan?: string
 }
 
+// Payment import row type
+export interface PaymentImportRow {
+  original_account_number?: string
+  account_number?: string
+  payment_date: string
+  payment_amount: string
+  payment_method?: string
+  payment_status?: string
+  processor_reference?: string
+  payment_reference?: string
+  payment_notes?: string
+}
+
+// Note import row type
+export interface NoteImportRow {
+  original_account_number?: string
+  account_number?: string
+  note_date: string
+  note_text: string
+  note_type?: string
+  author?: string
+}
+
+// Call history import row type
+export interface CallImportRow {
+  original_account_number?: string
+  account_number?: string
+  call_date: string
+  call_result?: string
+  call_duration?: string
+  call_notes?: string
+  collector?: string
+  phone_number?: string
+}
+
 // API response types
 export interface ImportJobsResponse {
   jobs: ImportJob[]